@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   StyleSheet,
@@ -10,10 +10,11 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { useAuthColors } from '@/hooks/use-auth-colors';
 import { useAppDispatch, useAppSelector } from '@/hooks/use-redux';
-import { signin, clearSigninError } from '@/store/authSlice';
+import { signin, clearSigninError, clearSigninLockout } from '@/store/authSlice';
 import { useToast } from '@/hooks/use-toast';
 import { storage } from '@/utils/storage';
 import { isValidEmail } from '@/utils/validation';
+import { getDeviceInfo } from '@/utils/device';
 import { useDebounce } from '@/hooks/use-debounce';
 import { AuthHeader } from '@/components/signin/auth-header';
 import { EmailInput } from '@/components/signin/email-input';
@@ -25,6 +26,7 @@ import { SignUpLink } from '@/components/signin/sign-up-link';
 import { AuthFooter } from '@/components/signin/auth-footer';
 import { AuthFormCard } from '@/components/signin/auth-form-card';
 import { OptionsRow } from '@/components/signin/options-row';
+import { LockoutNotice } from '@/components/signin/lockout-notice';
 
 export default function SignInPage() {
   const [showPassword, setShowPassword] = useState(false);
@@ -41,7 +43,7 @@ export default function SignInPage() {
 
   const { containerBg } = useAuthColors();
   const dispatch = useAppDispatch();
-  const { signinLoading, signinError, isAuthenticated } = useAppSelector(
+  const { signinLoading, signinError, signinLockout, isAuthenticated } = useAppSelector(
     (state) => state.auth
   );
   const { showError, showSuccess } = useToast();
@@ -87,7 +89,7 @@ export default function SignInPage() {
     if (isAuthenticated) {
       showSuccess('Login successful!', 'Welcome back');
       // Navigate to dashboard after successful login
-      router.replace('/(main)/dashboard');
+      router.replace('/(main)/(tabs)/dashboard');
     }
   }, [isAuthenticated]);
 
@@ -99,7 +101,16 @@ export default function SignInPage() {
     }
   }, [signinError]);
 
+  const handleLockoutExpire = useCallback(() => {
+    dispatch(clearSigninLockout());
+  }, [dispatch]);
+
   const handleSubmit = async () => {
+    // Wait out the countdown after failed attempts
+    if (signinLockout) {
+      return;
+    }
+
     // Validate inputs
     if (!email || !password) {
       showError('Please fill in all fields');
@@ -124,12 +135,16 @@ export default function SignInPage() {
       const result = await dispatch(signin({ 
         email, 
         password,
+        ...getDeviceInfo(),
         signal: abortControllerRef.current.signal,
       }));
       if (signin.fulfilled.match(result)) {
         // Save remember me preference and email
         await storage.saveRememberMe(rememberMe, rememberMe ? email : undefined);
-        // Navigation handled by useEffect
+        if ('twoFactorRequired' in result.payload) {
+          router.push('/(auth)/two-factor');
+        }
+        // Otherwise navigation handled by useEffect
       }
     } catch (error) {
       // Request was cancelled, ignore error
@@ -179,10 +194,15 @@ export default function SignInPage() {
                   <ForgotPasswordLink />
                 </OptionsRow>
 
+                {signinLockout && (
+                  <LockoutNotice lockout={signinLockout} onExpire={handleLockoutExpire} />
+                )}
+
                 <SubmitButton
                   label="Sign In"
                   onPress={handleSubmit}
                   loading={signinLoading}
+                  disabled={!!signinLockout}
                 />
               </View>
 
@@ -16,6 +16,7 @@ import { useToast } from '@/hooks/use-toast';
 import { isValidEmail, isValidName } from '@/utils/validation';
 import { useDebounce } from '@/hooks/use-debounce';
 import { signUpSchema } from '@/utils/validation-schemas';
+import { getDeviceInfo } from '@/utils/device';
 import { ThemedText } from '@/components/themed-text';
 import { AuthHeader } from '@/components/signin/auth-header';
 import { EmailInput } from '@/components/signin/email-input';
@@ -141,6 +142,9 @@ export default function SignUpPage() {
           email,
           password,
           confirmPassword,
+          // Reports group days and months in the device's time zone
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          ...getDeviceInfo(),
           signal: abortControllerRef.current.signal,
         })
       );
@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useAppDispatch, useAppSelector } from '@/hooks/use-redux';
+import {
+  verifyTwoFactor,
+  clearVerifyTwoFactorError,
+  clearTwoFactorChallenge,
+  clearSigninLockout,
+} from '@/store/authSlice';
+import { useToast } from '@/hooks/use-toast';
+import { getDeviceInfo } from '@/utils/device';
+import { AuthHeader } from '@/components/signin/auth-header';
+import { SubmitButton } from '@/components/signin/submit-button';
+import { AuthFooter } from '@/components/signin/auth-footer';
+import { AuthFormCard } from '@/components/signin/auth-form-card';
+import { LockoutNotice } from '@/components/signin/lockout-notice';
+import { ThemedText } from '@/components/themed-text';
+
+/**
+ * Second step of signing in when two-factor is on: a code from the
+ * authenticator app, or a recovery code if the device is lost
+ */
+export default function TwoFactorPage() {
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const { containerBg, textColor, inputBg, borderColor, placeholderColor } = useAuthColors();
+  const dispatch = useAppDispatch();
+  const {
+    twoFactorChallenge,
+    verifyTwoFactorLoading,
+    verifyTwoFactorError,
+    signinLockout,
+    isAuthenticated,
+  } = useAppSelector((state) => state.auth);
+  const { showError } = useToast();
+
+  useEffect(() => {
+    dispatch(clearVerifyTwoFactorError());
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, [dispatch]);
+
+  // Without a challenge (say, the app was restarted) there's nothing to
+  // answer. Once verified, sign-in underneath shows the welcome and navigates.
+  useEffect(() => {
+    if (!twoFactorChallenge && !isAuthenticated) {
+      if (router.canGoBack()) {
+        router.back();
+      } else {
+        router.replace('/(auth)/sign-in');
+      }
+    }
+  }, [twoFactorChallenge, isAuthenticated]);
+
+  useEffect(() => {
+    if (verifyTwoFactorError) {
+      showError(verifyTwoFactorError);
+      dispatch(clearVerifyTwoFactorError());
+    }
+  }, [verifyTwoFactorError, dispatch, showError]);
+
+  const handleLockoutExpire = useCallback(() => {
+    dispatch(clearSigninLockout());
+  }, [dispatch]);
+
+  const handleSubmit = async () => {
+    // Wait out the countdown after wrong codes
+    if (signinLockout) {
+      return;
+    }
+
+    const trimmed = code.trim();
+    if (useRecoveryCode ? !trimmed : !/^\d{6}$/.test(trimmed)) {
+      showError(useRecoveryCode ? 'Please enter a recovery code' : 'Please enter the 6-digit code');
+      return;
+    }
+
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = new AbortController();
+
+    const result = await dispatch(
+      verifyTwoFactor({
+        code: trimmed,
+        ...getDeviceInfo(),
+        signal: abortControllerRef.current.signal,
+      })
+    );
+    if (verifyTwoFactor.rejected.match(result)) {
+      setCode('');
+    }
+  };
+
+  const handleCancel = () => {
+    dispatch(clearTwoFactorChallenge());
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: containerBg }]} edges={['top']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.content}>
+            <AuthHeader subtitle="Two-factor authentication" />
+
+            <AuthFormCard>
+              <View style={styles.form}>
+                <ThemedText style={[styles.description, { color: textColor }]}>
+                  {useRecoveryCode
+                    ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication. Each code works once.'
+                    : 'Enter the 6-digit code from your authenticator app.'}
+                </ThemedText>
+
+                <TextInput
+                  key={useRecoveryCode ? 'recovery' : 'totp'}
+                  value={code}
+                  onChangeText={setCode}
+                  placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                  placeholderTextColor={placeholderColor}
+                  style={[
+                    styles.codeInput,
+                    { backgroundColor: inputBg, borderColor, color: textColor },
+                  ]}
+                  keyboardType={useRecoveryCode ? 'default' : 'number-pad'}
+                  textContentType={useRecoveryCode ? 'none' : 'oneTimeCode'}
+                  autoComplete={useRecoveryCode ? 'off' : 'one-time-code'}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  maxLength={useRecoveryCode ? 20 : 6}
+                  autoFocus
+                  onSubmitEditing={handleSubmit}
+                  accessibilityLabel={useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+                />
+
+                {signinLockout && (
+                  <LockoutNotice lockout={signinLockout} onExpire={handleLockoutExpire} />
+                )}
+
+                <SubmitButton
+                  label="Verify"
+                  onPress={handleSubmit}
+                  loading={verifyTwoFactorLoading}
+                  disabled={!!signinLockout}
+                />
+              </View>
+
+              <TouchableOpacity
+                style={styles.link}
+                onPress={toggleMode}
+                accessibilityRole="button"
+              >
+                <ThemedText style={styles.linkText}>
+                  {useRecoveryCode ? 'Use your authenticator app' : 'Use a recovery code'}
+                </ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.link} onPress={handleCancel} accessibilityRole="button">
+                <ThemedText style={[styles.backText, { color: textColor }]}>
+                  Back to sign in
+                </ThemedText>
+              </TouchableOpacity>
+            </AuthFormCard>
+
+            <AuthFooter />
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 16,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    maxWidth: 400,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  form: {
+    gap: 20,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: 'center',
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  codeInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 24,
+    letterSpacing: 4,
+    textAlign: 'center',
+  },
+  link: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  backText: {
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,72 @@
+import { router, Tabs } from 'expo-router';
+import React from 'react';
+import { TouchableOpacity } from 'react-native';
+
+import { HapticTab } from '@/components/haptic-tab';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+export default function TabLayout() {
+  const activeColor = useThemeColor({ light: '#2563EB', dark: '#60A5FA' }, 'tabIconSelected');
+  const inactiveColor = useThemeColor({}, 'tabIconDefault');
+
+  return (
+    <Tabs
+      screenOptions={{
+        tabBarActiveTintColor: activeColor,
+        tabBarInactiveTintColor: inactiveColor,
+        tabBarButton: HapticTab,
+        // Quick add from any tab; the dashboard has its own button
+        headerRight: () => (
+          <TouchableOpacity
+            onPress={() => router.push('/(main)/transactions/quick-add')}
+            style={{ paddingHorizontal: 16 }}
+            accessibilityRole="button"
+            accessibilityLabel="Add transaction"
+            hitSlop={8}
+          >
+            <IconSymbol size={26} name="plus" color={activeColor} />
+          </TouchableOpacity>
+        ),
+      }}
+    >
+      <Tabs.Screen
+        name="dashboard"
+        options={{
+          title: 'Dashboard',
+          // The dashboard has its own header with the greeting
+          headerShown: false,
+          tabBarIcon: ({ color }) => <IconSymbol size={26} name="house.fill" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="transactions"
+        options={{
+          title: 'Transactions',
+          tabBarIcon: ({ color }) => <IconSymbol size={26} name="list.bullet" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="budgets"
+        options={{
+          title: 'Budgets',
+          tabBarIcon: ({ color }) => <IconSymbol size={26} name="chart.pie.fill" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="reports"
+        options={{
+          title: 'Reports',
+          tabBarIcon: ({ color }) => <IconSymbol size={26} name="chart.bar.fill" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="settings"
+        options={{
+          title: 'Settings',
+          tabBarIcon: ({ color }) => <IconSymbol size={26} name="gearshape.fill" color={color} />,
+        }}
+      />
+    </Tabs>
+  );
+}
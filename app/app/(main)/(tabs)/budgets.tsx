@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, ScrollView, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Skeleton } from '@/components/skeleton';
+import { BudgetProgress, BudgetProgressSkeleton } from '@/components/budget-progress';
+import { useAppSelector } from '@/hooks/use-redux';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { budgetsApi } from '@/services/budgets';
+import type { BudgetWithCategory } from '@/services/api';
+import { formatMoney } from '@/utils/money';
+import { startOfMonth, todayIn } from '@/utils/report-periods';
+
+/**
+ * Readable name of a YYYY-MM month
+ * @example formatMonth('2024-03') // "March 2024"
+ */
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  try {
+    return new Intl.DateTimeFormat(undefined, {
+      month: 'long',
+      year: 'numeric',
+      timeZone: 'UTC',
+    }).format(new Date(Date.UTC(year, monthIndex - 1, 1)));
+  } catch {
+    return month;
+  }
+};
+
+export default function BudgetsPage() {
+  const { user } = useAppSelector((state) => state.auth);
+  const { containerBg, cardBg, borderColor, textColor, placeholderColor } = useAuthColors();
+
+  const currentMonth = todayIn(user?.timezone).slice(0, 7);
+  const [month, setMonth] = useState(currentMonth);
+  const [budgets, setBudgets] = useState<BudgetWithCategory[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    budgetsApi
+      .list(month, controller.signal)
+      .then((response) => {
+        if (controller.signal.aborted) return;
+        if (response.success && response.data) {
+          setBudgets(response.data.budgets);
+          setError('');
+        } else {
+          setError(response.message || 'Failed to load budgets');
+        }
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setError('Failed to load budgets');
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return;
+        setLoading(false);
+        setRefreshing(false);
+      });
+    return () => controller.abort();
+  }, [month, reloadKey]);
+
+  const shiftMonth = (months: number) => {
+    setMonth(startOfMonth(`${month}-01`, months).slice(0, 7));
+  };
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    setReloadKey((key) => key + 1);
+  };
+
+  const currency = user?.currency ?? 'USD';
+  const showSkeletons = !budgets || (loading && !refreshing);
+  const spent = budgets?.reduce((sum, budget) => sum + budget.status.spent, 0) ?? 0;
+  const available = budgets?.reduce((sum, budget) => sum + budget.status.available, 0) ?? 0;
+  const muted = { color: placeholderColor };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: containerBg }]} edges={['left', 'right']}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <View style={styles.monthRow}>
+          <TouchableOpacity
+            style={styles.monthButton}
+            onPress={() => shiftMonth(-1)}
+            accessibilityRole="button"
+            accessibilityLabel="Previous month"
+          >
+            <IconSymbol name="chevron.left" size={22} color={textColor} />
+          </TouchableOpacity>
+          <ThemedText style={styles.month}>{formatMonth(month)}</ThemedText>
+          <TouchableOpacity
+            style={styles.monthButton}
+            onPress={() => shiftMonth(1)}
+            disabled={month >= currentMonth}
+            accessibilityRole="button"
+            accessibilityLabel="Next month"
+            accessibilityState={{ disabled: month >= currentMonth }}
+          >
+            <IconSymbol
+              name="chevron.right"
+              size={22}
+              color={month >= currentMonth ? placeholderColor : textColor}
+            />
+          </TouchableOpacity>
+        </View>
+
+        {error ? <ThemedText style={styles.error}>{error}</ThemedText> : null}
+
+        <View style={[styles.card, { backgroundColor: cardBg, borderColor }]}>
+          <ThemedText style={[styles.totalLabel, muted]}>Spent of available</ThemedText>
+          {showSkeletons ? (
+            <Skeleton height={24} width="60%" style={styles.totalSkeleton} />
+          ) : (
+            <ThemedText style={styles.total}>
+              {formatMoney(spent, currency)} / {formatMoney(available, currency)}
+            </ThemedText>
+          )}
+        </View>
+
+        <ThemedText style={[styles.sectionTitle, muted]}>BY CATEGORY</ThemedText>
+        <View style={[styles.card, { backgroundColor: cardBg, borderColor }]}>
+          {showSkeletons ? (
+            <BudgetProgressSkeleton rows={4} />
+          ) : budgets.length === 0 ? (
+            <ThemedText style={[styles.empty, muted]}>No budgets for this month</ThemedText>
+          ) : (
+            budgets.map((budget) => (
+              <BudgetProgress key={budget._id} budget={budget} currency={currency} />
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  monthButton: {
+    padding: 8,
+  },
+  month: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  error: {
+    fontSize: 13,
+    marginBottom: 12,
+    color: '#DC2626',
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    padding: 16,
+  },
+  totalLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  total: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginTop: 4,
+  },
+  totalSkeleton: {
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 24,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  empty: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+});
@@ -0,0 +1,594 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Skeleton } from '@/components/skeleton';
+import { BudgetProgress, BudgetProgressSkeleton } from '@/components/budget-progress';
+import { DonutChart } from '@/components/charts/donut-chart';
+import { LineChart } from '@/components/charts/line-chart';
+import { PeriodSelector } from '@/components/period-selector';
+import { useAppSelector } from '@/hooks/use-redux';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { reportsApi } from '@/services/reports';
+import { budgetsApi } from '@/services/budgets';
+import { transactionsApi } from '@/services/transactions';
+import { categoriesApi } from '@/services/categories';
+import type {
+  BudgetWithCategory,
+  Category,
+  CategoryReport,
+  ComparisonReport,
+  IncomeExpenseReport,
+  ReportChange,
+  Transaction,
+} from '@/services/api';
+import { formatMoney } from '@/utils/money';
+import {
+  monthLabel,
+  presetRange,
+  todayIn,
+  trailingYear,
+  type DateRange,
+  type PeriodPreset,
+} from '@/utils/report-periods';
+
+const RECENT_LIMIT = 5;
+// Smaller categories are grouped as "Other" so the legend stays short
+const DONUT_SLICES = 5;
+
+interface DashboardData {
+  comparison: ComparisonReport | null;
+  categories: CategoryReport | null;
+  trend: IncomeExpenseReport | null;
+  budgets: BudgetWithCategory[] | null;
+  recent: Transaction[] | null;
+  categoryNames: Map<string, string>;
+}
+
+/**
+ * Every report of the dashboard for a period. Sections load independently,
+ * so one failing request leaves the others on screen.
+ */
+const loadDashboard = async (
+  range: DateRange,
+  signal: AbortSignal
+): Promise<{ data: DashboardData; failed: boolean }> => {
+  const [comparison, categories, trend, budgets, recent, tree] = await Promise.all([
+    reportsApi.comparison({ ...range, type: 'expense' }, signal),
+    reportsApi.byCategory({ ...range, type: 'expense' }, signal),
+    reportsApi.incomeVsExpense(trailingYear(range.to), signal),
+    // Budgets are monthly, so they follow the month the period ends in
+    budgetsApi.list(range.to.slice(0, 7), signal),
+    transactionsApi.list({ limit: RECENT_LIMIT }, signal),
+    categoriesApi.list(undefined, signal),
+  ]);
+
+  const categoryNames = new Map<string, string>();
+  const addNames = (items: Category[]) =>
+    items.forEach((category) => {
+      categoryNames.set(category._id, category.name);
+      addNames(category.children ?? []);
+    });
+  addNames(tree.data?.categories ?? []);
+
+  return {
+    data: {
+      comparison: comparison.data ?? null,
+      categories: categories.data ?? null,
+      trend: trend.data ?? null,
+      budgets: budgets.data?.budgets ?? null,
+      recent: recent.data?.transactions ?? null,
+      categoryNames,
+    },
+    failed: [comparison, categories, trend, budgets, recent].some(
+      (response) => !response.success
+    ),
+  };
+};
+
+const formatChange = (change: ReportChange) =>
+  change.percent === null
+    ? 'No previous data'
+    : `${change.percent > 0 ? '+' : ''}${change.percent}% vs previous`;
+
+const formatDay = (date: string, timeZone?: string) => {
+  try {
+    return new Date(date).toLocaleDateString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      timeZone,
+    });
+  } catch {
+    return date.slice(0, 10);
+  }
+};
+
+export default function DashboardPage() {
+  const { user } = useAppSelector((state) => state.auth);
+  const { containerBg, cardBg, borderColor, textColor, placeholderColor } = useAuthColors();
+  const incomeColor = useThemeColor({}, 'income');
+  const expenseColor = useThemeColor({}, 'expense');
+  const trackColor = useThemeColor({}, 'skeleton');
+  const iconColor = useThemeColor({}, 'icon');
+
+  const timezone = user?.timezone;
+  const today = todayIn(timezone);
+  const [preset, setPreset] = useState<PeriodPreset>('this-month');
+  const [range, setRange] = useState<DateRange>(() => presetRange('this-month', today));
+  const [data, setData] = useState<DashboardData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const { from, to } = range;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    loadDashboard({ from, to }, controller.signal)
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        setData(result.data);
+        setFailed(result.failed);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setFailed(true);
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return;
+        setLoading(false);
+        setRefreshing(false);
+      });
+    return () => controller.abort();
+  }, [from, to, reloadKey]);
+
+  const handlePeriodChange = (nextPreset: PeriodPreset, nextRange: DateRange) => {
+    setPreset(nextPreset);
+    setRange(nextRange);
+  };
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    // Presets move with the calendar, e.g. this month after midnight on the 1st
+    if (preset !== 'custom') setRange(presetRange(preset, today));
+    setReloadKey((key) => key + 1);
+  };
+
+  // Keep what is on screen while pulling to refresh
+  const showSkeletons = !data || (loading && !refreshing);
+  const currency = data?.comparison?.currency ?? user?.currency ?? 'USD';
+  const money = (amount: number, code = currency) => formatMoney(amount, code);
+
+  const card = [styles.card, { backgroundColor: cardBg, borderColor }];
+  const muted = { color: placeholderColor };
+
+  const renderSummary = () => {
+    const comparison = data?.comparison;
+    const items = [
+      { key: 'income', label: 'Income', color: incomeColor },
+      { key: 'expense', label: 'Expense', color: expenseColor },
+      { key: 'net', label: 'Net', color: textColor },
+    ] as const;
+
+    return (
+      <View style={styles.summary}>
+        {items.map((item) => (
+          <View key={item.key} style={[card, styles.summaryCard]}>
+            <ThemedText style={[styles.summaryLabel, muted]}>{item.label}</ThemedText>
+            {showSkeletons ? (
+              <>
+                <Skeleton height={22} style={styles.summarySkeleton} />
+                <Skeleton height={12} width="70%" />
+              </>
+            ) : !comparison ? (
+              <ThemedText style={styles.summaryValue}>—</ThemedText>
+            ) : (
+              <>
+                <ThemedText
+                  style={[styles.summaryValue, { color: item.color }]}
+                  numberOfLines={1}
+                  adjustsFontSizeToFit
+                >
+                  {money(comparison.current[item.key])}
+                </ThemedText>
+                <ThemedText style={[styles.summaryChange, muted]} numberOfLines={1}>
+                  {formatChange(comparison.change[item.key])}
+                </ThemedText>
+              </>
+            )}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderBudgets = () => {
+    if (showSkeletons) {
+      return <BudgetProgressSkeleton />;
+    }
+    const budgets = data?.budgets ?? [];
+    if (budgets.length === 0) {
+      return <ThemedText style={[styles.empty, muted]}>No budgets for this month</ThemedText>;
+    }
+    return budgets.map((budget) => (
+      <BudgetProgress key={budget._id} budget={budget} currency={currency} />
+    ));
+  };
+
+  const renderCategories = () => {
+    if (showSkeletons) {
+      return (
+        <View style={styles.donutRow}>
+          <Skeleton width={140} height={140} radius={70} />
+          <View style={styles.legend}>
+            {[0, 1, 2, 3].map((index) => (
+              <Skeleton key={index} height={14} />
+            ))}
+          </View>
+        </View>
+      );
+    }
+    const report = data?.categories;
+    if (!report || report.total === 0) {
+      return <ThemedText style={[styles.empty, muted]}>No spending in this period</ThemedText>;
+    }
+
+    const slices = report.categories.slice(0, DONUT_SLICES).map((row) => ({
+      key: row.category?._id ?? 'uncategorized',
+      label: row.category?.name ?? 'Uncategorized',
+      value: row.total,
+      color: row.category?.color ?? iconColor,
+    }));
+    const rest = report.categories
+      .slice(DONUT_SLICES)
+      .reduce((sum, row) => sum + row.total, 0);
+    if (rest > 0) {
+      slices.push({ key: 'other', label: 'Other', value: rest, color: trackColor });
+    }
+
+    return (
+      <View style={styles.donutRow}>
+        <DonutChart
+          segments={slices}
+          size={140}
+          thickness={18}
+          accessibilityLabel={`Spending by category: ${slices
+            .map((slice) => `${slice.label} ${money(slice.value)}`)
+            .join(', ')}`}
+        >
+          <ThemedText style={[styles.donutCaption, muted]}>Spent</ThemedText>
+          <ThemedText style={styles.donutTotal} numberOfLines={1} adjustsFontSizeToFit>
+            {money(report.total)}
+          </ThemedText>
+        </DonutChart>
+        <View style={styles.legend}>
+          {slices.map((slice) => (
+            <View key={slice.key} style={styles.legendRow}>
+              <View style={[styles.dot, { backgroundColor: slice.color }]} />
+              <ThemedText style={styles.legendLabel} numberOfLines={1}>
+                {slice.label}
+              </ThemedText>
+              <ThemedText style={[styles.legendShare, muted]}>
+                {Math.round((slice.value / report.total) * 100)}%
+              </ThemedText>
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderTrend = () => {
+    if (showSkeletons || !data?.trend) {
+      return showSkeletons ? (
+        <Skeleton height={160} />
+      ) : (
+        <ThemedText style={[styles.empty, muted]}>Trend unavailable</ThemedText>
+      );
+    }
+    const { months } = data.trend;
+    return (
+      <>
+        <LineChart
+          labels={months.map((row) => monthLabel(row.month).charAt(0))}
+          series={[
+            { key: 'income', color: incomeColor, values: months.map((row) => row.income) },
+            { key: 'expense', color: expenseColor, values: months.map((row) => row.expense) },
+          ]}
+          accessibilityLabel={`Income and expense over the last ${months.length} months`}
+        />
+        <View style={styles.trendLegend}>
+          {[
+            { label: 'Income', color: incomeColor },
+            { label: 'Expense', color: expenseColor },
+          ].map((item) => (
+            <View key={item.label} style={styles.legendRow}>
+              <View style={[styles.dot, { backgroundColor: item.color }]} />
+              <ThemedText style={[styles.trendLabel, muted]}>{item.label}</ThemedText>
+            </View>
+          ))}
+        </View>
+      </>
+    );
+  };
+
+  const renderRecent = () => {
+    if (showSkeletons) {
+      return [0, 1, 2].map((index) => (
+        <View key={index} style={[styles.transaction, { borderBottomColor: borderColor }]}>
+          <View style={styles.transactionDetails}>
+            <Skeleton height={14} width="60%" />
+            <Skeleton height={12} width="30%" style={styles.metaSkeleton} />
+          </View>
+          <Skeleton height={14} width={64} />
+        </View>
+      ));
+    }
+    const recent = data?.recent ?? [];
+    if (recent.length === 0) {
+      return <ThemedText style={[styles.empty, muted]}>No transactions yet</ThemedText>;
+    }
+    return recent.map((transaction) => {
+      const categoryName = transaction.category
+        ? data?.categoryNames.get(transaction.category)
+        : transaction.splits.length > 0
+          ? 'Split'
+          : undefined;
+      const title = transaction.note || categoryName || 'Transaction';
+      const sign =
+        transaction.type === 'income' ? '+' : transaction.type === 'expense' ? '−' : '';
+      const amountColor =
+        transaction.type === 'income'
+          ? incomeColor
+          : transaction.type === 'expense'
+            ? expenseColor
+            : textColor;
+      return (
+        <View
+          key={transaction._id}
+          style={[styles.transaction, { borderBottomColor: borderColor }]}
+        >
+          <View style={styles.transactionDetails}>
+            <ThemedText style={styles.transactionTitle} numberOfLines={1}>
+              {title}
+            </ThemedText>
+            <ThemedText style={[styles.transactionMeta, muted]} numberOfLines={1}>
+              {formatDay(transaction.date, timezone)}
+              {transaction.note && categoryName ? ` · ${categoryName}` : ''}
+            </ThemedText>
+          </View>
+          <ThemedText style={[styles.transactionAmount, { color: amountColor }]}>
+            {sign}
+            {money(transaction.amount, transaction.currency)}
+          </ThemedText>
+        </View>
+      );
+    });
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: containerBg }]} edges={['top']}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <ThemedText type="title" style={styles.title}>
+              Dashboard
+            </ThemedText>
+            {user && (
+              <ThemedText style={[styles.welcomeText, muted]}>Welcome, {user.name}!</ThemedText>
+            )}
+          </View>
+        </View>
+
+        <PeriodSelector
+          preset={preset}
+          range={range}
+          today={today}
+          onChange={handlePeriodChange}
+        />
+
+        {failed && !loading && (
+          <ThemedText style={styles.error}>
+            Some reports could not be loaded. Pull down to try again.
+          </ThemedText>
+        )}
+
+        {renderSummary()}
+
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => router.push('/(main)/transactions/quick-add')}
+          accessibilityRole="button"
+          accessibilityLabel="Add transaction"
+        >
+          <IconSymbol name="plus" size={20} color="#FFFFFF" />
+          <Text style={styles.addButtonText}>Add transaction</Text>
+        </TouchableOpacity>
+
+        <ThemedText style={[styles.sectionTitle, muted]}>BUDGETS</ThemedText>
+        <View style={card}>{renderBudgets()}</View>
+
+        <ThemedText style={[styles.sectionTitle, muted]}>SPENDING BY CATEGORY</ThemedText>
+        <View style={card}>{renderCategories()}</View>
+
+        <ThemedText style={[styles.sectionTitle, muted]}>LAST 12 MONTHS</ThemedText>
+        <View style={card}>{renderTrend()}</View>
+
+        <ThemedText style={[styles.sectionTitle, muted]}>RECENT TRANSACTIONS</ThemedText>
+        <View style={[card, styles.list]}>{renderRecent()}</View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+  },
+  welcomeText: {
+    fontSize: 16,
+    marginTop: 4,
+  },
+  error: {
+    fontSize: 13,
+    marginTop: 12,
+    color: '#DC2626',
+  },
+  summary: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  summaryCard: {
+    flex: 1,
+    padding: 12,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginTop: 4,
+  },
+  summarySkeleton: {
+    marginTop: 6,
+    marginBottom: 6,
+  },
+  summaryChange: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#2563EB',
+  },
+  addButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 24,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    padding: 16,
+  },
+  list: {
+    paddingVertical: 0,
+  },
+  empty: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  metaSkeleton: {
+    marginTop: 8,
+  },
+  donutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  donutCaption: {
+    fontSize: 12,
+  },
+  donutTotal: {
+    fontSize: 16,
+    fontWeight: '700',
+    maxWidth: 96,
+  },
+  legend: {
+    flex: 1,
+    gap: 8,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendLabel: {
+    flex: 1,
+    fontSize: 13,
+  },
+  trendLabel: {
+    fontSize: 13,
+  },
+  legendShare: {
+    fontSize: 13,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  trendLegend: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 12,
+  },
+  transaction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  transactionDetails: {
+    flex: 1,
+  },
+  transactionTitle: {
+    fontSize: 15,
+  },
+  transactionMeta: {
+    fontSize: 12,
+  },
+  transactionAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,341 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, ScrollView, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ThemedText } from '@/components/themed-text';
+import { Skeleton } from '@/components/skeleton';
+import { PeriodSelector } from '@/components/period-selector';
+import { useAppSelector } from '@/hooks/use-redux';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { reportsApi } from '@/services/reports';
+import type {
+  ComparisonReport,
+  DailyAverageReport,
+  ReportChange,
+  TopPayeesReport,
+} from '@/services/api';
+import { formatMoney } from '@/utils/money';
+import {
+  presetRange,
+  todayIn,
+  type DateRange,
+  type PeriodPreset,
+} from '@/utils/report-periods';
+
+type ReportType = 'expense' | 'income';
+
+const TYPES: { value: ReportType; label: string }[] = [
+  { value: 'expense', label: 'Spending' },
+  { value: 'income', label: 'Income' },
+];
+
+interface ReportsData {
+  comparison: ComparisonReport | null;
+  dailyAverage: DailyAverageReport | null;
+  topPayees: TopPayeesReport | null;
+}
+
+const loadReports = async (range: DateRange, type: ReportType, signal: AbortSignal) => {
+  const [comparison, dailyAverage, topPayees] = await Promise.all([
+    reportsApi.comparison({ ...range, type }, signal),
+    reportsApi.dailyAverage({ ...range, type }, signal),
+    reportsApi.topPayees({ ...range, type, limit: 5 }, signal),
+  ]);
+  return {
+    data: {
+      comparison: comparison.data ?? null,
+      dailyAverage: dailyAverage.data ?? null,
+      topPayees: topPayees.data ?? null,
+    },
+    failed: [comparison, dailyAverage, topPayees].some((response) => !response.success),
+  };
+};
+
+const formatPercent = (change: ReportChange) =>
+  change.percent === null ? '—' : `${change.percent > 0 ? '+' : ''}${change.percent}%`;
+
+export default function ReportsPage() {
+  const { user } = useAppSelector((state) => state.auth);
+  const { containerBg, cardBg, borderColor, placeholderColor } = useAuthColors();
+  const incomeColor = useThemeColor({}, 'income');
+  const expenseColor = useThemeColor({}, 'expense');
+  const iconColor = useThemeColor({}, 'icon');
+
+  const today = todayIn(user?.timezone);
+  const [preset, setPreset] = useState<PeriodPreset>('this-month');
+  const [range, setRange] = useState<DateRange>(() => presetRange('this-month', today));
+  const [type, setType] = useState<ReportType>('expense');
+  const [data, setData] = useState<ReportsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const { from, to } = range;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    loadReports({ from, to }, type, controller.signal)
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        setData(result.data);
+        setFailed(result.failed);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setFailed(true);
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return;
+        setLoading(false);
+        setRefreshing(false);
+      });
+    return () => controller.abort();
+  }, [from, to, type, reloadKey]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    if (preset !== 'custom') setRange(presetRange(preset, today));
+    setReloadKey((key) => key + 1);
+  };
+
+  const showSkeletons = !data || (loading && !refreshing);
+  const currency = data?.comparison?.currency ?? user?.currency ?? 'USD';
+  const money = (amount: number) => formatMoney(amount, currency);
+  const accent = type === 'income' ? incomeColor : expenseColor;
+  const card = [styles.card, { backgroundColor: cardBg, borderColor }];
+  const muted = { color: placeholderColor };
+
+  const renderRows = (count: number) =>
+    Array.from({ length: count }, (_, index) => (
+      <View key={index} style={styles.row}>
+        <Skeleton height={14} width="55%" />
+        <Skeleton height={14} width={64} />
+      </View>
+    ));
+
+  const renderOverview = () => {
+    const comparison = data?.comparison;
+    const average = data?.dailyAverage;
+    if (showSkeletons) {
+      return (
+        <>
+          <Skeleton height={28} width="50%" />
+          <Skeleton height={14} width="70%" style={styles.skeletonGap} />
+        </>
+      );
+    }
+    if (!comparison) {
+      return <ThemedText style={[styles.empty, muted]}>Report unavailable</ThemedText>;
+    }
+    return (
+      <>
+        <ThemedText style={[styles.total, { color: accent }]}>
+          {money(comparison.current[type])}
+        </ThemedText>
+        <ThemedText style={[styles.caption, muted]}>
+          {formatPercent(comparison.change[type])} vs {money(comparison.previous[type])} the
+          period before
+        </ThemedText>
+        {average && (
+          <ThemedText style={[styles.caption, muted]}>
+            {money(average.average)} a day over {average.days}{' '}
+            {average.days === 1 ? 'day' : 'days'}
+          </ThemedText>
+        )}
+      </>
+    );
+  };
+
+  const renderCategories = () => {
+    if (showSkeletons) return renderRows(4);
+    // Largest first; the comparison orders by change
+    const categories = (data?.comparison?.categories ?? [])
+      .filter((row) => row.current > 0)
+      .sort((a, b) => b.current - a.current);
+    const total = data?.comparison?.current[type] ?? 0;
+    if (categories.length === 0) {
+      return <ThemedText style={[styles.empty, muted]}>Nothing in this period</ThemedText>;
+    }
+    return categories.map((row) => (
+      <View key={row.category?._id ?? 'uncategorized'} style={styles.category}>
+        <View style={styles.row}>
+          <View style={[styles.dot, { backgroundColor: row.category?.color ?? iconColor }]} />
+          <ThemedText style={styles.rowLabel} numberOfLines={1}>
+            {row.category?.name ?? 'Uncategorized'}
+          </ThemedText>
+          <ThemedText style={styles.rowValue}>{money(row.current)}</ThemedText>
+        </View>
+        <ThemedText style={[styles.rowMeta, muted]}>
+          {total > 0 ? `${Math.round((row.current / total) * 100)}% of total · ` : ''}
+          {formatPercent(row.change)} vs previous
+        </ThemedText>
+      </View>
+    ));
+  };
+
+  const renderPayees = () => {
+    if (showSkeletons) return renderRows(3);
+    const payees = data?.topPayees?.payees ?? [];
+    if (payees.length === 0) {
+      return <ThemedText style={[styles.empty, muted]}>No payees in this period</ThemedText>;
+    }
+    return payees.map((row) => (
+      <View key={row.payee._id} style={styles.row}>
+        <ThemedText style={styles.rowLabel} numberOfLines={1}>
+          {row.payee.name}
+        </ThemedText>
+        <ThemedText style={[styles.rowMeta, muted]}>
+          {row.count} {row.count === 1 ? 'transaction' : 'transactions'}
+        </ThemedText>
+        <ThemedText style={styles.rowValue}>{money(row.total)}</ThemedText>
+      </View>
+    ));
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: containerBg }]} edges={['left', 'right']}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <View style={[styles.segments, { borderColor }]}>
+          {TYPES.map((option) => {
+            const selected = option.value === type;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.segment, selected && styles.segmentSelected]}
+                onPress={() => setType(option.value)}
+                accessibilityRole="radio"
+                accessibilityLabel={option.label}
+                accessibilityState={{ selected }}
+              >
+                <ThemedText style={selected ? styles.segmentTextSelected : undefined}>
+                  {option.label}
+                </ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <PeriodSelector
+          preset={preset}
+          range={range}
+          today={today}
+          onChange={(nextPreset, nextRange) => {
+            setPreset(nextPreset);
+            setRange(nextRange);
+          }}
+        />
+
+        {failed && !loading && (
+          <ThemedText style={styles.error}>
+            Some reports could not be loaded. Pull down to try again.
+          </ThemedText>
+        )}
+
+        <View style={[card, styles.overview]}>{renderOverview()}</View>
+
+        <ThemedText style={[styles.sectionTitle, muted]}>BY CATEGORY</ThemedText>
+        <View style={card}>{renderCategories()}</View>
+
+        <ThemedText style={[styles.sectionTitle, muted]}>TOP PAYEES</ThemedText>
+        <View style={card}>{renderPayees()}</View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  segments: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  segmentSelected: {
+    backgroundColor: '#2563EB',
+  },
+  segmentTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  error: {
+    fontSize: 13,
+    marginTop: 12,
+    color: '#DC2626',
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    padding: 16,
+  },
+  overview: {
+    marginTop: 16,
+  },
+  total: {
+    fontSize: 28,
+    lineHeight: 34,
+    fontWeight: '700',
+  },
+  caption: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  skeletonGap: {
+    marginTop: 10,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 24,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  empty: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  category: {
+    paddingVertical: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 15,
+  },
+  rowValue: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    fontSize: 12,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+});
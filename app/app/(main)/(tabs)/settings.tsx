@@ -0,0 +1,132 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useAppDispatch, useAppSelector } from '@/hooks/use-redux';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { signout } from '@/store/authSlice';
+
+export default function SettingsPage() {
+  const { user } = useAppSelector((state) => state.auth);
+  const dispatch = useAppDispatch();
+  const { containerBg, cardBg, borderColor, textColor, placeholderColor } = useAuthColors();
+
+  const handleSignOut = () => {
+    Alert.alert('Sign out?', 'You will need to sign in again to use the app on this device.', [
+      { text: 'Cancel', style: 'cancel' },
+      // AuthGuard takes the user back to sign-in once credentials are cleared
+      { text: 'Sign out', style: 'destructive', onPress: () => dispatch(signout()) },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: containerBg }]} edges={['left', 'right']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText style={[styles.sectionTitle, { color: placeholderColor }]}>
+          PREFERENCES
+        </ThemedText>
+        <View style={[styles.card, { backgroundColor: cardBg, borderColor }]}>
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() => router.push('/(main)/settings/currency')}
+            accessibilityRole="button"
+            accessibilityLabel={`Base currency, ${user?.currency ?? ''}`}
+          >
+            <IconSymbol name="dollarsign.circle.fill" size={22} color={textColor} />
+            <ThemedText style={styles.rowLabel}>Base currency</ThemedText>
+            <ThemedText style={[styles.rowValue, { color: placeholderColor }]}>
+              {user?.currency}
+            </ThemedText>
+            <IconSymbol name="chevron.right" size={18} color={placeholderColor} />
+          </TouchableOpacity>
+        </View>
+
+        <ThemedText style={[styles.sectionTitle, styles.sectionSpacing, { color: placeholderColor }]}>
+          DATA
+        </ThemedText>
+        <View style={[styles.card, { backgroundColor: cardBg, borderColor }]}>
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() => router.push('/(main)/settings/export')}
+            accessibilityRole="button"
+            accessibilityLabel="Export transactions"
+          >
+            <IconSymbol name="square.and.arrow.up" size={22} color={textColor} />
+            <ThemedText style={styles.rowLabel}>Export transactions</ThemedText>
+            <IconSymbol name="chevron.right" size={18} color={placeholderColor} />
+          </TouchableOpacity>
+        </View>
+
+        <ThemedText style={[styles.sectionTitle, styles.sectionSpacing, { color: placeholderColor }]}>
+          ACCOUNT
+        </ThemedText>
+        <View style={[styles.card, { backgroundColor: cardBg, borderColor }]}>
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() => router.push('/(main)/settings/security')}
+            accessibilityRole="button"
+            accessibilityLabel="Security"
+          >
+            <IconSymbol name="lock.fill" size={22} color={textColor} />
+            <ThemedText style={styles.rowLabel}>Security</ThemedText>
+            <IconSymbol name="chevron.right" size={18} color={placeholderColor} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.row, styles.rowDivider, { borderTopColor: borderColor }]}
+            onPress={handleSignOut}
+            accessibilityRole="button"
+            accessibilityLabel="Sign out"
+          >
+            <IconSymbol name="rectangle.portrait.and.arrow.right" size={22} color="#DC2626" />
+            <ThemedText style={[styles.rowLabel, styles.signOut]}>Sign out</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  sectionSpacing: {
+    marginTop: 24,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    gap: 12,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 16,
+  },
+  rowValue: {
+    fontSize: 16,
+  },
+  rowDivider: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  signOut: {
+    color: '#DC2626',
+  },
+});
@@ -0,0 +1,636 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  SectionList,
+  TextInput,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import ReanimatedSwipeable, {
+  type SwipeableMethods,
+} from 'react-native-gesture-handler/ReanimatedSwipeable';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { ThemedText } from '@/components/themed-text';
+import { Skeleton } from '@/components/skeleton';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { TransactionFilterSheet } from '@/components/transaction-filter-sheet';
+import { useAppSelector } from '@/hooks/use-redux';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { useDebounce } from '@/hooks/use-debounce';
+import { useToast } from '@/hooks/use-toast';
+import { transactionsApi } from '@/services/transactions';
+import { accountsApi } from '@/services/accounts';
+import { categoriesApi } from '@/services/categories';
+import { tagsApi } from '@/services/tags';
+import type { Account, Category, Tag, Transaction, TransactionDay } from '@/services/api';
+import { formatMoney } from '@/utils/money';
+import { toLocalDate } from '@/utils/report-periods';
+import {
+  countFilters,
+  parseFilters,
+  toFilterParams,
+  toListQuery,
+  type TransactionFilters,
+} from '@/utils/transaction-filters';
+
+const PAGE_SIZE = 30;
+
+interface Lookups {
+  accounts: Account[];
+  categories: Category[];
+  tags: Tag[];
+}
+
+interface DaySection {
+  date: string;
+  data: Transaction[];
+}
+
+/**
+ * Consecutive transactions of the same local day, newest day first
+ */
+const groupByDay = (transactions: Transaction[], timeZone?: string): DaySection[] => {
+  const sections: DaySection[] = [];
+  for (const transaction of transactions) {
+    const date = toLocalDate(new Date(transaction.date), timeZone);
+    const last = sections[sections.length - 1];
+    if (last?.date === date) {
+      last.data.push(transaction);
+    } else {
+      sections.push({ date, data: [transaction] });
+    }
+  }
+  return sections;
+};
+
+const formatDayTitle = (date: string) => {
+  try {
+    return new Intl.DateTimeFormat(undefined, {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    }).format(new Date(`${date}T00:00:00Z`));
+  } catch {
+    return date;
+  }
+};
+
+// Transfers and split transactions are edited elsewhere
+const isEditable = (transaction: Transaction) =>
+  transaction.type !== 'transfer' && transaction.splits.length === 0;
+
+export default function TransactionsPage() {
+  const { user } = useAppSelector((state) => state.auth);
+  const { containerBg, cardBg, borderColor, textColor, inputBg, placeholderColor } =
+    useAuthColors();
+  const incomeColor = useThemeColor({}, 'income');
+  const expenseColor = useThemeColor({}, 'expense');
+  const { showError, showSuccess } = useToast();
+
+  const params = useLocalSearchParams();
+  const filters = parseFilters(params);
+  // Stable while the URL filters are unchanged, for effect dependencies
+  const filterKey = JSON.stringify(toFilterParams(filters));
+  const timezone = user?.timezone;
+  const currency = user?.currency ?? 'USD';
+
+  const [search, setSearch] = useState(filters.q);
+  const debouncedSearch = useDebounce(search.trim(), 400);
+  const [sheetVisible, setSheetVisible] = useState(false);
+  const [lookups, setLookups] = useState<Lookups>({ accounts: [], categories: [], tags: [] });
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [days, setDays] = useState<Map<string, TransactionDay>>(new Map());
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  // Bumped whenever the first page reloads, so stale next pages are dropped
+  const generation = useRef(0);
+  const focused = useRef(false);
+  const searchParam = useRef(filters.q);
+
+  const setFilters = (next: TransactionFilters) => router.setParams(toFilterParams(next));
+
+  // The search box follows the URL when a deep link changes it, but not when
+  // the change is its own, which would drop anything typed since
+  useEffect(() => {
+    if (filters.q !== searchParam.current) {
+      searchParam.current = filters.q;
+      setSearch(filters.q);
+    }
+  }, [filters.q]);
+
+  useEffect(() => {
+    if (debouncedSearch !== searchParam.current) {
+      searchParam.current = debouncedSearch;
+      router.setParams({ q: debouncedSearch || undefined });
+    }
+  }, [debouncedSearch]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    Promise.all([
+      accountsApi.list(false, controller.signal),
+      categoriesApi.list(undefined, controller.signal),
+      tagsApi.list(controller.signal),
+    ]).then(([accounts, categories, tags]) => {
+      if (controller.signal.aborted) return;
+      setLookups({
+        accounts: accounts.data?.accounts ?? [],
+        categories: categories.data?.categories ?? [],
+        tags: tags.data?.tags ?? [],
+      });
+    });
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const current = ++generation.current;
+    setLoading(true);
+    transactionsApi
+      .list(
+        { ...toListQuery(parseFilters(JSON.parse(filterKey)), currency), limit: PAGE_SIZE },
+        controller.signal
+      )
+      .then((response) => {
+        if (controller.signal.aborted) return;
+        const page = response.data;
+        setFailed(!response.success || !page);
+        setTransactions(page?.transactions ?? []);
+        setDays(new Map((page?.days ?? []).map((day) => [day.date, day])));
+        setNextCursor(page?.pagination.nextCursor ?? null);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setFailed(true);
+      })
+      .finally(() => {
+        if (controller.signal.aborted || current !== generation.current) return;
+        setLoading(false);
+        setRefreshing(false);
+        setLoadingMore(false);
+      });
+    return () => controller.abort();
+  }, [filterKey, currency, reloadKey]);
+
+  // Coming back from the edit screen shows the saved changes
+  useFocusEffect(
+    useCallback(() => {
+      if (focused.current) setReloadKey((key) => key + 1);
+      focused.current = true;
+    }, [])
+  );
+
+  const handleEndReached = async () => {
+    if (!nextCursor || loading || loadingMore) return;
+    const current = generation.current;
+    setLoadingMore(true);
+    try {
+      const response = await transactionsApi.list({
+        ...toListQuery(filters, currency),
+        cursor: nextCursor,
+        limit: PAGE_SIZE,
+      });
+      if (current !== generation.current) return;
+      const page = response.data;
+      if (!response.success || !page) {
+        showError(response.message || 'Failed to load more transactions');
+        return;
+      }
+      setTransactions((existing) => [...existing, ...page.transactions]);
+      // A day split across pages gets the same totals from both
+      setDays((existing) => {
+        const merged = new Map(existing);
+        page.days.forEach((day) => merged.set(day.date, day));
+        return merged;
+      });
+      setNextCursor(page.pagination.nextCursor);
+    } finally {
+      if (current === generation.current) setLoadingMore(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    setReloadKey((key) => key + 1);
+  };
+
+  const removeLocally = (transaction: Transaction) => {
+    // Deleting one leg of a transfer deletes both
+    const removed = transactions.filter((item) =>
+      transaction.transferId ? item.transferId === transaction.transferId : item._id === transaction._id
+    );
+    const ids = new Set(removed.map((item) => item._id));
+    setTransactions((existing) => existing.filter((item) => !ids.has(item._id)));
+    setDays((existing) => {
+      const next = new Map(existing);
+      for (const item of removed) {
+        const date = toLocalDate(new Date(item.date), timezone);
+        const day = next.get(date);
+        if (!day) continue;
+        const income = day.income - (item.type === 'income' ? item.baseAmount : 0);
+        const expense = day.expense - (item.type === 'expense' ? item.baseAmount : 0);
+        next.set(date, { ...day, income, expense, net: income - expense, count: day.count - 1 });
+      }
+      return next;
+    });
+  };
+
+  const confirmDelete = (transaction: Transaction, swipeable: SwipeableMethods) => {
+    Alert.alert(
+      'Delete transaction?',
+      transaction.transferId
+        ? 'Both sides of the transfer will be deleted. This cannot be undone.'
+        : 'This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => swipeable.close() },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const response = await transactionsApi.remove(transaction._id);
+            if (response.success) {
+              removeLocally(transaction);
+              showSuccess('Transaction deleted');
+            } else {
+              swipeable.close();
+              showError(response.message || 'Failed to delete transaction');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const categoryNames = useMemo(
+    () =>
+      new Map(
+        lookups.categories.flatMap((category) => [
+          [category._id, category.name] as const,
+          ...(category.children ?? []).map((child) => [child._id, child.name] as const),
+        ])
+      ),
+    [lookups.categories]
+  );
+  const accountNames = useMemo(
+    () => new Map(lookups.accounts.map((account) => [account._id, account.name])),
+    [lookups.accounts]
+  );
+  const sections = useMemo(() => groupByDay(transactions, timezone), [transactions, timezone]);
+
+  const activeFilters = countFilters(filters);
+  const muted = { color: placeholderColor };
+
+  const renderActions = (transaction: Transaction, swipeable: SwipeableMethods) => (
+    <View style={styles.actions}>
+      {isEditable(transaction) && (
+        <TouchableOpacity
+          style={[styles.action, styles.editAction]}
+          onPress={() => {
+            swipeable.close();
+            router.push({ pathname: '/(main)/transactions/new', params: { id: transaction._id } });
+          }}
+          accessibilityRole="button"
+          accessibilityLabel="Edit transaction"
+        >
+          <IconSymbol name="pencil" size={20} color="#FFFFFF" />
+          <ThemedText style={styles.actionText}>Edit</ThemedText>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity
+        style={[styles.action, styles.deleteAction]}
+        onPress={() => confirmDelete(transaction, swipeable)}
+        accessibilityRole="button"
+        accessibilityLabel="Delete transaction"
+      >
+        <IconSymbol name="trash" size={20} color="#FFFFFF" />
+        <ThemedText style={styles.actionText}>Delete</ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderItem = ({ item }: { item: Transaction }) => {
+    const categoryName = item.category
+      ? categoryNames.get(item.category)
+      : item.splits.length > 0
+        ? 'Split'
+        : undefined;
+    const title = item.note || categoryName || (item.type === 'transfer' ? 'Transfer' : 'Transaction');
+    const meta = [item.note ? categoryName : undefined, item.account && accountNames.get(item.account)]
+      .filter(Boolean)
+      .join(' · ');
+    const sign = item.type === 'income' ? '+' : item.type === 'expense' ? '−' : '';
+    const amountColor =
+      item.type === 'income' ? incomeColor : item.type === 'expense' ? expenseColor : textColor;
+    return (
+      <ReanimatedSwipeable
+        friction={2}
+        rightThreshold={40}
+        overshootRight={false}
+        renderRightActions={(_progress, _translation, swipeable) => renderActions(item, swipeable)}
+      >
+        <View style={[styles.row, { backgroundColor: cardBg, borderBottomColor: borderColor }]}>
+          <View style={styles.rowDetails}>
+            <ThemedText style={styles.rowTitle} numberOfLines={1}>
+              {title}
+            </ThemedText>
+            {meta ? (
+              <ThemedText style={[styles.rowMeta, muted]} numberOfLines={1}>
+                {meta}
+              </ThemedText>
+            ) : null}
+          </View>
+          <ThemedText style={[styles.rowAmount, { color: amountColor }]}>
+            {sign}
+            {formatMoney(item.amount, item.currency)}
+          </ThemedText>
+        </View>
+      </ReanimatedSwipeable>
+    );
+  };
+
+  const renderSectionHeader = ({ section }: { section: DaySection }) => {
+    const day = days.get(section.date);
+    return (
+      <View style={[styles.sectionHeader, { backgroundColor: containerBg }]}>
+        <ThemedText style={[styles.sectionTitle, muted]}>
+          {formatDayTitle(section.date).toUpperCase()}
+        </ThemedText>
+        {day && (
+          <View style={styles.dayTotals}>
+            {day.income > 0 && (
+              <ThemedText style={[styles.dayTotal, { color: incomeColor }]}>
+                +{formatMoney(day.income, currency)}
+              </ThemedText>
+            )}
+            {day.expense > 0 && (
+              <ThemedText style={[styles.dayTotal, { color: expenseColor }]}>
+                −{formatMoney(day.expense, currency)}
+              </ThemedText>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (loading && !refreshing) {
+      return (
+        <View style={[styles.skeletons, { backgroundColor: cardBg, borderColor }]}>
+          {[0, 1, 2, 3, 4].map((index) => (
+            <View key={index} style={[styles.row, { borderBottomColor: borderColor }]}>
+              <View style={styles.rowDetails}>
+                <Skeleton height={14} width="60%" />
+                <Skeleton height={12} width="30%" style={styles.metaSkeleton} />
+              </View>
+              <Skeleton height={14} width={64} />
+            </View>
+          ))}
+        </View>
+      );
+    }
+    if (failed) {
+      return (
+        <ThemedText style={styles.error}>
+          Transactions could not be loaded. Pull down to try again.
+        </ThemedText>
+      );
+    }
+    return (
+      <View style={styles.empty}>
+        <IconSymbol name="list.bullet" size={48} color={placeholderColor} />
+        <ThemedText style={[styles.emptyText, muted]}>
+          {filters.q || activeFilters > 0
+            ? 'No transactions match these filters.'
+            : 'Your transactions will be listed here.'}
+        </ThemedText>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: containerBg }]} edges={['left', 'right']}>
+      <View style={styles.toolbar}>
+        <View style={[styles.search, { backgroundColor: inputBg, borderColor }]}>
+          <IconSymbol name="magnifyingglass" size={18} color={placeholderColor} />
+          <TextInput
+            value={search}
+            onChangeText={setSearch}
+            placeholder="Search notes and payees"
+            placeholderTextColor={placeholderColor}
+            style={[styles.searchInput, { color: textColor }]}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
+            clearButtonMode="while-editing"
+            accessibilityLabel="Search transactions"
+          />
+        </View>
+        <TouchableOpacity
+          style={[styles.toolbarButton, { borderColor }]}
+          onPress={() => setSheetVisible(true)}
+          accessibilityRole="button"
+          accessibilityLabel={
+            activeFilters > 0 ? `Filters, ${activeFilters} active` : 'Filters'
+          }
+        >
+          <IconSymbol name="line.3.horizontal.decrease" size={20} color={textColor} />
+          {activeFilters > 0 && (
+            <View style={styles.badge}>
+              <ThemedText style={styles.badgeText}>{activeFilters}</ThemedText>
+            </View>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <SectionList
+        sections={loading && !refreshing ? [] : sections}
+        keyExtractor={(item) => item._id}
+        renderItem={renderItem}
+        renderSectionHeader={renderSectionHeader}
+        stickySectionHeadersEnabled
+        ListEmptyComponent={renderEmpty}
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.footer} /> : null
+        }
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        keyboardDismissMode="on-drag"
+      />
+
+      <TransactionFilterSheet
+        visible={sheetVisible}
+        filters={filters}
+        accounts={lookups.accounts}
+        categories={lookups.categories}
+        tags={lookups.tags}
+        currency={currency}
+        onApply={(next) => {
+          setSheetVisible(false);
+          setFilters({ ...next, q: filters.q });
+        }}
+        onClose={() => setSheetVisible(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  search: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  toolbarButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  badge: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#2563EB',
+  },
+  badgeText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    lineHeight: 14,
+    fontWeight: '600',
+  },
+  content: {
+    paddingBottom: 32,
+    flexGrow: 1,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  dayTotals: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dayTotal: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowDetails: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+  },
+  rowMeta: {
+    fontSize: 12,
+  },
+  rowAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+  },
+  action: {
+    width: 72,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 2,
+  },
+  editAction: {
+    backgroundColor: '#2563EB',
+  },
+  deleteAction: {
+    backgroundColor: '#DC2626',
+  },
+  actionText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  skeletons: {
+    marginHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: 'hidden',
+  },
+  metaSkeleton: {
+    marginTop: 6,
+  },
+  error: {
+    fontSize: 13,
+    marginHorizontal: 16,
+    color: '#DC2626',
+  },
+  empty: {
+    flex: 1,
+    padding: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+});
@@ -0,0 +1,21 @@
+import { Stack } from 'expo-router';
+
+/**
+ * Signed-in area: the tabs, with detail screens pushed over them
+ */
+export default function MainLayout() {
+  return (
+    <Stack>
+      <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+      <Stack.Screen name="settings/currency" options={{ title: 'Base Currency' }} />
+      <Stack.Screen name="settings/export" options={{ title: 'Export Data' }} />
+      <Stack.Screen name="settings/security" options={{ title: 'Security' }} />
+      <Stack.Screen name="settings/two-factor" options={{ title: 'Two-Factor Authentication' }} />
+      <Stack.Screen name="transactions/new" options={{ title: 'New Transaction' }} />
+      <Stack.Screen
+        name="transactions/quick-add"
+        options={{ title: 'Quick Add', presentation: 'modal' }}
+      />
+    </Stack>
+  );
+}
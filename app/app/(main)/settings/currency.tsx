@@ -0,0 +1,228 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useAppDispatch, useAppSelector } from '@/hooks/use-redux';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useDebounce } from '@/hooks/use-debounce';
+import { useToast } from '@/hooks/use-toast';
+import { updateUser } from '@/store/authSlice';
+import { currenciesApi } from '@/services/currencies';
+import { usersApi } from '@/services/users';
+import type { BaseCurrencyPreview, Currency } from '@/services/api';
+
+/**
+ * Explain what switching base currency does to existing data before the
+ * user confirms
+ */
+const buildWarning = ({ from, to, rate, transactions, budgets }: BaseCurrencyPreview): string => {
+  if (transactions === 0 && budgets === 0) {
+    return `Reports and budgets will be shown in ${to}.`;
+  }
+  return (
+    `Your ${transactions} transactions and ${budgets} budgets will be converted from ${from} to ${to} ` +
+    `at the latest stored rate (1 ${from} = ${rate} ${to}), not the rate on each transaction's date. ` +
+    'Historical reports will show these converted amounts, so past totals may differ from what you saw before. ' +
+    'Switching back later converts again and may not restore the exact original figures.'
+  );
+};
+
+export default function BaseCurrencyPage() {
+  const { user } = useAppSelector((state) => state.auth);
+  const dispatch = useAppDispatch();
+  const { showError, showSuccess } = useToast();
+  const { containerBg, cardBg, borderColor, textColor, inputBg, placeholderColor } =
+    useAuthColors();
+
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [changing, setChanging] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const debouncedSearch = useDebounce(search);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    currenciesApi.list(undefined, controller.signal).then((response) => {
+      if (response.success && response.data) {
+        setCurrencies(response.data.currencies);
+      } else if (!controller.signal.aborted) {
+        setLoadError(response.message || 'Failed to load currencies');
+      }
+      setLoading(false);
+    });
+    return () => controller.abort();
+  }, []);
+
+  const filtered = useMemo(() => {
+    const term = debouncedSearch.trim().toLowerCase();
+    if (!term) return currencies;
+    return currencies.filter(
+      (currency) =>
+        currency.code.toLowerCase().includes(term) ||
+        currency.name.toLowerCase().includes(term)
+    );
+  }, [currencies, debouncedSearch]);
+
+  const applyChange = async (code: string) => {
+    setChanging(code);
+    const response = await usersApi.changeBaseCurrency(code);
+    setChanging(null);
+
+    if (response.success && response.data) {
+      dispatch(updateUser(response.data.user));
+      showSuccess('Base currency updated', `Amounts are now shown in ${code}`);
+      router.back();
+    } else {
+      showError(response.message || 'Failed to change base currency');
+    }
+  };
+
+  const handleSelect = async (code: string) => {
+    if (!user || code === user.currency || changing) return;
+
+    setChanging(code);
+    const response = await usersApi.previewBaseCurrencyChange(code);
+    setChanging(null);
+    if (!response.success || !response.data) {
+      showError(response.message || 'Failed to check base currency change');
+      return;
+    }
+
+    const preview = response.data;
+    if (preview.rate === null && preview.transactions + preview.budgets > 0) {
+      Alert.alert(
+        'Exchange rate needed',
+        `Add a ${preview.from}/${preview.to} exchange rate before switching, so existing amounts can be converted.`
+      );
+      return;
+    }
+
+    Alert.alert(`Switch base currency to ${code}?`, buildWarning(preview), [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Switch', style: 'destructive', onPress: () => applyChange(code) },
+    ]);
+  };
+
+  const renderItem = ({ item }: { item: Currency }) => {
+    const selected = item.code === user?.currency;
+    return (
+      <TouchableOpacity
+        style={[styles.row, { borderBottomColor: borderColor }]}
+        onPress={() => handleSelect(item.code)}
+        disabled={!!changing}
+        accessibilityRole="button"
+        accessibilityLabel={`${item.name}, ${item.code}`}
+        accessibilityState={{ selected }}
+      >
+        <ThemedText style={styles.code}>{item.code}</ThemedText>
+        <View style={styles.details}>
+          <ThemedText style={styles.name}>{item.name}</ThemedText>
+          <ThemedText style={[styles.symbol, { color: placeholderColor }]}>{item.symbol}</ThemedText>
+        </View>
+        {changing === item.code ? (
+          <ActivityIndicator size="small" />
+        ) : (
+          selected && <IconSymbol name="checkmark" size={20} color="#2563EB" />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: containerBg }]} edges={['bottom']}>
+      <View style={[styles.searchBox, { backgroundColor: inputBg, borderColor }]}>
+        <IconSymbol name="magnifyingglass" size={18} color={placeholderColor} />
+        <TextInput
+          value={search}
+          onChangeText={setSearch}
+          placeholder="Search by code or name"
+          placeholderTextColor={placeholderColor}
+          style={[styles.searchInput, { color: textColor }]}
+          autoCapitalize="none"
+          autoCorrect={false}
+          accessibilityLabel="Search currencies"
+        />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" />
+      ) : (
+        <FlatList
+          data={filtered}
+          keyExtractor={(item) => item.code}
+          renderItem={renderItem}
+          style={[styles.list, { backgroundColor: cardBg }]}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            <ThemedText style={[styles.empty, { color: placeholderColor }]}>
+              {loadError ?? 'No currencies match your search'}
+            </ThemedText>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    margin: 16,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  loader: {
+    marginTop: 32,
+  },
+  list: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  code: {
+    width: 48,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  details: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+  },
+  symbol: {
+    fontSize: 13,
+  },
+  empty: {
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
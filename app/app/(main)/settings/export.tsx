@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Sharing from 'expo-sharing';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { TagInput, type TagChip } from '@/components/tag-input';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useToast } from '@/hooks/use-toast';
+import { exportsApi, EXPORT_MIME_TYPES } from '@/services/exports';
+import type { ExportFormat } from '@/services/api';
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'csv', label: 'CSV', description: 'Opens in any spreadsheet app' },
+  { value: 'xlsx', label: 'Excel', description: 'Formatted workbook with dates and amounts' },
+  { value: 'json', label: 'JSON', description: 'Complete data including accounts and categories' },
+];
+
+type RangePreset = 'all' | 'this-month' | 'last-month' | 'this-year';
+
+const RANGES: { value: RangePreset; label: string }[] = [
+  { value: 'all', label: 'All time' },
+  { value: 'this-month', label: 'This month' },
+  { value: 'last-month', label: 'Last month' },
+  { value: 'this-year', label: 'This year' },
+];
+
+/**
+ * Local-time bounds of a preset, sent as ISO timestamps so the whole last day
+ * is included
+ */
+const getRange = (preset: RangePreset): { from?: string; to?: string } => {
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  switch (preset) {
+    case 'this-month':
+      return { from: new Date(year, month, 1).toISOString() };
+    case 'last-month':
+      return {
+        from: new Date(year, month - 1, 1).toISOString(),
+        to: new Date(year, month, 0, 23, 59, 59, 999).toISOString(),
+      };
+    case 'this-year':
+      return { from: new Date(year, 0, 1).toISOString() };
+    default:
+      return {};
+  }
+};
+
+export default function ExportPage() {
+  const { showError, showSuccess } = useToast();
+  const { containerBg, cardBg, borderColor, placeholderColor } = useAuthColors();
+
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [range, setRange] = useState<RangePreset>('all');
+  const [tags, setTags] = useState<TagChip[]>([]);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    const response = await exportsApi.downloadTransactions({
+      format,
+      ...getRange(range),
+      // Only existing tags can be picked, so each has an id
+      tags: tags.flatMap((tag) => (tag._id ? [tag._id] : [])),
+    });
+    setExporting(false);
+
+    if (!response.success || !response.data) {
+      showError(response.message || 'Failed to export transactions');
+      return;
+    }
+
+    const { uri, fileName } = response.data;
+    if (uri && (await Sharing.isAvailableAsync())) {
+      await Sharing.shareAsync(uri, {
+        mimeType: EXPORT_MIME_TYPES[format],
+        dialogTitle: 'Export transactions',
+      });
+    } else {
+      showSuccess('Export ready', fileName);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: containerBg }]} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <ThemedText style={[styles.sectionTitle, { color: placeholderColor }]}>FORMAT</ThemedText>
+        <View style={[styles.card, { backgroundColor: cardBg, borderColor }]}>
+          {FORMATS.map((option) => {
+            const selected = option.value === format;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.row, { borderBottomColor: borderColor }]}
+                onPress={() => setFormat(option.value)}
+                accessibilityRole="radio"
+                accessibilityLabel={`${option.label}, ${option.description}`}
+                accessibilityState={{ selected }}
+              >
+                <View style={styles.details}>
+                  <ThemedText style={styles.rowLabel}>{option.label}</ThemedText>
+                  <ThemedText style={[styles.description, { color: placeholderColor }]}>
+                    {option.description}
+                  </ThemedText>
+                </View>
+                {selected && <IconSymbol name="checkmark" size={20} color="#2563EB" />}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <ThemedText style={[styles.sectionTitle, { color: placeholderColor }]}>DATE RANGE</ThemedText>
+        <View style={styles.chips}>
+          {RANGES.map((option) => {
+            const selected = option.value === range;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.chip,
+                  { borderColor },
+                  selected && styles.chipSelected,
+                ]}
+                onPress={() => setRange(option.value)}
+                accessibilityRole="radio"
+                accessibilityLabel={option.label}
+                accessibilityState={{ selected }}
+              >
+                <ThemedText style={selected ? styles.chipTextSelected : undefined}>
+                  {option.label}
+                </ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <ThemedText style={[styles.sectionTitle, { color: placeholderColor }]}>TAGS</ThemedText>
+        <TagInput
+          value={tags}
+          onChange={setTags}
+          allowCreate={false}
+          placeholder="All tags (or pick e.g. travel, work)"
+        />
+
+        <TouchableOpacity
+          style={[styles.button, exporting && styles.buttonDisabled]}
+          onPress={handleExport}
+          disabled={exporting}
+          accessibilityRole="button"
+          accessibilityLabel="Export transactions"
+        >
+          {exporting ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <>
+              <IconSymbol name="square.and.arrow.up" size={20} color="#FFFFFF" />
+              <ThemedText style={styles.buttonText}>Export</ThemedText>
+            </>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  details: {
+    flex: 1,
+  },
+  rowLabel: {
+    fontSize: 16,
+  },
+  description: {
+    fontSize: 13,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 8,
+    backgroundColor: '#2563EB',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
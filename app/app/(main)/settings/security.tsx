@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useToast } from '@/hooks/use-toast';
+import { authApi } from '@/services/api';
+import type { DevicePlatform, Session } from '@/services/api';
+
+const PLATFORM_LABELS: Record<DevicePlatform, string> = {
+  ios: 'iPhone or iPad',
+  android: 'Android device',
+  web: 'Web browser',
+  other: 'Unknown device',
+};
+
+const PLATFORM_ICONS = {
+  ios: 'iphone',
+  android: 'iphone',
+  web: 'desktopcomputer',
+  other: 'desktopcomputer',
+} as const;
+
+/**
+ * "Active 5 minutes ago", coarse enough that it doesn't need to tick
+ */
+const formatLastActive = (lastUsedAt: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(lastUsedAt).getTime()) / 60000);
+  if (minutes < 1) return 'Active just now';
+  if (minutes < 60) return `Active ${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Active ${hours} hour${hours === 1 ? '' : 's'} ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 30) return `Active ${days} day${days === 1 ? '' : 's'} ago`;
+  return `Active ${new Date(lastUsedAt).toLocaleDateString()}`;
+};
+
+/**
+ * Sign-in security: two-factor, and the devices the user is signed in on with
+ * a way to sign any of them out
+ */
+export default function SecurityPage() {
+  const { showError, showSuccess } = useToast();
+  const { containerBg, cardBg, borderColor, textColor, placeholderColor } = useAuthColors();
+
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Id of the session being signed out, or 'others'
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async (signal?: AbortSignal) => {
+    const response = await authApi.sessions(signal);
+    if (signal?.aborted) return;
+    if (response.success && response.data) {
+      setSessions(response.data.sessions);
+      setLoadError(null);
+    } else {
+      setLoadError(response.message || 'Failed to load sessions');
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadSessions(controller.signal).then(() => setLoading(false));
+    return () => controller.abort();
+  }, [loadSessions]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadSessions();
+    setRefreshing(false);
+  };
+
+  const revokeSession = async (session: Session) => {
+    setRevoking(session._id);
+    const response = await authApi.revokeSession(session._id);
+    setRevoking(null);
+
+    if (response.success) {
+      setSessions((current) => current.filter((item) => item._id !== session._id));
+      showSuccess('Signed out', `${session.deviceName || PLATFORM_LABELS[session.platform]} was signed out`);
+    } else {
+      showError(response.message || 'Failed to sign out session');
+    }
+  };
+
+  const revokeOthers = async () => {
+    setRevoking('others');
+    const response = await authApi.revokeOtherSessions();
+    setRevoking(null);
+
+    if (response.success) {
+      setSessions((current) => current.filter((item) => item.current));
+      const count = response.data?.revokedCount ?? 0;
+      showSuccess('Signed out', `${count} other session${count === 1 ? '' : 's'} signed out`);
+    } else {
+      showError(response.message || 'Failed to sign out other sessions');
+    }
+  };
+
+  const handleRevoke = (session: Session) => {
+    Alert.alert(
+      'Sign out this device?',
+      `${session.deviceName || PLATFORM_LABELS[session.platform]} will need to sign in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign out', style: 'destructive', onPress: () => revokeSession(session) },
+      ]
+    );
+  };
+
+  const handleRevokeOthers = () => {
+    Alert.alert(
+      'Sign out everywhere else?',
+      'Every other device will need to sign in again. This device stays signed in.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign out', style: 'destructive', onPress: revokeOthers },
+      ]
+    );
+  };
+
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: containerBg }]} edges={['bottom']}>
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" />
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        >
+          <ThemedText style={[styles.sectionTitle, { color: placeholderColor }]}>
+            SIGN-IN
+          </ThemedText>
+          <View style={[styles.card, { backgroundColor: cardBg, borderColor }]}>
+            <TouchableOpacity
+              style={styles.row}
+              onPress={() => router.push('/(main)/settings/two-factor')}
+              accessibilityRole="button"
+              accessibilityLabel="Two-factor authentication"
+            >
+              <IconSymbol name="lock.fill" size={22} color={textColor} />
+              <ThemedText style={[styles.deviceName, styles.details]}>
+                Two-factor authentication
+              </ThemedText>
+              <IconSymbol name="chevron.right" size={18} color={placeholderColor} />
+            </TouchableOpacity>
+          </View>
+
+          <ThemedText style={[styles.sectionTitle, styles.sectionSpacing, { color: placeholderColor }]}>
+            WHERE YOU&apos;RE SIGNED IN
+          </ThemedText>
+          <View style={[styles.card, { backgroundColor: cardBg, borderColor }]}>
+            {sessions.length === 0 ? (
+              <ThemedText style={[styles.empty, { color: placeholderColor }]}>
+                {loadError ?? 'No active sessions'}
+              </ThemedText>
+            ) : (
+              sessions.map((session, index) => (
+                <View
+                  key={session._id}
+                  style={[
+                    styles.row,
+                    index > 0 && { borderTopColor: borderColor, borderTopWidth: StyleSheet.hairlineWidth },
+                  ]}
+                >
+                  <IconSymbol name={PLATFORM_ICONS[session.platform]} size={24} color={textColor} />
+                  <View style={styles.details}>
+                    <ThemedText style={styles.deviceName} numberOfLines={1}>
+                      {session.deviceName || PLATFORM_LABELS[session.platform]}
+                    </ThemedText>
+                    <ThemedText
+                      style={[styles.meta, session.current ? styles.current : { color: placeholderColor }]}
+                    >
+                      {session.current ? 'This device' : formatLastActive(session.lastUsedAt)}
+                    </ThemedText>
+                    {!!session.ip && (
+                      <ThemedText style={[styles.meta, { color: placeholderColor }]}>
+                        {session.ip}
+                      </ThemedText>
+                    )}
+                  </View>
+                  {!session.current &&
+                    (revoking === session._id ? (
+                      <ActivityIndicator size="small" />
+                    ) : (
+                      <TouchableOpacity
+                        onPress={() => handleRevoke(session)}
+                        disabled={!!revoking}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Sign out ${session.deviceName || PLATFORM_LABELS[session.platform]}`}
+                      >
+                        <ThemedText style={styles.revokeText}>Sign out</ThemedText>
+                      </TouchableOpacity>
+                    ))}
+                </View>
+              ))
+            )}
+          </View>
+
+          {hasOthers && (
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: cardBg, borderColor }]}
+              onPress={handleRevokeOthers}
+              disabled={!!revoking}
+              accessibilityRole="button"
+              accessibilityLabel="Sign out everywhere else"
+            >
+              {revoking === 'others' ? (
+                <ActivityIndicator size="small" />
+              ) : (
+                <ThemedText style={styles.revokeText}>Sign out everywhere else</ThemedText>
+              )}
+            </TouchableOpacity>
+          )}
+          <ThemedText style={[styles.footnote, { color: placeholderColor }]}>
+            A device you sign out may keep access for a few minutes, until its current sign-in
+            expires.
+          </ThemedText>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  loader: {
+    marginTop: 32,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  sectionSpacing: {
+    marginTop: 24,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+  },
+  details: {
+    flex: 1,
+  },
+  deviceName: {
+    fontSize: 16,
+  },
+  meta: {
+    fontSize: 13,
+  },
+  current: {
+    color: '#2563EB',
+    fontWeight: '600',
+  },
+  revokeText: {
+    color: '#DC2626',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  button: {
+    marginTop: 16,
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  empty: {
+    textAlign: 'center',
+    padding: 16,
+  },
+  footnote: {
+    fontSize: 13,
+    marginTop: 12,
+    marginHorizontal: 4,
+  },
+});
@@ -0,0 +1,441 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Share,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ThemedText } from '@/components/themed-text';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { useToast } from '@/hooks/use-toast';
+import { Fonts } from '@/constants/theme';
+import { authApi } from '@/services/api';
+import type { TwoFactorSetup, TwoFactorStatus } from '@/services/api';
+
+// "JBSW Y3DP EHPK 3PXP", easier to copy by hand than one long run
+const groupSecret = (secret: string): string => secret.replace(/(.{4})(?=.)/g, '$1 ');
+
+/**
+ * Turn two-factor authentication on (add a key to an authenticator app,
+ * confirm a code, save recovery codes) or manage it once it's on
+ */
+export default function TwoFactorSettingsPage() {
+  const { showError, showSuccess } = useToast();
+  const { containerBg, cardBg, borderColor, textColor, inputBg, placeholderColor } =
+    useAuthColors();
+  const onColor = useThemeColor({}, 'income');
+
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  // Shown once, right after enabling or regenerating
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadStatus = useCallback(async (signal?: AbortSignal) => {
+    const response = await authApi.twoFactorStatus(signal);
+    if (signal?.aborted) return;
+    if (response.success && response.data) {
+      setStatus(response.data);
+      setLoadError(null);
+    } else {
+      setLoadError(response.message || 'Failed to load two-factor status');
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadStatus(controller.signal);
+    return () => controller.abort();
+  }, [loadStatus]);
+
+  const handleStartSetup = async () => {
+    setBusy(true);
+    const response = await authApi.setupTwoFactor();
+    setBusy(false);
+    if (response.success && response.data) {
+      setSetup(response.data);
+      setCode('');
+    } else {
+      showError(response.message || 'Failed to start two-factor setup');
+    }
+  };
+
+  const handleOpenAuthenticator = async () => {
+    if (!setup) return;
+    try {
+      await Linking.openURL(setup.otpauthUrl);
+    } catch {
+      showError('No authenticator app found', 'Enter the setup key in your app instead');
+    }
+  };
+
+  const handleEnable = async () => {
+    if (!/^\d{6}$/.test(code.trim())) {
+      showError('Please enter the 6-digit code');
+      return;
+    }
+    setBusy(true);
+    const response = await authApi.enableTwoFactor(code.trim());
+    setBusy(false);
+    if (response.success && response.data) {
+      setSetup(null);
+      setCode('');
+      setRecoveryCodes(response.data.recoveryCodes);
+      showSuccess('Two-factor authentication is on');
+      loadStatus();
+    } else {
+      showError(response.message || 'Failed to enable two-factor authentication');
+    }
+  };
+
+  const regenerate = async () => {
+    setBusy(true);
+    const response = await authApi.regenerateRecoveryCodes(code.trim());
+    setBusy(false);
+    if (response.success && response.data) {
+      setCode('');
+      setRecoveryCodes(response.data.recoveryCodes);
+      loadStatus();
+    } else {
+      showError(response.message || 'Failed to regenerate recovery codes');
+    }
+  };
+
+  const disable = async () => {
+    setBusy(true);
+    const response = await authApi.disableTwoFactor(code.trim());
+    setBusy(false);
+    if (response.success) {
+      setCode('');
+      showSuccess('Two-factor authentication is off');
+      loadStatus();
+    } else {
+      showError(response.message || 'Failed to disable two-factor authentication');
+    }
+  };
+
+  const handleRegenerate = () => {
+    if (!code.trim()) {
+      showError('Enter a code to confirm it’s you');
+      return;
+    }
+    Alert.alert(
+      'Replace recovery codes?',
+      'Your current recovery codes will stop working.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: regenerate },
+      ]
+    );
+  };
+
+  const handleDisable = () => {
+    if (!code.trim()) {
+      showError('Enter a code to confirm it’s you');
+      return;
+    }
+    Alert.alert(
+      'Turn off two-factor authentication?',
+      'Signing in will only need your password.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Turn off', style: 'destructive', onPress: disable },
+      ]
+    );
+  };
+
+  const handleShareCodes = () => {
+    if (!recoveryCodes) return;
+    Share.share({
+      message: `Income & Expense Manager recovery codes\n\n${recoveryCodes.join('\n')}`,
+    });
+  };
+
+  const codeInput = (placeholder: string, numeric: boolean) => (
+    <TextInput
+      value={code}
+      onChangeText={setCode}
+      placeholder={placeholder}
+      placeholderTextColor={placeholderColor}
+      style={[styles.codeInput, { backgroundColor: inputBg, borderColor, color: textColor }]}
+      keyboardType={numeric ? 'number-pad' : 'default'}
+      textContentType={numeric ? 'oneTimeCode' : 'none'}
+      autoCapitalize="none"
+      autoCorrect={false}
+      maxLength={numeric ? 6 : 20}
+      accessibilityLabel={placeholder}
+    />
+  );
+
+  const renderContent = () => {
+    if (recoveryCodes) {
+      return (
+        <>
+          <ThemedText style={[styles.sectionTitle, { color: placeholderColor }]}>
+            RECOVERY CODES
+          </ThemedText>
+          <View style={[styles.card, styles.cardPadding, { backgroundColor: cardBg, borderColor }]}>
+            <ThemedText style={styles.body}>
+              Save these somewhere safe. If you lose your phone, each code signs you in once in
+              place of an authenticator code. They won&apos;t be shown again.
+            </ThemedText>
+            <View style={styles.codes}>
+              {recoveryCodes.map((item) => (
+                <ThemedText key={item} style={styles.recoveryCode} selectable>
+                  {item}
+                </ThemedText>
+              ))}
+            </View>
+            <TouchableOpacity
+              style={[styles.secondaryButton, { borderColor }]}
+              onPress={handleShareCodes}
+              accessibilityRole="button"
+            >
+              <ThemedText style={styles.secondaryText}>Save or share codes</ThemedText>
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => setRecoveryCodes(null)}
+            accessibilityRole="button"
+          >
+            <ThemedText style={styles.primaryText}>I&apos;ve saved my codes</ThemedText>
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    if (setup) {
+      return (
+        <>
+          <ThemedText style={[styles.sectionTitle, { color: placeholderColor }]}>
+            1. ADD TO YOUR AUTHENTICATOR APP
+          </ThemedText>
+          <View style={[styles.card, styles.cardPadding, { backgroundColor: cardBg, borderColor }]}>
+            <TouchableOpacity
+              style={[styles.secondaryButton, { borderColor }]}
+              onPress={handleOpenAuthenticator}
+              accessibilityRole="button"
+            >
+              <ThemedText style={styles.secondaryText}>Open in authenticator app</ThemedText>
+            </TouchableOpacity>
+            <ThemedText style={[styles.hint, { color: placeholderColor }]}>
+              Or enter this setup key in the app:
+            </ThemedText>
+            <ThemedText style={styles.secret} selectable>
+              {groupSecret(setup.secret)}
+            </ThemedText>
+          </View>
+
+          <ThemedText style={[styles.sectionTitle, styles.sectionSpacing, { color: placeholderColor }]}>
+            2. ENTER THE CODE IT SHOWS
+          </ThemedText>
+          {codeInput('6-digit code', true)}
+          <TouchableOpacity
+            style={[styles.primaryButton, busy && styles.disabled]}
+            onPress={handleEnable}
+            disabled={busy}
+            accessibilityRole="button"
+          >
+            {busy ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <ThemedText style={styles.primaryText}>Turn on</ThemedText>
+            )}
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    if (status?.enabled) {
+      return (
+        <>
+          <View style={[styles.card, styles.cardPadding, { backgroundColor: cardBg, borderColor }]}>
+            <ThemedText style={[styles.statusOn, { color: onColor }]}>On</ThemedText>
+            <ThemedText style={styles.body}>
+              Signing in asks for a code from your authenticator app after your password.
+            </ThemedText>
+            <ThemedText style={[styles.hint, { color: placeholderColor }]}>
+              {status.recoveryCodesRemaining} recovery code
+              {status.recoveryCodesRemaining === 1 ? '' : 's'} left
+            </ThemedText>
+          </View>
+
+          <ThemedText style={[styles.sectionTitle, styles.sectionSpacing, { color: placeholderColor }]}>
+            CONFIRM IT&apos;S YOU
+          </ThemedText>
+          {codeInput('Authenticator or recovery code', false)}
+          <TouchableOpacity
+            style={[styles.secondaryButton, { borderColor, backgroundColor: cardBg }]}
+            onPress={handleRegenerate}
+            disabled={busy}
+            accessibilityRole="button"
+          >
+            <ThemedText style={styles.secondaryText}>New recovery codes</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.secondaryButton, { borderColor, backgroundColor: cardBg }]}
+            onPress={handleDisable}
+            disabled={busy}
+            accessibilityRole="button"
+          >
+            {busy ? (
+              <ActivityIndicator size="small" />
+            ) : (
+              <ThemedText style={styles.dangerText}>Turn off two-factor authentication</ThemedText>
+            )}
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <View style={[styles.card, styles.cardPadding, { backgroundColor: cardBg, borderColor }]}>
+          <ThemedText style={[styles.statusOn, { color: placeholderColor }]}>Off</ThemedText>
+          <ThemedText style={styles.body}>
+            Protect your account with a code from an authenticator app, such as Google
+            Authenticator or 1Password, each time you sign in.
+          </ThemedText>
+        </View>
+        <TouchableOpacity
+          style={[styles.primaryButton, busy && styles.disabled]}
+          onPress={handleStartSetup}
+          disabled={busy}
+          accessibilityRole="button"
+        >
+          {busy ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <ThemedText style={styles.primaryText}>Set up</ThemedText>
+          )}
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: containerBg }]} edges={['bottom']}>
+      {!status ? (
+        loadError ? (
+          <ThemedText style={[styles.empty, { color: placeholderColor }]}>{loadError}</ThemedText>
+        ) : (
+          <ActivityIndicator style={styles.loader} size="large" />
+        )
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {renderContent()}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  loader: {
+    marginTop: 32,
+  },
+  empty: {
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  sectionSpacing: {
+    marginTop: 24,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: 'hidden',
+  },
+  cardPadding: {
+    padding: 16,
+    gap: 12,
+  },
+  statusOn: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  body: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  hint: {
+    fontSize: 13,
+  },
+  secret: {
+    fontSize: 18,
+    fontFamily: Fonts?.mono,
+    letterSpacing: 1,
+  },
+  codes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 8,
+  },
+  recoveryCode: {
+    width: '50%',
+    fontSize: 16,
+    fontFamily: Fonts?.mono,
+  },
+  codeInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 18,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#2563EB',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    marginTop: 12,
+  },
+  secondaryText: {
+    color: '#2563EB',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  dangerText: {
+    color: '#DC2626',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,407 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { CategorySuggestions } from '@/components/category-suggestions';
+import { PayeeField } from '@/components/payee-field';
+import { TagInput, type TagChip } from '@/components/tag-input';
+import { useAppSelector } from '@/hooks/use-redux';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useToast } from '@/hooks/use-toast';
+import { categoriesApi } from '@/services/categories';
+import { transactionsApi } from '@/services/transactions';
+import { tagsApi } from '@/services/tags';
+import { payeesApi } from '@/services/payees';
+import type { Category, Payee } from '@/services/api';
+import { toAmountInput, toMinorUnits } from '@/utils/money';
+import { transactionFormSchema } from '@/utils/validation-schemas';
+
+type FormType = 'income' | 'expense';
+
+/**
+ * Subcategories listed right after their parent
+ */
+const flattenCategories = (categories: Category[]) =>
+  categories.flatMap((category) => [
+    { category, depth: 0 },
+    ...(category.children ?? []).map((child) => ({ category: child, depth: 1 })),
+  ]);
+
+/**
+ * Records a new transaction, or edits one when opened with an `id`
+ */
+export default function NewTransactionPage() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const { user } = useAppSelector((state) => state.auth);
+  const { showError, showSuccess } = useToast();
+  const { containerBg, cardBg, borderColor, textColor, inputBg, placeholderColor } =
+    useAuthColors();
+  // An edited transaction keeps the currency it was recorded in
+  const [currency, setCurrency] = useState(user?.currency ?? 'USD');
+  const [loadingTransaction, setLoadingTransaction] = useState(Boolean(id));
+
+  const [type, setType] = useState<FormType>('expense');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+  const [payee, setPayee] = useState<Payee | null>(null);
+  const [tags, setTags] = useState<TagChip[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loadingCategories, setLoadingCategories] = useState(true);
+  const [fieldError, setFieldError] = useState<{ field: string; message: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoadingCategories(true);
+    categoriesApi.list(type, controller.signal).then((response) => {
+      if (response.success && response.data) {
+        setCategories(response.data.categories);
+      }
+      if (!controller.signal.aborted) {
+        setLoadingCategories(false);
+      }
+    });
+    return () => controller.abort();
+  }, [type]);
+
+  useEffect(() => {
+    if (!id) return;
+    const controller = new AbortController();
+    const load = async () => {
+      const [response, tagList, payeeList] = await Promise.all([
+        transactionsApi.get(id, controller.signal),
+        tagsApi.list(controller.signal),
+        payeesApi.list(controller.signal),
+      ]);
+      if (controller.signal.aborted) return;
+      const transaction = response.data?.transaction;
+      if (!response.success || !transaction) {
+        showError(response.message || 'Transaction not found');
+        router.back();
+        return;
+      }
+      // The form has no split lines or transfer accounts to edit
+      if (transaction.type === 'transfer' || transaction.splits.length > 0) {
+        showError('Transfers and split transactions cannot be edited here');
+        router.back();
+        return;
+      }
+      // Saving without the lists would clear the payee and tags
+      if (!payeeList.success || !payeeList.data || !tagList.success || !tagList.data) {
+        showError(payeeList.message || tagList.message || 'Failed to load payees and tags');
+        router.back();
+        return;
+      }
+      setType(transaction.type);
+      setCurrency(transaction.currency);
+      setAmount(toAmountInput(transaction.amount, transaction.currency));
+      setNote(transaction.note);
+      setCategory(transaction.category);
+      setPayee(payeeList.data.payees.find((item) => item._id === transaction.payee) ?? null);
+      setTags(tagList.data.tags.filter((tag) => transaction.tags.includes(tag._id)));
+      setLoadingTransaction(false);
+    };
+    load().catch(() => {
+      if (!controller.signal.aborted) setLoadingTransaction(false);
+    });
+    return () => controller.abort();
+  }, [id, showError]);
+
+  const options = useMemo(() => flattenCategories(categories), [categories]);
+  const amountMinor = useMemo(() => {
+    const value = toMinorUnits(amount, currency);
+    return value && value > 0 ? value : null;
+  }, [amount, currency]);
+
+  const handleTypeChange = (next: FormType) => {
+    if (next === type) return;
+    setType(next);
+    setCategory(null);
+  };
+
+  const handleSave = async () => {
+    const result = transactionFormSchema.safeParse({ type, amount, note, category });
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      setFieldError({ field: String(issue.path[0]), message: issue.message });
+      return;
+    }
+    const minor = toMinorUnits(result.data.amount, currency);
+    if (!minor || minor <= 0) {
+      setFieldError({ field: 'amount', message: 'Please enter a valid amount' });
+      return;
+    }
+    setFieldError(null);
+
+    setSaving(true);
+    const response = id
+      ? await transactionsApi.update(id, {
+          type,
+          amount: minor,
+          note: result.data.note,
+          // An edit says exactly what the transaction has, so rules and
+          // payee matching stay out of it
+          category: result.data.category ?? null,
+          payee: payee?._id ?? null,
+          tags: tags.map((tag) => tag.name),
+        })
+      : await transactionsApi.create({
+          type,
+          amount: minor,
+          date: new Date().toISOString(),
+          note: result.data.note,
+          currency,
+          // Left out when not chosen so the user's rules can categorize it
+          ...(result.data.category && { category: result.data.category }),
+          // Likewise left out so the server can match a payee from the note
+          ...(payee && { payee: payee._id }),
+          ...(tags.length > 0 && { tags: tags.map((tag) => tag.name) }),
+        });
+    setSaving(false);
+
+    if (response.success) {
+      showSuccess('Transaction saved');
+      router.back();
+    } else {
+      showError(response.message || 'Failed to save transaction');
+    }
+  };
+
+  if (loadingTransaction) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered, { backgroundColor: containerBg }]}>
+        <Stack.Screen options={{ title: 'Edit Transaction' }} />
+        <ActivityIndicator size="large" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: containerBg }]} edges={['bottom']}>
+      {id && <Stack.Screen options={{ title: 'Edit Transaction' }} />}
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={[styles.segmented, { borderColor }]}>
+            {(['expense', 'income'] as const).map((option) => {
+              const selected = option === type;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.segment, selected && styles.segmentSelected]}
+                  onPress={() => handleTypeChange(option)}
+                  accessibilityRole="radio"
+                  accessibilityLabel={option === 'expense' ? 'Expense' : 'Income'}
+                  accessibilityState={{ selected }}
+                >
+                  <ThemedText style={selected ? styles.segmentTextSelected : undefined}>
+                    {option === 'expense' ? 'Expense' : 'Income'}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <ThemedText style={[styles.label, { color: placeholderColor }]}>
+            Amount ({currency})
+          </ThemedText>
+          <TextInput
+            value={amount}
+            onChangeText={setAmount}
+            placeholder="0.00"
+            placeholderTextColor={placeholderColor}
+            keyboardType="decimal-pad"
+            style={[styles.input, styles.amountInput, { backgroundColor: inputBg, borderColor, color: textColor }]}
+            accessibilityLabel="Amount"
+          />
+          {fieldError?.field === 'amount' && (
+            <ThemedText style={styles.error}>{fieldError.message}</ThemedText>
+          )}
+
+          <ThemedText style={[styles.label, { color: placeholderColor }]}>Note</ThemedText>
+          <TextInput
+            value={note}
+            onChangeText={setNote}
+            placeholder="e.g. Groceries at Whole Foods"
+            placeholderTextColor={placeholderColor}
+            style={[styles.input, { backgroundColor: inputBg, borderColor, color: textColor }]}
+            maxLength={500}
+            accessibilityLabel="Note"
+          />
+          {fieldError?.field === 'note' && (
+            <ThemedText style={styles.error}>{fieldError.message}</ThemedText>
+          )}
+
+          <ThemedText style={[styles.label, { color: placeholderColor }]}>Payee</ThemedText>
+          <PayeeField value={payee} onChange={setPayee} />
+
+          <ThemedText style={[styles.label, { color: placeholderColor }]}>Tags</ThemedText>
+          <TagInput value={tags} onChange={setTags} />
+
+          <CategorySuggestions
+            type={type}
+            note={note}
+            amount={amountMinor}
+            currency={currency}
+            selected={category}
+            onSelect={setCategory}
+          />
+
+          <ThemedText style={[styles.label, { color: placeholderColor }]}>Category</ThemedText>
+          <View style={[styles.card, { backgroundColor: cardBg, borderColor }]}>
+            {loadingCategories ? (
+              <ActivityIndicator style={styles.loader} />
+            ) : (
+              options.map(({ category: option, depth }) => {
+                const selected = option._id === category;
+                return (
+                  <TouchableOpacity
+                    key={option._id}
+                    style={[styles.row, { borderBottomColor: borderColor, paddingLeft: 16 + depth * 20 }]}
+                    onPress={() => setCategory(selected ? null : option._id)}
+                    accessibilityRole="radio"
+                    accessibilityLabel={option.name}
+                    accessibilityState={{ selected }}
+                  >
+                    <View style={[styles.dot, { backgroundColor: option.color }]} />
+                    <ThemedText style={styles.rowLabel}>{option.name}</ThemedText>
+                    {selected && <IconSymbol name="checkmark" size={20} color="#2563EB" />}
+                  </TouchableOpacity>
+                );
+              })
+            )}
+          </View>
+          <ThemedText style={[styles.hint, { color: placeholderColor }]}>
+            Leave empty to let your rules pick a category.
+          </ThemedText>
+
+          <TouchableOpacity
+            style={[styles.button, saving && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+            accessibilityRole="button"
+            accessibilityLabel="Save transaction"
+          >
+            {saving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <ThemedText style={styles.buttonText}>Save</ThemedText>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  segmented: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  segmentSelected: {
+    backgroundColor: '#2563EB',
+  },
+  segmentTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  amountInput: {
+    fontSize: 24,
+    fontWeight: '600',
+  },
+  error: {
+    color: '#DC2626',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: 'hidden',
+  },
+  loader: {
+    margin: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingRight: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 16,
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 6,
+  },
+  button: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 8,
+    backgroundColor: '#2563EB',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,420 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ThemedText } from '@/components/themed-text';
+import { AmountKeypad } from '@/components/amount-keypad';
+import { useAppSelector } from '@/hooks/use-redux';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useToast } from '@/hooks/use-toast';
+import { accountsApi } from '@/services/accounts';
+import { categoriesApi } from '@/services/categories';
+import { payeesApi } from '@/services/payees';
+import { transactionsApi } from '@/services/transactions';
+import type { Account, Category, Payee } from '@/services/api';
+import { evaluateAmount, formatMoney } from '@/utils/money';
+import { quickAddSchema } from '@/utils/validation-schemas';
+
+type FormType = 'income' | 'expense';
+
+const TYPES: { value: FormType; label: string }[] = [
+  { value: 'expense', label: 'Expense' },
+  { value: 'income', label: 'Income' },
+];
+
+// Enough of the latest transactions to find a handful of distinct payees
+const RECENT_LIMIT = 30;
+const MAX_RECENT_PAYEES = 6;
+
+interface Recent {
+  category: string | null;
+  account: string | null;
+  // Payee ids, most recent first
+  payees: string[];
+}
+
+/**
+ * Records a transaction in a few taps: amount on a keypad, with the category
+ * and account used last already picked
+ */
+export default function QuickAddPage() {
+  const { user } = useAppSelector((state) => state.auth);
+  const { showError, showSuccess } = useToast();
+  const { containerBg, cardBg, borderColor, placeholderColor } = useAuthColors();
+
+  const [type, setType] = useState<FormType>('expense');
+  const [amount, setAmount] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+  const [account, setAccount] = useState<string | null>(null);
+  const [payee, setPayee] = useState<string | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [recent, setRecent] = useState<Recent>({ category: null, account: null, payees: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    Promise.all([
+      accountsApi.list(false, controller.signal),
+      payeesApi.list(controller.signal),
+    ]).then(([accountList, payeeList]) => {
+      if (controller.signal.aborted) return;
+      setAccounts(accountList.data?.accounts ?? []);
+      setPayees(payeeList.data?.payees ?? []);
+    });
+    return () => controller.abort();
+  }, []);
+
+  // Categories differ by type, and so does what was used last
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    Promise.all([
+      categoriesApi.list(type, controller.signal),
+      transactionsApi.list({ type, limit: RECENT_LIMIT }, controller.signal),
+    ])
+      .then(([categoryList, page]) => {
+        if (controller.signal.aborted) return;
+        const transactions = page.data?.transactions ?? [];
+        const last = transactions[0];
+        const next: Recent = {
+          category: last?.category ?? null,
+          account: last?.account ?? null,
+          payees: [
+            ...new Set(transactions.flatMap((transaction) => transaction.payee ?? [])),
+          ].slice(0, MAX_RECENT_PAYEES),
+        };
+        setCategories(categoryList.data?.categories ?? []);
+        setRecent(next);
+        setCategory(next.category);
+        setAccount((current) => current ?? next.account);
+        setLoading(false);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [type]);
+
+  const categoryOptions = useMemo(
+    () =>
+      categories.flatMap((parent) => [
+        { category: parent, depth: 0 },
+        ...(parent.children ?? []).map((child) => ({ category: child, depth: 1 })),
+      ]),
+    [categories]
+  );
+  const recentPayees = useMemo(() => {
+    const byId = new Map(payees.map((item) => [item._id, item]));
+    return recent.payees.flatMap((id) => byId.get(id) ?? []);
+  }, [payees, recent.payees]);
+
+  // A transaction on an account is in the account's currency
+  const currency =
+    accounts.find((item) => item._id === account)?.currency ?? user?.currency ?? 'USD';
+  const total = amount ? evaluateAmount(amount, currency) : null;
+  const isExpression = /\d[+\-×÷]/.test(amount);
+
+  const handleSave = async (addAnother: boolean) => {
+    const result = quickAddSchema.safeParse({ type, amount, category, account, payee });
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+    const minor = evaluateAmount(result.data.amount, currency);
+    if (!minor || minor <= 0) {
+      setError('Amount must be greater than zero');
+      return;
+    }
+    setError('');
+
+    setSaving(true);
+    const response = await transactionsApi.create({
+      type,
+      amount: minor,
+      date: new Date().toISOString(),
+      // Left out when not chosen so the user's rules can categorize it
+      ...(result.data.category && { category: result.data.category }),
+      ...(result.data.account && { account: result.data.account }),
+      ...(result.data.payee && { payee: result.data.payee }),
+    });
+    setSaving(false);
+
+    if (!response.success) {
+      showError(response.message || 'Failed to save transaction');
+      return;
+    }
+    showSuccess('Transaction saved');
+    if (!addAnother) {
+      router.back();
+      return;
+    }
+    // Keep the type, category and account for the next one
+    setAmount('');
+    setPayee(null);
+    if (result.data.payee) {
+      const saved = result.data.payee;
+      setRecent((current) => ({
+        ...current,
+        payees: [saved, ...current.payees.filter((id) => id !== saved)].slice(
+          0,
+          MAX_RECENT_PAYEES
+        ),
+      }));
+    }
+  };
+
+  const muted = { color: placeholderColor };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+    color?: string
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: color ?? borderColor },
+        selected && { backgroundColor: color ?? '#2563EB', borderColor: color ?? '#2563EB' },
+      ]}
+      onPress={onPress}
+      accessibilityRole="radio"
+      accessibilityLabel={label}
+      accessibilityState={{ selected }}
+    >
+      <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: containerBg }]} edges={['bottom']}>
+      <View style={[styles.segments, { borderColor }]}>
+        {TYPES.map((option) => {
+          const selected = option.value === type;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.segment, selected && styles.segmentSelected]}
+              onPress={() => setType(option.value)}
+              accessibilityRole="radio"
+              accessibilityLabel={option.label}
+              accessibilityState={{ selected }}
+            >
+              <ThemedText style={selected ? styles.segmentTextSelected : undefined}>
+                {option.label}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.display} accessibilityLiveRegion="polite">
+        <ThemedText style={styles.amount} numberOfLines={1} adjustsFontSizeToFit>
+          {amount || '0'}
+        </ThemedText>
+        <ThemedText style={[styles.result, muted]}>
+          {isExpression && total !== null ? `= ${formatMoney(total, currency)}` : currency}
+        </ThemedText>
+      </View>
+
+      <ScrollView style={styles.pickers} contentContainerStyle={styles.pickersContent}>
+        {loading ? (
+          <ActivityIndicator />
+        ) : (
+          <>
+            <ThemedText style={[styles.sectionTitle, muted]}>CATEGORY</ThemedText>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View style={styles.chips}>
+                {categoryOptions.map(({ category: option, depth }) =>
+                  renderChip(
+                    option._id,
+                    depth > 0 ? `› ${option.name}` : option.name,
+                    category === option._id,
+                    () => setCategory(category === option._id ? null : option._id),
+                    option.color || undefined
+                  )
+                )}
+              </View>
+            </ScrollView>
+
+            {accounts.length > 0 && (
+              <>
+                <ThemedText style={[styles.sectionTitle, muted]}>ACCOUNT</ThemedText>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  <View style={styles.chips}>
+                    {accounts.map((option) =>
+                      renderChip(option._id, option.name, account === option._id, () =>
+                        setAccount(account === option._id ? null : option._id)
+                      )
+                    )}
+                  </View>
+                </ScrollView>
+              </>
+            )}
+
+            {recentPayees.length > 0 && (
+              <>
+                <ThemedText style={[styles.sectionTitle, muted]}>RECENT PAYEES</ThemedText>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  <View style={styles.chips}>
+                    {recentPayees.map((option) =>
+                      renderChip(option._id, option.name, payee === option._id, () =>
+                        setPayee(payee === option._id ? null : option._id)
+                      )
+                    )}
+                  </View>
+                </ScrollView>
+              </>
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      <View style={[styles.footer, { backgroundColor: containerBg }]}>
+        {error ? <ThemedText style={styles.error}>{error}</ThemedText> : null}
+        <AmountKeypad value={amount} onChange={setAmount} />
+        <View style={styles.buttons}>
+          <TouchableOpacity
+            style={[styles.button, styles.secondaryButton, { backgroundColor: cardBg, borderColor }]}
+            onPress={() => handleSave(true)}
+            disabled={saving}
+            accessibilityRole="button"
+            accessibilityLabel="Save and add another"
+          >
+            <ThemedText style={styles.secondaryButtonText}>Save & add another</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, styles.primaryButton, saving && styles.buttonDisabled]}
+            onPress={() => handleSave(false)}
+            disabled={saving}
+            accessibilityRole="button"
+            accessibilityLabel="Save transaction"
+          >
+            {saving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <ThemedText style={styles.primaryButtonText}>Save</ThemedText>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  segments: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  segmentSelected: {
+    backgroundColor: '#2563EB',
+  },
+  segmentTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  display: {
+    alignItems: 'flex-end',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  amount: {
+    fontSize: 44,
+    lineHeight: 52,
+    fontWeight: '700',
+  },
+  result: {
+    fontSize: 15,
+  },
+  pickers: {
+    flex: 1,
+  },
+  pickersContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  footer: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    paddingBottom: 8,
+    gap: 12,
+  },
+  error: {
+    color: '#DC2626',
+    fontSize: 13,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 8,
+  },
+  primaryButton: {
+    backgroundColor: '#2563EB',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,6 +1,7 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { Provider } from 'react-redux';
 import { PersistGate } from 'redux-persist/integration/react';
 import 'react-native-reanimated';
@@ -29,33 +30,36 @@ export default function RootLayout() {
   }, []);
 
   return (
-    <AppErrorBoundary>
-      <Provider store={store}>
-        <PersistGate
-          loading={
-            <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
-              <ActivityIndicator size="large" />
-            </View>
-          }
-          persistor={persistor}
-        >
-          <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-            <AuthGuard>
-              <Stack>
-                <Stack.Screen name="(auth)/sign-in" options={{ headerShown: false }} />
-                <Stack.Screen name="(auth)/sign-up" options={{ headerShown: false }} />
-                <Stack.Screen name="(auth)/forgot-password" options={{ headerShown: false }} />
-                <Stack.Screen name="(auth)/reset-password" options={{ headerShown: false }} />
-                <Stack.Screen name="(auth)/verify-account" options={{ headerShown: false }} />
-                <Stack.Screen name="(main)/dashboard" options={{ headerShown: false }} />
-              </Stack>
-            </AuthGuard>
-            <StatusBar style="auto" />
-            <ToastConfig />
-            <NetworkStatus />
-          </ThemeProvider>
-        </PersistGate>
-      </Provider>
-    </AppErrorBoundary>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <AppErrorBoundary>
+        <Provider store={store}>
+          <PersistGate
+            loading={
+              <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
+                <ActivityIndicator size="large" />
+              </View>
+            }
+            persistor={persistor}
+          >
+            <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+              <AuthGuard>
+                <Stack>
+                  <Stack.Screen name="(auth)/sign-in" options={{ headerShown: false }} />
+                  <Stack.Screen name="(auth)/sign-up" options={{ headerShown: false }} />
+                  <Stack.Screen name="(auth)/forgot-password" options={{ headerShown: false }} />
+                  <Stack.Screen name="(auth)/reset-password" options={{ headerShown: false }} />
+                  <Stack.Screen name="(auth)/verify-account" options={{ headerShown: false }} />
+                  <Stack.Screen name="(auth)/two-factor" options={{ headerShown: false }} />
+                  <Stack.Screen name="(main)" options={{ headerShown: false }} />
+                </Stack>
+              </AuthGuard>
+              <StatusBar style="auto" />
+              <ToastConfig />
+              <NetworkStatus />
+            </ThemeProvider>
+          </PersistGate>
+        </Provider>
+      </AppErrorBoundary>
+    </GestureHandlerRootView>
   );
 }
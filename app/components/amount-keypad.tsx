@@ -0,0 +1,119 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { ThemedText } from '@/components/themed-text';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+
+const KEYS = [
+  ['7', '8', '9', '÷'],
+  ['4', '5', '6', '×'],
+  ['1', '2', '3', '-'],
+  ['.', '0', '⌫', '+'],
+];
+
+const OPERATORS = ['+', '-', '×', '÷'];
+const MAX_LENGTH = 32;
+
+/**
+ * The expression after a key press. Operators replace a trailing operator
+ * and a number takes one decimal point, so the expression stays well formed
+ * apart from possibly ending in an operator.
+ */
+const applyKey = (value: string, key: string): string => {
+  if (key === '⌫') return value.slice(0, -1);
+  if (value.length >= MAX_LENGTH) return value;
+
+  if (OPERATORS.includes(key)) {
+    if (!value) return value;
+    return OPERATORS.includes(value.slice(-1)) ? value.slice(0, -1) + key : value + key;
+  }
+  // The number being typed, after the last operator
+  const number = value.split(/[+\-×÷]/).pop() ?? '';
+  if (key === '.') {
+    if (number.includes('.')) return value;
+    return value + (number ? '.' : '0.');
+  }
+  // No leading zeros ("007")
+  return number === '0' ? value.slice(0, -1) + key : value + key;
+};
+
+interface AmountKeypadProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Numeric keypad for typing an amount, with + - × ÷ for adding up a receipt
+ * on the spot
+ */
+export function AmountKeypad({ value, onChange }: AmountKeypadProps) {
+  const { cardBg, borderColor } = useAuthColors();
+
+  const handlePress = (key: string) => {
+    if (process.env.EXPO_OS === 'ios') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    onChange(applyKey(value, key));
+  };
+
+  return (
+    <View style={styles.keypad}>
+      {KEYS.map((row) => (
+        <View key={row.join('')} style={styles.row}>
+          {row.map((key) => {
+            const operator = OPERATORS.includes(key);
+            return (
+              <TouchableOpacity
+                key={key}
+                style={[
+                  styles.key,
+                  { backgroundColor: cardBg, borderColor },
+                  operator && styles.operatorKey,
+                ]}
+                onPress={() => handlePress(key)}
+                onLongPress={key === '⌫' ? () => onChange('') : undefined}
+                accessibilityRole="button"
+                accessibilityLabel={key === '⌫' ? 'Delete' : key}
+                accessibilityHint={key === '⌫' ? 'Hold to clear the amount' : undefined}
+              >
+                <ThemedText style={[styles.keyText, operator && styles.operatorText]}>
+                  {key}
+                </ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  keypad: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  key: {
+    flex: 1,
+    height: 56,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  operatorKey: {
+    // Primary blue at low opacity reads on light and dark cards alike
+    backgroundColor: 'rgba(37, 99, 235, 0.12)',
+  },
+  keyText: {
+    fontSize: 24,
+    lineHeight: 30,
+  },
+  operatorText: {
+    color: '#2563EB',
+    fontWeight: '600',
+  },
+});
@@ -117,7 +117,7 @@ export function AuthGuard({ children }: { children: React.ReactNode }) {
       router.replace('/(auth)/sign-in');
     } else if (isAuthenticated && inAuthGroup) {
       // Authenticated but in auth group, redirect to dashboard
-      router.replace('/(main)/dashboard');
+      router.replace('/(main)/(tabs)/dashboard');
     }
   };
 
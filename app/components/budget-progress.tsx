@@ -0,0 +1,104 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { Skeleton } from '@/components/skeleton';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { BudgetWithCategory } from '@/services/api';
+import { formatMoney } from '@/utils/money';
+
+interface BudgetProgressProps {
+  budget: BudgetWithCategory;
+  // The user's base currency, which budgets are kept in
+  currency: string;
+}
+
+/**
+ * Spent against what is available this month (the limit plus any rollover).
+ * The bar turns amber from 80% and red once the budget is used up.
+ */
+export function BudgetProgress({ budget, currency }: BudgetProgressProps) {
+  const { placeholderColor } = useAuthColors();
+  const incomeColor = useThemeColor({}, 'income');
+  const expenseColor = useThemeColor({}, 'expense');
+  const warningColor = useThemeColor({}, 'warning');
+  const trackColor = useThemeColor({}, 'skeleton');
+
+  const { percentUsed, spent, available } = budget.status;
+  const barColor =
+    percentUsed >= 100 ? expenseColor : percentUsed >= 80 ? warningColor : incomeColor;
+  const name = budget.category?.name ?? 'Deleted category';
+
+  return (
+    <View style={styles.budget}>
+      <View style={styles.header}>
+        <ThemedText style={styles.name} numberOfLines={1}>
+          {name}
+        </ThemedText>
+        <ThemedText style={[styles.amounts, { color: placeholderColor }]}>
+          {formatMoney(spent, currency)} / {formatMoney(available, currency)}
+        </ThemedText>
+      </View>
+      <View
+        style={[styles.track, { backgroundColor: trackColor }]}
+        accessibilityRole="progressbar"
+        accessibilityLabel={`${name} budget`}
+        accessibilityValue={{ min: 0, max: 100, now: Math.min(Math.round(percentUsed), 100) }}
+      >
+        <View
+          style={[
+            styles.bar,
+            { width: `${Math.min(Math.max(percentUsed, 0), 100)}%`, backgroundColor: barColor },
+          ]}
+        />
+      </View>
+    </View>
+  );
+}
+
+/**
+ * Placeholder rows while budgets load
+ */
+export function BudgetProgressSkeleton({ rows = 3 }: { rows?: number }) {
+  return (
+    <>
+      {Array.from({ length: rows }, (_, index) => (
+        <View key={index} style={styles.budget}>
+          <Skeleton height={14} width="50%" />
+          <Skeleton height={8} radius={4} style={styles.trackSkeleton} />
+        </View>
+      ))}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  budget: {
+    paddingVertical: 6,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  name: {
+    flex: 1,
+    fontSize: 15,
+  },
+  amounts: {
+    fontSize: 13,
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  bar: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  trackSkeleton: {
+    marginTop: 8,
+  },
+});
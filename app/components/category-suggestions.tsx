@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useDebounce } from '@/hooks/use-debounce';
+import { suggestionsApi } from '@/services/suggestions';
+import type { CategorySuggestion, MinorUnits } from '@/services/api';
+
+interface CategorySuggestionsProps {
+  type: 'income' | 'expense';
+  note: string;
+  amount: MinorUnits | null;
+  currency?: string;
+  selected: string | null;
+  onSelect: (categoryId: string) => void;
+}
+
+/**
+ * Top category suggestions for the transaction being entered, learned from
+ * the user's history. Tapping a chip accepts it; the × rejects it. Both are
+ * sent back so later suggestions improve.
+ */
+export function CategorySuggestions({
+  type,
+  note,
+  amount,
+  currency,
+  selected,
+  onSelect,
+}: CategorySuggestionsProps) {
+  const { borderColor, placeholderColor } = useAuthColors();
+  const [suggestions, setSuggestions] = useState<CategorySuggestion[]>([]);
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const debouncedNote = useDebounce(note, 400);
+  const debouncedAmount = useDebounce(amount, 400);
+
+  useEffect(() => {
+    if (!debouncedNote.trim() && !debouncedAmount) {
+      setSuggestions([]);
+      return;
+    }
+    const controller = new AbortController();
+    suggestionsApi
+      .categories(
+        { type, note: debouncedNote, amount: debouncedAmount ?? undefined, currency },
+        controller.signal
+      )
+      .then((response) => {
+        if (response.success && response.data) {
+          setSuggestions(response.data.suggestions);
+        }
+      });
+    return () => controller.abort();
+  }, [type, debouncedNote, debouncedAmount, currency]);
+
+  // A different transaction type means a different set of categories
+  useEffect(() => {
+    setDismissed([]);
+  }, [type]);
+
+  const sendFeedback = (categoryId: string, accepted: boolean) => {
+    suggestionsApi.feedback({
+      type,
+      note,
+      amount: amount ?? undefined,
+      currency,
+      category: categoryId,
+      accepted,
+    });
+  };
+
+  const handleAccept = (categoryId: string) => {
+    if (categoryId === selected) return;
+    onSelect(categoryId);
+    sendFeedback(categoryId, true);
+  };
+
+  const handleReject = (categoryId: string) => {
+    setDismissed((current) => [...current, categoryId]);
+    sendFeedback(categoryId, false);
+  };
+
+  const visible = suggestions.filter((item) => !dismissed.includes(item.category._id));
+  if (visible.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={[styles.label, { color: placeholderColor }]}>Suggested</ThemedText>
+      <View style={styles.chips}>
+        {visible.map(({ category, confidence }) => {
+          const isSelected = category._id === selected;
+          const percent = Math.round(confidence * 100);
+          return (
+            <View
+              key={category._id}
+              style={[
+                styles.chip,
+                { borderColor: isSelected ? category.color : borderColor },
+                isSelected && { backgroundColor: `${category.color}22` },
+              ]}
+            >
+              <TouchableOpacity
+                style={styles.chipBody}
+                onPress={() => handleAccept(category._id)}
+                accessibilityRole="button"
+                accessibilityLabel={`Use ${category.name}, ${percent}% confidence`}
+                accessibilityState={{ selected: isSelected }}
+              >
+                <View style={[styles.dot, { backgroundColor: category.color }]} />
+                <ThemedText style={styles.name}>{category.name}</ThemedText>
+                <ThemedText style={[styles.confidence, { color: placeholderColor }]}>
+                  {percent}%
+                </ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.dismiss}
+                onPress={() => handleReject(category._id)}
+                accessibilityRole="button"
+                accessibilityLabel={`Not ${category.name}`}
+                hitSlop={8}
+              >
+                <ThemedText style={{ color: placeholderColor }}>×</ThemedText>
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 13,
+    marginBottom: 6,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingLeft: 10,
+  },
+  chipBody: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  name: {
+    fontSize: 14,
+  },
+  confidence: {
+    fontSize: 12,
+  },
+  dismiss: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+});
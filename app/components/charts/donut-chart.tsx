@@ -0,0 +1,91 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import Svg, { Circle, G } from 'react-native-svg';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+export interface DonutSegment {
+  key: string;
+  value: number;
+  color: string;
+}
+
+interface DonutChartProps {
+  segments: DonutSegment[];
+  size?: number;
+  thickness?: number;
+  // Shown in the hole, e.g. the total
+  children?: React.ReactNode;
+  accessibilityLabel?: string;
+}
+
+/**
+ * Ring split into arcs proportional to each segment's value, clockwise from
+ * the top. An empty ring is drawn when there is nothing to show.
+ */
+export function DonutChart({
+  segments,
+  size = 160,
+  thickness = 22,
+  children,
+  accessibilityLabel,
+}: DonutChartProps) {
+  const trackColor = useThemeColor({}, 'skeleton');
+  const center = size / 2;
+  const radius = (size - thickness) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const total = segments.reduce((sum, segment) => sum + Math.max(segment.value, 0), 0);
+
+  let offset = 0;
+  const arcs = segments
+    .filter((segment) => segment.value > 0)
+    .map((segment) => {
+      const length = (segment.value / total) * circumference;
+      const arc = { ...segment, length, offset };
+      offset += length;
+      return arc;
+    });
+
+  return (
+    <View
+      style={{ width: size, height: size }}
+      accessible={Boolean(accessibilityLabel)}
+      accessibilityRole="image"
+      accessibilityLabel={accessibilityLabel}
+    >
+      <Svg width={size} height={size}>
+        <Circle
+          cx={center}
+          cy={center}
+          r={radius}
+          stroke={trackColor}
+          strokeWidth={thickness}
+          fill="none"
+        />
+        <G transform={`rotate(-90 ${center} ${center})`}>
+          {arcs.map((arc) => (
+            <Circle
+              key={arc.key}
+              cx={center}
+              cy={center}
+              r={radius}
+              stroke={arc.color}
+              strokeWidth={thickness}
+              strokeDasharray={`${arc.length} ${circumference - arc.length}`}
+              strokeDashoffset={-arc.offset}
+              fill="none"
+            />
+          ))}
+        </G>
+      </Svg>
+      {children && <View style={styles.hole}>{children}</View>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  hole: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, type LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Polyline } from 'react-native-svg';
+import { ThemedText } from '@/components/themed-text';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+
+export interface LineSeries {
+  key: string;
+  color: string;
+  // One value per label
+  values: number[];
+}
+
+interface LineChartProps {
+  series: LineSeries[];
+  labels: string[];
+  height?: number;
+  accessibilityLabel?: string;
+}
+
+// Room for the end dots so they are not clipped
+const INSET = 4;
+
+/**
+ * One line per series over evenly spaced labels, scaled from zero to the
+ * largest value. Fills the width of its container.
+ */
+export function LineChart({ series, labels, height = 140, accessibilityLabel }: LineChartProps) {
+  const { borderColor, placeholderColor } = useAuthColors();
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const max = Math.max(0, ...series.flatMap((line) => line.values));
+  const step = labels.length > 1 ? (width - INSET * 2) / (labels.length - 1) : 0;
+  const x = (index: number) => INSET + index * step;
+  const y = (value: number) =>
+    height - INSET - (max === 0 ? 0 : (Math.max(value, 0) / max) * (height - INSET * 2));
+
+  return (
+    <View
+      accessible={Boolean(accessibilityLabel)}
+      accessibilityRole="image"
+      accessibilityLabel={accessibilityLabel}
+    >
+      <View style={{ height }} onLayout={handleLayout}>
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            <Line
+              x1={0}
+              y1={height - INSET}
+              x2={width}
+              y2={height - INSET}
+              stroke={borderColor}
+              strokeWidth={StyleSheet.hairlineWidth}
+            />
+            {series.map((line) => {
+              const last = line.values.length - 1;
+              return (
+                <React.Fragment key={line.key}>
+                  <Polyline
+                    points={line.values.map((value, index) => `${x(index)},${y(value)}`).join(' ')}
+                    stroke={line.color}
+                    strokeWidth={2}
+                    strokeLinejoin="round"
+                    strokeLinecap="round"
+                    fill="none"
+                  />
+                  {last >= 0 && (
+                    <Circle cx={x(last)} cy={y(line.values[last])} r={3} fill={line.color} />
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </Svg>
+        )}
+      </View>
+      <View style={styles.labels}>
+        {labels.map((label, index) => (
+          <ThemedText
+            key={`${label}-${index}`}
+            style={[styles.label, { color: placeholderColor }]}
+            numberOfLines={1}
+          >
+            {label}
+          </ThemedText>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  labels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  label: {
+    fontSize: 10,
+    lineHeight: 14,
+    textAlign: 'center',
+  },
+});
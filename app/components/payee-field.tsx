@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useDebounce } from '@/hooks/use-debounce';
+import { useToast } from '@/hooks/use-toast';
+import { payeesApi } from '@/services/payees';
+import type { Payee } from '@/services/api';
+
+interface PayeeFieldProps {
+  value: Payee | null;
+  onChange: (payee: Payee | null) => void;
+}
+
+/**
+ * Payee picker with suggestions as the user types. Matches on aliases too,
+ * so typing "amzn" finds Amazon. A name with no match can be added as a new
+ * payee.
+ */
+export function PayeeField({ value, onChange }: PayeeFieldProps) {
+  const { borderColor, textColor, inputBg, placeholderColor } = useAuthColors();
+  const { showError } = useToast();
+  const [text, setText] = useState('');
+  const [suggestions, setSuggestions] = useState<Payee[]>([]);
+  const [creating, setCreating] = useState(false);
+  const debouncedText = useDebounce(text.trim());
+
+  useEffect(() => {
+    if (!debouncedText) {
+      setSuggestions([]);
+      return;
+    }
+    const controller = new AbortController();
+    payeesApi.autocomplete(debouncedText, 5, controller.signal).then((response) => {
+      if (response.success && response.data) {
+        setSuggestions(response.data.payees);
+      }
+    });
+    return () => controller.abort();
+  }, [debouncedText]);
+
+  const select = (payee: Payee | null) => {
+    setText('');
+    setSuggestions([]);
+    onChange(payee);
+  };
+
+  const handleCreate = async () => {
+    const name = text.trim();
+    if (!name || creating) return;
+    setCreating(true);
+    const response = await payeesApi.create({ name });
+    setCreating(false);
+    if (response.success && response.data) {
+      select(response.data.payee);
+    } else {
+      showError(response.message || 'Failed to add payee');
+    }
+  };
+
+  if (value) {
+    return (
+      <View style={[styles.selected, { backgroundColor: inputBg, borderColor }]}>
+        <IconSymbol name="person.fill" size={18} color={placeholderColor} />
+        <ThemedText style={styles.selectedName}>{value.name}</ThemedText>
+        <TouchableOpacity
+          onPress={() => select(null)}
+          accessibilityRole="button"
+          accessibilityLabel={`Clear payee ${value.name}`}
+          hitSlop={8}
+        >
+          <ThemedText style={{ color: placeholderColor }}>×</ThemedText>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const typed = text.trim();
+  const exactMatch = suggestions.some(
+    (payee) => payee.name.toLowerCase() === typed.toLowerCase()
+  );
+
+  return (
+    <View>
+      <TextInput
+        value={text}
+        onChangeText={setText}
+        placeholder="Matched from the note if left empty"
+        placeholderTextColor={placeholderColor}
+        style={[styles.input, { backgroundColor: inputBg, borderColor, color: textColor }]}
+        autoCorrect={false}
+        maxLength={100}
+        accessibilityLabel="Payee"
+      />
+      {(suggestions.length > 0 || (typed && debouncedText === typed && !exactMatch)) && (
+        <View style={[styles.list, { borderColor }]}>
+          {suggestions.map((payee) => (
+            <TouchableOpacity
+              key={payee._id}
+              style={[styles.option, { borderBottomColor: borderColor }]}
+              onPress={() => select(payee)}
+              accessibilityRole="button"
+              accessibilityLabel={`Use payee ${payee.name}`}
+            >
+              <ThemedText style={styles.optionName}>{payee.name}</ThemedText>
+            </TouchableOpacity>
+          ))}
+          {typed && !exactMatch && (
+            <TouchableOpacity
+              style={[styles.option, { borderBottomColor: borderColor }]}
+              onPress={handleCreate}
+              disabled={creating}
+              accessibilityRole="button"
+              accessibilityLabel={`Add ${typed} as a new payee`}
+            >
+              <IconSymbol name="plus" size={16} color="#2563EB" />
+              <ThemedText style={styles.create}>Add “{typed}”</ThemedText>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  selected: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  selectedName: {
+    flex: 1,
+    fontSize: 16,
+  },
+  list: {
+    marginTop: 4,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  optionName: {
+    fontSize: 15,
+  },
+  create: {
+    fontSize: 15,
+    color: '#2563EB',
+  },
+});
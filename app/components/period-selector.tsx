@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import {
+  formatRange,
+  isDateString,
+  presetRange,
+  type DateRange,
+  type PeriodPreset,
+} from '@/utils/report-periods';
+
+const PRESETS: { value: PeriodPreset; label: string }[] = [
+  { value: 'this-month', label: 'This month' },
+  { value: 'last-month', label: 'Last month' },
+  { value: 'ytd', label: 'Year to date' },
+  { value: 'custom', label: 'Custom' },
+];
+
+interface PeriodSelectorProps {
+  preset: PeriodPreset;
+  range: DateRange;
+  // Today in the user's time zone, which preset periods are based on
+  today: string;
+  onChange: (preset: PeriodPreset, range: DateRange) => void;
+}
+
+/**
+ * Preset periods as chips. A custom period is applied once both dates are
+ * valid, so reports are not reloaded on every keystroke.
+ */
+export function PeriodSelector({ preset, range, today, onChange }: PeriodSelectorProps) {
+  const { borderColor, textColor, inputBg, placeholderColor } = useAuthColors();
+  const [from, setFrom] = useState(range.from);
+  const [to, setTo] = useState(range.to);
+  const [error, setError] = useState('');
+
+  const select = (value: PeriodPreset) => {
+    setError('');
+    if (value === 'custom') {
+      // Start from the period on screen so only what changes needs typing
+      setFrom(range.from);
+      setTo(range.to);
+      onChange(value, range);
+    } else {
+      onChange(value, presetRange(value, today));
+    }
+  };
+
+  const apply = () => {
+    if (!isDateString(from) || !isDateString(to)) {
+      setError('Enter dates as YYYY-MM-DD');
+    } else if (from > to) {
+      setError('The start date must be before the end date');
+    } else {
+      setError('');
+      onChange('custom', { from, to });
+    }
+  };
+
+  const inputStyle = [styles.input, { backgroundColor: inputBg, borderColor, color: textColor }];
+
+  return (
+    <View>
+      <View style={styles.chips}>
+        {PRESETS.map((option) => {
+          const selected = option.value === preset;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, { borderColor }, selected && styles.chipSelected]}
+              onPress={() => select(option.value)}
+              accessibilityRole="radio"
+              accessibilityLabel={option.label}
+              accessibilityState={{ selected }}
+            >
+              <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {option.label}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {preset === 'custom' && (
+        <View style={styles.custom}>
+          <TextInput
+            value={from}
+            onChangeText={setFrom}
+            placeholder="From (YYYY-MM-DD)"
+            placeholderTextColor={placeholderColor}
+            style={inputStyle}
+            keyboardType="numbers-and-punctuation"
+            maxLength={10}
+            accessibilityLabel="From date"
+          />
+          <TextInput
+            value={to}
+            onChangeText={setTo}
+            onSubmitEditing={apply}
+            placeholder="To (YYYY-MM-DD)"
+            placeholderTextColor={placeholderColor}
+            style={inputStyle}
+            keyboardType="numbers-and-punctuation"
+            maxLength={10}
+            accessibilityLabel="To date"
+          />
+          <TouchableOpacity
+            style={styles.applyButton}
+            onPress={apply}
+            accessibilityRole="button"
+            accessibilityLabel="Apply custom period"
+          >
+            <ThemedText style={styles.applyText}>Apply</ThemedText>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {error ? (
+        <ThemedText style={styles.error}>{error}</ThemedText>
+      ) : (
+        <ThemedText style={[styles.range, { color: placeholderColor }]}>
+          {formatRange(range)}
+        </ThemedText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  custom: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  applyButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    borderRadius: 8,
+    backgroundColor: '#2563EB',
+  },
+  applyText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  range: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  error: {
+    fontSize: 13,
+    marginTop: 8,
+    color: '#DC2626',
+  },
+});
@@ -0,0 +1,87 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { useThemeColor } from '@/hooks/use-theme-color';
+import type { SignInLockout } from '@/services/api-client';
+
+interface LockoutNoticeProps {
+  lockout: SignInLockout;
+  onExpire: () => void;
+}
+
+// "14:05" for minutes, "8s" for a short wait
+const formatRemaining = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}`
+    : `${minutes}:${rest}`;
+};
+
+/**
+ * Countdown to when signing in can be tried again after failed attempts
+ */
+export function LockoutNotice({ lockout, onExpire }: LockoutNoticeProps) {
+  const warningColor = useThemeColor({}, 'warning');
+  // Counted from when the response arrived, so the device clock doesn't matter
+  const deadline = useMemo(
+    () => Date.now() + lockout.retryAfterSeconds * 1000,
+    [lockout]
+  );
+  const [remaining, setRemaining] = useState(lockout.retryAfterSeconds);
+
+  useEffect(() => {
+    const tick = () => {
+      const seconds = Math.ceil((deadline - Date.now()) / 1000);
+      if (seconds <= 0) {
+        onExpire();
+      } else {
+        setRemaining(seconds);
+      }
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [deadline, onExpire]);
+
+  const title =
+    lockout.status === 'locked'
+      ? lockout.scope === 'account'
+        ? 'Account temporarily locked'
+        : 'Sign-ins from your network are paused'
+      : 'Too many failed attempts';
+
+  return (
+    <View
+      style={[styles.notice, { borderColor: warningColor }]}
+      accessibilityRole="alert"
+      accessibilityLiveRegion="polite"
+    >
+      <ThemedText style={[styles.title, { color: warningColor }]}>{title}</ThemedText>
+      <ThemedText style={styles.message}>
+        Try again in {formatRemaining(remaining)}
+        {lockout.status === 'locked' && lockout.scope === 'account'
+          ? '. Forgot your password? You can reset it now.'
+          : ''}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  notice: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    gap: 4,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  message: {
+    fontSize: 14,
+  },
+});
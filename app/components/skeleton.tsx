@@ -0,0 +1,39 @@
+import React from 'react';
+import type { DimensionValue, StyleProp, ViewStyle } from 'react-native';
+import Animated from 'react-native-reanimated';
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+interface SkeletonProps {
+  width?: DimensionValue;
+  height?: DimensionValue;
+  radius?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Pulsing placeholder shown in place of content that is still loading
+ */
+export function Skeleton({ width = '100%', height = 16, radius = 6, style }: SkeletonProps) {
+  const backgroundColor = useThemeColor({}, 'skeleton');
+
+  return (
+    <Animated.View
+      accessibilityElementsHidden
+      importantForAccessibility="no-hide-descendants"
+      style={[
+        {
+          width,
+          height,
+          borderRadius: radius,
+          backgroundColor,
+          animationName: {
+            '50%': { opacity: 0.4 },
+          },
+          animationIterationCount: 'infinite',
+          animationDuration: '1200ms',
+        },
+        style,
+      ]}
+    />
+  );
+}
@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import { useDebounce } from '@/hooks/use-debounce';
+import { tagsApi } from '@/services/tags';
+import type { Tag } from '@/services/api';
+
+// A tag typed in that does not exist yet has no _id
+export type TagChip = Pick<Tag, 'name'> & Partial<Pick<Tag, '_id' | 'color'>>;
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 30;
+
+interface TagInputProps {
+  value: TagChip[];
+  onChange: (tags: TagChip[]) => void;
+  // When false only existing tags can be picked, so every chip has an _id
+  allowCreate?: boolean;
+  placeholder?: string;
+}
+
+/**
+ * Selected tags as chips, with matching tags suggested as the user types.
+ * Submitting or typing a comma adds the typed name as a new tag.
+ */
+export function TagInput({
+  value,
+  onChange,
+  allowCreate = true,
+  placeholder = 'Add tags',
+}: TagInputProps) {
+  const { borderColor, textColor, inputBg, placeholderColor } = useAuthColors();
+  const [text, setText] = useState('');
+  const [suggestions, setSuggestions] = useState<Tag[]>([]);
+  const debouncedText = useDebounce(text.trim().toLowerCase());
+
+  useEffect(() => {
+    if (!debouncedText) {
+      setSuggestions([]);
+      return;
+    }
+    const controller = new AbortController();
+    tagsApi.autocomplete(debouncedText, 5, controller.signal).then((response) => {
+      if (response.success && response.data) {
+        setSuggestions(response.data.tags);
+      }
+    });
+    return () => controller.abort();
+  }, [debouncedText]);
+
+  const full = value.length >= MAX_TAGS;
+
+  const add = (tag: TagChip) => {
+    setText('');
+    setSuggestions([]);
+    if (full || value.some((item) => item.name === tag.name)) return;
+    onChange([...value, tag]);
+  };
+
+  const addTyped = (typed: string) => {
+    const name = typed.trim().toLowerCase().slice(0, MAX_TAG_LENGTH);
+    if (!name) return;
+    // Prefer the existing tag when the suggestion is an exact match
+    const existing = suggestions.find((tag) => tag.name === name);
+    if (existing) {
+      add(existing);
+    } else if (allowCreate) {
+      add({ name });
+    }
+  };
+
+  const handleChangeText = (next: string) => {
+    if (next.endsWith(',')) {
+      addTyped(next.slice(0, -1));
+    } else {
+      setText(next);
+    }
+  };
+
+  const remove = (name: string) => {
+    onChange(value.filter((tag) => tag.name !== name));
+  };
+
+  const visible = suggestions.filter(
+    (tag) => !value.some((item) => item.name === tag.name)
+  );
+
+  return (
+    <View>
+      {value.length > 0 && (
+        <View style={styles.chips}>
+          {value.map((tag) => (
+            <View
+              key={tag.name}
+              style={[styles.chip, { borderColor: tag.color ?? borderColor }]}
+            >
+              <ThemedText style={styles.name}>#{tag.name}</ThemedText>
+              <TouchableOpacity
+                style={styles.dismiss}
+                onPress={() => remove(tag.name)}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove tag ${tag.name}`}
+                hitSlop={8}
+              >
+                <ThemedText style={{ color: placeholderColor }}>×</ThemedText>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <TextInput
+        value={text}
+        onChangeText={handleChangeText}
+        onSubmitEditing={() => addTyped(text)}
+        placeholder={full ? `At most ${MAX_TAGS} tags` : placeholder}
+        placeholderTextColor={placeholderColor}
+        style={[styles.input, { backgroundColor: inputBg, borderColor, color: textColor }]}
+        editable={!full}
+        autoCapitalize="none"
+        autoCorrect={false}
+        maxLength={MAX_TAG_LENGTH}
+        submitBehavior="submit"
+        returnKeyType="done"
+        accessibilityLabel="Add a tag"
+      />
+
+      {visible.length > 0 && (
+        <View style={[styles.chips, styles.suggestions]}>
+          {visible.map((tag) => (
+            <TouchableOpacity
+              key={tag._id}
+              style={[styles.chip, styles.chipBody, { borderColor }]}
+              onPress={() => add(tag)}
+              accessibilityRole="button"
+              accessibilityLabel={`Add tag ${tag.name}`}
+            >
+              <View style={[styles.dot, { backgroundColor: tag.color }]} />
+              <ThemedText style={styles.name}>{tag.name}</ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  suggestions: {
+    marginTop: 8,
+    marginBottom: 0,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingLeft: 10,
+  },
+  chipBody: {
+    gap: 6,
+    paddingVertical: 6,
+    paddingRight: 10,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  name: {
+    fontSize: 14,
+  },
+  dismiss: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+});
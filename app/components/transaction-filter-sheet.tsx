@@ -0,0 +1,336 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ThemedText } from '@/components/themed-text';
+import { TagInput, type TagChip } from '@/components/tag-input';
+import { useAuthColors } from '@/hooks/use-auth-colors';
+import type { Account, Category, Tag, TransactionType } from '@/services/api';
+import { toMinorUnits } from '@/utils/money';
+import { isDateString } from '@/utils/report-periods';
+import { EMPTY_FILTERS, type TransactionFilters } from '@/utils/transaction-filters';
+
+const TYPES: { value: TransactionType | null; label: string }[] = [
+  { value: null, label: 'All' },
+  { value: 'expense', label: 'Expense' },
+  { value: 'income', label: 'Income' },
+  { value: 'transfer', label: 'Transfer' },
+];
+
+interface TransactionFilterSheetProps {
+  visible: boolean;
+  filters: TransactionFilters;
+  accounts: Account[];
+  // Top-level categories with their children
+  categories: Category[];
+  tags: Tag[];
+  currency: string;
+  onApply: (filters: TransactionFilters) => void;
+  onClose: () => void;
+}
+
+/**
+ * Everything the transaction list can be filtered by apart from the search
+ * text. Changes apply together, so the list reloads once.
+ */
+export function TransactionFilterSheet({
+  visible,
+  filters,
+  accounts,
+  categories,
+  tags,
+  currency,
+  onApply,
+  onClose,
+}: TransactionFilterSheetProps) {
+  const { containerBg, borderColor, textColor, inputBg, placeholderColor } = useAuthColors();
+  const [draft, setDraft] = useState(filters);
+  const [error, setError] = useState('');
+
+  const update = (changes: Partial<TransactionFilters>) =>
+    setDraft((current) => ({ ...current, ...changes }));
+
+  const toggle = (key: 'accounts' | 'categories', id: string) =>
+    setDraft((current) => ({
+      ...current,
+      [key]: current[key].includes(id)
+        ? current[key].filter((item) => item !== id)
+        : [...current[key], id],
+    }));
+
+  // Start from the filters on screen each time the sheet opens
+  const handleShow = () => {
+    setDraft(filters);
+    setError('');
+  };
+
+  const handleApply = () => {
+    const min = draft.min ? toMinorUnits(draft.min, currency) : 0;
+    const max = draft.max ? toMinorUnits(draft.max, currency) : null;
+    if ((draft.from && !isDateString(draft.from)) || (draft.to && !isDateString(draft.to))) {
+      setError('Enter dates as YYYY-MM-DD');
+    } else if (draft.from && draft.to && draft.from > draft.to) {
+      setError('The start date must be before the end date');
+    } else if (min === null || min < 0 || (draft.max && (max === null || max < 0))) {
+      setError('Enter amounts as positive numbers');
+    } else if (max !== null && min > max) {
+      setError('The minimum amount must not exceed the maximum');
+    } else {
+      onApply(draft);
+    }
+  };
+
+  const selectedTags: TagChip[] = tags.filter((tag) => draft.tags.includes(tag._id));
+  const categoryOptions = categories.flatMap((category) => [
+    { category, depth: 0 },
+    ...(category.children ?? []).map((child) => ({ category: child, depth: 1 })),
+  ]);
+  const inputStyle = [styles.input, { backgroundColor: inputBg, borderColor, color: textColor }];
+  const muted = { color: placeholderColor };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, { borderColor }, selected && styles.chipSelected]}
+      onPress={onPress}
+      accessibilityRole="checkbox"
+      accessibilityLabel={label}
+      accessibilityState={{ checked: selected }}
+    >
+      <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onShow={handleShow}
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: containerBg }]}>
+        <View style={[styles.header, { borderBottomColor: borderColor }]}>
+          <TouchableOpacity onPress={onClose} accessibilityRole="button" hitSlop={8}>
+            <ThemedText style={styles.headerAction}>Cancel</ThemedText>
+          </TouchableOpacity>
+          <ThemedText style={styles.headerTitle}>Filters</ThemedText>
+          <TouchableOpacity
+            onPress={() => setDraft({ ...EMPTY_FILTERS, q: draft.q })}
+            accessibilityRole="button"
+            accessibilityLabel="Reset filters"
+            hitSlop={8}
+          >
+            <ThemedText style={styles.headerAction}>Reset</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            <ThemedText style={[styles.sectionTitle, muted]}>TYPE</ThemedText>
+            <View style={styles.chips}>
+              {TYPES.map((option) =>
+                renderChip(option.label, option.label, draft.type === option.value, () =>
+                  update({ type: option.value })
+                )
+              )}
+            </View>
+
+            <ThemedText style={[styles.sectionTitle, muted]}>DATE RANGE</ThemedText>
+            <View style={styles.pair}>
+              <TextInput
+                value={draft.from}
+                onChangeText={(from) => update({ from: from.trim() })}
+                placeholder="From (YYYY-MM-DD)"
+                placeholderTextColor={placeholderColor}
+                style={inputStyle}
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+                accessibilityLabel="From date"
+              />
+              <TextInput
+                value={draft.to}
+                onChangeText={(to) => update({ to: to.trim() })}
+                placeholder="To (YYYY-MM-DD)"
+                placeholderTextColor={placeholderColor}
+                style={inputStyle}
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+                accessibilityLabel="To date"
+              />
+            </View>
+
+            <ThemedText style={[styles.sectionTitle, muted]}>AMOUNT ({currency})</ThemedText>
+            <View style={styles.pair}>
+              <TextInput
+                value={draft.min}
+                onChangeText={(min) => update({ min: min.trim() })}
+                placeholder="Min"
+                placeholderTextColor={placeholderColor}
+                style={inputStyle}
+                keyboardType="decimal-pad"
+                accessibilityLabel="Minimum amount"
+              />
+              <TextInput
+                value={draft.max}
+                onChangeText={(max) => update({ max: max.trim() })}
+                placeholder="Max"
+                placeholderTextColor={placeholderColor}
+                style={inputStyle}
+                keyboardType="decimal-pad"
+                accessibilityLabel="Maximum amount"
+              />
+            </View>
+
+            {accounts.length > 0 && (
+              <>
+                <ThemedText style={[styles.sectionTitle, muted]}>ACCOUNTS</ThemedText>
+                <View style={styles.chips}>
+                  {accounts.map((account) =>
+                    renderChip(account._id, account.name, draft.accounts.includes(account._id), () =>
+                      toggle('accounts', account._id)
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            {categoryOptions.length > 0 && (
+              <>
+                <ThemedText style={[styles.sectionTitle, muted]}>CATEGORIES</ThemedText>
+                <View style={styles.chips}>
+                  {categoryOptions.map(({ category, depth }) =>
+                    renderChip(
+                      category._id,
+                      depth > 0 ? `› ${category.name}` : category.name,
+                      draft.categories.includes(category._id),
+                      () => toggle('categories', category._id)
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            <ThemedText style={[styles.sectionTitle, muted]}>TAGS</ThemedText>
+            <TagInput
+              value={selectedTags}
+              onChange={(chips) =>
+                update({ tags: chips.flatMap((chip) => (chip._id ? [chip._id] : [])) })
+              }
+              allowCreate={false}
+              placeholder="Any tag"
+            />
+
+            {error ? <ThemedText style={styles.error}>{error}</ThemedText> : null}
+
+            <TouchableOpacity
+              style={styles.button}
+              onPress={handleApply}
+              accessibilityRole="button"
+              accessibilityLabel="Apply filters"
+            >
+              <ThemedText style={styles.buttonText}>Show transactions</ThemedText>
+            </TouchableOpacity>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  headerAction: {
+    fontSize: 16,
+    color: '#2563EB',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  pair: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  error: {
+    color: '#DC2626',
+    fontSize: 13,
+    marginTop: 12,
+  },
+  button: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 8,
+    backgroundColor: '#2563EB',
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
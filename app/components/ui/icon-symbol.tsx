@@ -18,6 +18,24 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'chevron.left': 'chevron-left',
+  'gearshape.fill': 'settings',
+  'dollarsign.circle.fill': 'attach-money',
+  'checkmark': 'check',
+  'magnifyingglass': 'search',
+  'square.and.arrow.up': 'ios-share',
+  'plus': 'add',
+  'person.fill': 'person',
+  'list.bullet': 'list',
+  'chart.pie.fill': 'pie-chart',
+  'chart.bar.fill': 'bar-chart',
+  'line.3.horizontal.decrease': 'filter-list',
+  'pencil': 'edit',
+  'trash': 'delete',
+  'lock.fill': 'lock',
+  'iphone': 'smartphone',
+  'desktopcomputer': 'computer',
+  'rectangle.portrait.and.arrow.right': 'logout',
 } as IconMapping;
 
 /**
@@ -16,6 +16,11 @@ export const Colors = {
     icon: '#687076',
     tabIconDefault: '#687076',
     tabIconSelected: tintColorLight,
+    income: '#16A34A',
+    expense: '#DC2626',
+    // Skeleton placeholders, empty chart rings and progress bar tracks
+    skeleton: '#E5E7EB',
+    warning: '#D97706',
   },
   dark: {
     text: '#ECEDEE',
@@ -24,6 +29,10 @@ export const Colors = {
     icon: '#9BA1A6',
     tabIconDefault: '#9BA1A6',
     tabIconSelected: tintColorDark,
+    income: '#4ADE80',
+    expense: '#F87171',
+    skeleton: '#273244',
+    warning: '#FBBF24',
   },
 };
 
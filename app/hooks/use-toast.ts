@@ -1,3 +1,4 @@
+import { useCallback, useMemo } from 'react';
 import Toast from 'react-native-toast-message';
 
 export type ToastType = 'success' | 'error' | 'info' | 'warning';
@@ -16,9 +17,10 @@ interface ShowToastOptions {
 /**
  * Custom hook for showing toast messages
  * Toast messages appear in the top right corner by default
+ * The returned functions keep their identity across renders
  */
 export const useToast = () => {
-  const showToast = (
+  const showToast = useCallback((
     message: string,
     options?: ShowToastOptions
   ) => {
@@ -43,46 +45,46 @@ export const useToast = () => {
       topOffset,
       bottomOffset,
     });
-  };
+  }, []);
 
-  const showSuccess = (message: string, text2?: string) => {
+  const showSuccess = useCallback((message: string, text2?: string) => {
     showToast(message, {
       type: 'success',
       text2,
     });
-  };
+  }, [showToast]);
 
-  const showError = (message: string, text2?: string) => {
+  const showError = useCallback((message: string, text2?: string) => {
     showToast(message, {
       type: 'error',
       text2,
     });
-  };
+  }, [showToast]);
 
-  const showInfo = (message: string, text2?: string) => {
+  const showInfo = useCallback((message: string, text2?: string) => {
     showToast(message, {
       type: 'info',
       text2,
     });
-  };
+  }, [showToast]);
 
-  const showWarning = (message: string, text2?: string) => {
+  const showWarning = useCallback((message: string, text2?: string) => {
     showToast(message, {
       type: 'warning',
       text2,
     });
-  };
+  }, [showToast]);
 
-  const hide = () => {
+  const hide = useCallback(() => {
     Toast.hide();
-  };
+  }, []);
 
-  return {
+  return useMemo(() => ({
     showToast,
     showSuccess,
     showError,
     showInfo,
     showWarning,
     hide,
-  };
+  }), [showToast, showSuccess, showError, showInfo, showWarning, hide]);
 };
@@ -0,0 +1,22 @@
+/**
+ * Accounts API
+ * Cash, bank and card accounts with their current balances
+ */
+
+import { apiRequest, ApiResponse } from './api-client';
+import type { Account } from './api';
+
+const API_BASE = '/api/v1';
+
+export const accountsApi = {
+  list: async (
+    includeArchived = false,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ accounts: Account[] }>> => {
+    const query = includeArchived ? '?includeArchived=true' : '';
+    return apiRequest(`${API_BASE}/accounts${query}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+};
@@ -13,11 +13,24 @@ import { checkNetworkStatus } from '@/hooks/use-network-status';
 
 const API_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
 
+/**
+ * Sent with a failed sign-in when the next attempt has to wait, after
+ * repeated wrong passwords for the account or from this network
+ */
+export interface SignInLockout {
+  // 'delayed' after a few failures, 'locked' after many
+  status: 'delayed' | 'locked';
+  scope: 'account' | 'ip';
+  retryAt: string;
+  retryAfterSeconds: number;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   message: string;
   data?: T;
   error?: string;
+  lockout?: SignInLockout;
 }
 
 interface RequestOptions extends RequestInit {
@@ -189,6 +202,28 @@ export const apiRequest = async <T>(
   };
 };
 
+/**
+ * Absolute URL and auth headers for a file download. Native downloads write
+ * straight to disk instead of going through fetch, so they need the
+ * (refreshed) token themselves. Returns null when the session has expired.
+ */
+export const getDownloadRequest = async (
+  endpoint: string
+): Promise<{ url: string; headers: Record<string, string> } | null> => {
+  let accessToken = getAccessToken();
+  if (accessToken && (shouldRefreshToken(accessToken) || isTokenExpired(accessToken))) {
+    const newToken = await refreshAccessToken();
+    accessToken = newToken ?? (isTokenExpired(accessToken) ? null : accessToken);
+  }
+  if (!accessToken) {
+    return null;
+  }
+  return {
+    url: `${API_URL}${endpoint}`,
+    headers: { Authorization: `Bearer ${accessToken}` },
+  };
+};
+
 /**
  * Make a single API request (internal function)
  */
@@ -234,9 +269,9 @@ const makeRequest = async <T>(
     }
   }
 
-  // Prepare headers
+  // Prepare headers (fetch sets the multipart boundary itself for FormData)
   const headers: HeadersInit = {
-    'Content-Type': 'application/json',
+    ...(fetchOptions.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
     ...fetchOptions.headers,
   };
 
@@ -9,15 +9,24 @@ import { apiRequest, ApiResponse } from './api-client';
 // Re-export ApiResponse for backward compatibility
 export type { ApiResponse };
 
-export interface SignupPayload {
+export type DevicePlatform = 'ios' | 'android' | 'web' | 'other';
+
+// How the device signing in describes itself in the session list
+export interface DeviceInfo {
+  deviceName?: string;
+  platform?: DevicePlatform;
+}
+
+export interface SignupPayload extends DeviceInfo {
   name: string;
   email: string;
   password: string;
   confirmPassword: string;
-  profileImage?: string;
+  // IANA time zone, e.g. Europe/Berlin
+  timezone?: string;
 }
 
-export interface SigninPayload {
+export interface SigninPayload extends DeviceInfo {
   email: string;
   password: string;
 }
@@ -40,8 +49,11 @@ export interface User {
   _id: string;
   name: string;
   email: string;
+  // API path of the profile photo (e.g. /attachments/<id>/file), '' when none
   profilePath: string;
   currency: string;
+  // IANA time zone reports group days and months in
+  timezone: string;
   isVerified: boolean;
   createdAt: string;
 }
@@ -52,6 +64,485 @@ export interface AuthResponse {
   refreshToken: string;
 }
 
+// Signin's answer when the account has two-factor enabled: no tokens until
+// the challenge is completed with a code (authApi.verifyTwoFactor)
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export type SigninResponse = AuthResponse | TwoFactorChallenge;
+
+export interface VerifyTwoFactorPayload extends DeviceInfo {
+  challengeToken: string;
+  // Authenticator code, or a recovery code
+  code: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  // Base32 key for typing into an authenticator app
+  secret: string;
+  // otpauth:// URI, as encoded in a setup QR code
+  otpauthUrl: string;
+}
+
+// A device the user is signed in on
+export interface Session {
+  _id: string;
+  deviceName: string;
+  platform: DevicePlatform;
+  ip: string;
+  userAgent: string;
+  lastUsedAt: string;
+  createdAt: string;
+  // The session making the request
+  current: boolean;
+}
+
+/**
+ * Integer amount in the currency's minor units (1234 = 12.34 USD = 1234 JPY)
+ * Never send decimals to the API; use utils/money to parse and format.
+ */
+export type MinorUnits = number;
+
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+/**
+ * One line of a split transaction. Lines add up to the transaction amount;
+ * reports and budgets count each line under its own category.
+ */
+export interface TransactionSplit {
+  _id: string;
+  category: string | null;
+  amount: MinorUnits;
+  // Share of the transaction's baseAmount
+  baseAmount: MinorUnits;
+  note: string;
+}
+
+export interface Transaction {
+  _id: string;
+  amount: MinorUnits;
+  currency: string;
+  // amount converted into the user's base currency at posting time
+  baseAmount: MinorUnits;
+  baseCurrency: string;
+  // Rate applied at posting time, against the base currency of the time
+  exchangeRate: number;
+  // Rates of base currency changes since posting, multiplied together
+  rebaseRate: number;
+  type: TransactionType;
+  date: string;
+  note: string;
+  // Always null when split
+  category: string | null;
+  // Empty unless the transaction is split
+  splits: TransactionSplit[];
+  // Tag ids
+  tags: string[];
+  payee: string | null;
+  account: string | null;
+  transferId?: string;
+  transferDirection?: 'in' | 'out';
+  recurringRuleId?: string;
+  importBatchId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateTransactionPayload {
+  amount: MinorUnits;
+  type: 'income' | 'expense';
+  date: string;
+  note?: string;
+  // Omit to let the user's categorization rules choose; null for none
+  category?: string | null;
+  // 2-20 lines adding up to `amount`; leave `category` out when splitting
+  splits?: { category?: string | null; amount: MinorUnits; note?: string }[];
+  // Tag names; new names create tags
+  tags?: string[];
+  // Omit to match a payee from the note; null for none
+  payee?: string | null;
+  account?: string | null;
+  currency?: string;
+}
+
+// Comma-join ids to filter by several accounts, categories or tags
+export interface TransactionListQuery {
+  // nextCursor of the previous page
+  cursor?: string;
+  // 1-100, 20 by default
+  limit?: number;
+  type?: TransactionType;
+  from?: string;
+  to?: string;
+  category?: string;
+  account?: string;
+  tag?: string;
+  payee?: string;
+  // Compared with baseAmount
+  minAmount?: MinorUnits;
+  maxAmount?: MinorUnits;
+  // Searches notes and payee names
+  q?: string;
+}
+
+/**
+ * Totals of a day a page of transactions falls on, in the user's time zone
+ * and base currency, over every transaction of that day matching the filters
+ */
+export interface TransactionDay {
+  date: string;
+  income: MinorUnits;
+  expense: MinorUnits;
+  net: MinorUnits;
+  count: number;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  days: TransactionDay[];
+  // nextCursor is null on the last page
+  pagination: { limit: number; nextCursor: string | null };
+}
+
+export interface UpdateTransactionPayload
+  extends Partial<Omit<CreateTransactionPayload, 'splits'>> {
+  // null turns a split transaction back into a plain one
+  splits?: CreateTransactionPayload['splits'] | null;
+}
+
+export interface Tag {
+  _id: string;
+  // lowercase
+  name: string;
+  color: string;
+  // Only in the full list
+  transactionCount?: number;
+}
+
+export interface Payee {
+  _id: string;
+  name: string;
+  // Other spellings, normalized (lowercase, no accents or punctuation)
+  aliases: string[];
+  // Only in the full list
+  transactionCount?: number;
+}
+
+export interface Category {
+  _id: string;
+  name: string;
+  type: 'income' | 'expense';
+  parent: string | null;
+  icon: string;
+  color: string;
+  isArchived: boolean;
+  children?: Category[];
+}
+
+export interface CategorySuggestion {
+  category: Pick<Category, '_id' | 'name' | 'icon' | 'color' | 'parent'>;
+  // 0-1, share of the model's belief
+  confidence: number;
+}
+
+export interface SuggestionFeedbackPayload {
+  type: 'income' | 'expense';
+  note: string;
+  amount?: MinorUnits;
+  currency?: string;
+  category: string;
+  accepted: boolean;
+}
+
+/**
+ * Receipt photo or PDF invoice attached to a transaction, or a profile photo.
+ * Images also have a WebP thumbnail.
+ */
+export interface Attachment {
+  _id: string;
+  purpose: 'receipt' | 'profile';
+  transaction: string | null;
+  mimeType: 'image/jpeg' | 'image/png' | 'image/webp' | 'application/pdf';
+  // Bytes
+  size: number;
+  originalName: string;
+  createdAt: string;
+}
+
+export interface Account {
+  _id: string;
+  name: string;
+  type: 'cash' | 'bank' | 'credit-card' | 'savings' | 'investment' | 'other';
+  currency: string;
+  openingBalance: MinorUnits;
+  currentBalance: MinorUnits;
+  totals: {
+    income: MinorUnits;
+    expense: MinorUnits;
+  };
+  isArchived: boolean;
+}
+
+export interface BudgetStatus {
+  period: string;
+  limit: MinorUnits;
+  rolloverAmount: MinorUnits;
+  available: MinorUnits;
+  spent: MinorUnits;
+  remaining: MinorUnits;
+  percentUsed: number;
+}
+
+export interface Budget {
+  _id: string;
+  category: string;
+  amount: MinorUnits;
+  rollover: boolean;
+  startPeriod: string;
+  status: BudgetStatus;
+}
+
+// The budget list populates the category
+export interface BudgetWithCategory extends Omit<Budget, 'category'> {
+  category: Pick<Category, '_id' | 'name' | 'icon' | 'color' | 'parent' | 'isArchived'> | null;
+}
+
+export interface Currency {
+  code: string;
+  name: string;
+  symbol: string;
+  // Decimal places of the minor unit (0 for JPY)
+  minorUnits: number;
+}
+
+export interface BaseCurrencyPreview {
+  from: string;
+  to: string;
+  // Latest stored rate from the old to the new base currency, if any
+  rate: number | null;
+  transactions: number;
+  budgets: number;
+}
+
+export interface ExchangeRate {
+  _id: string;
+  from: string;
+  to: string;
+  // Units of `to` per unit of `from`
+  rate: number;
+  date: string;
+  source: 'manual' | 'import';
+}
+
+export interface RecurringRule {
+  _id: string;
+  amount: MinorUnits;
+  currency: string;
+  type: 'income' | 'expense';
+  note: string;
+  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number;
+  startDate: string;
+  endDate?: string;
+  maxOccurrences?: number;
+  lastBusinessDay: boolean;
+  nextOccurrence: string | null;
+  isActive: boolean;
+  // Why the server paused the rule, until it is resumed
+  lastError: string | null;
+  lastErrorAt: string | null;
+  failedRuns: number;
+}
+
+export type RuleCondition =
+  | { field: 'note'; operator: 'contains' | 'equals' | 'startsWith' | 'endsWith'; value: string }
+  // value is in minor units of the base currency, compared with baseAmount
+  | { field: 'amount'; operator: 'lt' | 'lte' | 'gt' | 'gte' | 'eq'; value: MinorUnits }
+  | { field: 'account'; operator: 'equals'; value: string };
+
+export interface CategorizationRule {
+  _id: string;
+  name: string;
+  type: 'income' | 'expense';
+  conditions: RuleCondition[];
+  category: string;
+  // Tag ids; names when creating or updating a rule
+  tags: string[];
+  // lower runs first; the first matching rule wins
+  priority: number;
+  isActive: boolean;
+}
+
+export type CsvField = 'date' | 'description' | 'debit' | 'credit' | 'amount' | 'balance';
+
+// Zero-based column index per field
+export type ColumnMapping = Partial<Record<CsvField, number>>;
+
+export interface CsvFormat {
+  delimiter: ',' | ';' | '\t' | '|';
+  dateFormat: string;
+  decimalSeparator: '.' | ',';
+  hasHeader: boolean;
+}
+
+export interface ImportBatch {
+  _id: string;
+  format: 'csv' | 'ofx' | 'qif';
+  fileName: string;
+  // CSV: format and suggested mapping; QIF: date format and decimal
+  // separator; OFX: statement currency
+  detected: Partial<CsvFormat> & { mapping?: ColumnMapping; currency?: string | null };
+  status: 'pending' | 'committed';
+  headers?: string[] | null;
+  sample?: string[][];
+  rowCount?: number;
+  createdAt: string;
+}
+
+export interface ImportOptions extends Partial<CsvFormat> {
+  account: string;
+  mapping?: ColumnMapping;
+}
+
+export interface ImportRow {
+  row: number;
+  date: string | null;
+  description: string;
+  type: 'income' | 'expense' | null;
+  amount: MinorUnits | null;
+  balance: MinorUnits | null;
+  // Bank transaction id (OFX FITID)
+  externalId?: string;
+  // Category name from the file (QIF)
+  category?: string;
+  // Duplicates look like a transaction already on the account; imported rows
+  // have a bank id that is already there and are never imported again
+  status: 'new' | 'duplicate' | 'imported' | 'invalid';
+  error?: string;
+  duplicateOf?: string;
+}
+
+export interface ImportCategoryMatch {
+  name: string;
+  type: 'income' | 'expense';
+  rows: number;
+  // Matching category, or null when the user must pick one in categoryMap
+  category: string | null;
+}
+
+export interface ImportPreview {
+  account: string;
+  format?: Partial<CsvFormat>;
+  mapping?: ColumnMapping;
+  currency: string;
+  rows: ImportRow[];
+  categories: ImportCategoryMatch[];
+  summary: {
+    total: number;
+    new: number;
+    duplicates: number;
+    imported: number;
+    invalid: number;
+  };
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export interface TransactionExportFilters {
+  format: ExportFormat;
+  from?: string;
+  to?: string;
+  accounts?: string[];
+  // subcategories of each category are included
+  categories?: string[];
+  // Tag ids
+  tags?: string[];
+}
+
+/**
+ * Report periods are calendar dates (YYYY-MM-DD) in the user's time zone,
+ * both included. Amounts are in minor units of the base `currency`.
+ */
+export interface ReportQuery {
+  from?: string;
+  to?: string;
+  type?: 'income' | 'expense';
+}
+
+interface ReportHeader {
+  currency: string;
+  timezone: string;
+  from: string;
+  to: string;
+}
+
+export interface CategoryReport extends ReportHeader {
+  type: 'income' | 'expense';
+  total: MinorUnits;
+  categories: {
+    // null for uncategorized
+    category: Pick<Category, '_id' | 'name' | 'icon' | 'color' | 'parent'> | null;
+    total: MinorUnits;
+    count: number;
+    // 0-1 share of the total
+    share: number;
+  }[];
+}
+
+export interface IncomeExpenseReport extends ReportHeader {
+  months: { month: string; income: MinorUnits; expense: MinorUnits; net: MinorUnits }[];
+}
+
+export interface TopPayeesReport extends ReportHeader {
+  type: 'income' | 'expense';
+  payees: { payee: Pick<Payee, '_id' | 'name'>; total: MinorUnits; count: number }[];
+}
+
+export interface DailyAverageReport extends ReportHeader {
+  type: 'income' | 'expense';
+  total: MinorUnits;
+  // Days up to today
+  days: number;
+  average: MinorUnits;
+  daily: { date: string; total: MinorUnits }[];
+}
+
+// percent is null when the previous amount was zero
+export interface ReportChange {
+  amount: MinorUnits;
+  percent: number | null;
+}
+
+export interface PeriodTotals {
+  from: string;
+  to: string;
+  income: MinorUnits;
+  expense: MinorUnits;
+  net: MinorUnits;
+}
+
+export interface ComparisonReport {
+  currency: string;
+  timezone: string;
+  type: 'income' | 'expense';
+  current: PeriodTotals;
+  previous: PeriodTotals;
+  change: { income: ReportChange; expense: ReportChange; net: ReportChange };
+  categories: {
+    category: CategoryReport['categories'][number]['category'];
+    current: MinorUnits;
+    previous: MinorUnits;
+    change: ReportChange;
+  }[];
+}
+
 /**
  * Legacy apiRequest - now uses api-client
  * Kept for backward compatibility
@@ -76,8 +567,8 @@ export const authApi = {
     });
   },
 
-  signin: async (payload: SigninPayload, signal?: AbortSignal): Promise<ApiResponse<AuthResponse>> => {
-    return apiRequest<AuthResponse>(`${API_BASE}/auth/signin`, {
+  signin: async (payload: SigninPayload, signal?: AbortSignal): Promise<ApiResponse<SigninResponse>> => {
+    return apiRequest<SigninResponse>(`${API_BASE}/auth/signin`, {
       method: 'POST',
       body: JSON.stringify(payload),
       skipAuth: true, // Skip token for signin
@@ -144,4 +635,109 @@ export const authApi = {
       signal, // Support request cancellation
     });
   },
+
+  /**
+   * Complete a sign-in that returned a two-factor challenge
+   */
+  verifyTwoFactor: async (
+    payload: VerifyTwoFactorPayload,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<AuthResponse>> => {
+    return apiRequest<AuthResponse>(`${API_BASE}/auth/2fa/verify`, {
+      method: 'POST',
+      body: JSON.stringify(payload),
+      skipAuth: true, // Not signed in yet
+      skipRefresh: true, // A wrong code is a 401 that refreshing can't fix
+      signal, // Support request cancellation
+    });
+  },
+
+  twoFactorStatus: async (signal?: AbortSignal): Promise<ApiResponse<TwoFactorStatus>> => {
+    return apiRequest(`${API_BASE}/auth/2fa`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Start enrollment with a new secret; nothing changes until it's enabled
+   */
+  setupTwoFactor: async (signal?: AbortSignal): Promise<ApiResponse<TwoFactorSetup>> => {
+    return apiRequest(`${API_BASE}/auth/2fa/setup`, {
+      method: 'POST',
+      signal, // Support request cancellation
+    });
+  },
+
+  enableTwoFactor: async (
+    code: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ recoveryCodes: string[] }>> => {
+    return apiRequest(`${API_BASE}/auth/2fa/enable`, {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+      signal, // Support request cancellation
+    });
+  },
+
+  disableTwoFactor: async (code: string, signal?: AbortSignal): Promise<ApiResponse> => {
+    return apiRequest(`${API_BASE}/auth/2fa/disable`, {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+      signal, // Support request cancellation
+    });
+  },
+
+  regenerateRecoveryCodes: async (
+    code: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ recoveryCodes: string[] }>> => {
+    return apiRequest(`${API_BASE}/auth/2fa/recovery-codes`, {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Revoke the session the refresh token belongs to
+   */
+  logout: async (payload: RefreshTokenPayload, signal?: AbortSignal): Promise<ApiResponse> => {
+    return apiRequest(`${API_BASE}/auth/logout`, {
+      method: 'POST',
+      body: JSON.stringify(payload),
+      skipAuth: true, // The refresh token identifies the session
+      skipRefresh: true, // Signing out must not refresh the session first
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Devices the user is signed in on, most recently used first
+   */
+  sessions: async (signal?: AbortSignal): Promise<ApiResponse<{ sessions: Session[] }>> => {
+    return apiRequest(`${API_BASE}/auth/sessions`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  revokeSession: async (id: string, signal?: AbortSignal): Promise<ApiResponse> => {
+    return apiRequest(`${API_BASE}/auth/sessions/${id}`, {
+      method: 'DELETE',
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Sign out every device except this one
+   */
+  revokeOtherSessions: async (
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ revokedCount: number }>> => {
+    return apiRequest(`${API_BASE}/auth/sessions`, {
+      method: 'DELETE',
+      signal, // Support request cancellation
+    });
+  },
 };
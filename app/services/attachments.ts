@@ -0,0 +1,59 @@
+/**
+ * Attachments API
+ * Receipt photos and PDF invoices on transactions. Files are only served to
+ * their owner, so they are loaded with the auth headers from fileRequest.
+ */
+
+import { apiRequest, ApiResponse, getDownloadRequest } from './api-client';
+import type { Attachment } from './api';
+
+const API_BASE = '/api/v1';
+
+export const attachmentsApi = {
+  list: async (
+    transactionId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ attachments: Attachment[] }>> => {
+    return apiRequest(`${API_BASE}/attachments?transaction=${transactionId}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * @param file - Picked image or PDF as { uri, name, type } (React Native) or a web File
+   */
+  upload: async (
+    transactionId: string,
+    file: { uri: string; name: string; type?: string } | Blob,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ attachment: Attachment }>> => {
+    const body = new FormData();
+    body.append('transaction', transactionId);
+    // React Native's FormData accepts { uri, name, type } objects for files
+    body.append('file', file as Blob);
+    return apiRequest(`${API_BASE}/attachments`, {
+      method: 'POST',
+      body,
+      signal, // Support request cancellation
+    });
+  },
+
+  remove: async (id: string, signal?: AbortSignal): Promise<ApiResponse> => {
+    return apiRequest(`${API_BASE}/attachments/${id}`, {
+      method: 'DELETE',
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * URL and headers to display or download a file, e.g. as an image source.
+   * Also accepts a user's profilePath. Null when the session has expired.
+   */
+  fileRequest: (pathOrId: string, variant: 'file' | 'thumbnail' = 'file') =>
+    getDownloadRequest(
+      pathOrId.startsWith('/')
+        ? `${API_BASE}${pathOrId}`
+        : `${API_BASE}/attachments/${pathOrId}/${variant}`
+    ),
+};
@@ -0,0 +1,26 @@
+/**
+ * Budgets API
+ * Monthly spending limits per expense category
+ */
+
+import { apiRequest, ApiResponse } from './api-client';
+import type { BudgetWithCategory } from './api';
+
+const API_BASE = '/api/v1';
+
+export const budgetsApi = {
+  /**
+   * Every budget with its spent vs remaining for a month (YYYY-MM), the
+   * current month by default
+   */
+  list: async (
+    period?: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ period: string; budgets: BudgetWithCategory[] }>> => {
+    const query = period ? `?period=${period}` : '';
+    return apiRequest(`${API_BASE}/budgets${query}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+};
@@ -0,0 +1,25 @@
+/**
+ * Categories API
+ * Income and expense category trees for the signed-in user
+ */
+
+import { apiRequest, ApiResponse } from './api-client';
+import type { Category } from './api';
+
+const API_BASE = '/api/v1';
+
+export const categoriesApi = {
+  /**
+   * Top-level categories with their subcategories in `children`
+   */
+  list: async (
+    type?: Category['type'],
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ categories: Category[] }>> => {
+    const query = type ? `?type=${type}` : '';
+    return apiRequest(`${API_BASE}/categories${query}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+};
@@ -0,0 +1,20 @@
+/**
+ * Currencies API
+ * ISO 4217 currency list served by the backend
+ */
+
+import { apiRequest, ApiResponse } from './api-client';
+import type { Currency } from './api';
+
+const API_BASE = '/api/v1';
+
+export const currenciesApi = {
+  list: async (search?: string, signal?: AbortSignal): Promise<ApiResponse<{ currencies: Currency[] }>> => {
+    const query = search ? `?search=${encodeURIComponent(search)}` : '';
+    return apiRequest(`${API_BASE}/currencies${query}`, {
+      method: 'GET',
+      skipAuth: true, // Public endpoint
+      signal, // Support request cancellation
+    });
+  },
+};
@@ -0,0 +1,86 @@
+/**
+ * Exports API
+ * Download transactions as CSV, Excel (XLSX) or full-fidelity JSON
+ */
+
+import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import { getDownloadRequest, ApiResponse } from './api-client';
+import type { ExportFormat, TransactionExportFilters } from './api';
+import { logError } from '@/utils/logger';
+
+const API_BASE = '/api/v1';
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json',
+};
+
+const buildQuery = ({ format, from, to, accounts, categories, tags }: TransactionExportFilters) => {
+  const params = new URLSearchParams({ format });
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  if (accounts?.length) params.set('accounts', accounts.join(','));
+  if (categories?.length) params.set('categories', categories.join(','));
+  if (tags?.length) params.set('tags', tags.join(','));
+  return params.toString();
+};
+
+/**
+ * Pull the error message out of a JSON error response, if there is one
+ */
+const readErrorMessage = async (response: Response): Promise<string> => {
+  try {
+    const data = await response.json();
+    return data.message || `Export failed (HTTP ${response.status})`;
+  } catch {
+    return `Export failed (HTTP ${response.status})`;
+  }
+};
+
+export const exportsApi = {
+  /**
+   * Download transactions to a file. On native the file is written to the
+   * cache directory and its uri returned for sharing; on web the browser
+   * saves it and no uri is returned.
+   */
+  downloadTransactions: async (
+    filters: TransactionExportFilters
+  ): Promise<ApiResponse<{ fileName: string; uri?: string }>> => {
+    const request = await getDownloadRequest(
+      `${API_BASE}/exports/transactions?${buildQuery(filters)}`
+    );
+    if (!request) {
+      return { success: false, message: 'Session expired. Please sign in again.' };
+    }
+
+    const fileName = `transactions-${new Date().toISOString().slice(0, 10)}.${filters.format}`;
+
+    try {
+      if (Platform.OS === 'web') {
+        const response = await fetch(request.url, { headers: request.headers });
+        if (!response.ok) {
+          return { success: false, message: await readErrorMessage(response) };
+        }
+        const blobUrl = URL.createObjectURL(await response.blob());
+        const link = document.createElement('a');
+        link.href = blobUrl;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(blobUrl);
+        return { success: true, message: 'Export downloaded', data: { fileName } };
+      }
+
+      // Streams the response to disk, so large exports never sit in memory
+      const file = await File.downloadFileAsync(request.url, new File(Paths.cache, fileName), {
+        headers: request.headers,
+        idempotent: true, // Replace an earlier export from the same day
+      });
+      return { success: true, message: 'Export downloaded', data: { fileName, uri: file.uri } };
+    } catch (error) {
+      logError('Transaction export failed', error);
+      return { success: false, message: 'Export failed. Please try again.' };
+    }
+  },
+};
@@ -0,0 +1,74 @@
+/**
+ * Imports API
+ * Upload a bank statement (CSV, OFX/QFX or QIF), preview it, then commit
+ */
+
+import { apiRequest, ApiResponse } from './api-client';
+import type { ImportBatch, ImportOptions, ImportPreview } from './api';
+
+const API_BASE = '/api/v1';
+
+export const importsApi = {
+  /**
+   * @param file - Picked file as { uri, name, type } (React Native) or a web File
+   */
+  upload: async (
+    format: ImportBatch['format'],
+    file: { uri: string; name: string; type?: string } | Blob,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ import: ImportBatch }>> => {
+    const body = new FormData();
+    // React Native's FormData accepts { uri, name, type } objects for files
+    body.append('file', file as Blob);
+    return apiRequest(`${API_BASE}/imports/${format}`, {
+      method: 'POST',
+      body,
+      signal, // Support request cancellation
+    });
+  },
+
+  get: async (id: string, signal?: AbortSignal): Promise<ApiResponse<{ import: ImportBatch }>> => {
+    return apiRequest(`${API_BASE}/imports/${id}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  preview: async (
+    id: string,
+    options: ImportOptions,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<ImportPreview>> => {
+    return apiRequest(`${API_BASE}/imports/${id}/preview`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+      signal, // Support request cancellation
+    });
+  },
+
+  commit: async (
+    id: string,
+    options: ImportOptions & {
+      excludeRows?: number[];
+      includeDuplicates?: number[];
+      // File category name -> category id (null for uncategorized)
+      categoryMap?: Record<string, string | null>;
+    },
+    signal?: AbortSignal
+  ): Promise<
+    ApiResponse<{ imported: number; skipped: number; failed: { row: number; message: string }[] }>
+  > => {
+    return apiRequest(`${API_BASE}/imports/${id}/commit`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+      signal, // Support request cancellation
+    });
+  },
+
+  discard: async (id: string, signal?: AbortSignal): Promise<ApiResponse> => {
+    return apiRequest(`${API_BASE}/imports/${id}`, {
+      method: 'DELETE',
+      signal, // Support request cancellation
+    });
+  },
+};
@@ -0,0 +1,91 @@
+/**
+ * Payees API
+ * Who transactions were paid to or received from. Aliases let different
+ * spellings ("AMZN Mktp", "Amazon") resolve to one payee.
+ */
+
+import { apiRequest, ApiResponse } from './api-client';
+import type { Payee } from './api';
+
+const API_BASE = '/api/v1';
+
+export const payeesApi = {
+  /**
+   * All payees with their transactionCount
+   */
+  list: async (signal?: AbortSignal): Promise<ApiResponse<{ payees: Payee[] }>> => {
+    return apiRequest(`${API_BASE}/payees`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Payees whose name or an alias starts with `q`, for suggestions as the user types
+   */
+  autocomplete: async (
+    q: string,
+    limit?: number,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ payees: Payee[] }>> => {
+    const params = new URLSearchParams({ q });
+    if (limit) params.set('limit', String(limit));
+    return apiRequest(`${API_BASE}/payees/autocomplete?${params.toString()}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  create: async (
+    payload: { name: string; aliases?: string[] },
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ payee: Payee }>> => {
+    return apiRequest(`${API_BASE}/payees`, {
+      method: 'POST',
+      body: JSON.stringify(payload),
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Rename, or replace the aliases. A name another payee already has is
+   * rejected; merge instead.
+   */
+  update: async (
+    id: string,
+    payload: { name?: string; aliases?: string[] },
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ payee: Payee }>> => {
+    return apiRequest(`${API_BASE}/payees/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(payload),
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Move the transactions of `id` to `targetId`; its name and aliases become
+   * aliases of the target
+   */
+  merge: async (
+    id: string,
+    targetId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ payee: Payee; movedTransactions: number }>> => {
+    return apiRequest(`${API_BASE}/payees/${id}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ targetId }),
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Delete a payee; its transactions are kept without one
+   */
+  remove: async (id: string, signal?: AbortSignal): Promise<ApiResponse> => {
+    return apiRequest(`${API_BASE}/payees/${id}`, {
+      method: 'DELETE',
+      signal, // Support request cancellation
+    });
+  },
+};
@@ -0,0 +1,86 @@
+/**
+ * Reports API
+ * Totals computed on the server in the user's base currency and time zone
+ */
+
+import { apiRequest, ApiResponse } from './api-client';
+import type {
+  CategoryReport,
+  ComparisonReport,
+  DailyAverageReport,
+  IncomeExpenseReport,
+  ReportQuery,
+  TopPayeesReport,
+} from './api';
+
+const API_BASE = '/api/v1';
+
+const buildQuery = (query: Record<string, string | number | undefined>) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+export const reportsApi = {
+  /**
+   * Totals per category, split lines included. This month by default.
+   */
+  byCategory: async (
+    query: ReportQuery = {},
+    signal?: AbortSignal
+  ): Promise<ApiResponse<CategoryReport>> => {
+    return apiRequest(`${API_BASE}/reports/categories${buildQuery({ ...query })}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Monthly income, expense and net. The last 12 months by default.
+   */
+  incomeVsExpense: async (
+    query: Omit<ReportQuery, 'type'> = {},
+    signal?: AbortSignal
+  ): Promise<ApiResponse<IncomeExpenseReport>> => {
+    return apiRequest(`${API_BASE}/reports/income-expense${buildQuery({ ...query })}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  topPayees: async (
+    query: ReportQuery & { limit?: number } = {},
+    signal?: AbortSignal
+  ): Promise<ApiResponse<TopPayeesReport>> => {
+    return apiRequest(`${API_BASE}/reports/top-payees${buildQuery({ ...query })}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  dailyAverage: async (
+    query: ReportQuery = {},
+    signal?: AbortSignal
+  ): Promise<ApiResponse<DailyAverageReport>> => {
+    return apiRequest(`${API_BASE}/reports/daily-average${buildQuery({ ...query })}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * The period against the one before it. This month against last month by default.
+   */
+  comparison: async (
+    query: ReportQuery = {},
+    signal?: AbortSignal
+  ): Promise<ApiResponse<ComparisonReport>> => {
+    return apiRequest(`${API_BASE}/reports/comparison${buildQuery({ ...query })}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+};
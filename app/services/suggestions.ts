@@ -0,0 +1,35 @@
+/**
+ * Suggestions API
+ * Category suggestions learned from the user's own transaction history
+ */
+
+import { apiRequest, ApiResponse } from './api-client';
+import type { CategorySuggestion, MinorUnits, SuggestionFeedbackPayload } from './api';
+
+const API_BASE = '/api/v1';
+
+export const suggestionsApi = {
+  categories: async (
+    params: { type: 'income' | 'expense'; note: string; amount?: MinorUnits; currency?: string },
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ suggestions: CategorySuggestion[] }>> => {
+    const query = new URLSearchParams({ type: params.type, note: params.note });
+    if (params.amount) query.set('amount', String(params.amount));
+    if (params.currency) query.set('currency', params.currency);
+    return apiRequest(`${API_BASE}/suggestions/categories?${query.toString()}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Tell the model whether a suggestion was right
+   */
+  feedback: async (payload: SuggestionFeedbackPayload, signal?: AbortSignal): Promise<ApiResponse> => {
+    return apiRequest(`${API_BASE}/suggestions/categories/feedback`, {
+      method: 'POST',
+      body: JSON.stringify(payload),
+      signal, // Support request cancellation
+    });
+  },
+};
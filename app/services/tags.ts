@@ -0,0 +1,86 @@
+/**
+ * Tags API
+ * Tags on transactions and rules. Transactions refer to tags by id, so
+ * renames and merges show everywhere at once.
+ */
+
+import { apiRequest, ApiResponse } from './api-client';
+import type { Tag } from './api';
+
+const API_BASE = '/api/v1';
+
+export const tagsApi = {
+  /**
+   * All tags with their transactionCount
+   */
+  list: async (signal?: AbortSignal): Promise<ApiResponse<{ tags: Tag[] }>> => {
+    return apiRequest(`${API_BASE}/tags`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Tags starting with `q`, for suggestions as the user types
+   */
+  autocomplete: async (
+    q: string,
+    limit?: number,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ tags: Tag[] }>> => {
+    const params = new URLSearchParams({ q });
+    if (limit) params.set('limit', String(limit));
+    return apiRequest(`${API_BASE}/tags/autocomplete?${params.toString()}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  create: async (
+    payload: { name: string; color?: string },
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ tag: Tag }>> => {
+    return apiRequest(`${API_BASE}/tags`, {
+      method: 'POST',
+      body: JSON.stringify(payload),
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Rename or recolor. A name another tag already has is rejected; merge instead.
+   */
+  update: async (
+    id: string,
+    payload: { name?: string; color?: string },
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ tag: Tag }>> => {
+    return apiRequest(`${API_BASE}/tags/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(payload),
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Move every transaction and rule tagged `id` over to `targetId`, then delete `id`
+   */
+  merge: async (
+    id: string,
+    targetId: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ tag: Tag; movedTransactions: number }>> => {
+    return apiRequest(`${API_BASE}/tags/${id}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ targetId }),
+      signal, // Support request cancellation
+    });
+  },
+
+  remove: async (id: string, signal?: AbortSignal): Promise<ApiResponse> => {
+    return apiRequest(`${API_BASE}/tags/${id}`, {
+      method: 'DELETE',
+      signal, // Support request cancellation
+    });
+  },
+};
@@ -0,0 +1,75 @@
+/**
+ * Transactions API
+ * Record and manage income and expense transactions
+ */
+
+import { apiRequest, ApiResponse } from './api-client';
+import type {
+  CreateTransactionPayload,
+  Transaction,
+  TransactionListQuery,
+  TransactionPage,
+  UpdateTransactionPayload,
+} from './api';
+
+const API_BASE = '/api/v1';
+
+export const transactionsApi = {
+  create: async (
+    payload: CreateTransactionPayload,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ transaction: Transaction }>> => {
+    return apiRequest(`${API_BASE}/transactions`, {
+      method: 'POST',
+      body: JSON.stringify(payload),
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * Newest first, a page at a time. Pass the page's nextCursor for the next one.
+   */
+  list: async (
+    query: TransactionListQuery = {},
+    signal?: AbortSignal
+  ): Promise<ApiResponse<TransactionPage>> => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    const search = params.toString();
+    return apiRequest(`${API_BASE}/transactions${search ? `?${search}` : ''}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  get: async (
+    id: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ transaction: Transaction }>> => {
+    return apiRequest(`${API_BASE}/transactions/${id}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  update: async (
+    id: string,
+    payload: UpdateTransactionPayload,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ transaction: Transaction }>> => {
+    return apiRequest(`${API_BASE}/transactions/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(payload),
+      signal, // Support request cancellation
+    });
+  },
+
+  remove: async (id: string, signal?: AbortSignal): Promise<ApiResponse> => {
+    return apiRequest(`${API_BASE}/transactions/${id}`, {
+      method: 'DELETE',
+      signal, // Support request cancellation
+    });
+  },
+};
@@ -0,0 +1,77 @@
+/**
+ * Users API
+ * Profile, profile photo, base currency and time zone endpoints for the signed-in user
+ */
+
+import { apiRequest, ApiResponse } from './api-client';
+import type { BaseCurrencyPreview, User } from './api';
+
+const API_BASE = '/api/v1';
+
+export const usersApi = {
+  getProfile: async (signal?: AbortSignal): Promise<ApiResponse<{ user: User }>> => {
+    return apiRequest(`${API_BASE}/users/me`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * @param file - Picked JPEG, PNG or WebP image as { uri, name, type } (React Native) or a web File
+   */
+  updateProfilePhoto: async (
+    file: { uri: string; name: string; type?: string } | Blob,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ user: User }>> => {
+    const body = new FormData();
+    // React Native's FormData accepts { uri, name, type } objects for files
+    body.append('file', file as Blob);
+    return apiRequest(`${API_BASE}/users/me/profile-photo`, {
+      method: 'PUT',
+      body,
+      signal, // Support request cancellation
+    });
+  },
+
+  removeProfilePhoto: async (signal?: AbortSignal): Promise<ApiResponse<{ user: User }>> => {
+    return apiRequest(`${API_BASE}/users/me/profile-photo`, {
+      method: 'DELETE',
+      signal, // Support request cancellation
+    });
+  },
+
+  previewBaseCurrencyChange: async (
+    currency: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<BaseCurrencyPreview>> => {
+    return apiRequest(`${API_BASE}/users/me/base-currency/preview?currency=${currency}`, {
+      method: 'GET',
+      signal, // Support request cancellation
+    });
+  },
+
+  changeBaseCurrency: async (
+    currency: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ user: User; rate: number | null }>> => {
+    return apiRequest(`${API_BASE}/users/me/base-currency`, {
+      method: 'PATCH',
+      body: JSON.stringify({ currency }),
+      signal, // Support request cancellation
+    });
+  },
+
+  /**
+   * @param timezone - IANA time zone, e.g. Intl.DateTimeFormat().resolvedOptions().timeZone
+   */
+  changeTimezone: async (
+    timezone: string,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{ user: User }>> => {
+    return apiRequest(`${API_BASE}/users/me/timezone`, {
+      method: 'PATCH',
+      body: JSON.stringify({ timezone }),
+      signal, // Support request cancellation
+    });
+  },
+};
@@ -1,10 +1,12 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { authApi, SignupPayload, SigninPayload, ForgotPasswordPayload, ResetPasswordPayload, RefreshTokenPayload, User, AuthResponse } from '../services/api';
+import { authApi, SignupPayload, SigninPayload, ForgotPasswordPayload, ResetPasswordPayload, RefreshTokenPayload, DeviceInfo, User, AuthResponse } from '../services/api';
+import type { SignInLockout } from '../services/api-client';
 import { storage } from '../utils/storage';
 
 // Extended payload types that include optional signal for request cancellation
 type SignupPayloadWithSignal = SignupPayload & { signal?: AbortSignal };
 type SigninPayloadWithSignal = SigninPayload & { signal?: AbortSignal };
+type VerifyTwoFactorPayloadWithSignal = DeviceInfo & { code: string; signal?: AbortSignal };
 
 interface AuthState {
   user: User | null;
@@ -19,6 +21,14 @@ interface AuthState {
   // Signin states
   signinLoading: boolean;
   signinError: string | null;
+  // Set when failed sign-ins put the next attempt on hold
+  signinLockout: SignInLockout | null;
+
+  // Two-factor states: the challenge a correct password earned, until it's
+  // completed with a code
+  twoFactorChallenge: string | null;
+  verifyTwoFactorLoading: boolean;
+  verifyTwoFactorError: string | null;
 
   // Forgot password states
   forgotPasswordLoading: boolean;
@@ -52,6 +62,11 @@ const initialState: AuthState = {
 
   signinLoading: false,
   signinError: null,
+  signinLockout: null,
+
+  twoFactorChallenge: null,
+  verifyTwoFactorLoading: false,
+  verifyTwoFactorError: null,
 
   forgotPasswordLoading: false,
   forgotPasswordError: null,
@@ -103,13 +118,47 @@ export const signin = createAsyncThunk(
       if (response.success && response.data) {
         return response.data;
       }
-      return rejectWithValue(response.message || 'Signin failed');
+      return rejectWithValue({
+        message: response.message || 'Signin failed',
+        lockout: response.lockout,
+      });
     } catch (error: any) {
       // Ignore abort errors
       if (error.name === 'AbortError' || error.message === 'Request aborted') {
-        return rejectWithValue('Request cancelled');
+        return rejectWithValue({ message: 'Request cancelled' });
+      }
+      return rejectWithValue({ message: error.message || 'Signin failed' });
+    }
+  }
+);
+
+export const verifyTwoFactor = createAsyncThunk(
+  'auth/verifyTwoFactor',
+  async (payload: VerifyTwoFactorPayloadWithSignal, { rejectWithValue, getState, signal }) => {
+    const { twoFactorChallenge } = (getState() as { auth: AuthState }).auth;
+    if (!twoFactorChallenge) {
+      return rejectWithValue({ message: 'This sign-in has expired. Please sign in again.' });
+    }
+    try {
+      const abortSignal = payload.signal || signal;
+      const { signal: _, ...actualPayload } = payload;
+      const response = await authApi.verifyTwoFactor(
+        { ...actualPayload, challengeToken: twoFactorChallenge },
+        abortSignal
+      );
+      if (response.success && response.data) {
+        return response.data;
       }
-      return rejectWithValue(error.message || 'Signin failed');
+      // Wrong codes count towards the same lockout as wrong passwords
+      return rejectWithValue({
+        message: response.message || 'Verification failed',
+        lockout: response.lockout,
+      });
+    } catch (error: any) {
+      if (error.name === 'AbortError' || error.message === 'Request aborted') {
+        return rejectWithValue({ message: 'Request cancelled' });
+      }
+      return rejectWithValue({ message: error.message || 'Verification failed' });
     }
   }
 );
@@ -206,6 +255,8 @@ const authSlice = createSlice({
       state.verifyAccountError = null;
       state.verifyTokenError = null;
       state.refreshTokenError = null;
+      state.twoFactorChallenge = null;
+      state.verifyTwoFactorError = null;
       // Clear storage
       storage.clearAll();
     },
@@ -236,6 +287,20 @@ const authSlice = createSlice({
     clearRefreshTokenError: (state) => {
       state.refreshTokenError = null;
     },
+    clearSigninLockout: (state) => {
+      state.signinLockout = null;
+    },
+    clearVerifyTwoFactorError: (state) => {
+      state.verifyTwoFactorError = null;
+    },
+    clearTwoFactorChallenge: (state) => {
+      state.twoFactorChallenge = null;
+    },
+    updateUser: (state, action: PayloadAction<User>) => {
+      state.user = action.payload;
+      // Persist to storage
+      storage.saveUser(action.payload);
+    },
     setCredentials: (state, action: PayloadAction<AuthResponse>) => {
       state.user = action.payload.user;
       state.token = action.payload.token;
@@ -276,9 +341,16 @@ const authSlice = createSlice({
       .addCase(signin.pending, (state) => {
         state.signinLoading = true;
         state.signinError = null;
+        state.signinLockout = null;
       })
       .addCase(signin.fulfilled, (state, action) => {
         state.signinLoading = false;
+        state.signinError = null;
+        // The password was right; the tokens wait for a code
+        if ('twoFactorRequired' in action.payload) {
+          state.twoFactorChallenge = action.payload.challengeToken;
+          return;
+        }
         state.user = action.payload.user;
         state.token = action.payload.token;
         state.refreshToken = action.payload.refreshToken;
@@ -290,8 +362,36 @@ const authSlice = createSlice({
         storage.saveUser(action.payload.user);
       })
       .addCase(signin.rejected, (state, action) => {
+        const payload = action.payload as { message: string; lockout?: SignInLockout } | undefined;
         state.signinLoading = false;
-        state.signinError = action.payload as string;
+        state.signinError = payload?.message ?? action.error.message ?? 'Signin failed';
+        state.signinLockout = payload?.lockout ?? null;
+      });
+
+    // Verify Two-Factor
+    builder
+      .addCase(verifyTwoFactor.pending, (state) => {
+        state.verifyTwoFactorLoading = true;
+        state.verifyTwoFactorError = null;
+        state.signinLockout = null;
+      })
+      .addCase(verifyTwoFactor.fulfilled, (state, action) => {
+        state.verifyTwoFactorLoading = false;
+        state.twoFactorChallenge = null;
+        state.user = action.payload.user;
+        state.token = action.payload.token;
+        state.refreshToken = action.payload.refreshToken;
+        state.isAuthenticated = true;
+        // Persist to storage
+        storage.saveToken(action.payload.token);
+        storage.saveRefreshToken(action.payload.refreshToken);
+        storage.saveUser(action.payload.user);
+      })
+      .addCase(verifyTwoFactor.rejected, (state, action) => {
+        const payload = action.payload as { message: string; lockout?: SignInLockout } | undefined;
+        state.verifyTwoFactorLoading = false;
+        state.verifyTwoFactorError = payload?.message ?? action.error.message ?? 'Verification failed';
+        state.signinLockout = payload?.lockout ?? null;
       });
 
     // Forgot Password
@@ -395,13 +495,37 @@ export const {
   logout,
   clearSignupError,
   clearSigninError,
+  clearSigninLockout,
   clearForgotPasswordError,
   clearResetPasswordError,
   clearVerifyAccountError,
   clearVerifyTokenError,
   clearRefreshTokenError,
+  clearVerifyTwoFactorError,
+  clearTwoFactorChallenge,
   setCredentials,
+  updateUser,
   loadCredentials,
 } = authSlice.actions;
 
+/**
+ * Sign out of this device: revoke its session on the server, then clear the
+ * local credentials. The credentials are cleared even if the server can't be
+ * reached, so signing out always works offline.
+ */
+export const signout = createAsyncThunk(
+  'auth/signout',
+  async (_: void, { dispatch, getState }) => {
+    const { refreshToken } = (getState() as { auth: AuthState }).auth;
+    if (refreshToken) {
+      try {
+        await authApi.logout({ refreshToken });
+      } catch {
+        // The session expires on its own
+      }
+    }
+    dispatch(logout());
+  }
+);
+
 export default authSlice.reducer;
@@ -0,0 +1,24 @@
+/**
+ * Device Utility
+ * Describes this device to the server when signing in, so the session list
+ * can tell the user's devices apart
+ */
+
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import type { DeviceInfo, DevicePlatform } from '../services/api';
+
+const PLATFORMS: DevicePlatform[] = ['ios', 'android', 'web'];
+
+export const getDeviceInfo = (): DeviceInfo => {
+  const platform = (PLATFORMS as string[]).includes(Platform.OS)
+    ? (Platform.OS as DevicePlatform)
+    : 'other';
+  // The name the user gave the device ("Jane's iPhone"); not available on web
+  const deviceName = Constants.deviceName?.trim().slice(0, 100);
+
+  return {
+    platform,
+    ...(deviceName && { deviceName }),
+  };
+};
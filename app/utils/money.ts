@@ -0,0 +1,132 @@
+/**
+ * Money Utilities
+ * Amounts travel to and from the API as integers in the currency's minor
+ * units (cents, paise, ...). Convert only at the edges: when parsing user
+ * input and when formatting for display.
+ */
+
+import type { MinorUnits } from '@/services/api';
+
+/**
+ * ISO 4217 currencies whose minor unit is not 2 decimal places
+ */
+const MINOR_UNIT_EXCEPTIONS: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4,
+};
+
+const DECIMAL_REGEX = /^([+-])?(\d*)(?:[.,](\d*))?$/;
+
+/**
+ * Number of decimal places in the currency's minor unit
+ * @param currency - ISO 4217 code
+ * @returns 0 for JPY, 2 for USD, 3 for KWD
+ */
+export const getMinorUnits = (currency: string): number =>
+  MINOR_UNIT_EXCEPTIONS[currency.toUpperCase()] ?? 2;
+
+/**
+ * Parse a decimal amount typed by the user into minor units
+ * Digits are shifted rather than multiplied so "1.005" USD becomes 101;
+ * extra digits are rounded half away from zero.
+ * @param value - Decimal string ("12.34" or "12,34") or number
+ * @param currency - ISO 4217 code
+ * @returns Amount in minor units, or null if the input is not a number
+ */
+export const toMinorUnits = (value: string | number, currency: string): MinorUnits | null => {
+  const text = typeof value === 'number' ? String(value) : value.trim();
+  const match = DECIMAL_REGEX.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    return null;
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const digits = getMinorUnits(currency);
+  const padded = fraction.padEnd(digits + 1, '0');
+
+  let minor = Number(`${whole || '0'}${padded.slice(0, digits)}`);
+  if (Number(padded[digits]) >= 5) {
+    minor += 1;
+  }
+  if (!Number.isSafeInteger(minor)) {
+    return null;
+  }
+  return sign === '-' ? -minor : minor;
+};
+
+/**
+ * Evaluate an amount typed as a sum, such as "12.5+3.2" or "4×2.5-1"
+ * Each term's first number is parsed into minor units and the rest scale it,
+ * so adding and subtracting stay exact; × and ÷ round to the minor unit.
+ * @param expression - Numbers joined by + - × ÷ (or * /)
+ * @param currency - ISO 4217 code
+ * @returns Amount in minor units, or null if the expression is incomplete
+ * @example evaluateAmount('12.5+3.2', 'USD') // 1570
+ */
+export const evaluateAmount = (expression: string, currency: string): MinorUnits | null => {
+  const tokens = expression.replace(/\s/g, '').split(/([+\-×÷*/])/);
+  let total = 0;
+  let term: number | null = null;
+  let operator = '+';
+  for (let index = 0; index < tokens.length; index += 2) {
+    const text = tokens[index];
+    if (operator === '+' || operator === '-') {
+      const minor = toMinorUnits(text, currency);
+      if (minor === null || text.startsWith('+') || text.startsWith('-')) return null;
+      total += term ?? 0;
+      term = operator === '-' ? -minor : minor;
+    } else {
+      const factor = DECIMAL_REGEX.test(text) ? Number(text.replace(',', '.')) : NaN;
+      if (!text || Number.isNaN(factor)) return null;
+      if (operator === '÷' || operator === '/') {
+        if (factor === 0) return null;
+        term = Math.round((term ?? 0) / factor);
+      } else {
+        term = Math.round((term ?? 0) * factor);
+      }
+    }
+    operator = tokens[index + 1] ?? '';
+  }
+  total += term ?? 0;
+  return Number.isSafeInteger(total) ? total : null;
+};
+
+/**
+ * Decimal value of an amount in minor units (display only, not for arithmetic)
+ */
+export const toMajorUnits = (minor: MinorUnits, currency: string): number =>
+  minor / 10 ** getMinorUnits(currency);
+
+/**
+ * Plain decimal string for editing an existing amount in a text input
+ * @example toAmountInput(1234, 'USD') // "12.34"
+ */
+export const toAmountInput = (minor: MinorUnits, currency: string): string =>
+  toMajorUnits(minor, currency).toFixed(getMinorUnits(currency));
+
+/**
+ * Format an amount for display with the currency's own number of decimals
+ * @example formatMoney(1234, 'USD') // "$12.34"
+ * @example formatMoney(1234, 'JPY') // "¥1,234"
+ */
+export const formatMoney = (
+  minor: MinorUnits,
+  currency: string,
+  locale?: string
+): string => {
+  const digits = getMinorUnits(currency);
+  const major = toMajorUnits(minor, currency);
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }).format(major);
+  } catch {
+    // Unknown code or missing Intl support on the device
+    return `${currency} ${major.toFixed(digits)}`;
+  }
+};
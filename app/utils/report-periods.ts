@@ -0,0 +1,130 @@
+/**
+ * Report Period Utilities
+ * Report periods are calendar dates (YYYY-MM-DD) in the user's time zone,
+ * both included, as the reports API expects them.
+ */
+
+export type PeriodPreset = 'this-month' | 'last-month' | 'ytd' | 'custom';
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * YYYY-MM-DD of a UTC date (the date parts, whatever the device's time zone)
+ */
+const toDateString = (date: Date) =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+/**
+ * Calendar date of an instant in a time zone, the device's own when none is given
+ * @example toLocalDate(new Date('2024-03-15T20:00:00Z'), 'Asia/Kolkata') // "2024-03-16"
+ */
+export const toLocalDate = (instant: Date, timeZone?: string): string => {
+  try {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(instant);
+  } catch {
+    // Unknown time zone or missing Intl support on the device
+    return `${instant.getFullYear()}-${pad(instant.getMonth() + 1)}-${pad(instant.getDate())}`;
+  }
+};
+
+/**
+ * Today's date in a time zone, the device's own when none is given
+ * @example todayIn('Asia/Kolkata') // "2024-03-15"
+ */
+export const todayIn = (timeZone?: string): string => toLocalDate(new Date(), timeZone);
+
+/**
+ * Whether a string is a real calendar date in YYYY-MM-DD form (not 2024-02-30)
+ */
+export const isDateString = (value: string): boolean => {
+  if (!DATE_REGEX.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && toDateString(date) === value;
+};
+
+/**
+ * First day of the month `months` after (or before, when negative) a date's month
+ */
+export const startOfMonth = (date: string, months = 0): string => {
+  const [year, month] = date.split('-').map(Number);
+  return toDateString(new Date(Date.UTC(year, month - 1 + months, 1)));
+};
+
+/**
+ * Dates of a preset period. This month and the year to date end today.
+ * Custom periods are picked by the user, so they have no preset dates.
+ */
+export const presetRange = (
+  preset: Exclude<PeriodPreset, 'custom'>,
+  today: string
+): DateRange => {
+  switch (preset) {
+    case 'last-month': {
+      const from = startOfMonth(today, -1);
+      const [year, month] = from.split('-').map(Number);
+      // Day 0 of the next month is the last day of this one
+      return { from, to: toDateString(new Date(Date.UTC(year, month, 0))) };
+    }
+    case 'ytd':
+      return { from: `${today.slice(0, 4)}-01-01`, to: today };
+    default:
+      return { from: startOfMonth(today), to: today };
+  }
+};
+
+/**
+ * The 12 calendar months up to and including the month of `to`
+ */
+export const trailingYear = (to: string): DateRange => ({
+  from: startOfMonth(to, -11),
+  to,
+});
+
+/**
+ * Short label of a YYYY-MM month
+ * @example monthLabel('2024-03') // "Mar"
+ */
+export const monthLabel = (month: string): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  try {
+    return new Intl.DateTimeFormat(undefined, { month: 'short', timeZone: 'UTC' }).format(
+      new Date(Date.UTC(year, monthIndex - 1, 1))
+    );
+  } catch {
+    return month.slice(5);
+  }
+};
+
+/**
+ * Readable date range for a period header
+ * @example formatRange({ from: '2024-03-01', to: '2024-03-15' }) // "Mar 1 – Mar 15, 2024"
+ */
+export const formatRange = ({ from, to }: DateRange): string => {
+  const format = (date: string, withYear: boolean) => {
+    try {
+      return new Intl.DateTimeFormat(undefined, {
+        month: 'short',
+        day: 'numeric',
+        ...(withYear && { year: 'numeric' }),
+        timeZone: 'UTC',
+      }).format(new Date(`${date}T00:00:00Z`));
+    } catch {
+      return date;
+    }
+  };
+  const sameYear = from.slice(0, 4) === to.slice(0, 4);
+  return `${format(from, !sameYear)} – ${format(to, true)}`;
+};
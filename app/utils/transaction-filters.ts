@@ -0,0 +1,129 @@
+/**
+ * Transaction List Filters
+ * Filters live in the URL of the transactions screen, so a deep link such as
+ * inexmanager://transactions?type=expense&category=<id>&from=2024-03-01
+ * opens a pre-filtered list. Ids are comma-separated; amounts are decimals
+ * in the base currency (min=10.50).
+ */
+
+import type { TransactionListQuery, TransactionType } from '@/services/api';
+import { toMinorUnits } from '@/utils/money';
+import { isDateString } from '@/utils/report-periods';
+
+export interface TransactionFilters {
+  q: string;
+  type: TransactionType | null;
+  // YYYY-MM-DD, both included
+  from: string;
+  to: string;
+  accounts: string[];
+  categories: string[];
+  tags: string[];
+  min: string;
+  max: string;
+}
+
+export type FilterParams = Record<string, string | string[] | undefined>;
+
+const TYPES: TransactionType[] = ['income', 'expense', 'transfer'];
+const ID_REGEX = /^[0-9a-f]{24}$/i;
+
+export const EMPTY_FILTERS: TransactionFilters = {
+  q: '',
+  type: null,
+  from: '',
+  to: '',
+  accounts: [],
+  categories: [],
+  tags: [],
+  min: '',
+  max: '',
+};
+
+const first = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value)?.trim() ?? '';
+
+const ids = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value : [value ?? ''])
+    .flatMap((entry) => entry.split(','))
+    .map((entry) => entry.trim())
+    .filter((entry) => ID_REGEX.test(entry));
+
+/**
+ * Filters from the screen's search params. Anything malformed is ignored
+ * rather than rejected, since links can be typed by hand.
+ */
+export const parseFilters = (params: FilterParams): TransactionFilters => {
+  const type = first(params.type) as TransactionType;
+  const from = first(params.from);
+  const to = first(params.to);
+  return {
+    q: first(params.q),
+    type: TYPES.includes(type) ? type : null,
+    from: isDateString(from) ? from : '',
+    to: isDateString(to) ? to : '',
+    accounts: ids(params.account),
+    categories: ids(params.category),
+    tags: ids(params.tag),
+    min: first(params.min),
+    max: first(params.max),
+  };
+};
+
+/**
+ * Search params for a set of filters. Empty filters are undefined, which
+ * removes them from the URL.
+ */
+export const toFilterParams = (filters: TransactionFilters): Record<string, string | undefined> => ({
+  q: filters.q || undefined,
+  type: filters.type ?? undefined,
+  from: filters.from || undefined,
+  to: filters.to || undefined,
+  account: filters.accounts.join(',') || undefined,
+  category: filters.categories.join(',') || undefined,
+  tag: filters.tags.join(',') || undefined,
+  min: filters.min || undefined,
+  max: filters.max || undefined,
+});
+
+/**
+ * The list query for a set of filters. Dates are sent as the bounds of the
+ * local days, so the whole last day is included.
+ */
+export const toListQuery = (
+  filters: TransactionFilters,
+  currency: string
+): Omit<TransactionListQuery, 'cursor' | 'limit'> => {
+  const amount = (value: string) => {
+    const minor = value ? toMinorUnits(value, currency) : null;
+    return minor !== null && minor >= 0 ? minor : undefined;
+  };
+  const localDay = (date: string, hours: [number, number, number, number]) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day, ...hours).toISOString();
+  };
+  return {
+    q: filters.q || undefined,
+    type: filters.type ?? undefined,
+    from: filters.from ? localDay(filters.from, [0, 0, 0, 0]) : undefined,
+    to: filters.to ? localDay(filters.to, [23, 59, 59, 999]) : undefined,
+    account: filters.accounts.join(',') || undefined,
+    category: filters.categories.join(',') || undefined,
+    tag: filters.tags.join(',') || undefined,
+    minAmount: amount(filters.min),
+    maxAmount: amount(filters.max),
+  };
+};
+
+/**
+ * Number of filters set in the filter sheet (the search box is not one)
+ */
+export const countFilters = (filters: TransactionFilters): number =>
+  [
+    filters.type,
+    filters.from || filters.to,
+    filters.accounts.length,
+    filters.categories.length,
+    filters.tags.length,
+    filters.min || filters.max,
+  ].filter(Boolean).length;
@@ -87,9 +87,45 @@ export const verifyAccountSchema = z.object({
   token: z.string().min(1, 'Verification token is required'),
 });
 
+/**
+ * Transaction form validation schema
+ * The amount is parsed into minor units separately, with the currency
+ */
+export const transactionFormSchema = z.object({
+  type: z.enum(['income', 'expense']),
+  amount: z
+    .string()
+    .trim()
+    .min(1, 'Amount is required')
+    .regex(/^\d*[.,]?\d*$/, 'Please enter a valid amount')
+    .refine((value) => Number(value.replace(',', '.')) > 0, 'Amount must be greater than zero'),
+  note: z.string().trim().max(500, 'Note must be at most 500 characters'),
+  category: z.string().nullable(),
+});
+
+/**
+ * Quick-add validation schema
+ * The amount is an expression such as "12.5+3.2", evaluated into minor units
+ * separately, with the currency
+ */
+export const quickAddSchema = z.object({
+  type: z.enum(['income', 'expense']),
+  amount: z
+    .string()
+    .trim()
+    .min(1, 'Amount is required')
+    .regex(/^[\d.,+\-×÷*/]+$/, 'Please enter a valid amount')
+    .regex(/[\d.,]$/, 'Finish the amount before saving'),
+  category: z.string().nullable(),
+  account: z.string().nullable(),
+  payee: z.string().nullable(),
+});
+
 // Export types
 export type SignInInput = z.infer<typeof signInSchema>;
 export type SignUpInput = z.infer<typeof signUpSchema>;
 export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
 export type VerifyAccountInput = z.infer<typeof verifyAccountSchema>;
+export type TransactionFormInput = z.infer<typeof transactionFormSchema>;
+export type QuickAddInput = z.infer<typeof quickAddSchema>;
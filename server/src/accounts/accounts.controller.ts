@@ -0,0 +1,185 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { AccountsService } from './accounts.service';
+import { CreateAccountDto } from './dto/create-account.dto';
+import { UpdateAccountDto } from './dto/update-account.dto';
+import { ListAccountsDto } from './dto/list-accounts.dto';
+import { CreateTransferDto } from './dto/create-transfer.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ParseObjectIdPipe } from '../common/pipes/parse-object-id.pipe';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+
+@ApiTags('Accounts')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('accounts')
+export class AccountsController {
+  constructor(private readonly accountsService: AccountsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List accounts with their current balances' })
+  @ApiResponse({
+    status: 200,
+    description: 'Accounts retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async findAll(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: ListAccountsDto,
+  ) {
+    return this.accountsService.findAll(user.userId, query);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create an account or wallet' })
+  @ApiResponse({
+    status: 201,
+    description: 'Account created successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Account already exists', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() createAccountDto: CreateAccountDto,
+  ) {
+    return this.accountsService.create(user.userId, createAccountDto);
+  }
+
+  @Post('transfers')
+  @ApiOperation({ summary: 'Transfer money between two accounts' })
+  @ApiResponse({
+    status: 201,
+    description: 'Transfer completed successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Account not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async createTransfer(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() createTransferDto: CreateTransferDto,
+  ) {
+    return this.accountsService.createTransfer(user.userId, createTransferDto);
+  }
+
+  @Delete('transfers/:transferId')
+  @ApiOperation({ summary: 'Delete both legs of a transfer' })
+  @ApiResponse({
+    status: 200,
+    description: 'Transfer deleted successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Transfer not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async removeTransfer(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('transferId', ParseObjectIdPipe) transferId: string,
+  ) {
+    return this.accountsService.removeTransfer(user.userId, transferId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an account with its current balance' })
+  @ApiResponse({
+    status: 200,
+    description: 'Account retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Account not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async findOne(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.accountsService.findOne(user.userId, id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update an account' })
+  @ApiResponse({
+    status: 200,
+    description: 'Account updated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Account not found', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Account already exists', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async update(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() updateAccountDto: UpdateAccountDto,
+  ) {
+    return this.accountsService.update(user.userId, id, updateAccountDto);
+  }
+
+  @Post(':id/archive')
+  @ApiOperation({ summary: 'Archive an account' })
+  @ApiResponse({
+    status: 200,
+    description: 'Account archived successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Account not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async archive(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.accountsService.setArchived(user.userId, id, true);
+  }
+
+  @Post(':id/unarchive')
+  @ApiOperation({ summary: 'Restore an archived account' })
+  @ApiResponse({
+    status: 200,
+    description: 'Account restored successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Account not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async unarchive(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.accountsService.setArchived(user.userId, id, false);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete an account without transactions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Account deleted successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Account not found', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Account has transactions', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async remove(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.accountsService.remove(user.userId, id);
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AccountsController } from './accounts.controller';
+import { AccountsService } from './accounts.service';
+import { Account, AccountSchema } from '../schemas/account.schema';
+import { Transaction, TransactionSchema } from '../schemas/transaction.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { AuthModule } from '../auth/auth.module';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
+import { AttachmentsModule } from '../attachments/attachments.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Account.name, schema: AccountSchema },
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    AuthModule,
+    ExchangeRatesModule,
+    AttachmentsModule,
+  ],
+  controllers: [AccountsController],
+  providers: [AccountsService],
+  exports: [AccountsService],
+})
+export class AccountsModule {}
@@ -0,0 +1,490 @@
+import { Injectable } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, FilterQuery, Model, Types } from 'mongoose';
+import { Account, AccountDocument } from '../schemas/account.schema';
+import {
+  Transaction,
+  TransactionDocument,
+} from '../schemas/transaction.schema';
+import { User, UserDocument } from '../schemas/user.schema';
+import {
+  AppException,
+  ConflictException,
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { CreateAccountDto } from './dto/create-account.dto';
+import { UpdateAccountDto } from './dto/update-account.dto';
+import { ListAccountsDto } from './dto/list-accounts.dto';
+import { CreateTransferDto } from './dto/create-transfer.dto';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { AttachmentsService } from '../attachments/attachments.service';
+
+const NAME_COLLATION = { locale: 'en', strength: 2 };
+
+interface AccountTotals {
+  income: number;
+  expense: number;
+  transfersIn: number;
+  transfersOut: number;
+}
+
+const EMPTY_TOTALS: AccountTotals = {
+  income: 0,
+  expense: 0,
+  transfersIn: 0,
+  transfersOut: 0,
+};
+
+@Injectable()
+export class AccountsService {
+  constructor(
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectConnection() private connection: Connection,
+    private exchangeRatesService: ExchangeRatesService,
+    private attachmentsService: AttachmentsService,
+  ) {}
+
+  private async findOwned(userId: string, id: string) {
+    const account = await this.accountModel.findOne({
+      _id: new Types.ObjectId(id),
+      userId: new Types.ObjectId(userId),
+    });
+    if (!account) {
+      throw new NotFoundException('Account not found');
+    }
+    return account;
+  }
+
+  private async assertUniqueName(
+    userId: string,
+    name: string,
+    excludeId?: Types.ObjectId,
+  ) {
+    const filter: FilterQuery<AccountDocument> = {
+      userId: new Types.ObjectId(userId),
+      name,
+    };
+    if (excludeId) filter._id = { $ne: excludeId };
+
+    const existing = await this.accountModel
+      .findOne(filter)
+      .collation(NAME_COLLATION)
+      .select('_id')
+      .lean();
+    if (existing) {
+      throw new ConflictException('An account with this name already exists');
+    }
+  }
+
+  /**
+   * Sum income, expense and transfer legs per account in a single pass
+   */
+  private async computeTotals(
+    userId: string,
+    accountIds: Types.ObjectId[],
+  ): Promise<Map<string, AccountTotals>> {
+    const rows = await this.transactionModel.aggregate<
+      AccountTotals & { _id: Types.ObjectId }
+    >([
+      {
+        $match: {
+          userId: new Types.ObjectId(userId),
+          account: { $in: accountIds },
+        },
+      },
+      {
+        $group: {
+          _id: '$account',
+          income: {
+            $sum: { $cond: [{ $eq: ['$type', 'income'] }, '$amount', 0] },
+          },
+          expense: {
+            $sum: { $cond: [{ $eq: ['$type', 'expense'] }, '$amount', 0] },
+          },
+          transfersIn: {
+            $sum: {
+              $cond: [{ $eq: ['$transferDirection', 'in'] }, '$amount', 0],
+            },
+          },
+          transfersOut: {
+            $sum: {
+              $cond: [{ $eq: ['$transferDirection', 'out'] }, '$amount', 0],
+            },
+          },
+        },
+      },
+    ]);
+
+    return new Map(
+      rows.map(({ _id, ...totals }) => [_id.toString(), totals]),
+    );
+  }
+
+  /**
+   * Attach the server-computed current balance (and income/expense totals,
+   * which exclude transfers) to each account
+   */
+  private async withBalances(
+    userId: string,
+    accounts: Array<Account & { _id: Types.ObjectId }>,
+  ) {
+    const totalsByAccount = await this.computeTotals(
+      userId,
+      accounts.map((account) => account._id),
+    );
+
+    return accounts.map((account) => {
+      const totals = totalsByAccount.get(account._id.toString()) || EMPTY_TOTALS;
+      return {
+        ...account,
+        currentBalance:
+          account.openingBalance +
+          totals.income -
+          totals.expense +
+          totals.transfersIn -
+          totals.transfersOut,
+        totals: {
+          income: totals.income,
+          expense: totals.expense,
+        },
+      };
+    });
+  }
+
+  async findAll(userId: string, query: ListAccountsDto) {
+    try {
+      const filter: FilterQuery<AccountDocument> = {
+        userId: new Types.ObjectId(userId),
+      };
+      if (!query.includeArchived) filter.isArchived = false;
+
+      const accounts = await this.accountModel
+        .find(filter)
+        .collation(NAME_COLLATION)
+        .sort({ name: 1 })
+        .lean();
+
+      return {
+        success: true,
+        message: 'Accounts retrieved successfully',
+        data: {
+          accounts: await this.withBalances(userId, accounts),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve accounts');
+    }
+  }
+
+  async findOne(userId: string, id: string) {
+    try {
+      const account = await this.findOwned(userId, id);
+      const [accountWithBalance] = await this.withBalances(userId, [
+        account.toObject(),
+      ]);
+
+      return {
+        success: true,
+        message: 'Account retrieved successfully',
+        data: {
+          account: accountWithBalance,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve account');
+    }
+  }
+
+  async create(userId: string, createAccountDto: CreateAccountDto) {
+    try {
+      const { name, type, currency, openingBalance } = createAccountDto;
+
+      await this.assertUniqueName(userId, name);
+
+      // Default to the user's base currency
+      let accountCurrency = currency;
+      if (!accountCurrency) {
+        const user = await this.userModel
+          .findById(userId)
+          .select('currency')
+          .lean();
+        if (!user) {
+          throw new NotFoundException('User not found');
+        }
+        accountCurrency = user.currency;
+      }
+
+      const account = await this.accountModel.create({
+        userId: new Types.ObjectId(userId),
+        name,
+        type,
+        currency: accountCurrency,
+        openingBalance,
+      });
+      const [accountWithBalance] = await this.withBalances(userId, [
+        account.toObject(),
+      ]);
+
+      return {
+        success: true,
+        message: 'Account created successfully',
+        data: {
+          account: accountWithBalance,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to create account');
+    }
+  }
+
+  async update(userId: string, id: string, updateAccountDto: UpdateAccountDto) {
+    try {
+      const account = await this.findOwned(userId, id);
+
+      if (updateAccountDto.name !== undefined) {
+        await this.assertUniqueName(
+          userId,
+          updateAccountDto.name,
+          account._id as Types.ObjectId,
+        );
+      }
+
+      if (
+        updateAccountDto.currency !== undefined &&
+        updateAccountDto.currency !== account.currency
+      ) {
+        const hasTransactions = await this.transactionModel.exists({
+          account: account._id,
+        });
+        if (hasTransactions) {
+          throw new ValidationException(
+            'Cannot change the currency of an account that has transactions',
+          );
+        }
+      }
+
+      account.set(updateAccountDto);
+      await account.save();
+
+      const [accountWithBalance] = await this.withBalances(userId, [
+        account.toObject(),
+      ]);
+
+      return {
+        success: true,
+        message: 'Account updated successfully',
+        data: {
+          account: accountWithBalance,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to update account');
+    }
+  }
+
+  async setArchived(userId: string, id: string, isArchived: boolean) {
+    try {
+      const account = await this.findOwned(userId, id);
+
+      account.isArchived = isArchived;
+      account.archivedAt = isArchived ? new Date() : undefined;
+      await account.save();
+
+      return {
+        success: true,
+        message: isArchived
+          ? 'Account archived successfully'
+          : 'Account restored successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(
+        500,
+        isArchived ? 'Failed to archive account' : 'Failed to restore account',
+      );
+    }
+  }
+
+  async remove(userId: string, id: string) {
+    try {
+      const account = await this.findOwned(userId, id);
+
+      const usage = await this.transactionModel.countDocuments({
+        userId: new Types.ObjectId(userId),
+        account: account._id,
+      });
+      if (usage > 0) {
+        throw new ConflictException(
+          `Account has ${usage} transaction(s). Archive it instead.`,
+        );
+      }
+
+      await this.accountModel.deleteOne({ _id: account._id });
+
+      return {
+        success: true,
+        message: 'Account deleted successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to delete account');
+    }
+  }
+
+  /**
+   * Move money between two accounts. Both legs are written in a single Mongo
+   * transaction so balances can never drift apart. Between currencies, each
+   * leg carries its own amount in its account's currency.
+   */
+  async createTransfer(userId: string, createTransferDto: CreateTransferDto) {
+    try {
+      const { fromAccount, toAccount, amount, toAmount, date, note } =
+        createTransferDto;
+
+      const [source, destination] = await Promise.all([
+        this.findOwned(userId, fromAccount),
+        this.findOwned(userId, toAccount),
+      ]);
+      if (source.isArchived || destination.isArchived) {
+        throw new ValidationException('Cannot transfer to or from an archived account');
+      }
+      const crossCurrency = source.currency !== destination.currency;
+      if (crossCurrency && toAmount === undefined) {
+        throw new ValidationException(
+          'Destination amount is required for transfers between currencies',
+        );
+      }
+      if (!crossCurrency && toAmount !== undefined && toAmount !== amount) {
+        throw new ValidationException(
+          'Destination amount must equal the amount for transfers in the same currency',
+        );
+      }
+      const creditAmount = crossCurrency ? toAmount : amount;
+
+      const [debitConversion, creditConversion] = await Promise.all([
+        this.exchangeRatesService.toBase(userId, amount, source.currency, date),
+        this.exchangeRatesService.toBase(
+          userId,
+          creditAmount,
+          destination.currency,
+          date,
+        ),
+      ]);
+
+      const transferId = new Types.ObjectId();
+      const ownerId = new Types.ObjectId(userId);
+      const leg = {
+        userId: ownerId,
+        type: 'transfer',
+        date,
+        note: note || '',
+        category: null,
+        transferId,
+      };
+
+      const session = await this.connection.startSession();
+      let legs: TransactionDocument[] = [];
+      try {
+        await session.withTransaction(async () => {
+          legs = await this.transactionModel.create(
+            [
+              {
+                ...leg,
+                ...debitConversion,
+                amount,
+                currency: source.currency,
+                account: source._id,
+                transferDirection: 'out',
+              },
+              {
+                ...leg,
+                ...creditConversion,
+                amount: creditAmount,
+                currency: destination.currency,
+                account: destination._id,
+                transferDirection: 'in',
+              },
+            ],
+            { session, ordered: true },
+          );
+        });
+      } finally {
+        await session.endSession();
+      }
+
+      return {
+        success: true,
+        message: 'Transfer completed successfully',
+        data: {
+          transferId,
+          transactions: legs.map((transaction) => transaction.toObject()),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to complete transfer');
+    }
+  }
+
+  async removeTransfer(userId: string, transferId: string) {
+    try {
+      const legs = await this.transactionModel.distinct('_id', {
+        userId: new Types.ObjectId(userId),
+        transferId: new Types.ObjectId(transferId),
+      });
+      const session = await this.connection.startSession();
+      let deletedCount = 0;
+      try {
+        await session.withTransaction(async () => {
+          const result = await this.transactionModel.deleteMany(
+            {
+              userId: new Types.ObjectId(userId),
+              transferId: new Types.ObjectId(transferId),
+            },
+            { session },
+          );
+          deletedCount = result.deletedCount;
+        });
+      } finally {
+        await session.endSession();
+      }
+
+      if (deletedCount === 0) {
+        throw new NotFoundException('Transfer not found');
+      }
+      await this.attachmentsService.removeForTransactions(userId, legs);
+
+      return {
+        success: true,
+        message: 'Transfer deleted successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to delete transfer');
+    }
+  }
+}
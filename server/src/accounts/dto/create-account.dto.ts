@@ -0,0 +1,22 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { ACCOUNT_TYPES } from '../../schemas/account.schema';
+import { minorUnitsSchema } from '../../common/validation/money.schema';
+import { currencyCodeSchema } from '../../common/validation/currency.schema';
+
+export const createAccountSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(50, 'Name must be at most 50 characters'),
+  type: z.enum(ACCOUNT_TYPES, {
+    errorMap: () => ({
+      message: `Type must be one of: ${ACCOUNT_TYPES.join(', ')}`,
+    }),
+  }),
+  currency: currencyCodeSchema.optional(),
+  openingBalance: minorUnitsSchema('Opening balance').default(0),
+});
+
+export class CreateAccountDto extends createZodDto(createAccountSchema) {}
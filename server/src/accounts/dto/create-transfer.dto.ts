@@ -0,0 +1,22 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+import { positiveMinorUnitsSchema } from '../../common/validation/money.schema';
+
+export const createTransferSchema = z
+  .object({
+    fromAccount: objectIdSchema,
+    toAccount: objectIdSchema,
+    amount: positiveMinorUnitsSchema(),
+    // Amount credited in the destination account's currency; required when
+    // the two accounts use different currencies
+    toAmount: positiveMinorUnitsSchema('Destination amount').optional(),
+    date: z.coerce.date({ invalid_type_error: 'Please provide a valid date' }),
+    note: z.string().trim().max(500, 'Note must be at most 500 characters').optional(),
+  })
+  .refine((data) => data.fromAccount !== data.toAccount, {
+    message: 'Cannot transfer to the same account',
+    path: ['toAccount'],
+  });
+
+export class CreateTransferDto extends createZodDto(createTransferSchema) {}
@@ -0,0 +1,11 @@
+import { createZodDto } from 'nestjs-zod';
+import { createAccountSchema } from './create-account.dto';
+
+export const updateAccountSchema = createAccountSchema
+  .extend({ openingBalance: createAccountSchema.shape.openingBalance.removeDefault() })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export class UpdateAccountDto extends createZodDto(updateAccountSchema) {}
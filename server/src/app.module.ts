@@ -6,6 +6,22 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { APP_FILTER, APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { AuthModule } from './auth/auth.module';
 import { HealthModule } from './health/health.module';
+import { TransactionsModule } from './transactions/transactions.module';
+import { CategoriesModule } from './categories/categories.module';
+import { AccountsModule } from './accounts/accounts.module';
+import { BudgetsModule } from './budgets/budgets.module';
+import { RecurringModule } from './recurring/recurring.module';
+import { ExchangeRatesModule } from './exchange-rates/exchange-rates.module';
+import { CurrenciesModule } from './currencies/currencies.module';
+import { UsersModule } from './users/users.module';
+import { ImportsModule } from './imports/imports.module';
+import { ExportsModule } from './exports/exports.module';
+import { RulesModule } from './rules/rules.module';
+import { SuggestionsModule } from './suggestions/suggestions.module';
+import { AttachmentsModule } from './attachments/attachments.module';
+import { TagsModule } from './tags/tags.module';
+import { PayeesModule } from './payees/payees.module';
+import { ReportsModule } from './reports/reports.module';
 import {
   getDatabaseConfig,
   connectionFactory,
@@ -16,6 +32,7 @@ import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 import { TransformInterceptor } from './common/interceptors/transform.interceptor';
 import { TokenCleanupService } from './common/services/token-cleanup.service';
 import { Token, TokenSchema } from './schemas/token.schema';
+import { Session, SessionSchema } from './schemas/session.schema';
 import configuration from './config/configuration';
 import { validateEnv } from './config/env.config';
 
@@ -62,12 +79,31 @@ import { validateEnv } from './config/env.config';
     // Scheduled Tasks
     ScheduleModule.forRoot(),
 
-    // Token model for cleanup service
-    MongooseModule.forFeature([{ name: Token.name, schema: TokenSchema }]),
+    // Token and session models for cleanup service
+    MongooseModule.forFeature([
+      { name: Token.name, schema: TokenSchema },
+      { name: Session.name, schema: SessionSchema },
+    ]),
 
     // Feature Modules
     AuthModule,
     HealthModule,
+    TransactionsModule,
+    CategoriesModule,
+    AccountsModule,
+    BudgetsModule,
+    RecurringModule,
+    ExchangeRatesModule,
+    CurrenciesModule,
+    UsersModule,
+    ImportsModule,
+    ExportsModule,
+    RulesModule,
+    SuggestionsModule,
+    AttachmentsModule,
+    TagsModule,
+    PayeesModule,
+    ReportsModule,
   ],
   providers: [
     {
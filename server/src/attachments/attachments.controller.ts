@@ -0,0 +1,158 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { pipeline } from 'stream/promises';
+import { AttachmentFile, AttachmentsService } from './attachments.service';
+import { ListAttachmentsDto, UploadAttachmentDto } from './dto/attachment-transaction.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ParseObjectIdPipe } from '../common/pipes/parse-object-id.pipe';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+import { logError } from '../config/winston.config';
+
+// A phone photo of a receipt or a scanned invoice fits comfortably
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+@ApiTags('Attachments')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('attachments')
+export class AttachmentsController {
+  constructor(private readonly attachmentsService: AttachmentsService) {}
+
+  /**
+   * Stream a stored file to the client, shown inline rather than downloaded
+   */
+  private async send(res: Response, file: AttachmentFile) {
+    res.status(200);
+    res.setHeader('Content-Type', file.contentType);
+    if (file.size !== undefined) {
+      res.setHeader('Content-Length', file.size);
+    }
+    res.setHeader(
+      'Content-Disposition',
+      `inline; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+    );
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+
+    try {
+      await pipeline(file.stream, res);
+    } catch (error) {
+      logError('Attachment stream failed', error);
+      res.destroy();
+    }
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the attachments of a transaction' })
+  @ApiResponse({
+    status: 200,
+    description: 'Attachments retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Transaction not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async findAll(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: ListAttachmentsDto,
+  ) {
+    return this.attachmentsService.findAll(user.userId, query.transaction);
+  }
+
+  @Post()
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_ATTACHMENT_SIZE } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        transaction: { type: 'string' },
+        file: { type: 'string', format: 'binary' },
+      },
+    },
+  })
+  @ApiOperation({ summary: 'Attach a receipt photo or PDF invoice to a transaction' })
+  @ApiResponse({
+    status: 201,
+    description: 'Attachment uploaded successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Unsupported or invalid file', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Transaction not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async upload(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() uploadAttachmentDto: UploadAttachmentDto,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.attachmentsService.upload(
+      user.userId,
+      uploadAttachmentDto.transaction,
+      file,
+    );
+  }
+
+  @Get(':id/file')
+  @ApiOperation({ summary: 'Download an attachment' })
+  @ApiResponse({ status: 200, description: 'File streamed inline' })
+  @ApiResponse({ status: 404, description: 'Attachment not found', type: ApiErrorResponseDto })
+  async getFile(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Res() res: Response,
+  ) {
+    await this.send(res, await this.attachmentsService.open(user.userId, id, 'file'));
+  }
+
+  @Get(':id/thumbnail')
+  @ApiOperation({ summary: 'Download the thumbnail of an image attachment' })
+  @ApiResponse({ status: 200, description: 'WebP thumbnail streamed inline' })
+  @ApiResponse({ status: 404, description: 'Attachment or thumbnail not found', type: ApiErrorResponseDto })
+  async getThumbnail(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Res() res: Response,
+  ) {
+    await this.send(res, await this.attachmentsService.open(user.userId, id, 'thumbnail'));
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete an attachment' })
+  @ApiResponse({
+    status: 200,
+    description: 'Attachment deleted successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Attachment not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async remove(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.attachmentsService.remove(user.userId, id);
+  }
+}
@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AttachmentsController } from './attachments.controller';
+import { AttachmentsService } from './attachments.service';
+import { Attachment, AttachmentSchema } from '../schemas/attachment.schema';
+import { Transaction, TransactionSchema } from '../schemas/transaction.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { AuthModule } from '../auth/auth.module';
+import { StorageConfig } from '../config/app.config';
+import { STORAGE_DRIVER } from './storage/storage-driver';
+import { LocalStorageDriver } from './storage/local-storage.driver';
+import { S3StorageDriver } from './storage/s3-storage.driver';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Attachment.name, schema: AttachmentSchema },
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    AuthModule,
+  ],
+  controllers: [AttachmentsController],
+  providers: [
+    AttachmentsService,
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: (configService: ConfigService) => {
+        const storage = configService.get<StorageConfig>('config.storage')!;
+        return storage.driver === 's3'
+          ? new S3StorageDriver(storage.s3)
+          : new LocalStorageDriver(storage.localPath);
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [AttachmentsService],
+})
+export class AttachmentsModule {}
@@ -0,0 +1,365 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Readable } from 'stream';
+import * as sharp from 'sharp';
+import {
+  Attachment,
+  AttachmentDocument,
+  AttachmentPurpose,
+} from '../schemas/attachment.schema';
+import {
+  Transaction,
+  TransactionDocument,
+} from '../schemas/transaction.schema';
+import { User, UserDocument } from '../schemas/user.schema';
+import {
+  AppException,
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { logError } from '../config/winston.config';
+import { STORAGE_DRIVER, StorageDriver } from './storage/storage-driver';
+import { detectMimeType, isImage } from './file-type';
+
+const RECEIPT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+const PROFILE_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+
+// Longest side of a thumbnail, in pixels
+const THUMBNAIL_SIZE = 320;
+
+export interface AttachmentFile {
+  stream: Readable;
+  contentType: string;
+  fileName: string;
+  // Unknown for thumbnails
+  size?: number;
+}
+
+/**
+ * Path a profile photo is served from, relative to the API base. Stored in
+ * `User.profilePath`.
+ */
+export const profilePhotoPath = (attachmentId: Types.ObjectId | string) =>
+  `/attachments/${attachmentId.toString()}/file`;
+
+@Injectable()
+export class AttachmentsService {
+  constructor(
+    @InjectModel(Attachment.name)
+    private attachmentModel: Model<AttachmentDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @Inject(STORAGE_DRIVER) private storage: StorageDriver,
+  ) {}
+
+  /**
+   * Files of other users are reported as missing, so their ids reveal nothing
+   */
+  private async findOwned(userId: string, id: string, withKeys = false) {
+    const query = this.attachmentModel.findOne({
+      _id: new Types.ObjectId(id),
+      userId: new Types.ObjectId(userId),
+    });
+    if (withKeys) query.select('+key +thumbnailKey');
+    const attachment = await query.lean();
+    if (!attachment) {
+      throw new NotFoundException('Attachment not found');
+    }
+    return attachment;
+  }
+
+  private async assertTransaction(userId: string, transactionId: string) {
+    const exists = await this.transactionModel.exists({
+      _id: new Types.ObjectId(transactionId),
+      userId: new Types.ObjectId(userId),
+    });
+    if (!exists) {
+      throw new NotFoundException('Transaction not found');
+    }
+  }
+
+  /**
+   * Validate an upload, then store it along with a thumbnail when it is an
+   * image
+   */
+  private async store(
+    userId: string,
+    purpose: AttachmentPurpose,
+    file: Express.Multer.File | undefined,
+    allowedTypes: string[],
+    transactionId: Types.ObjectId | null = null,
+  ) {
+    if (!file || file.size === 0) {
+      throw new ValidationException('A file is required');
+    }
+    const mimeType = detectMimeType(file.buffer);
+    if (!mimeType || !allowedTypes.includes(mimeType)) {
+      throw new ValidationException(
+        purpose === 'profile'
+          ? 'Profile photo must be a JPEG, PNG or WebP image'
+          : 'Attachment must be a JPEG, PNG or WebP image or a PDF',
+      );
+    }
+
+    let thumbnail: Buffer | null = null;
+    if (isImage(mimeType)) {
+      try {
+        thumbnail = await sharp(file.buffer)
+          // Honour the camera's EXIF orientation
+          .rotate()
+          .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+            fit: 'inside',
+            withoutEnlargement: true,
+          })
+          .webp({ quality: 80 })
+          .toBuffer();
+      } catch {
+        throw new ValidationException('The image could not be read');
+      }
+    }
+
+    const _id = new Types.ObjectId();
+    const key = `${userId}/${_id.toString()}`;
+    const thumbnailKey = thumbnail ? `${key}-thumbnail` : null;
+
+    await this.storage.put(key, file.buffer, mimeType);
+    if (thumbnail) {
+      await this.storage.put(thumbnailKey, thumbnail, 'image/webp');
+    }
+
+    try {
+      const attachment = await this.attachmentModel.create({
+        _id,
+        userId: new Types.ObjectId(userId),
+        purpose,
+        transaction: transactionId,
+        key,
+        thumbnailKey,
+        mimeType,
+        size: file.size,
+        originalName: file.originalname ?? '',
+      });
+      // Storage keys are internal, as when the attachment is queried
+      const stored = attachment.toObject();
+      delete stored.key;
+      delete stored.thumbnailKey;
+      return stored;
+    } catch (error: unknown) {
+      await this.deleteFiles([{ key, thumbnailKey }]);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove stored files. Failures are logged rather than thrown: the records
+   * are already gone, and an orphaned file is better than a failed request.
+   */
+  private async deleteFiles(files: { key: string; thumbnailKey?: string | null }[]) {
+    const keys = files.flatMap((file) =>
+      file.thumbnailKey ? [file.key, file.thumbnailKey] : [file.key],
+    );
+    await Promise.all(
+      keys.map((key) =>
+        this.storage.delete(key).catch((error: unknown) => {
+          logError(`Failed to delete stored file ${key}`, error);
+        }),
+      ),
+    );
+  }
+
+  async findAll(userId: string, transactionId: string) {
+    try {
+      await this.assertTransaction(userId, transactionId);
+
+      const attachments = await this.attachmentModel
+        .find({
+          userId: new Types.ObjectId(userId),
+          transaction: new Types.ObjectId(transactionId),
+        })
+        .sort({ createdAt: 1 })
+        .lean();
+
+      return {
+        success: true,
+        message: 'Attachments retrieved successfully',
+        data: {
+          attachments,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve attachments');
+    }
+  }
+
+  /**
+   * Attach a receipt photo or PDF invoice to a transaction
+   */
+  async upload(userId: string, transactionId: string, file?: Express.Multer.File) {
+    try {
+      await this.assertTransaction(userId, transactionId);
+
+      const transaction = new Types.ObjectId(transactionId);
+      const count = await this.attachmentModel.countDocuments({
+        userId: new Types.ObjectId(userId),
+        transaction,
+      });
+      if (count >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+        throw new ValidationException(
+          `A transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments`,
+        );
+      }
+
+      const attachment = await this.store(
+        userId,
+        'receipt',
+        file,
+        RECEIPT_TYPES,
+        transaction,
+      );
+
+      return {
+        success: true,
+        message: 'Attachment uploaded successfully',
+        data: {
+          attachment,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to upload attachment');
+    }
+  }
+
+  /**
+   * Open the stored file, or its thumbnail, for streaming to its owner
+   */
+  async open(
+    userId: string,
+    id: string,
+    variant: 'file' | 'thumbnail',
+  ): Promise<AttachmentFile> {
+    try {
+      const attachment = await this.findOwned(userId, id, true);
+      if (variant === 'thumbnail' && !attachment.thumbnailKey) {
+        throw new NotFoundException('This attachment has no thumbnail');
+      }
+
+      const stream = await this.storage.get(
+        variant === 'thumbnail' ? attachment.thumbnailKey : attachment.key,
+      );
+      if (!stream) {
+        throw new NotFoundException('Attachment file is missing');
+      }
+
+      return variant === 'thumbnail'
+        ? {
+            stream,
+            contentType: 'image/webp',
+            fileName: 'thumbnail.webp',
+          }
+        : {
+            stream,
+            contentType: attachment.mimeType,
+            fileName: attachment.originalName || 'attachment',
+            size: attachment.size,
+          };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve attachment');
+    }
+  }
+
+  async remove(userId: string, id: string) {
+    try {
+      const attachment = await this.findOwned(userId, id, true);
+      await this.attachmentModel.deleteOne({ _id: attachment._id });
+      if (attachment.purpose === 'profile') {
+        await this.userModel.updateOne(
+          { _id: attachment.userId, profilePath: profilePhotoPath(attachment._id) },
+          { $set: { profilePath: '' } },
+        );
+      }
+      await this.deleteFiles([attachment]);
+
+      return {
+        success: true,
+        message: 'Attachment deleted successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to delete attachment');
+    }
+  }
+
+  /**
+   * Delete the attachments of transactions that were just removed
+   */
+  async removeForTransactions(userId: string, transactionIds: Types.ObjectId[]) {
+    const filter = {
+      userId: new Types.ObjectId(userId),
+      transaction: { $in: transactionIds },
+    };
+    const attachments = await this.attachmentModel
+      .find(filter)
+      .select('+key +thumbnailKey')
+      .lean();
+    if (attachments.length === 0) return;
+
+    await this.attachmentModel.deleteMany(filter);
+    await this.deleteFiles(attachments);
+  }
+
+  /**
+   * Replace the user's profile photo. The previous photo is deleted.
+   */
+  async setProfilePhoto(userId: string, file?: Express.Multer.File) {
+    const ownerId = new Types.ObjectId(userId);
+    const previous = await this.attachmentModel
+      .find({ userId: ownerId, purpose: 'profile' })
+      .select('+key +thumbnailKey')
+      .lean();
+
+    const attachment = await this.store(userId, 'profile', file, PROFILE_PHOTO_TYPES);
+    await this.userModel.updateOne(
+      { _id: ownerId },
+      { $set: { profilePath: profilePhotoPath(attachment._id) } },
+    );
+
+    if (previous.length > 0) {
+      await this.attachmentModel.deleteMany({
+        _id: { $in: previous.map((entry) => entry._id) },
+      });
+      await this.deleteFiles(previous);
+    }
+    return attachment;
+  }
+
+  async removeProfilePhoto(userId: string) {
+    const ownerId = new Types.ObjectId(userId);
+    const previous = await this.attachmentModel
+      .find({ userId: ownerId, purpose: 'profile' })
+      .select('+key +thumbnailKey')
+      .lean();
+
+    await this.userModel.updateOne({ _id: ownerId }, { $set: { profilePath: '' } });
+    if (previous.length > 0) {
+      await this.attachmentModel.deleteMany({
+        _id: { $in: previous.map((entry) => entry._id) },
+      });
+      await this.deleteFiles(previous);
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+
+export const attachmentTransactionSchema = z.object({
+  transaction: objectIdSchema,
+});
+
+// Multipart field naming the transaction a receipt is attached to
+export class UploadAttachmentDto extends createZodDto(attachmentTransactionSchema) {}
+
+export class ListAttachmentsDto extends createZodDto(attachmentTransactionSchema) {}
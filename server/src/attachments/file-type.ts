@@ -0,0 +1,24 @@
+/**
+ * Work out a file's type from its first bytes. The name and content type
+ * sent with an upload are chosen by the client, so they are not trusted.
+ */
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) =>
+  buffer.length >= offset + bytes.length &&
+  bytes.every((byte, index) => buffer[offset + index] === byte);
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+export const detectMimeType = (buffer: Buffer): string | null => {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (startsWith(buffer, ascii('RIFF')) && startsWith(buffer, ascii('WEBP'), 8)) {
+    return 'image/webp';
+  }
+  if (startsWith(buffer, ascii('%PDF-'))) return 'application/pdf';
+  return null;
+};
+
+export const isImage = (mimeType: string) => mimeType.startsWith('image/');
@@ -0,0 +1,16 @@
+import { Readable } from 'stream';
+
+// Injection token for the configured StorageDriver
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+/**
+ * Where attachment bytes are kept. Keys are generated by the server and
+ * use `/` as a separator.
+ */
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Null when nothing is stored under the key
+  get(key: string): Promise<Readable | null>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+}
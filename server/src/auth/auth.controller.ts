@@ -2,8 +2,12 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
   Body,
+  Param,
   Query,
+  Headers,
+  Ip,
   UseGuards,
   HttpCode,
   HttpStatus,
@@ -17,22 +21,31 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
+import { SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
 import { SignupDto } from './dto/signup.dto';
 import { SigninDto } from './dto/signin.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
 import { VerifyAccountDto } from './dto/verify-account.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import { EnableTwoFactorDto, TwoFactorCodeDto } from './dto/two-factor-code.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { CurrentUser } from './decorators/current-user.decorator';
 import { Throttle } from '@nestjs/throttler';
 import { throttleConfig } from '../config/throttle.config';
 import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+import { ParseObjectIdPipe } from '../common/pipes/parse-object-id.pipe';
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
 
   @Post('signup')
   @ApiOperation({ summary: 'Register a new user account' })
@@ -45,23 +58,151 @@ export class AuthController {
   @ApiResponse({ status: 409, description: 'User already exists', type: ApiErrorResponseDto })
   @Throttle({ default: throttleConfig.signup })
   @HttpCode(HttpStatus.CREATED)
-  async signup(@Body() signupDto: SignupDto) {
-    return this.authService.signup(signupDto);
+  async signup(
+    @Body() signupDto: SignupDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    return this.authService.signup(signupDto, { ip, userAgent });
   }
 
   @Post('signin')
-  @ApiOperation({ summary: 'Sign in with email and password' })
+  @ApiOperation({
+    summary: 'Sign in with email and password',
+    description:
+      'With two-factor enabled, returns a challenge token for POST /auth/2fa/verify instead of the token pair',
+  })
   @ApiResponse({
     status: 200,
-    description: 'Login successful',
+    description: 'Login successful, or a code is required',
     type: ApiResponseDto,
   })
   @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
   @ApiResponse({ status: 401, description: 'Invalid credentials', type: ApiErrorResponseDto })
   @Throttle({ default: throttleConfig.signin })
   @HttpCode(HttpStatus.OK)
-  async signin(@Body() signinDto: SigninDto) {
-    return this.authService.signin(signinDto);
+  async signin(
+    @Body() signinDto: SigninDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    return this.authService.signin(signinDto, { ip, userAgent });
+  }
+
+  @Post('2fa/verify')
+  @ApiOperation({ summary: 'Complete a sign-in with an authenticator or recovery code' })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid code, or the challenge expired',
+    type: ApiErrorResponseDto,
+  })
+  @Throttle({ default: throttleConfig.twoFactor })
+  @HttpCode(HttpStatus.OK)
+  async verifyTwoFactor(
+    @Body() verifyTwoFactorDto: VerifyTwoFactorDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    return this.authService.verifyTwoFactor(verifyTwoFactorDto, { ip, userAgent });
+  }
+
+  @Get('2fa')
+  @ApiOperation({ summary: 'Whether two-factor is enabled, and recovery codes left' })
+  @ApiBearerAuth()
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor status retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid or expired token', type: ApiErrorResponseDto })
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async getTwoFactorStatus(@CurrentUser() user: { userId: string; email: string }) {
+    return this.twoFactorService.getStatus(user.userId);
+  }
+
+  @Post('2fa/setup')
+  @ApiOperation({ summary: 'Start two-factor enrollment with a new secret and otpauth URI' })
+  @ApiBearerAuth()
+  @ApiResponse({
+    status: 200,
+    description: 'Secret generated',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid or expired token', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Already enabled', type: ApiErrorResponseDto })
+  @Throttle({ default: throttleConfig.twoFactor })
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async setupTwoFactor(@CurrentUser() user: { userId: string; email: string }) {
+    return this.twoFactorService.setup(user.userId);
+  }
+
+  @Post('2fa/enable')
+  @ApiOperation({ summary: 'Confirm enrollment with a code and get recovery codes' })
+  @ApiBearerAuth()
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication enabled',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid code', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 401, description: 'Invalid or expired token', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Already enabled', type: ApiErrorResponseDto })
+  @Throttle({ default: throttleConfig.twoFactor })
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async enableTwoFactor(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() enableTwoFactorDto: EnableTwoFactorDto,
+  ) {
+    return this.twoFactorService.enable(user.userId, enableTwoFactorDto.code);
+  }
+
+  @Post('2fa/disable')
+  @ApiOperation({ summary: 'Turn two-factor off with an authenticator or recovery code' })
+  @ApiBearerAuth()
+  @ApiResponse({
+    status: 200,
+    description: 'Two-factor authentication disabled',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid code', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 401, description: 'Invalid or expired token', type: ApiErrorResponseDto })
+  @Throttle({ default: throttleConfig.twoFactor })
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async disableTwoFactor(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.disable(user.userId, twoFactorCodeDto.code);
+  }
+
+  @Post('2fa/recovery-codes')
+  @ApiOperation({ summary: 'Replace the recovery codes' })
+  @ApiBearerAuth()
+  @ApiResponse({
+    status: 200,
+    description: 'Recovery codes regenerated',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid code', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 401, description: 'Invalid or expired token', type: ApiErrorResponseDto })
+  @Throttle({ default: throttleConfig.twoFactor })
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.regenerateRecoveryCodes(user.userId, twoFactorCodeDto.code);
   }
 
   @Post('forgot-password')
@@ -147,8 +288,71 @@ export class AuthController {
   @ApiResponse({ status: 401, description: 'Invalid or expired refresh token', type: ApiErrorResponseDto })
   @Throttle({ default: throttleConfig.refreshToken })
   @HttpCode(HttpStatus.OK)
-  async refreshToken(@Body() refreshTokenDto: RefreshTokenDto) {
-    return this.authService.refreshToken(refreshTokenDto);
+  async refreshToken(@Body() refreshTokenDto: RefreshTokenDto, @Ip() ip: string) {
+    return this.authService.refreshToken(refreshTokenDto, ip);
+  }
+
+  @Post('logout')
+  @ApiOperation({ summary: 'Sign out, revoking the session of the refresh token' })
+  @ApiResponse({
+    status: 200,
+    description: 'Signed out successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @Throttle({ default: throttleConfig.refreshToken })
+  @HttpCode(HttpStatus.OK)
+  async logout(@Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.logout(refreshTokenDto);
+  }
+
+  @Get('sessions')
+  @ApiOperation({ summary: 'List the devices the user is signed in on' })
+  @ApiBearerAuth()
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid or expired token', type: ApiErrorResponseDto })
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async findSessions(@CurrentUser() user: { userId: string; email: string; sid?: string }) {
+    return this.sessionsService.findAll(user.userId, user.sid);
+  }
+
+  @Delete('sessions')
+  @ApiOperation({ summary: 'Sign out every session except the current one' })
+  @ApiBearerAuth()
+  @ApiResponse({
+    status: 200,
+    description: 'Other sessions signed out successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid or expired token', type: ApiErrorResponseDto })
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async removeOtherSessions(@CurrentUser() user: { userId: string; email: string; sid?: string }) {
+    return this.sessionsService.removeOthers(user.userId, user.sid);
+  }
+
+  @Delete('sessions/:id')
+  @ApiOperation({ summary: 'Sign out a session' })
+  @ApiBearerAuth()
+  @ApiResponse({
+    status: 200,
+    description: 'Session signed out successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid or expired token', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Session not found', type: ApiErrorResponseDto })
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async removeSession(
+    @CurrentUser() user: { userId: string; email: string; sid?: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.sessionsService.remove(user.userId, id);
   }
 
   @Get('verify-token')
@@ -4,17 +4,30 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { JwtModule } from '@nestjs/jwt';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { SignInLockoutService } from './sign-in-lockout.service';
 import { User, UserSchema } from '../schemas/user.schema';
 import { Token, TokenSchema } from '../schemas/token.schema';
+import { Session, SessionSchema } from '../schemas/session.schema';
+import {
+  SignInAttempt,
+  SignInAttemptSchema,
+} from '../schemas/sign-in-attempt.schema';
+import { Category, CategorySchema } from '../schemas/category.schema';
 import { EmailService } from '../common/services/email.service';
 import { PasswordValidationService } from '../common/services/password-validation.service';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CategorySeedService } from '../categories/category-seed.service';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
       { name: Token.name, schema: TokenSchema },
+      { name: Session.name, schema: SessionSchema },
+      { name: SignInAttempt.name, schema: SignInAttemptSchema },
+      { name: Category.name, schema: CategorySchema },
     ]),
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -30,10 +43,14 @@ import { JwtAuthGuard } from './guards/jwt-auth.guard';
   controllers: [AuthController],
   providers: [
     AuthService,
+    SessionsService,
+    TwoFactorService,
+    SignInLockoutService,
     EmailService,
     PasswordValidationService,
+    CategorySeedService,
     JwtAuthGuard,
   ],
-  exports: [AuthService],
+  exports: [AuthService, JwtModule, JwtAuthGuard],
 })
 export class AuthModule {}
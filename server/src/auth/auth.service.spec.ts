@@ -0,0 +1,199 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { createHash } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { AuthService } from './auth.service';
+import { SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { SignInLockoutService } from './sign-in-lockout.service';
+import { User } from '../schemas/user.schema';
+import { Token } from '../schemas/token.schema';
+import { EmailService } from '../common/services/email.service';
+import { CategorySeedService } from '../categories/category-seed.service';
+import { AuthenticationException } from '../common/exceptions/app.exception';
+
+jest.mock('../config/winston.config');
+
+const REFRESH_SECRET = 'refresh-secret';
+
+const hash = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let tokens: Record<string, any>[];
+  const userId = new Types.ObjectId().toString();
+  const family = new Types.ObjectId().toString();
+
+  // Stored refresh tokens, matched the way the queries in refreshToken are
+  const tokenModel = {
+    create: jest.fn(async (doc: Record<string, any>) => {
+      tokens.push({ revokedAt: null, ...doc });
+    }),
+    findOneAndUpdate: jest.fn(
+      async (filter: Record<string, any>, update: Record<string, any>) => {
+        const record = tokens.find(
+          (token) =>
+            token.token === filter.token &&
+            token.used === filter.used &&
+            token.revokedAt === filter.revokedAt,
+        );
+        if (record) Object.assign(record, update.$set);
+        return record ?? null;
+      },
+    ),
+    findOne: jest.fn((filter: Record<string, any>) => ({
+      select: () => ({
+        lean: async () =>
+          tokens.find((token) => token.token === filter.token) ?? null,
+      }),
+    })),
+  };
+  const userModel = {
+    findById: jest.fn(() => ({
+      select: () => ({
+        lean: async () => ({
+          name: 'Sam',
+          email: 'sam@example.com',
+          timezone: 'UTC',
+        }),
+      }),
+    })),
+  };
+  const sessionsService = {
+    touch: jest.fn(),
+    revoke: jest.fn(async (id: string) => {
+      tokens
+        .filter((token) => token.family === id)
+        .forEach((token) => (token.revokedAt = new Date()));
+    }),
+  };
+  const emailService = { sendTemplatedEmail: jest.fn() };
+  const configService = {
+    get: jest.fn((key: string) => {
+      switch (key) {
+        case 'config.app':
+          return { clientUrl: 'https://app.example.com' };
+        case 'config.email':
+          return { supportEmail: 'support@example.com' };
+        case 'JWT_SECRET':
+          return 'access-secret';
+        case 'JWT_REFRESH_SECRET':
+          return REFRESH_SECRET;
+        default:
+          return undefined;
+      }
+    }),
+  };
+
+  // A refresh token issued at sign-in, stored as the service stores them
+  const signIn = () => {
+    const refreshToken = jwt.sign(
+      { userId, email: 'sam@example.com', family },
+      REFRESH_SECRET,
+      { expiresIn: '7d' },
+    );
+    tokens.push({
+      token: hash(refreshToken),
+      type: 'refresh',
+      userId: new Types.ObjectId(userId),
+      family,
+      used: false,
+      revokedAt: null,
+    });
+    return refreshToken;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tokens = [];
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: getModelToken(Token.name), useValue: tokenModel },
+        { provide: EmailService, useValue: emailService },
+        { provide: CategorySeedService, useValue: {} },
+        { provide: SessionsService, useValue: sessionsService },
+        { provide: TwoFactorService, useValue: {} },
+        { provide: SignInLockoutService, useValue: {} },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+    service = moduleRef.get(AuthService);
+  });
+
+  describe('refreshToken', () => {
+    it('uses up the token and issues the next pair in the same family', async () => {
+      const refreshToken = signIn();
+
+      const { data } = await service.refreshToken({ refreshToken }, '10.0.0.1');
+
+      expect(tokens[0]).toMatchObject({ used: true, usedAt: expect.any(Date) });
+      expect(data.refreshToken).not.toBe(refreshToken);
+      expect(tokens[1]).toMatchObject({
+        token: hash(data.refreshToken),
+        family,
+        used: false,
+      });
+      expect(jwt.decode(data.token)).toMatchObject({ userId, sid: family });
+      expect(sessionsService.touch).toHaveBeenCalledWith(
+        family,
+        '10.0.0.1',
+        expect.any(Date),
+      );
+    });
+
+    it('lets the rotated token refresh in turn', async () => {
+      const first = signIn();
+      const { data } = await service.refreshToken({ refreshToken: first });
+
+      await expect(
+        service.refreshToken({ refreshToken: data.refreshToken }),
+      ).resolves.toMatchObject({ success: true });
+    });
+
+    it('revokes the family and emails the owner when a used token comes back', async () => {
+      const refreshToken = signIn();
+      const { data } = await service.refreshToken({ refreshToken });
+
+      await expect(service.refreshToken({ refreshToken })).rejects.toThrow(
+        'This session has been signed out for your security. Please sign in again.',
+      );
+      expect(sessionsService.revoke).toHaveBeenCalledWith(family);
+      expect(emailService.sendTemplatedEmail).toHaveBeenCalledWith(
+        'session-revoked',
+        'sam@example.com',
+        expect.any(Array),
+      );
+
+      // The pair issued from the stolen token is revoked with its family
+      await expect(
+        service.refreshToken({ refreshToken: data.refreshToken }),
+      ).rejects.toThrow('Invalid or expired refresh token');
+    });
+
+    it('rejects tokens of a revoked family without alerting again', async () => {
+      const refreshToken = signIn();
+      tokens[0].revokedAt = new Date();
+
+      await expect(service.refreshToken({ refreshToken })).rejects.toThrow(
+        AuthenticationException,
+      );
+      expect(sessionsService.revoke).not.toHaveBeenCalled();
+      expect(emailService.sendTemplatedEmail).not.toHaveBeenCalled();
+    });
+
+    it('rejects tokens that do not verify', async () => {
+      const forged = jwt.sign({ userId, family }, 'another-secret');
+
+      await expect(
+        service.refreshToken({ refreshToken: forged }),
+      ).rejects.toThrow('Invalid or expired refresh token');
+      expect(tokenModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,20 +1,29 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
+import { createHash, randomUUID } from 'crypto';
 import * as bcrypt from 'bcryptjs';
 import * as jwt from 'jsonwebtoken';
 import { User, UserDocument } from '../schemas/user.schema';
 import { Token, TokenDocument } from '../schemas/token.schema';
 import { EmailService } from '../common/services/email.service';
+import { CategorySeedService } from '../categories/category-seed.service';
+import { SessionClient, SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import {
+  ACCOUNT_LOCK_AFTER,
+  SignInLockoutService,
+} from './sign-in-lockout.service';
 import {
   ConflictException,
   AuthenticationException,
   NotFoundException,
   ValidationException,
   AppException,
+  LockoutState,
 } from '../common/exceptions/app.exception';
-import { logError } from '../config/winston.config';
+import { logError, logWarning } from '../config/winston.config';
 import { AppConfig, EmailConfig } from '../config/app.config';
 import { SignupDto } from './dto/signup.dto';
 import { SigninDto } from './dto/signin.dto';
@@ -22,6 +31,7 @@ import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
 import { VerifyAccountDto } from './dto/verify-account.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
 
 @Injectable()
 export class AuthService {
@@ -32,6 +42,10 @@ export class AuthService {
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     @InjectModel(Token.name) private tokenModel: Model<TokenDocument>,
     private emailService: EmailService,
+    private categorySeedService: CategorySeedService,
+    private sessionsService: SessionsService,
+    private twoFactorService: TwoFactorService,
+    private signInLockoutService: SignInLockoutService,
     private configService: ConfigService,
   ) {
     this.appConfig = this.configService.get<AppConfig>('config.app')!;
@@ -54,21 +68,188 @@ export class AuthService {
     return secret;
   }
 
-  private generateToken(userId: string, email: string): string {
+  // sid is the session, so requests can tell which one they come from
+  private generateToken(userId: string, email: string, sid: string): string {
     const secret = this.getJwtSecret();
     const expiresIn = this.configService.get<string>('JWT_ACCESS_EXPIRES_IN') || '15m';
-    return jwt.sign({ userId, email }, secret, { expiresIn } as jwt.SignOptions);
+    return jwt.sign({ userId, email, sid }, secret, { expiresIn } as jwt.SignOptions);
   }
 
-  private generateRefreshToken(userId: string, email: string): string {
+  private generateRefreshToken(userId: string, email: string, family: string): string {
     const secret = this.getJwtRefreshSecret();
     const expiresIn = this.configService.get<string>('JWT_REFRESH_EXPIRES_IN') || '7d';
-    return jwt.sign({ userId, email }, secret, { expiresIn } as jwt.SignOptions);
+    // jwtid keeps two tokens issued in the same second distinct
+    return jwt.sign({ userId, email, family }, secret, {
+      expiresIn,
+      jwtid: randomUUID(),
+    } as jwt.SignOptions);
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issue an access and refresh token pair for a session, storing the refresh
+   * token's hash. The session id is the refresh token family.
+   */
+  private async issueTokens(userId: string, email: string, family: string) {
+    const token = this.generateToken(userId, email, family);
+    const refreshToken = this.generateRefreshToken(userId, email, family);
+    const { exp } = jwt.decode(refreshToken) as jwt.JwtPayload;
+
+    await this.tokenModel.create({
+      token: this.hashToken(refreshToken),
+      type: 'refresh',
+      userId: new Types.ObjectId(userId),
+      family,
+      used: false,
+      expiresAt: new Date(exp * 1000),
+    });
+
+    return { token, refreshToken, expiresAt: new Date(exp * 1000) };
+  }
+
+  /**
+   * Start a session for a sign-in and issue its first tokens
+   */
+  private async startSession(userId: string, email: string, client: SessionClient) {
+    const sessionId = new Types.ObjectId().toString();
+    const { token, refreshToken, expiresAt } = await this.issueTokens(
+      userId,
+      email,
+      sessionId,
+    );
+    await this.sessionsService.create(sessionId, userId, client, expiresAt);
+    return { token, refreshToken };
   }
 
-  async signup(signupDto: SignupDto) {
+  /**
+   * Tell the user a session was revoked because a replaced refresh token
+   * came back, which usually means it was copied
+   */
+  private async sendSessionRevokedEmail(userId: string) {
     try {
-      const { name, email, password, profileImage } = signupDto;
+      const user = await this.userModel
+        .findById(userId)
+        .select('email name timezone')
+        .lean();
+      if (!user) return;
+
+      const clientUrl = this.appConfig.clientUrl;
+      let detectedAt: string;
+      try {
+        detectedAt = new Date().toLocaleString('en-US', {
+          dateStyle: 'medium',
+          timeStyle: 'short',
+          timeZone: user.timezone || 'UTC',
+        });
+      } catch {
+        detectedAt = new Date().toUTCString();
+      }
+      await this.emailService.sendTemplatedEmail('session-revoked', user.email, [
+        { key: 'name', value: user.name },
+        { key: 'detectedAt', value: detectedAt },
+        { key: 'resetLink', value: `${clientUrl}/auth/forgot-password` },
+        {
+          key: 'supportEmail',
+          value: this.emailConfig.supportEmail,
+        },
+        { key: 'facebookLink', value: this.emailConfig.facebookLink },
+        { key: 'twitterLink', value: this.emailConfig.twitterLink },
+        { key: 'instagramLink', value: this.emailConfig.instagramLink },
+        {
+          key: 'companyAddress',
+          value: this.emailConfig.companyAddress,
+        },
+        { key: 'privacyPolicyLink', value: `${clientUrl}/privacy-policy` },
+        { key: 'termsLink', value: `${clientUrl}/terms-of-service` },
+        { key: 'unsubscribeLink', value: `${clientUrl}/unsubscribe` },
+      ]);
+    } catch (emailError: unknown) {
+      logError('Error sending session revoked email', emailError);
+      // The session is revoked either way
+    }
+  }
+
+  /**
+   * Tell the user their account was locked after repeated failed sign-ins
+   */
+  private async sendAccountLockedEmail(email: string, lockout: LockoutState) {
+    try {
+      const user = await this.userModel
+        .findOne({ email: email.toLowerCase() })
+        .select('email name timezone')
+        .lean();
+      // Guesses at an email with no account are counted, but nobody to tell
+      if (!user) return;
+
+      const clientUrl = this.appConfig.clientUrl;
+      let lockedUntil: string;
+      try {
+        lockedUntil = new Date(lockout.retryAt).toLocaleString('en-US', {
+          dateStyle: 'medium',
+          timeStyle: 'short',
+          timeZone: user.timezone || 'UTC',
+        });
+      } catch {
+        lockedUntil = new Date(lockout.retryAt).toUTCString();
+      }
+      await this.emailService.sendTemplatedEmail('account-locked', user.email, [
+        { key: 'name', value: user.name },
+        { key: 'lockedUntil', value: lockedUntil },
+        { key: 'attempts', value: String(ACCOUNT_LOCK_AFTER) },
+        { key: 'resetLink', value: `${clientUrl}/auth/forgot-password` },
+        {
+          key: 'supportEmail',
+          value: this.emailConfig.supportEmail,
+        },
+        { key: 'facebookLink', value: this.emailConfig.facebookLink },
+        { key: 'twitterLink', value: this.emailConfig.twitterLink },
+        { key: 'instagramLink', value: this.emailConfig.instagramLink },
+        {
+          key: 'companyAddress',
+          value: this.emailConfig.companyAddress,
+        },
+        { key: 'privacyPolicyLink', value: `${clientUrl}/privacy-policy` },
+        { key: 'termsLink', value: `${clientUrl}/terms-of-service` },
+        { key: 'unsubscribeLink', value: `${clientUrl}/unsubscribe` },
+      ]);
+    } catch (emailError: unknown) {
+      logError('Error sending account locked email', emailError);
+      // The account is locked either way
+    }
+  }
+
+  /**
+   * Count a wrong email, password or two-factor code, and say so with what
+   * the next attempt faces: a wait, or a lockout this failure triggered
+   */
+  private async rejectSignIn(
+    email: string,
+    ip?: string,
+    message = 'Invalid email or password',
+  ): Promise<never> {
+    const { lockout, accountLocked } = await this.signInLockoutService.recordFailure(
+      email,
+      ip,
+    );
+    if (accountLocked) {
+      logWarning('Account locked after failed sign-ins', { email });
+      await this.sendAccountLockedEmail(email, lockout);
+    }
+    if (lockout?.status === 'locked') {
+      throw new AuthenticationException(
+        this.signInLockoutService.lockoutMessage(lockout),
+        lockout,
+      );
+    }
+    throw new AuthenticationException(message, lockout ?? undefined);
+  }
+
+  async signup(signupDto: SignupDto, client: SessionClient = {}) {
+    try {
+      const { name, email, password, timezone, deviceName, platform } = signupDto;
 
       // Check if user already exists
       const existingUser = await this.userModel
@@ -87,7 +268,7 @@ export class AuthService {
         name,
         email: email.toLowerCase(),
         password: hashedPassword,
-        profilePath: profileImage || '',
+        ...(timezone && { timezone }),
         isVerified: false,
         passwordHistory: [
           {
@@ -99,11 +280,19 @@ export class AuthService {
 
       await user.save();
 
+      // Seed the default income and expense categories
+      try {
+        await this.categorySeedService.seedDefaults(user._id);
+      } catch (seedError: unknown) {
+        logError('Error seeding default categories', seedError);
+        // Continue even if seeding fails
+      }
+
       // Generate JWT tokens
-      const token = this.generateToken(user._id.toString(), user.email);
-      const refreshToken = this.generateRefreshToken(
+      const { token, refreshToken } = await this.startSession(
         user._id.toString(),
         user.email,
+        { ...client, deviceName, platform },
       );
 
       // Generate verification token
@@ -160,6 +349,7 @@ export class AuthService {
         email: user.email,
         profilePath: user.profilePath,
         currency: user.currency,
+        timezone: user.timezone,
         isVerified: user.isVerified,
         createdAt: user.createdAt,
       };
@@ -186,29 +376,52 @@ export class AuthService {
     }
   }
 
-  async signin(signinDto: SigninDto) {
+  async signin(signinDto: SigninDto, client: SessionClient = {}) {
     try {
-      const { email, password } = signinDto;
+      const { email, password, deviceName, platform } = signinDto;
+
+      // Refuse while locked out or backing off, before checking anything
+      await this.signInLockoutService.assertCanAttempt(email, client.ip);
 
       // Find user
       const user = await this.userModel
         .findOne({ email: email.toLowerCase() })
-        .select('_id email password name profilePath currency isVerified createdAt');
+        .select(
+          '_id email password name profilePath currency timezone isVerified twoFactorEnabled createdAt',
+        );
       if (!user) {
-        throw new AuthenticationException('Invalid email or password');
+        return await this.rejectSignIn(email, client.ip);
       }
 
       // Check password
       const isPasswordValid = await bcrypt.compare(password, user.password);
       if (!isPasswordValid) {
-        throw new AuthenticationException('Invalid email or password');
+        return await this.rejectSignIn(email, client.ip);
       }
 
+      // The tokens wait for the second factor (see verifyTwoFactor), and the
+      // failures stay counted until it's given
+      if (user.twoFactorEnabled) {
+        const challengeToken = await this.twoFactorService.createChallenge(
+          user._id.toString(),
+        );
+        return {
+          success: true,
+          message: 'Enter the code from your authenticator app',
+          data: {
+            twoFactorRequired: true,
+            challengeToken,
+          },
+        };
+      }
+
+      await this.signInLockoutService.recordSuccess(user.email);
+
       // Generate JWT tokens
-      const token = this.generateToken(user._id.toString(), user.email);
-      const refreshToken = this.generateRefreshToken(
+      const { token, refreshToken } = await this.startSession(
         user._id.toString(),
         user.email,
+        { ...client, deviceName, platform },
       );
 
       // Remove password from response
@@ -218,6 +431,7 @@ export class AuthService {
         email: user.email,
         profilePath: user.profilePath,
         currency: user.currency,
+        timezone: user.timezone,
         isVerified: user.isVerified,
         createdAt: user.createdAt,
       };
@@ -242,6 +456,59 @@ export class AuthService {
     }
   }
 
+  /**
+   * Second step of signing in with two-factor enabled: exchange the challenge
+   * from signin and a code for the token pair
+   */
+  async verifyTwoFactor(verifyTwoFactorDto: VerifyTwoFactorDto, client: SessionClient = {}) {
+    try {
+      const { challengeToken, code, deviceName, platform } = verifyTwoFactorDto;
+
+      const userId = await this.twoFactorService.findChallengeUser(challengeToken);
+
+      const user = await this.userModel
+        .findById(userId)
+        .select('_id email name profilePath currency timezone isVerified createdAt')
+        .lean();
+      if (!user) {
+        throw new AuthenticationException('This sign-in has expired. Please sign in again.');
+      }
+
+      // Wrong codes count towards the same backoff and lockout as wrong
+      // passwords; otherwise fresh challenges would allow unlimited guesses
+      await this.signInLockoutService.assertCanAttempt(user.email, client.ip);
+      if (!(await this.twoFactorService.completeChallenge(challengeToken, code))) {
+        return await this.rejectSignIn(user.email, client.ip, 'Invalid verification code');
+      }
+
+      await this.signInLockoutService.recordSuccess(user.email);
+
+      const { token, refreshToken } = await this.startSession(
+        user._id.toString(),
+        user.email,
+        { ...client, deviceName, platform },
+      );
+
+      return {
+        success: true,
+        message: 'Login successful',
+        data: {
+          user,
+          token,
+          refreshToken,
+        },
+      };
+    } catch (error: unknown) {
+      if (
+        error instanceof AuthenticationException ||
+        error instanceof AppException
+      ) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to verify two-factor code');
+    }
+  }
+
   async forgotPassword(forgotPasswordDto: ForgotPasswordDto) {
     try {
       const { email } = forgotPasswordDto;
@@ -406,6 +673,9 @@ export class AuthService {
       tokenRecord.usedAt = new Date();
       await tokenRecord.save();
 
+      // Sign out every session, in case the old password was known to someone
+      await this.sessionsService.revokeAll(user._id.toString());
+
       return {
         success: true,
         message: 'Password reset successfully',
@@ -461,7 +731,7 @@ export class AuthService {
       // Find user
       const user = await this.userModel
         .findOne({ email: decoded.email })
-        .select('_id email name profilePath currency isVerified createdAt')
+        .select('_id email name profilePath currency timezone isVerified createdAt')
         .lean();
       if (!user) {
         throw new NotFoundException('User not found');
@@ -506,7 +776,7 @@ export class AuthService {
     try {
       const user = await this.userModel
         .findOne({ email })
-        .select('_id email name profilePath currency isVerified createdAt')
+        .select('_id email name profilePath currency timezone isVerified createdAt')
         .lean();
       if (!user) {
         throw new NotFoundException('User not found');
@@ -527,7 +797,12 @@ export class AuthService {
     }
   }
 
-  async refreshToken(refreshTokenDto: RefreshTokenDto) {
+  /**
+   * Exchange a refresh token for a new pair. Each refresh token works once:
+   * presenting one that was already exchanged means two parties hold it, so
+   * its whole family is revoked and the user is told by email.
+   */
+  async refreshToken(refreshTokenDto: RefreshTokenDto, ip?: string) {
     try {
       const { refreshToken } = refreshTokenDto;
 
@@ -542,13 +817,46 @@ export class AuthService {
         throw new AuthenticationException('Invalid or expired refresh token');
       }
 
-      // Generate new access token
-      const newToken = this.generateToken(decoded.userId, decoded.email);
-      const newRefreshToken = this.generateRefreshToken(
-        decoded.userId,
-        decoded.email,
+      // Use the token up atomically, so two refreshes with it cannot both win
+      const hashedToken = this.hashToken(refreshToken);
+      const tokenRecord = await this.tokenModel.findOneAndUpdate(
+        {
+          token: hashedToken,
+          type: 'refresh',
+          used: false,
+          revokedAt: null,
+        },
+        { $set: { used: true, usedAt: new Date() } },
       );
 
+      if (!tokenRecord) {
+        const existing = await this.tokenModel
+          .findOne({ token: hashedToken, type: 'refresh' })
+          .select('used revokedAt family userId')
+          .lean();
+        // Reuse of an exchanged token; tokens of a revoked family (or issued
+        // before tokens were stored) are simply rejected
+        if (existing?.used && !existing.revokedAt) {
+          await this.sessionsService.revoke(existing.family);
+          await this.sendSessionRevokedEmail(existing.userId.toString());
+          logWarning('Refresh token reuse detected; session revoked', {
+            userId: existing.userId.toString(),
+          });
+          throw new AuthenticationException(
+            'This session has been signed out for your security. Please sign in again.',
+          );
+        }
+        throw new AuthenticationException('Invalid or expired refresh token');
+      }
+
+      // Generate the next pair in the same family
+      const {
+        token: newToken,
+        refreshToken: newRefreshToken,
+        expiresAt,
+      } = await this.issueTokens(decoded.userId, decoded.email, tokenRecord.family);
+      await this.sessionsService.touch(tokenRecord.family, ip, expiresAt);
+
       return {
         success: true,
         message: 'Token refreshed successfully',
@@ -567,4 +875,33 @@ export class AuthService {
       throw new AppException(500, 'Failed to refresh token');
     }
   }
+
+  /**
+   * Sign out: revoke the session the refresh token belongs to. Signing out
+   * twice, or with a token that is no longer valid, still succeeds.
+   */
+  async logout(refreshTokenDto: RefreshTokenDto) {
+    try {
+      const tokenRecord = await this.tokenModel
+        .findOne({
+          token: this.hashToken(refreshTokenDto.refreshToken),
+          type: 'refresh',
+        })
+        .select('family')
+        .lean();
+      if (tokenRecord?.family) {
+        await this.sessionsService.revoke(tokenRecord.family);
+      }
+
+      return {
+        success: true,
+        message: 'Signed out successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to sign out');
+    }
+  }
 }
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+/**
+ * The device signing in, as it describes itself; shown in the session list
+ */
+export const deviceFields = {
+  deviceName: z.string().trim().max(100, 'Device name must be at most 100 characters').optional(),
+  platform: z.enum(['ios', 'android', 'web', 'other']).optional(),
+};
@@ -1,9 +1,11 @@
 import { createZodDto } from 'nestjs-zod';
 import { z } from 'zod';
+import { deviceFields } from './device.schema';
 
 export const signinSchema = z.object({
   email: z.string().trim().email('Please provide a valid email address').toLowerCase(),
   password: z.string().min(1, 'Password is required'),
+  ...deviceFields,
 });
 
 export class SigninDto extends createZodDto(signinSchema) {}
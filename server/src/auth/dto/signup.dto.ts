@@ -1,5 +1,7 @@
 import { createZodDto } from 'nestjs-zod';
 import { z } from 'zod';
+import { timeZoneSchema } from '../../common/validation/time-zone.schema';
+import { deviceFields } from './device.schema';
 
 export const signupSchema = z
   .object({
@@ -24,7 +26,9 @@ export const signupSchema = z
         'Password must contain at least one special character (@$!%*?&)',
       ),
     confirmPassword: z.string(),
-    profileImage: z.string().url('Profile image must be a valid URL').optional(),
+    // The device's time zone; UTC when omitted
+    timezone: timeZoneSchema.optional(),
+    ...deviceFields,
   })
   .refine((data) => data.password === data.confirmPassword, {
     message: 'Passwords do not match',
@@ -0,0 +1,27 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+
+// A code from the authenticator app
+export const totpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app');
+
+// An authenticator code, or one of the recovery codes for a lost device
+export const secondFactorCodeSchema = z
+  .string()
+  .trim()
+  .min(1, 'Code is required')
+  .max(20, 'Code must be at most 20 characters');
+
+export const enableTwoFactorSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: secondFactorCodeSchema,
+});
+
+export class EnableTwoFactorDto extends createZodDto(enableTwoFactorSchema) {}
+
+export class TwoFactorCodeDto extends createZodDto(twoFactorCodeSchema) {}
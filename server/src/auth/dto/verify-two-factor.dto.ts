@@ -0,0 +1,12 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { deviceFields } from './device.schema';
+import { secondFactorCodeSchema } from './two-factor-code.dto';
+
+export const verifyTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: secondFactorCodeSchema,
+  ...deviceFields,
+});
+
+export class VerifyTwoFactorDto extends createZodDto(verifyTwoFactorSchema) {}
@@ -0,0 +1,150 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SessionsService } from './sessions.service';
+import { Session } from '../schemas/session.schema';
+import { Token } from '../schemas/token.schema';
+import {
+  AuthenticationException,
+  NotFoundException,
+} from '../common/exceptions/app.exception';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  const userId = new Types.ObjectId().toString();
+  const sessionId = new Types.ObjectId().toString();
+
+  const sessionModel = {
+    create: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(async () => ({ modifiedCount: 2 })),
+  };
+  const tokenModel = { updateMany: jest.fn() };
+
+  const query = <T>(result: T) => ({
+    sort: () => query(result),
+    select: () => query(result),
+    lean: async () => result,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        { provide: getModelToken(Session.name), useValue: sessionModel },
+        { provide: getModelToken(Token.name), useValue: tokenModel },
+      ],
+    }).compile();
+    service = moduleRef.get(SessionsService);
+  });
+
+  describe('create', () => {
+    it('stores the device, defaulting what the client did not send', async () => {
+      const expiresAt = new Date('2024-03-08T12:00:00Z');
+
+      await service.create(sessionId, userId, { ip: '10.0.0.1' }, expiresAt);
+
+      expect(sessionModel.create).toHaveBeenCalledWith({
+        _id: new Types.ObjectId(sessionId),
+        userId: new Types.ObjectId(userId),
+        deviceName: '',
+        platform: 'other',
+        ip: '10.0.0.1',
+        userAgent: '',
+        lastUsedAt: expect.any(Date),
+        expiresAt,
+      });
+    });
+  });
+
+  describe('revoke', () => {
+    it('revokes the session and every refresh token of its family', async () => {
+      await service.revoke(sessionId);
+
+      expect(tokenModel.updateMany).toHaveBeenCalledWith(
+        { family: sessionId, type: 'refresh', revokedAt: null },
+        { $set: { revokedAt: expect.any(Date) } },
+      );
+      expect(sessionModel.updateOne).toHaveBeenCalledWith(
+        { _id: new Types.ObjectId(sessionId), revokedAt: null },
+        { $set: { revokedAt: expect.any(Date) } },
+      );
+    });
+
+    it('revokes the tokens of a family that predates session records', async () => {
+      await service.revoke('legacy-family');
+
+      expect(tokenModel.updateMany).toHaveBeenCalled();
+      expect(sessionModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAll', () => {
+    it('keeps the excepted session signed in', async () => {
+      const count = await service.revokeAll(userId, sessionId);
+
+      expect(count).toBe(2);
+      expect(tokenModel.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ family: { $ne: sessionId } }),
+        expect.anything(),
+      );
+      expect(sessionModel.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          _id: { $ne: new Types.ObjectId(sessionId) },
+        }),
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('findAll', () => {
+    it('marks the session making the request', async () => {
+      const other = new Types.ObjectId();
+      sessionModel.find.mockReturnValue(
+        query([{ _id: new Types.ObjectId(sessionId) }, { _id: other }]),
+      );
+
+      const { data } = await service.findAll(userId, sessionId);
+
+      expect(data.sessions.map((session) => session.current)).toEqual([
+        true,
+        false,
+      ]);
+    });
+  });
+
+  describe('remove', () => {
+    it('signs out a session of the user', async () => {
+      sessionModel.findOne.mockReturnValue(query({ _id: sessionId }));
+
+      await service.remove(userId, sessionId);
+
+      expect(tokenModel.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ family: sessionId }),
+        expect.anything(),
+      );
+    });
+
+    it("refuses a session that is not the user's or already revoked", async () => {
+      sessionModel.findOne.mockReturnValue(query(null));
+
+      await expect(service.remove(userId, sessionId)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(tokenModel.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeOthers', () => {
+    it('needs to know the current session', async () => {
+      await expect(service.removeOthers(userId)).rejects.toThrow(
+        AuthenticationException,
+      );
+      expect(sessionModel.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Session,
+  SessionDocument,
+  SessionPlatform,
+} from '../schemas/session.schema';
+import { Token, TokenDocument } from '../schemas/token.schema';
+import {
+  AppException,
+  AuthenticationException,
+  NotFoundException,
+} from '../common/exceptions/app.exception';
+
+/**
+ * What is known about the device signing in: the name and platform it sends,
+ * and the address and user agent its requests come with
+ */
+export interface SessionClient {
+  deviceName?: string;
+  platform?: SessionPlatform;
+  ip?: string;
+  userAgent?: string;
+}
+
+@Injectable()
+export class SessionsService {
+  constructor(
+    @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+    @InjectModel(Token.name) private tokenModel: Model<TokenDocument>,
+  ) {}
+
+  async create(
+    id: string,
+    userId: string,
+    client: SessionClient,
+    expiresAt: Date,
+  ) {
+    await this.sessionModel.create({
+      _id: new Types.ObjectId(id),
+      userId: new Types.ObjectId(userId),
+      deviceName: client.deviceName ?? '',
+      platform: client.platform ?? 'other',
+      ip: client.ip ?? '',
+      userAgent: client.userAgent?.slice(0, 500) ?? '',
+      lastUsedAt: new Date(),
+      expiresAt,
+    });
+  }
+
+  /**
+   * Record a refresh: the session was used now, from this address, and lasts
+   * as long as the refresh token just issued
+   */
+  async touch(id: string, ip: string | undefined, expiresAt: Date) {
+    if (!Types.ObjectId.isValid(id)) return;
+    await this.sessionModel.updateOne(
+      { _id: new Types.ObjectId(id) },
+      { $set: { lastUsedAt: new Date(), expiresAt, ...(ip && { ip }) } },
+    );
+  }
+
+  /**
+   * Revoke a session and every refresh token issued for it
+   */
+  async revoke(id: string) {
+    const revokedAt = new Date();
+    await this.tokenModel.updateMany(
+      { family: id, type: 'refresh', revokedAt: null },
+      { $set: { revokedAt } },
+    );
+    if (Types.ObjectId.isValid(id)) {
+      await this.sessionModel.updateOne(
+        { _id: new Types.ObjectId(id), revokedAt: null },
+        { $set: { revokedAt } },
+      );
+    }
+  }
+
+  /**
+   * Revoke every session of a user, or every one but `exceptId`
+   */
+  async revokeAll(userId: string, exceptId?: string) {
+    const revokedAt = new Date();
+    const ownerId = new Types.ObjectId(userId);
+    await this.tokenModel.updateMany(
+      {
+        userId: ownerId,
+        type: 'refresh',
+        revokedAt: null,
+        ...(exceptId && { family: { $ne: exceptId } }),
+      },
+      { $set: { revokedAt } },
+    );
+    const result = await this.sessionModel.updateMany(
+      {
+        userId: ownerId,
+        revokedAt: null,
+        ...(exceptId && { _id: { $ne: new Types.ObjectId(exceptId) } }),
+      },
+      { $set: { revokedAt } },
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Where the user is signed in, most recently used first
+   */
+  async findAll(userId: string, currentId?: string) {
+    try {
+      const sessions = await this.sessionModel
+        .find({
+          userId: new Types.ObjectId(userId),
+          revokedAt: null,
+          expiresAt: { $gt: new Date() },
+        })
+        .sort({ lastUsedAt: -1 })
+        .select('deviceName platform ip userAgent lastUsedAt createdAt')
+        .lean();
+
+      return {
+        success: true,
+        message: 'Sessions retrieved successfully',
+        data: {
+          sessions: sessions.map((session) => ({
+            ...session,
+            current: session._id.toString() === currentId,
+          })),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve sessions');
+    }
+  }
+
+  /**
+   * Sign a device out. Its access token stays valid until it expires, which
+   * is minutes; it can no longer be refreshed.
+   */
+  async remove(userId: string, id: string) {
+    try {
+      const session = await this.sessionModel
+        .findOne({
+          _id: new Types.ObjectId(id),
+          userId: new Types.ObjectId(userId),
+          revokedAt: null,
+        })
+        .select('_id')
+        .lean();
+      if (!session) {
+        throw new NotFoundException('Session not found');
+      }
+
+      await this.revoke(id);
+
+      return {
+        success: true,
+        message: 'Session signed out successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to sign out session');
+    }
+  }
+
+  /**
+   * Sign out every device except the one making the request
+   */
+  async removeOthers(userId: string, currentId?: string) {
+    try {
+      // Tokens from before sessions were tracked carry no session id, and
+      // without one every session would be signed out, this one included
+      if (!currentId) {
+        throw new AuthenticationException('Please sign in again to manage your sessions');
+      }
+
+      const count = await this.revokeAll(userId, currentId);
+
+      return {
+        success: true,
+        message: 'Other sessions signed out successfully',
+        data: {
+          revokedCount: count,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to sign out other sessions');
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SignInLockoutService } from './sign-in-lockout.service';
+import { SignInAttempt } from '../schemas/sign-in-attempt.schema';
+import { AuthenticationException } from '../common/exceptions/app.exception';
+
+describe('SignInLockoutService', () => {
+  let service: SignInLockoutService;
+  let attempts: Map<string, Record<string, any>>;
+  const email = 'sam@example.com';
+  const ip = '10.0.0.1';
+
+  // Keeps attempts by key and applies updates the way Mongo would
+  const signInAttemptModel = {
+    find: jest.fn((filter: Record<string, any>) => ({
+      lean: async () =>
+        filter.key.$in
+          .filter((key: string) => attempts.has(key))
+          .map((key: string) => ({ ...attempts.get(key) })),
+    })),
+    findOneAndUpdate: jest.fn(
+      async (filter: Record<string, any>, update: Record<string, any>) => {
+        const attempt = attempts.get(filter.key) ?? {
+          _id: new Types.ObjectId(),
+          key: filter.key,
+          failures: 0,
+          lockouts: 0,
+        };
+        attempt.failures += update.$inc.failures;
+        Object.assign(attempt, update.$set);
+        attempts.set(filter.key, attempt);
+        return { ...attempt };
+      },
+    ),
+    updateOne: jest.fn(
+      async (filter: Record<string, any>, update: Record<string, any>) => {
+        const attempt = [...attempts.values()].find(
+          ({ _id }) => _id === filter._id,
+        );
+        if (!attempt || attempt.failures !== filter.failures) {
+          return { modifiedCount: 0 };
+        }
+        Object.assign(attempt, update.$set);
+        return { modifiedCount: 1 };
+      },
+    ),
+    deleteOne: jest.fn(async (filter: Record<string, any>) => {
+      attempts.delete(filter.key);
+    }),
+  };
+
+  const fail = async (times: number, address?: string) => {
+    const results: Awaited<
+      ReturnType<SignInLockoutService['recordFailure']>
+    >[] = [];
+    for (let i = 0; i < times; i++) {
+      results.push(await service.recordFailure(email, address));
+    }
+    return results;
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2024-03-01T12:00:00Z') });
+    jest.clearAllMocks();
+    attempts = new Map();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        SignInLockoutService,
+        {
+          provide: getModelToken(SignInAttempt.name),
+          useValue: signInAttemptModel,
+        },
+      ],
+    }).compile();
+    service = moduleRef.get(SignInLockoutService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('recordFailure', () => {
+    it('doubles the wait after the third failure, up to a minute', async () => {
+      const results = await fail(9);
+      expect(
+        results.map(({ lockout }) => lockout?.retryAfterSeconds ?? 0),
+      ).toEqual([0, 0, 1, 2, 4, 8, 16, 32, 60]);
+      expect(results[2].lockout).toMatchObject({
+        status: 'delayed',
+        scope: 'account',
+      });
+    });
+
+    it('locks the account for 15 minutes at the tenth failure', async () => {
+      const results = await fail(10);
+      expect(results[9]).toEqual({
+        lockout: {
+          status: 'locked',
+          scope: 'account',
+          retryAt: '2024-03-01T12:15:00.000Z',
+          retryAfterSeconds: 900,
+        },
+        accountLocked: true,
+      });
+      // The count starts over for the next lockout
+      expect(attempts.get(`account:${email}`)).toMatchObject({
+        failures: 0,
+        lockouts: 1,
+      });
+    });
+
+    it('doubles each further lockout', async () => {
+      await fail(10);
+      jest.advanceTimersByTime(15 * 60 * 1000);
+
+      const results = await fail(10);
+      expect(results[9].lockout).toMatchObject({
+        status: 'locked',
+        retryAfterSeconds: 30 * 60,
+      });
+    });
+
+    it('gives an address more room than an account', async () => {
+      for (let i = 1; i <= 50; i++) {
+        const { lockout, accountLocked } = await service.recordFailure(
+          `user${i}@example.com`,
+          ip,
+        );
+        if (i < 10) expect(lockout).toBeNull();
+        if (i === 10)
+          expect(lockout).toMatchObject({ status: 'delayed', scope: 'ip' });
+        if (i === 50) {
+          expect(lockout).toMatchObject({ status: 'locked', scope: 'ip' });
+          expect(accountLocked).toBe(false);
+        }
+      }
+    });
+
+    it('counts the account whatever the case of the email', async () => {
+      await service.recordFailure('Sam@Example.com');
+      expect(attempts.get(`account:${email}`)).toMatchObject({ failures: 1 });
+    });
+  });
+
+  describe('assertCanAttempt', () => {
+    it('makes a delayed attempt wait', async () => {
+      await fail(3);
+
+      await expect(service.assertCanAttempt(email)).rejects.toMatchObject({
+        lockout: { status: 'delayed', retryAfterSeconds: 1 },
+      });
+      jest.advanceTimersByTime(1000);
+      await expect(service.assertCanAttempt(email)).resolves.toBeUndefined();
+    });
+
+    it('refuses a locked account until the lockout ends', async () => {
+      await fail(10, ip);
+
+      const attempt = service.assertCanAttempt(email, ip);
+      await expect(attempt).rejects.toThrow(AuthenticationException);
+      // The lock outranks the address's delay
+      await expect(attempt).rejects.toMatchObject({
+        message:
+          'Too many failed sign-in attempts. This account is temporarily locked; we have emailed its owner.',
+        lockout: { status: 'locked', scope: 'account' },
+      });
+
+      jest.advanceTimersByTime(15 * 60 * 1000);
+      await expect(
+        service.assertCanAttempt(email, ip),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it("clears the account's failures but not the address's", async () => {
+      await fail(5, ip);
+
+      await service.recordSuccess('SAM@example.com');
+
+      expect(attempts.has(`account:${email}`)).toBe(false);
+      expect(attempts.get(`ip:${ip}`)).toMatchObject({ failures: 5 });
+    });
+  });
+});
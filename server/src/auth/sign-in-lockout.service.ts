@@ -0,0 +1,187 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  SignInAttempt,
+  SignInAttemptDocument,
+} from '../schemas/sign-in-attempt.schema';
+import {
+  AuthenticationException,
+  LockoutState,
+} from '../common/exceptions/app.exception';
+
+type Scope = LockoutState['scope'];
+
+// Failed sign-ins that lock an account
+export const ACCOUNT_LOCK_AFTER = 10;
+
+// After `delayAfter` failures each try must wait, twice as long each time;
+// at `lockAfter` the account or address is locked out. An address gets more
+// room, since one network can be shared by many users.
+const POLICIES: Record<Scope, { delayAfter: number; lockAfter: number }> = {
+  account: { delayAfter: 3, lockAfter: ACCOUNT_LOCK_AFTER },
+  ip: { delayAfter: 10, lockAfter: 50 },
+};
+
+const MAX_DELAY_MS = 60 * 1000;
+const BASE_LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+const FORGET_AFTER_MS = 24 * 60 * 60 * 1000;
+
+const MESSAGES: Record<LockoutState['status'], Record<Scope, string>> = {
+  delayed: {
+    account: 'Too many failed sign-in attempts. Please wait before trying again.',
+    ip: 'Too many failed sign-in attempts from your network. Please wait before trying again.',
+  },
+  locked: {
+    account:
+      'Too many failed sign-in attempts. This account is temporarily locked; we have emailed its owner.',
+    ip: 'Too many failed sign-in attempts from your network. Please try again later.',
+  },
+};
+
+/**
+ * Progressive delay and temporary lockout for failed sign-ins, tracked per
+ * account and per IP address. The global rate limit is per address and
+ * per minute, which does nothing against slow guessing at one account.
+ */
+@Injectable()
+export class SignInLockoutService {
+  constructor(
+    @InjectModel(SignInAttempt.name)
+    private signInAttemptModel: Model<SignInAttemptDocument>,
+  ) {}
+
+  private keys(email: string, ip?: string) {
+    const keys: Array<{ scope: Scope; key: string }> = [
+      { scope: 'account', key: `account:${email.toLowerCase()}` },
+    ];
+    if (ip) keys.push({ scope: 'ip', key: `ip:${ip}` });
+    return keys;
+  }
+
+  private delayMs(scope: Scope, failures: number): number {
+    const { delayAfter } = POLICIES[scope];
+    if (failures < delayAfter) return 0;
+    return Math.min(1000 * 2 ** (failures - delayAfter), MAX_DELAY_MS);
+  }
+
+  private lockoutMs(lockouts: number): number {
+    return Math.min(BASE_LOCKOUT_MS * 2 ** (lockouts - 1), MAX_LOCKOUT_MS);
+  }
+
+  private toState(status: LockoutState['status'], scope: Scope, retryAt: Date): LockoutState {
+    return {
+      status,
+      scope,
+      retryAt: retryAt.toISOString(),
+      retryAfterSeconds: Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000)),
+    };
+  }
+
+  // A lock outranks a delay, and a later retry outranks an earlier one
+  private strongest(states: LockoutState[]): LockoutState | null {
+    return (
+      states.sort((a, b) =>
+        a.status !== b.status
+          ? a.status === 'locked'
+            ? -1
+            : 1
+          : b.retryAfterSeconds - a.retryAfterSeconds,
+      )[0] ?? null
+    );
+  }
+
+  lockoutMessage(lockout: LockoutState): string {
+    return MESSAGES[lockout.status][lockout.scope];
+  }
+
+  /**
+   * Refuse a sign-in attempt while its account or address is locked out or
+   * still has to wait. Runs before the password is checked.
+   */
+  async assertCanAttempt(email: string, ip?: string) {
+    const keys = this.keys(email, ip);
+    const attempts = await this.signInAttemptModel
+      .find({ key: { $in: keys.map(({ key }) => key) } })
+      .lean();
+
+    const now = Date.now();
+    const states: LockoutState[] = [];
+    for (const attempt of attempts) {
+      const { scope } = keys.find(({ key }) => key === attempt.key)!;
+      if (attempt.lockedUntil && attempt.lockedUntil.getTime() > now) {
+        states.push(this.toState('locked', scope, attempt.lockedUntil));
+        continue;
+      }
+      const retryAt = attempt.lastFailureAt.getTime() + this.delayMs(scope, attempt.failures);
+      if (retryAt > now) {
+        states.push(this.toState('delayed', scope, new Date(retryAt)));
+      }
+    }
+
+    const lockout = this.strongest(states);
+    if (lockout) {
+      throw new AuthenticationException(this.lockoutMessage(lockout), lockout);
+    }
+  }
+
+  /**
+   * Count a failed sign-in against the account and address. Returns what
+   * the next attempt faces, and whether this failure locked the account
+   * (so its owner can be told, once).
+   */
+  async recordFailure(email: string, ip?: string) {
+    const now = new Date();
+    const states: LockoutState[] = [];
+    let accountLocked = false;
+
+    for (const { scope, key } of this.keys(email, ip)) {
+      const attempt = await this.signInAttemptModel.findOneAndUpdate(
+        { key },
+        {
+          $inc: { failures: 1 },
+          $set: { lastFailureAt: now, expiresAt: new Date(now.getTime() + FORGET_AFTER_MS) },
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true },
+      );
+
+      if (attempt.failures >= POLICIES[scope].lockAfter) {
+        const lockouts = attempt.lockouts + 1;
+        const lockedUntil = new Date(now.getTime() + this.lockoutMs(lockouts));
+        // Matching the count means only one of several racing failures locks
+        const result = await this.signInAttemptModel.updateOne(
+          { _id: attempt._id, failures: attempt.failures },
+          {
+            $set: {
+              failures: 0,
+              lockedUntil,
+              lockouts,
+              expiresAt: new Date(lockedUntil.getTime() + FORGET_AFTER_MS),
+            },
+          },
+        );
+        if (result.modifiedCount === 1) {
+          states.push(this.toState('locked', scope, lockedUntil));
+          if (scope === 'account') accountLocked = true;
+        }
+        continue;
+      }
+
+      const delay = this.delayMs(scope, attempt.failures);
+      if (delay > 0) {
+        states.push(this.toState('delayed', scope, new Date(now.getTime() + delay)));
+      }
+    }
+
+    return { lockout: this.strongest(states), accountLocked };
+  }
+
+  /**
+   * A successful sign-in clears the account's failures. The address keeps
+   * its count: one right password doesn't vouch for the other guesses.
+   */
+  async recordSuccess(email: string) {
+    await this.signInAttemptModel.deleteOne({ key: `account:${email.toLowerCase()}` });
+  }
+}
@@ -0,0 +1,69 @@
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+
+// RFC 6238 appendix B SHA-1 seed, "12345678901234567890" in base32
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  describe('verifyTotp', () => {
+    // The RFC lists 8-digit codes; 6-digit codes are their last six digits
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('accepts the RFC 6238 code at %i s', (seconds, code) => {
+      expect(verifyTotp(SECRET, code, seconds * 1000)).toBe(
+        Math.floor(seconds / 30),
+      );
+    });
+
+    it('allows one step of clock drift either side', () => {
+      // 081804 belongs to the step from 1111111080 to 1111111109 s
+      expect(verifyTotp(SECRET, '081804', 1111111079 * 1000)).toBe(37037036);
+      expect(verifyTotp(SECRET, '081804', 1111111139 * 1000)).toBe(37037036);
+      expect(verifyTotp(SECRET, '081804', 1111111049 * 1000)).toBeNull();
+      expect(verifyTotp(SECRET, '081804', 1111111140 * 1000)).toBeNull();
+    });
+
+    it('rejects wrong and malformed codes', () => {
+      expect(verifyTotp(SECRET, '287083', 59 * 1000)).toBeNull();
+      expect(verifyTotp(SECRET, '28708', 59 * 1000)).toBeNull();
+      expect(verifyTotp(SECRET, '94287082', 59 * 1000)).toBeNull();
+      expect(verifyTotp(SECRET, 'abcdef', 59 * 1000)).toBeNull();
+    });
+
+    it('reads secrets typed in lower case, with spaces or padding', () => {
+      const typed = 'gezd gnbv gy3t qojq gezd gnbv gy3t qojq====';
+      expect(verifyTotp(typed, '287082', 59 * 1000)).toBe(1);
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('encodes 160 random bits in base32', () => {
+      const secret = generateTotpSecret();
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(generateTotpSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('describes the secret for authenticator apps', () => {
+      const uri = new URL(
+        buildOtpauthUri(SECRET, 'sam@example.com', 'Inexmanager'),
+      );
+      expect(uri.protocol).toBe('otpauth:');
+      expect(uri.host).toBe('totp');
+      expect(decodeURIComponent(uri.pathname)).toBe(
+        '/Inexmanager:sam@example.com',
+      );
+      expect(Object.fromEntries(uri.searchParams)).toEqual({
+        secret: SECRET,
+        issuer: 'Inexmanager',
+        algorithm: 'SHA1',
+        digits: '6',
+        period: '30',
+      });
+    });
+  });
+});
@@ -0,0 +1,364 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { User, UserDocument } from '../schemas/user.schema';
+import { Token, TokenDocument } from '../schemas/token.schema';
+import {
+  AppException,
+  AuthenticationException,
+  ConflictException,
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+
+// Shown as the account's name in authenticator apps
+const TOTP_ISSUER = 'Income & Expense Manager';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// A challenge is the gap between the password and the code: long enough to
+// open the authenticator app, and a handful of guesses at the code
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const CHALLENGE_MAX_ATTEMPTS = 5;
+
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(Token.name) private tokenModel: Model<TokenDocument>,
+  ) {}
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  // Recovery codes are compared without case or the dash they're shown with
+  private hashRecoveryCode(code: string): string {
+    return this.hash(code.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  }
+
+  /**
+   * Fresh recovery codes ("3f9a1-c07be"), plaintext to show once and hashes
+   * to store
+   */
+  private generateRecoveryCodes() {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = randomBytes(8).toString('hex').slice(0, 10);
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    return { codes, hashes: codes.map((code) => this.hashRecoveryCode(code)) };
+  }
+
+  /**
+   * Check a second factor for a user: a code from the authenticator app, or
+   * a recovery code, which is used up. Returns whether it was accepted.
+   */
+  async checkCode(userId: string, code: string): Promise<boolean> {
+    const _id = new Types.ObjectId(userId);
+    const normalized = code.replace(/\s/g, '');
+
+    if (/^\d{6}$/.test(normalized)) {
+      const user = await this.userModel
+        .findById(_id)
+        .select('+twoFactorSecret')
+        .lean();
+      if (!user?.twoFactorSecret) return false;
+      const step = verifyTotp(user.twoFactorSecret, normalized);
+      if (step === null) return false;
+      // Accept each time step once, even with two requests racing
+      const result = await this.userModel.updateOne(
+        { _id, twoFactorLastStep: { $not: { $gte: step } } },
+        { $set: { twoFactorLastStep: step } },
+      );
+      return result.modifiedCount === 1;
+    }
+
+    const hashed = this.hashRecoveryCode(normalized);
+    const result = await this.userModel.updateOne(
+      { _id, recoveryCodes: hashed },
+      { $pull: { recoveryCodes: hashed } },
+    );
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Stand-in for the token pair when the password was right and a code is
+   * still needed. Only its hash is stored.
+   */
+  async createChallenge(userId: string): Promise<string> {
+    const challengeToken = randomBytes(32).toString('hex');
+    await this.tokenModel.create({
+      token: this.hash(challengeToken),
+      type: 'two-factor',
+      userId: new Types.ObjectId(userId),
+      used: false,
+      attempts: 0,
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+    });
+    return challengeToken;
+  }
+
+  private liveChallenge(hashed: string) {
+    return {
+      token: hashed,
+      type: 'two-factor',
+      used: false,
+      expiresAt: { $gt: new Date() },
+      attempts: { $lt: CHALLENGE_MAX_ATTEMPTS },
+    };
+  }
+
+  /**
+   * The user a challenge was issued for, while it can still be answered.
+   * Doesn't use up an attempt.
+   */
+  async findChallengeUser(challengeToken: string): Promise<string> {
+    const challenge = await this.tokenModel
+      .findOne(this.liveChallenge(this.hash(challengeToken)))
+      .select('userId')
+      .lean();
+    if (!challenge) {
+      throw new AuthenticationException(
+        'This sign-in has expired. Please sign in again.',
+      );
+    }
+    return challenge.userId.toString();
+  }
+
+  /**
+   * Answer a challenge with a code. Returns the user it was issued for, or
+   * null when the code is wrong; the challenge works once, and stops working
+   * after a few wrong codes.
+   */
+  async completeChallenge(challengeToken: string, code: string): Promise<string | null> {
+    const hashed = this.hash(challengeToken);
+    // Count the attempt before checking the code, so parallel guesses count too
+    const challenge = await this.tokenModel.findOneAndUpdate(
+      this.liveChallenge(hashed),
+      { $inc: { attempts: 1 } },
+      { new: true },
+    );
+    if (!challenge) {
+      throw new AuthenticationException(
+        'This sign-in has expired. Please sign in again.',
+      );
+    }
+
+    const userId = challenge.userId.toString();
+    if (!(await this.checkCode(userId, code))) {
+      return null;
+    }
+
+    const used = await this.tokenModel.updateOne(
+      { _id: challenge._id, used: false },
+      { $set: { used: true, usedAt: new Date() } },
+    );
+    if (used.modifiedCount !== 1) {
+      throw new AuthenticationException(
+        'This sign-in has expired. Please sign in again.',
+      );
+    }
+    return userId;
+  }
+
+  async getStatus(userId: string) {
+    try {
+      const user = await this.userModel
+        .findById(userId)
+        .select('twoFactorEnabled +recoveryCodes')
+        .lean();
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      return {
+        success: true,
+        message: 'Two-factor status retrieved successfully',
+        data: {
+          enabled: !!user.twoFactorEnabled,
+          recoveryCodesRemaining: user.recoveryCodes?.length ?? 0,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve two-factor status');
+    }
+  }
+
+  /**
+   * Start enrollment: a new secret to add to an authenticator app, by QR
+   * code from the otpauth URI or by typing it in. Nothing changes for
+   * sign-in until a code from it is confirmed.
+   */
+  async setup(userId: string) {
+    try {
+      const user = await this.userModel
+        .findById(userId)
+        .select('email twoFactorEnabled')
+        .lean();
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      if (user.twoFactorEnabled) {
+        throw new ConflictException('Two-factor authentication is already enabled');
+      }
+
+      const secret = generateTotpSecret();
+      await this.userModel.updateOne(
+        { _id: user._id },
+        { $set: { twoFactorPendingSecret: secret } },
+      );
+
+      return {
+        success: true,
+        message: 'Add this key to your authenticator app',
+        data: {
+          secret,
+          otpauthUrl: buildOtpauthUri(secret, user.email, TOTP_ISSUER),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to start two-factor setup');
+    }
+  }
+
+  /**
+   * Finish enrollment with a code from the new secret, proving the app has
+   * it. Returns the recovery codes; they are not shown again.
+   */
+  async enable(userId: string, code: string) {
+    try {
+      const user = await this.userModel
+        .findById(userId)
+        .select('twoFactorEnabled +twoFactorPendingSecret')
+        .lean();
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      if (user.twoFactorEnabled) {
+        throw new ConflictException('Two-factor authentication is already enabled');
+      }
+      if (!user.twoFactorPendingSecret) {
+        throw new ValidationException('Start two-factor setup before enabling it');
+      }
+
+      const step = verifyTotp(user.twoFactorPendingSecret, code);
+      if (step === null) {
+        throw new ValidationException('Invalid verification code');
+      }
+
+      const { codes, hashes } = this.generateRecoveryCodes();
+      await this.userModel.updateOne(
+        { _id: user._id },
+        {
+          $set: {
+            twoFactorEnabled: true,
+            twoFactorSecret: user.twoFactorPendingSecret,
+            twoFactorLastStep: step,
+            recoveryCodes: hashes,
+          },
+          $unset: { twoFactorPendingSecret: '' },
+        },
+      );
+
+      return {
+        success: true,
+        message: 'Two-factor authentication enabled',
+        data: {
+          recoveryCodes: codes,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to enable two-factor authentication');
+    }
+  }
+
+  /**
+   * Turn two-factor off. Takes a current code, so a stolen session alone
+   * can't weaken the account.
+   */
+  async disable(userId: string, code: string) {
+    try {
+      await this.requireCode(userId, code);
+
+      await this.userModel.updateOne(
+        { _id: new Types.ObjectId(userId) },
+        {
+          $set: { twoFactorEnabled: false },
+          $unset: {
+            twoFactorSecret: '',
+            twoFactorPendingSecret: '',
+            twoFactorLastStep: '',
+            recoveryCodes: '',
+          },
+        },
+      );
+
+      return {
+        success: true,
+        message: 'Two-factor authentication disabled',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to disable two-factor authentication');
+    }
+  }
+
+  /**
+   * Replace the recovery codes, for when they run low or may have been seen
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    try {
+      await this.requireCode(userId, code);
+
+      const { codes, hashes } = this.generateRecoveryCodes();
+      await this.userModel.updateOne(
+        { _id: new Types.ObjectId(userId) },
+        { $set: { recoveryCodes: hashes } },
+      );
+
+      return {
+        success: true,
+        message: 'Recovery codes regenerated',
+        data: {
+          recoveryCodes: codes,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to regenerate recovery codes');
+    }
+  }
+
+  // Wrong codes on these signed-in requests are a 400, not a 401, so the
+  // app doesn't take them for an expired session
+  private async requireCode(userId: string, code: string) {
+    const user = await this.userModel
+      .findById(userId)
+      .select('twoFactorEnabled')
+      .lean();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (!user.twoFactorEnabled) {
+      throw new ValidationException('Two-factor authentication is not enabled');
+    }
+    if (!(await this.checkCode(userId, code))) {
+      throw new ValidationException('Invalid verification code');
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  addMonths,
+  startOfLocalDay,
+  toLocalDateString,
+} from '../common/dates/time-zone';
+
+/**
+ * Budget period helpers. Periods are calendar months keyed as `YYYY-MM`,
+ * in the user's time zone like the reports.
+ */
+
+export const PERIOD_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export const toPeriod = (date: Date, timeZone: string): string =>
+  toLocalDateString(date, timeZone).slice(0, 7);
+
+export const addPeriods = (period: string, months: number): string =>
+  addMonths(`${period}-01`, months).slice(0, 7);
+
+/**
+ * Inclusive start and exclusive end of a period
+ */
+export const getPeriodRange = (
+  period: string,
+  timeZone: string,
+): { start: Date; end: Date } => ({
+  start: startOfLocalDay(`${period}-01`, timeZone),
+  end: startOfLocalDay(addMonths(`${period}-01`, 1), timeZone),
+});
+
+export const formatPeriod = (period: string): string => {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
@@ -0,0 +1,119 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { BudgetsService } from './budgets.service';
+import { CreateBudgetDto } from './dto/create-budget.dto';
+import { UpdateBudgetDto } from './dto/update-budget.dto';
+import { BudgetPeriodQueryDto } from './dto/budget-period-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ParseObjectIdPipe } from '../common/pipes/parse-object-id.pipe';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+
+@ApiTags('Budgets')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('budgets')
+export class BudgetsController {
+  constructor(private readonly budgetsService: BudgetsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List budgets with spent vs remaining for a month' })
+  @ApiResponse({
+    status: 200,
+    description: 'Budgets retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async findAll(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: BudgetPeriodQueryDto,
+  ) {
+    return this.budgetsService.findAll(user.userId, query.period);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Set a monthly budget for an expense category' })
+  @ApiResponse({
+    status: 201,
+    description: 'Budget created successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Budget already exists', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() createBudgetDto: CreateBudgetDto,
+  ) {
+    return this.budgetsService.create(user.userId, createBudgetDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a budget with its status for a month' })
+  @ApiResponse({
+    status: 200,
+    description: 'Budget retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Budget not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async findOne(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Query() query: BudgetPeriodQueryDto,
+  ) {
+    return this.budgetsService.findOne(user.userId, id, query.period);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a budget limit or rollover setting' })
+  @ApiResponse({
+    status: 200,
+    description: 'Budget updated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Budget not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async update(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() updateBudgetDto: UpdateBudgetDto,
+  ) {
+    return this.budgetsService.update(user.userId, id, updateBudgetDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a budget' })
+  @ApiResponse({
+    status: 200,
+    description: 'Budget deleted successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Budget not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async remove(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.budgetsService.remove(user.userId, id);
+  }
+}
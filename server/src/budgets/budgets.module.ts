@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { BudgetsController } from './budgets.controller';
+import { BudgetsService } from './budgets.service';
+import { Budget, BudgetSchema } from '../schemas/budget.schema';
+import { Category, CategorySchema } from '../schemas/category.schema';
+import { Transaction, TransactionSchema } from '../schemas/transaction.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { EmailService } from '../common/services/email.service';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Budget.name, schema: BudgetSchema },
+      { name: Category.name, schema: CategorySchema },
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    AuthModule,
+  ],
+  controllers: [BudgetsController],
+  providers: [BudgetsService, EmailService],
+  exports: [BudgetsService],
+})
+export class BudgetsModule {}
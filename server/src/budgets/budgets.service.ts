@@ -0,0 +1,450 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Budget,
+  BudgetAlertThreshold,
+  BudgetDocument,
+} from '../schemas/budget.schema';
+import { Category, CategoryDocument } from '../schemas/category.schema';
+import {
+  Transaction,
+  TransactionDocument,
+} from '../schemas/transaction.schema';
+import { User, UserDocument } from '../schemas/user.schema';
+import { EmailService } from '../common/services/email.service';
+import {
+  AppException,
+  ConflictException,
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { logError } from '../config/winston.config';
+import { AppConfig, EmailConfig } from '../config/app.config';
+import { formatMoney } from '../common/money/money';
+import {
+  addPeriods,
+  formatPeriod,
+  getPeriodRange,
+  toPeriod,
+} from './budget-period';
+import {
+  lineCategoryFilter,
+  splitLineStages,
+} from '../transactions/split-lines';
+import { CreateBudgetDto } from './dto/create-budget.dto';
+import { UpdateBudgetDto } from './dto/update-budget.dto';
+
+export interface BudgetStatus {
+  period: string;
+  limit: number;
+  rolloverAmount: number;
+  available: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+}
+
+const ALERT_THRESHOLDS: BudgetAlertThreshold[] = [80, 100];
+
+@Injectable()
+export class BudgetsService {
+  private appConfig: AppConfig;
+  private emailConfig: EmailConfig;
+
+  constructor(
+    @InjectModel(Budget.name) private budgetModel: Model<BudgetDocument>,
+    @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private emailService: EmailService,
+    private configService: ConfigService,
+  ) {
+    this.appConfig = this.configService.get<AppConfig>('config.app')!;
+    this.emailConfig = this.configService.get<EmailConfig>('config.email')!;
+  }
+
+  private async findOwned(userId: string, id: string) {
+    const budget = await this.budgetModel.findOne({
+      _id: new Types.ObjectId(id),
+      userId: new Types.ObjectId(userId),
+    });
+    if (!budget) {
+      throw new NotFoundException('Budget not found');
+    }
+    return budget;
+  }
+
+  /**
+   * Months are cut in the user's time zone, as in reports
+   */
+  private async getTimezone(userId: string | Types.ObjectId) {
+    const user = await this.userModel.findById(userId).select('timezone').lean();
+    return user?.timezone || 'UTC';
+  }
+
+  /**
+   * A budget on a parent category also covers its subcategories
+   */
+  private async getCategoryScope(categoryId: Types.ObjectId) {
+    const children = await this.categoryModel
+      .find({ parent: categoryId })
+      .select('_id')
+      .lean();
+    return [categoryId, ...children.map((child) => child._id)];
+  }
+
+  /**
+   * Compute spent vs remaining for a period. With rollover enabled, the
+   * difference between limit and spending of every earlier month since the
+   * budget started is carried forward (negative when overspent). Budgets are
+   * in the user's base currency, so spending is summed from baseAmount. Split
+   * expenses count by line.
+   */
+  async computeStatus(
+    budget: Pick<Budget, 'userId' | 'category' | 'amount' | 'rollover' | 'startPeriod'>,
+    period: string,
+    timezone: string,
+  ): Promise<BudgetStatus> {
+    const accruesRollover = budget.rollover && budget.startPeriod < period;
+    const from = accruesRollover ? budget.startPeriod : period;
+
+    const scope = await this.getCategoryScope(budget.category);
+    const rows = await this.transactionModel.aggregate<{
+      _id: string;
+      spent: number;
+    }>([
+      {
+        $match: {
+          userId: budget.userId,
+          type: 'expense',
+          ...lineCategoryFilter(scope),
+          date: {
+            $gte: getPeriodRange(from, timezone).start,
+            $lt: getPeriodRange(period, timezone).end,
+          },
+        },
+      },
+      // Only the lines of a split expense in this budget's categories count
+      ...splitLineStages(),
+      { $match: { category: { $in: scope } } },
+      {
+        $group: {
+          _id: { $dateToString: { format: '%Y-%m', date: '$date', timezone } },
+          spent: { $sum: '$baseAmount' },
+        },
+      },
+    ]);
+    const spentByPeriod = new Map(rows.map((row) => [row._id, row.spent]));
+
+    let rolloverAmount = 0;
+    if (accruesRollover) {
+      for (let p = from; p < period; p = addPeriods(p, 1)) {
+        rolloverAmount += budget.amount - (spentByPeriod.get(p) || 0);
+      }
+    }
+
+    const spent = spentByPeriod.get(period) || 0;
+    const available = budget.amount + rolloverAmount;
+    let percentUsed = spent > 0 ? 100 : 0;
+    if (available > 0) {
+      percentUsed = Math.round((spent / available) * 1000) / 10;
+    }
+
+    return {
+      period,
+      limit: budget.amount,
+      rolloverAmount,
+      available,
+      spent,
+      remaining: available - spent,
+      percentUsed,
+    };
+  }
+
+  async findAll(userId: string, period?: string) {
+    try {
+      const timezone = await this.getTimezone(userId);
+      const targetPeriod = period || toPeriod(new Date(), timezone);
+
+      const budgets = await this.budgetModel
+        .find({ userId: new Types.ObjectId(userId) })
+        .select('-alerts')
+        .lean();
+
+      const statuses = await Promise.all(
+        budgets.map((budget) =>
+          this.computeStatus(budget, targetPeriod, timezone),
+        ),
+      );
+      const populated = await this.budgetModel.populate(budgets, {
+        path: 'category',
+        select: 'name icon color parent isArchived',
+      });
+      const results = populated.map((budget, index) => ({
+        ...budget,
+        status: statuses[index],
+      }));
+
+      return {
+        success: true,
+        message: 'Budgets retrieved successfully',
+        data: {
+          period: targetPeriod,
+          budgets: results,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve budgets');
+    }
+  }
+
+  async findOne(userId: string, id: string, period?: string) {
+    try {
+      const budget = await this.findOwned(userId, id);
+      const timezone = await this.getTimezone(userId);
+      const status = await this.computeStatus(
+        budget,
+        period || toPeriod(new Date(), timezone),
+        timezone,
+      );
+
+      return {
+        success: true,
+        message: 'Budget retrieved successfully',
+        data: {
+          budget: { ...budget.toObject(), status },
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve budget');
+    }
+  }
+
+  async create(userId: string, createBudgetDto: CreateBudgetDto) {
+    try {
+      const { category, amount, rollover, startPeriod } = createBudgetDto;
+      const ownerId = new Types.ObjectId(userId);
+      const categoryId = new Types.ObjectId(category);
+
+      const existingCategory = await this.categoryModel
+        .findOne({ _id: categoryId, userId: ownerId })
+        .select('type isArchived')
+        .lean();
+      if (!existingCategory) {
+        throw new ValidationException('Category not found');
+      }
+      if (existingCategory.type !== 'expense') {
+        throw new ValidationException('Budgets can only be set on expense categories');
+      }
+      if (existingCategory.isArchived) {
+        throw new ValidationException('Category is archived');
+      }
+
+      const existingBudget = await this.budgetModel.exists({
+        userId: ownerId,
+        category: categoryId,
+      });
+      if (existingBudget) {
+        throw new ConflictException('A budget already exists for this category');
+      }
+
+      const timezone = await this.getTimezone(userId);
+      const currentPeriod = toPeriod(new Date(), timezone);
+      const budget = await this.budgetModel.create({
+        userId: ownerId,
+        category: categoryId,
+        amount,
+        rollover,
+        startPeriod: startPeriod || currentPeriod,
+      });
+      const status = await this.computeStatus(budget, currentPeriod, timezone);
+
+      return {
+        success: true,
+        message: 'Budget created successfully',
+        data: {
+          budget: { ...budget.toObject(), status },
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to create budget');
+    }
+  }
+
+  async update(userId: string, id: string, updateBudgetDto: UpdateBudgetDto) {
+    try {
+      const budget = await this.findOwned(userId, id);
+
+      budget.set(updateBudgetDto);
+      await budget.save();
+      const timezone = await this.getTimezone(userId);
+      const status = await this.computeStatus(
+        budget,
+        toPeriod(new Date(), timezone),
+        timezone,
+      );
+
+      return {
+        success: true,
+        message: 'Budget updated successfully',
+        data: {
+          budget: { ...budget.toObject(), status },
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to update budget');
+    }
+  }
+
+  async remove(userId: string, id: string) {
+    try {
+      const budget = await this.findOwned(userId, id);
+      await this.budgetModel.deleteOne({ _id: budget._id });
+
+      return {
+        success: true,
+        message: 'Budget deleted successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to delete budget');
+    }
+  }
+
+  /**
+   * Called after an expense is recorded. Emails the user the first time a
+   * budget covering the expense's category crosses 80% or 100% in the current
+   * month. Never throws: alerting must not fail the transaction itself.
+   */
+  async checkAlerts(
+    userId: string,
+    categoryId: Types.ObjectId,
+    date: Date,
+  ): Promise<void> {
+    try {
+      const timezone = await this.getTimezone(userId);
+      const period = toPeriod(date, timezone);
+      if (period !== toPeriod(new Date(), timezone)) {
+        return;
+      }
+
+      const category = await this.categoryModel
+        .findById(categoryId)
+        .select('parent')
+        .lean();
+      if (!category) {
+        return;
+      }
+
+      const budgets = await this.budgetModel.find({
+        userId: new Types.ObjectId(userId),
+        category: { $in: [categoryId, category.parent].filter(Boolean) },
+        startPeriod: { $lte: period },
+      });
+
+      for (const budget of budgets) {
+        const status = await this.computeStatus(budget, period, timezone);
+        const crossed = ALERT_THRESHOLDS.filter(
+          (threshold) => status.percentUsed >= threshold,
+        );
+        if (crossed.length === 0) continue;
+
+        const threshold = crossed[crossed.length - 1];
+        const sentAt = new Date();
+
+        // Record the alert first; the guard makes concurrent requests race-safe
+        const result = await this.budgetModel.updateOne(
+          {
+            _id: budget._id,
+            alerts: { $not: { $elemMatch: { period, threshold } } },
+          },
+          {
+            $push: {
+              alerts: {
+                $each: crossed
+                  .filter(
+                    (t) =>
+                      !budget.alerts.some(
+                        (alert) => alert.period === period && alert.threshold === t,
+                      ),
+                  )
+                  .map((t) => ({ period, threshold: t, sentAt })),
+              },
+            },
+          },
+        );
+        if (result.modifiedCount === 0) continue;
+
+        await this.sendAlertEmail(userId, budget, threshold, status);
+      }
+    } catch (error: unknown) {
+      logError('Error checking budget alerts', error);
+    }
+  }
+
+  private async sendAlertEmail(
+    userId: string,
+    budget: BudgetDocument,
+    threshold: BudgetAlertThreshold,
+    status: BudgetStatus,
+  ) {
+    const [user, category] = await Promise.all([
+      this.userModel.findById(userId).select('name email currency').lean(),
+      this.categoryModel.findById(budget.category).select('name').lean(),
+    ]);
+    if (!user || !category) {
+      return;
+    }
+
+    const formatAmount = (amount: number) => formatMoney(amount, user.currency);
+
+    const alertMessage =
+      threshold === 100
+        ? `You have gone over your ${category.name} budget by ${formatAmount(-status.remaining)} this month.`
+        : `You are close to your ${category.name} budget limit with ${formatAmount(status.remaining)} left this month.`;
+
+    const clientUrl = this.appConfig.clientUrl;
+    await this.emailService.sendTemplatedEmail('budget-alert', user.email, [
+      { key: 'name', value: user.name },
+      { key: 'categoryName', value: category.name },
+      { key: 'period', value: formatPeriod(status.period) },
+      { key: 'percentUsed', value: `${Math.floor(status.percentUsed)}%` },
+      { key: 'budgetAmount', value: formatAmount(status.available) },
+      { key: 'spentAmount', value: formatAmount(status.spent) },
+      { key: 'remainingAmount', value: formatAmount(status.remaining) },
+      { key: 'alertMessage', value: alertMessage },
+      { key: 'budgetsLink', value: `${clientUrl}/budgets` },
+      {
+        key: 'supportEmail',
+        value: this.emailConfig.supportEmail,
+      },
+      { key: 'facebookLink', value: this.emailConfig.facebookLink },
+      { key: 'twitterLink', value: this.emailConfig.twitterLink },
+      { key: 'instagramLink', value: this.emailConfig.instagramLink },
+      {
+        key: 'companyAddress',
+        value: this.emailConfig.companyAddress,
+      },
+      { key: 'privacyPolicyLink', value: `${clientUrl}/privacy-policy` },
+      { key: 'termsLink', value: `${clientUrl}/terms-of-service` },
+      { key: 'unsubscribeLink', value: `${clientUrl}/unsubscribe` },
+    ]);
+  }
+}
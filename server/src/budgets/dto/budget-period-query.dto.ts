@@ -0,0 +1,9 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { periodSchema } from './create-budget.dto';
+
+export const budgetPeriodQuerySchema = z.object({
+  period: periodSchema.optional(),
+});
+
+export class BudgetPeriodQueryDto extends createZodDto(budgetPeriodQuerySchema) {}
@@ -0,0 +1,18 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+import { PERIOD_REGEX } from '../budget-period';
+import { positiveMinorUnitsSchema } from '../../common/validation/money.schema';
+
+export const periodSchema = z
+  .string()
+  .regex(PERIOD_REGEX, 'Period must be in YYYY-MM format');
+
+export const createBudgetSchema = z.object({
+  category: objectIdSchema,
+  amount: positiveMinorUnitsSchema(),
+  rollover: z.boolean().default(false),
+  startPeriod: periodSchema.optional(),
+});
+
+export class CreateBudgetDto extends createZodDto(createBudgetSchema) {}
@@ -0,0 +1,17 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { periodSchema } from './create-budget.dto';
+import { positiveMinorUnitsSchema } from '../../common/validation/money.schema';
+
+export const updateBudgetSchema = z
+  .object({
+    amount: positiveMinorUnitsSchema(),
+    rollover: z.boolean(),
+    startPeriod: periodSchema,
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export class UpdateBudgetDto extends createZodDto(updateBudgetSchema) {}
@@ -0,0 +1,155 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { CategoriesService } from './categories.service';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+import { ListCategoriesDto } from './dto/list-categories.dto';
+import { MergeCategoryDto } from './dto/merge-category.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ParseObjectIdPipe } from '../common/pipes/parse-object-id.pipe';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+
+@ApiTags('Categories')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('categories')
+export class CategoriesController {
+  constructor(private readonly categoriesService: CategoriesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the income and expense category trees' })
+  @ApiResponse({
+    status: 200,
+    description: 'Categories retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async findAll(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: ListCategoriesDto,
+  ) {
+    return this.categoriesService.findAll(user.userId, query);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a category or subcategory' })
+  @ApiResponse({
+    status: 201,
+    description: 'Category created successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Category already exists', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() createCategoryDto: CreateCategoryDto,
+  ) {
+    return this.categoriesService.create(user.userId, createCategoryDto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename, restyle or move a category' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category updated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Category not found', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Category already exists', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async update(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() updateCategoryDto: UpdateCategoryDto,
+  ) {
+    return this.categoriesService.update(user.userId, id, updateCategoryDto);
+  }
+
+  @Post(':id/archive')
+  @ApiOperation({ summary: 'Archive a category and its subcategories' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category archived successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Category not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async archive(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.categoriesService.archive(user.userId, id);
+  }
+
+  @Post(':id/unarchive')
+  @ApiOperation({ summary: 'Restore an archived category' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category restored successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Parent category is archived', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Category not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async unarchive(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.categoriesService.unarchive(user.userId, id);
+  }
+
+  @Post(':id/merge')
+  @ApiOperation({ summary: 'Merge a category into another, re-pointing its transactions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Categories merged successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Category not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async merge(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() mergeCategoryDto: MergeCategoryDto,
+  ) {
+    return this.categoriesService.merge(user.userId, id, mergeCategoryDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete an unused category' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category deleted successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Category not found', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Category is still in use', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async remove(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.categoriesService.remove(user.userId, id);
+  }
+}
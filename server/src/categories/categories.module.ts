@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CategoriesController } from './categories.controller';
+import { CategoriesService } from './categories.service';
+import { Category, CategorySchema } from '../schemas/category.schema';
+import { Transaction, TransactionSchema } from '../schemas/transaction.schema';
+import { Budget, BudgetSchema } from '../schemas/budget.schema';
+import {
+  RecurringRule,
+  RecurringRuleSchema,
+} from '../schemas/recurring-rule.schema';
+import {
+  CategorizationRule,
+  CategorizationRuleSchema,
+} from '../schemas/categorization-rule.schema';
+import {
+  SuggestionFeedback,
+  SuggestionFeedbackSchema,
+} from '../schemas/suggestion-feedback.schema';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Category.name, schema: CategorySchema },
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: Budget.name, schema: BudgetSchema },
+      { name: RecurringRule.name, schema: RecurringRuleSchema },
+      { name: CategorizationRule.name, schema: CategorizationRuleSchema },
+      { name: SuggestionFeedback.name, schema: SuggestionFeedbackSchema },
+    ]),
+    AuthModule,
+  ],
+  controllers: [CategoriesController],
+  providers: [CategoriesService],
+  exports: [CategoriesService],
+})
+export class CategoriesModule {}
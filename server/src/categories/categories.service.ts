@@ -0,0 +1,582 @@
+import { Injectable } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import {
+  ClientSession,
+  Connection,
+  FilterQuery,
+  Model,
+  Types,
+} from 'mongoose';
+import { Category, CategoryDocument } from '../schemas/category.schema';
+import {
+  Transaction,
+  TransactionDocument,
+} from '../schemas/transaction.schema';
+import { Budget, BudgetDocument } from '../schemas/budget.schema';
+import {
+  RecurringRule,
+  RecurringRuleDocument,
+} from '../schemas/recurring-rule.schema';
+import {
+  CategorizationRule,
+  CategorizationRuleDocument,
+} from '../schemas/categorization-rule.schema';
+import {
+  SuggestionFeedback,
+  SuggestionFeedbackDocument,
+} from '../schemas/suggestion-feedback.schema';
+import {
+  AppException,
+  ConflictException,
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { lineCategoryFilter } from '../transactions/split-lines';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+import { ListCategoriesDto } from './dto/list-categories.dto';
+import { MergeCategoryDto } from './dto/merge-category.dto';
+
+const NAME_COLLATION = { locale: 'en', strength: 2 };
+
+@Injectable()
+export class CategoriesService {
+  constructor(
+    @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(Budget.name) private budgetModel: Model<BudgetDocument>,
+    @InjectModel(RecurringRule.name)
+    private recurringRuleModel: Model<RecurringRuleDocument>,
+    @InjectModel(CategorizationRule.name)
+    private ruleModel: Model<CategorizationRuleDocument>,
+    @InjectModel(SuggestionFeedback.name)
+    private feedbackModel: Model<SuggestionFeedbackDocument>,
+    @InjectConnection() private connection: Connection,
+  ) {}
+
+  private async findOwned(userId: string, id: string) {
+    const category = await this.categoryModel.findOne({
+      _id: new Types.ObjectId(id),
+      userId: new Types.ObjectId(userId),
+    });
+    if (!category) {
+      throw new NotFoundException('Category not found');
+    }
+    return category;
+  }
+
+  /**
+   * Validate a prospective parent: it must belong to the user, share the
+   * category type, be active and be top-level (trees are two levels deep)
+   */
+  private async validateParent(
+    userId: string,
+    parentId: string,
+    type: string,
+  ) {
+    const parent = await this.categoryModel.findOne({
+      _id: new Types.ObjectId(parentId),
+      userId: new Types.ObjectId(userId),
+    });
+    if (!parent) {
+      throw new ValidationException('Parent category not found');
+    }
+    if (parent.type !== type) {
+      throw new ValidationException(
+        'Parent category must be of the same type',
+      );
+    }
+    if (parent.parent) {
+      throw new ValidationException(
+        'Subcategories cannot have their own subcategories',
+      );
+    }
+    if (parent.isArchived) {
+      throw new ValidationException('Parent category is archived');
+    }
+    return parent;
+  }
+
+  private async assertUniqueName(
+    userId: string,
+    type: string,
+    parent: Types.ObjectId | null,
+    name: string,
+    excludeId?: Types.ObjectId,
+  ) {
+    const filter: FilterQuery<CategoryDocument> = {
+      userId: new Types.ObjectId(userId),
+      type,
+      parent,
+      name,
+    };
+    if (excludeId) filter._id = { $ne: excludeId };
+
+    const existing = await this.categoryModel
+      .findOne(filter)
+      .collation(NAME_COLLATION)
+      .select('_id')
+      .lean();
+    if (existing) {
+      throw new ConflictException(
+        'A category with this name already exists at this level',
+      );
+    }
+  }
+
+  /**
+   * Nest a flat category list into top-level categories with `children`
+   */
+  private buildTree(categories: Array<Category & { _id: Types.ObjectId }>) {
+    const byParent = new Map<string, typeof categories>();
+    for (const category of categories) {
+      if (!category.parent) continue;
+      const key = category.parent.toString();
+      byParent.set(key, [...(byParent.get(key) || []), category]);
+    }
+
+    return categories
+      .filter((category) => !category.parent)
+      .map((category) => ({
+        ...category,
+        children: byParent.get(category._id.toString()) || [],
+      }));
+  }
+
+  async findAll(userId: string, query: ListCategoriesDto) {
+    try {
+      const { type, includeArchived } = query;
+
+      const filter: FilterQuery<CategoryDocument> = {
+        userId: new Types.ObjectId(userId),
+      };
+      if (type) filter.type = type;
+      if (!includeArchived) filter.isArchived = false;
+
+      const categories = await this.categoryModel
+        .find(filter)
+        .collation(NAME_COLLATION)
+        .sort({ type: 1, name: 1 })
+        .lean();
+
+      return {
+        success: true,
+        message: 'Categories retrieved successfully',
+        data: {
+          categories: this.buildTree(categories),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve categories');
+    }
+  }
+
+  async create(userId: string, createCategoryDto: CreateCategoryDto) {
+    try {
+      const { name, type, parent, icon, color } = createCategoryDto;
+
+      const parentId = parent
+        ? (await this.validateParent(userId, parent, type))._id
+        : null;
+      await this.assertUniqueName(userId, type, parentId, name);
+
+      const category = await this.categoryModel.create({
+        userId: new Types.ObjectId(userId),
+        name,
+        type,
+        parent: parentId,
+        ...(icon && { icon }),
+        ...(color && { color }),
+      });
+
+      return {
+        success: true,
+        message: 'Category created successfully',
+        data: {
+          category: category.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to create category');
+    }
+  }
+
+  async update(userId: string, id: string, updateCategoryDto: UpdateCategoryDto) {
+    try {
+      const { name, parent, icon, color } = updateCategoryDto;
+      const category = await this.findOwned(userId, id);
+
+      if (parent !== undefined) {
+        if (parent === null) {
+          category.parent = null;
+        } else {
+          if (parent === id) {
+            throw new ValidationException(
+              'A category cannot be its own parent',
+            );
+          }
+          const hasChildren = await this.categoryModel.exists({
+            parent: category._id,
+          });
+          if (hasChildren) {
+            throw new ValidationException(
+              'A category with subcategories cannot become a subcategory',
+            );
+          }
+          category.parent = (
+            await this.validateParent(userId, parent, category.type)
+          )._id as Types.ObjectId;
+        }
+      }
+      if (name !== undefined) category.name = name;
+      if (icon !== undefined) category.icon = icon;
+      if (color !== undefined) category.color = color;
+
+      if (name !== undefined || parent !== undefined) {
+        await this.assertUniqueName(
+          userId,
+          category.type,
+          category.parent || null,
+          category.name,
+          category._id as Types.ObjectId,
+        );
+      }
+
+      await category.save();
+
+      return {
+        success: true,
+        message: 'Category updated successfully',
+        data: {
+          category: category.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to update category');
+    }
+  }
+
+  async archive(userId: string, id: string) {
+    try {
+      const category = await this.findOwned(userId, id);
+
+      // Archiving a parent archives its whole subtree
+      await this.categoryModel.updateMany(
+        {
+          userId: new Types.ObjectId(userId),
+          $or: [{ _id: category._id }, { parent: category._id }],
+        },
+        { $set: { isArchived: true, archivedAt: new Date() } },
+      );
+
+      return {
+        success: true,
+        message: 'Category archived successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to archive category');
+    }
+  }
+
+  async unarchive(userId: string, id: string) {
+    try {
+      const category = await this.findOwned(userId, id);
+
+      if (category.parent) {
+        const parent = await this.categoryModel
+          .findById(category.parent)
+          .select('isArchived')
+          .lean();
+        if (parent?.isArchived) {
+          throw new ValidationException(
+            'Restore the parent category before its subcategories',
+          );
+        }
+      }
+
+      await this.categoryModel.updateOne(
+        { _id: category._id },
+        { $set: { isArchived: false }, $unset: { archivedAt: 1 } },
+      );
+
+      return {
+        success: true,
+        message: 'Category restored successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to restore category');
+    }
+  }
+
+  async remove(userId: string, id: string) {
+    try {
+      const category = await this.findOwned(userId, id);
+
+      const hasChildren = await this.categoryModel.exists({
+        parent: category._id,
+      });
+      if (hasChildren) {
+        throw new ConflictException(
+          'Category has subcategories. Delete or move them first, or archive the category instead.',
+        );
+      }
+
+      const usage = await this.transactionModel.countDocuments({
+        userId: new Types.ObjectId(userId),
+        ...lineCategoryFilter([category._id as Types.ObjectId]),
+      });
+      if (usage > 0) {
+        throw new ConflictException(
+          `Category is used by ${usage} transaction(s). Archive it or merge it into another category instead.`,
+        );
+      }
+
+      await this.categoryModel.deleteOne({ _id: category._id });
+
+      return {
+        success: true,
+        message: 'Category deleted successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to delete category');
+    }
+  }
+
+  /**
+   * Re-point transactions and split lines from one category to another.
+   * Returns the number of transactions changed.
+   */
+  private async moveTransactions(
+    userId: Types.ObjectId,
+    from: Types.ObjectId,
+    to: Types.ObjectId,
+    session: ClientSession,
+  ) {
+    const direct = await this.transactionModel.updateMany(
+      { userId, category: from },
+      { $set: { category: to } },
+      { session },
+    );
+    const split = await this.transactionModel.updateMany(
+      { userId, 'splits.category': from },
+      { $set: { 'splits.$[line].category': to } },
+      { arrayFilters: [{ 'line.category': from }], session },
+    );
+    return direct.modifiedCount + split.modifiedCount;
+  }
+
+  /**
+   * Move a category's budget to another category. A category has at most
+   * one budget, so when the target already has one it takes on the combined
+   * limit (and the earlier start) and the source's budget is deleted.
+   */
+  private async moveBudget(
+    userId: Types.ObjectId,
+    from: Types.ObjectId,
+    to: Types.ObjectId,
+    session: ClientSession,
+  ) {
+    const budget = await this.budgetModel
+      .findOne({ userId, category: from })
+      .session(session);
+    if (!budget) {
+      return 0;
+    }
+
+    const existing = await this.budgetModel
+      .findOne({ userId, category: to })
+      .session(session);
+    if (existing) {
+      existing.amount += budget.amount;
+      if (budget.startPeriod < existing.startPeriod) {
+        existing.startPeriod = budget.startPeriod;
+      }
+      await existing.save({ session });
+      await budget.deleteOne({ session });
+    } else {
+      budget.category = to;
+      await budget.save({ session });
+    }
+    return 1;
+  }
+
+  /**
+   * Re-point everything that refers to a category about to be deleted. The
+   * writes run one after another: a transaction's session takes one
+   * operation at a time.
+   */
+  private async moveReferences(
+    userId: Types.ObjectId,
+    from: Types.ObjectId,
+    to: Types.ObjectId,
+    session: ClientSession,
+  ) {
+    const transactions = await this.moveTransactions(userId, from, to, session);
+    const budgets = await this.moveBudget(userId, from, to, session);
+    const recurringRules = await this.recurringRuleModel.updateMany(
+      { userId, category: from },
+      { $set: { category: to } },
+      { session },
+    );
+    const categorizationRules = await this.ruleModel.updateMany(
+      { userId, category: from },
+      { $set: { category: to } },
+      { session },
+    );
+    // Keeps what the user taught the suggestions
+    await this.feedbackModel.updateMany(
+      { userId, category: from },
+      { $set: { category: to } },
+      { session },
+    );
+    return {
+      transactions,
+      budgets,
+      recurringRules: recurringRules.modifiedCount,
+      categorizationRules: categorizationRules.modifiedCount,
+    };
+  }
+
+  /**
+   * Merge the source category into the target: every transaction, budget,
+   * recurring rule and categorization rule is re-pointed to the target,
+   * subcategories are moved under it (or folded into a same-named
+   * subcategory) and the source is deleted, all in one transaction so a
+   * failure leaves both categories as they were
+   */
+  async merge(userId: string, id: string, mergeCategoryDto: MergeCategoryDto) {
+    try {
+      const { targetId } = mergeCategoryDto;
+      if (targetId === id) {
+        throw new ValidationException('Cannot merge a category into itself');
+      }
+
+      const source = await this.findOwned(userId, id);
+      const target = await this.findOwned(userId, targetId);
+
+      if (source.type !== target.type) {
+        throw new ValidationException(
+          'Only categories of the same type can be merged',
+        );
+      }
+      if (target.parent && target.parent.equals(source._id as Types.ObjectId)) {
+        throw new ValidationException(
+          'Cannot merge a category into one of its own subcategories',
+        );
+      }
+
+      const children = await this.categoryModel.find({ parent: source._id });
+      if (children.length > 0 && target.parent) {
+        throw new ValidationException(
+          'A category with subcategories can only be merged into a top-level category',
+        );
+      }
+
+      const ownerId = new Types.ObjectId(userId);
+      const moved = {
+        transactions: 0,
+        budgets: 0,
+        recurringRules: 0,
+        categorizationRules: 0,
+      };
+      const addMoved = (counts: typeof moved) => {
+        for (const key of Object.keys(moved) as (keyof typeof moved)[]) {
+          moved[key] += counts[key];
+        }
+      };
+
+      const session = await this.connection.startSession();
+      try {
+        await session.withTransaction(async () => {
+          // The callback is retried on transient errors; count afresh
+          for (const key of Object.keys(moved) as (keyof typeof moved)[]) {
+            moved[key] = 0;
+          }
+
+          for (const child of children) {
+            const existing = await this.categoryModel
+              .findOne({
+                userId: ownerId,
+                parent: target._id,
+                name: child.name,
+              })
+              .collation(NAME_COLLATION)
+              .select('_id')
+              .session(session)
+              .lean();
+
+            if (existing) {
+              addMoved(
+                await this.moveReferences(
+                  ownerId,
+                  child._id,
+                  existing._id,
+                  session,
+                ),
+              );
+              await this.categoryModel.deleteOne(
+                { _id: child._id },
+                { session },
+              );
+            } else {
+              await this.categoryModel.updateOne(
+                { _id: child._id },
+                { $set: { parent: target._id } },
+                { session },
+              );
+            }
+          }
+
+          addMoved(
+            await this.moveReferences(
+              ownerId,
+              source._id as Types.ObjectId,
+              target._id as Types.ObjectId,
+              session,
+            ),
+          );
+
+          await this.categoryModel.deleteOne({ _id: source._id }, { session });
+        });
+      } finally {
+        await session.endSession();
+      }
+
+      return {
+        success: true,
+        message: 'Categories merged successfully',
+        data: {
+          category: target.toObject(),
+          movedTransactions: moved.transactions,
+          movedBudgets: moved.budgets,
+          movedRecurringRules: moved.recurringRules,
+          movedCategorizationRules: moved.categorizationRules,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to merge categories');
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Category,
+  CategoryDocument,
+  CategoryType,
+} from '../schemas/category.schema';
+import { DEFAULT_CATEGORIES } from './default-categories';
+
+@Injectable()
+export class CategorySeedService {
+  constructor(
+    @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+  ) {}
+
+  /**
+   * Create the default income and expense category trees for a new user
+   */
+  async seedDefaults(userId: Types.ObjectId | string): Promise<void> {
+    const ownerId = new Types.ObjectId(userId.toString());
+
+    for (const type of Object.keys(DEFAULT_CATEGORIES) as CategoryType[]) {
+      const parents = DEFAULT_CATEGORIES[type];
+
+      const createdParents = await this.categoryModel.insertMany(
+        parents.map(({ name, icon, color }) => ({
+          userId: ownerId,
+          type,
+          name,
+          icon,
+          color,
+          parent: null,
+        })),
+      );
+
+      const children = parents.flatMap((parent, index) =>
+        (parent.children || []).map(({ name, icon, color }) => ({
+          userId: ownerId,
+          type,
+          name,
+          icon,
+          color,
+          parent: createdParents[index]._id,
+        })),
+      );
+
+      if (children.length > 0) {
+        await this.categoryModel.insertMany(children);
+      }
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { CategoryType } from '../schemas/category.schema';
+
+export interface DefaultCategory {
+  name: string;
+  icon: string;
+  color: string;
+  children?: Array<Omit<DefaultCategory, 'children'>>;
+}
+
+/**
+ * Category set seeded for every new user on signup.
+ * Icons are SF Symbol names, matching the app's IconSymbol component.
+ */
+export const DEFAULT_CATEGORIES: Record<CategoryType, DefaultCategory[]> = {
+  expense: [
+    {
+      name: 'Food',
+      icon: 'fork.knife',
+      color: '#F97316',
+      children: [
+        { name: 'Groceries', icon: 'cart.fill', color: '#F97316' },
+        { name: 'Restaurants', icon: 'fork.knife', color: '#FB923C' },
+        { name: 'Coffee', icon: 'cup.and.saucer.fill', color: '#FDBA74' },
+      ],
+    },
+    {
+      name: 'Housing',
+      icon: 'house.fill',
+      color: '#2563EB',
+      children: [
+        { name: 'Rent', icon: 'key.fill', color: '#2563EB' },
+        { name: 'Utilities', icon: 'bolt.fill', color: '#3B82F6' },
+        { name: 'Maintenance', icon: 'wrench.fill', color: '#60A5FA' },
+      ],
+    },
+    {
+      name: 'Transport',
+      icon: 'car.fill',
+      color: '#0EA5E9',
+      children: [
+        { name: 'Fuel', icon: 'fuelpump.fill', color: '#0EA5E9' },
+        { name: 'Public Transport', icon: 'bus.fill', color: '#38BDF8' },
+        { name: 'Taxi', icon: 'car.fill', color: '#7DD3FC' },
+      ],
+    },
+    {
+      name: 'Bills',
+      icon: 'doc.text.fill',
+      color: '#8B5CF6',
+      children: [
+        { name: 'Phone', icon: 'phone.fill', color: '#8B5CF6' },
+        { name: 'Internet', icon: 'wifi', color: '#A78BFA' },
+        { name: 'Insurance', icon: 'shield.fill', color: '#C4B5FD' },
+      ],
+    },
+    {
+      name: 'Shopping',
+      icon: 'bag.fill',
+      color: '#EC4899',
+      children: [
+        { name: 'Clothing', icon: 'tshirt.fill', color: '#EC4899' },
+        { name: 'Electronics', icon: 'desktopcomputer', color: '#F472B6' },
+        { name: 'Household', icon: 'sofa.fill', color: '#F9A8D4' },
+      ],
+    },
+    {
+      name: 'Health',
+      icon: 'heart.fill',
+      color: '#EF4444',
+      children: [
+        { name: 'Medical', icon: 'cross.case.fill', color: '#EF4444' },
+        { name: 'Pharmacy', icon: 'pills.fill', color: '#F87171' },
+        { name: 'Fitness', icon: 'figure.run', color: '#FCA5A5' },
+      ],
+    },
+    {
+      name: 'Entertainment',
+      icon: 'film.fill',
+      color: '#A855F7',
+      children: [
+        { name: 'Movies', icon: 'film.fill', color: '#A855F7' },
+        { name: 'Subscriptions', icon: 'play.rectangle.fill', color: '#C084FC' },
+        { name: 'Games', icon: 'gamecontroller.fill', color: '#D8B4FE' },
+      ],
+    },
+    { name: 'Education', icon: 'book.fill', color: '#14B8A6' },
+    { name: 'Travel', icon: 'airplane', color: '#06B6D4' },
+    { name: 'Personal Care', icon: 'sparkles', color: '#D946EF' },
+    { name: 'Gifts & Donations', icon: 'gift.fill', color: '#F43F5E' },
+    { name: 'Other', icon: 'ellipsis.circle.fill', color: '#6B7280' },
+  ],
+  income: [
+    { name: 'Salary', icon: 'briefcase.fill', color: '#16A34A' },
+    { name: 'Business', icon: 'building.2.fill', color: '#22C55E' },
+    {
+      name: 'Investments',
+      icon: 'chart.line.uptrend.xyaxis',
+      color: '#15803D',
+      children: [
+        { name: 'Interest', icon: 'percent', color: '#15803D' },
+        { name: 'Dividends', icon: 'chart.pie.fill', color: '#4ADE80' },
+      ],
+    },
+    { name: 'Gifts', icon: 'gift.fill', color: '#84CC16' },
+    { name: 'Refunds', icon: 'arrow.uturn.backward', color: '#65A30D' },
+    { name: 'Other', icon: 'ellipsis.circle.fill', color: '#6B7280' },
+  ],
+};
@@ -0,0 +1,24 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+
+export const categoryColorSchema = z
+  .string()
+  .trim()
+  .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #1A2B3C');
+
+export const createCategorySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(50, 'Name must be at most 50 characters'),
+  type: z.enum(['income', 'expense'], {
+    errorMap: () => ({ message: 'Type must be either income or expense' }),
+  }),
+  parent: objectIdSchema.nullable().optional(),
+  icon: z.string().trim().min(1).max(50).optional(),
+  color: categoryColorSchema.optional(),
+});
+
+export class CreateCategoryDto extends createZodDto(createCategorySchema) {}
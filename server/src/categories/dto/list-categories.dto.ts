@@ -0,0 +1,12 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+
+export const listCategoriesSchema = z.object({
+  type: z.enum(['income', 'expense']).optional(),
+  includeArchived: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+});
+
+export class ListCategoriesDto extends createZodDto(listCategoriesSchema) {}
@@ -0,0 +1,9 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+
+export const mergeCategorySchema = z.object({
+  targetId: objectIdSchema,
+});
+
+export class MergeCategoryDto extends createZodDto(mergeCategorySchema) {}
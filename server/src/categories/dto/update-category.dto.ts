@@ -0,0 +1,11 @@
+import { createZodDto } from 'nestjs-zod';
+import { createCategorySchema } from './create-category.dto';
+
+export const updateCategorySchema = createCategorySchema
+  .omit({ type: true })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export class UpdateCategoryDto extends createZodDto(updateCategorySchema) {}
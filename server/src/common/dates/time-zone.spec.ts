@@ -0,0 +1,62 @@
+import {
+  addMonths,
+  startOfLocalDay,
+  toDateRangeFilter,
+  toLocalDateString,
+} from './time-zone';
+
+describe('time zone', () => {
+  describe('toLocalDateString', () => {
+    it('gives the calendar day in the time zone', () => {
+      const instant = new Date('2024-01-16T04:00:00Z');
+      expect(toLocalDateString(instant, 'UTC')).toBe('2024-01-16');
+      expect(toLocalDateString(instant, 'America/Los_Angeles')).toBe(
+        '2024-01-15',
+      );
+    });
+  });
+
+  describe('startOfLocalDay', () => {
+    it('follows daylight saving time', () => {
+      expect(startOfLocalDay('2024-03-09', 'America/New_York')).toEqual(
+        new Date('2024-03-09T05:00:00Z'),
+      );
+      expect(startOfLocalDay('2024-03-11', 'America/New_York')).toEqual(
+        new Date('2024-03-11T04:00:00Z'),
+      );
+    });
+  });
+
+  describe('addMonths', () => {
+    it('clamps to the end of shorter months', () => {
+      expect(addMonths('2024-01-31', 1)).toBe('2024-02-29');
+      expect(addMonths('2024-01-31', 13)).toBe('2025-02-28');
+    });
+  });
+
+  describe('toDateRangeFilter', () => {
+    it('covers whole local days for calendar dates, both included', () => {
+      expect(
+        toDateRangeFilter('2024-03-01', '2024-03-31', 'Europe/Berlin'),
+      ).toEqual({
+        $gte: new Date('2024-02-29T23:00:00Z'),
+        $lt: new Date('2024-03-31T22:00:00Z'),
+      });
+    });
+
+    it('uses instants as given', () => {
+      const from = new Date('2024-03-01T10:00:00Z');
+      const to = new Date('2024-03-01T18:00:00Z');
+      expect(toDateRangeFilter(from, to, 'Europe/Berlin')).toEqual({
+        $gte: from,
+        $lte: to,
+      });
+    });
+
+    it('leaves out a missing bound', () => {
+      expect(toDateRangeFilter(undefined, '2024-03-31', 'UTC')).toEqual({
+        $lt: new Date('2024-04-01T00:00:00Z'),
+      });
+    });
+  });
+});
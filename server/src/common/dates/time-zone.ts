@@ -0,0 +1,136 @@
+/**
+ * Calendar dates in a user's IANA time zone, using the runtime's Intl data.
+ * Local dates are `YYYY-MM-DD` strings; instants are Dates.
+ */
+
+export const DATE_STRING_REGEX = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const timeZoneValidator = {
+  validator: isValidTimeZone,
+  message: '{VALUE} is not a supported time zone',
+};
+
+/**
+ * Wall-clock fields of an instant in a time zone
+ */
+const getLocalParts = (instant: Date, timeZone: string) => {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+/**
+ * Offset of the time zone from UTC at an instant, in milliseconds
+ */
+const getOffset = (instant: Date, timeZone: string): number => {
+  const local = getLocalParts(instant, timeZone);
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second,
+  );
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+/**
+ * The local date of an instant in a time zone
+ */
+export const toLocalDateString = (instant: Date, timeZone: string): string => {
+  const { year, month, day } = getLocalParts(instant, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * The instant a local date starts in a time zone. The offset is looked up
+ * twice so days starting next to a DST change come out right.
+ */
+export const startOfLocalDay = (date: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day);
+  const guess = wallClock - getOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getOffset(new Date(guess), timeZone));
+};
+
+/**
+ * Mongo filter for dates from `from` to `to`, both included. A calendar date
+ * covers its whole day in the time zone; a Date is an exact instant.
+ */
+export const toDateRangeFilter = (
+  from: string | Date | undefined,
+  to: string | Date | undefined,
+  timeZone: string,
+): { $gte?: Date; $lt?: Date; $lte?: Date } => {
+  const range: { $gte?: Date; $lt?: Date; $lte?: Date } = {};
+  if (from) {
+    range.$gte = typeof from === 'string' ? startOfLocalDay(from, timeZone) : from;
+  }
+  if (typeof to === 'string') {
+    range.$lt = startOfLocalDay(addDays(to, 1), timeZone);
+  } else if (to) {
+    range.$lte = to;
+  }
+  return range;
+};
+
+/**
+ * Calendar arithmetic on local dates, independent of any time zone
+ */
+export const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+export const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  // Clamp to the last day of the target month (Jan 31 + 1 month = Feb 28/29)
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay)))
+    .toISOString()
+    .slice(0, 10);
+};
+
+/**
+ * Number of days from `from` to `to`, both included
+ */
+export const countDays = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS) + 1;
@@ -21,8 +21,24 @@ export class ValidationException extends AppException {
   }
 }
 
+/**
+ * Why sign-in is on hold after failed attempts, and until when. Sent with
+ * the error so the app can count down to the next try.
+ */
+export interface LockoutState {
+  // 'delayed' after a few failures, 'locked' after many
+  status: 'delayed' | 'locked';
+  // Whether the failures were against the account or from the IP address
+  scope: 'account' | 'ip';
+  retryAt: string;
+  retryAfterSeconds: number;
+}
+
 export class AuthenticationException extends AppException {
-  constructor(message: string = 'Authentication failed') {
+  constructor(
+    message: string = 'Authentication failed',
+    public readonly lockout?: LockoutState,
+  ) {
     super(HttpStatus.UNAUTHORIZED, message);
     this.name = 'AuthenticationException';
   }
@@ -9,6 +9,7 @@ import { Request, Response } from 'express';
 import { logError } from '../../config/winston.config';
 import { MongoServerError } from 'mongodb';
 import { JsonWebTokenError, TokenExpiredError } from 'jsonwebtoken';
+import { AuthenticationException } from '../exceptions/app.exception';
 
 @Catch()
 export class AllExceptionsFilter implements ExceptionFilter {
@@ -40,6 +41,12 @@ export class AllExceptionsFilter implements ExceptionFilter {
         responseBody.errors = (exceptionResponse as any).errors;
       }
 
+      // Add sign-in lockout state if present
+      if (exception instanceof AuthenticationException && exception.lockout) {
+        responseBody.lockout = exception.lockout;
+        response.setHeader('Retry-After', String(exception.lockout.retryAfterSeconds));
+      }
+
       response.status(status).json(responseBody);
       return;
     }
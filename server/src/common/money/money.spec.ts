@@ -0,0 +1,128 @@
+import { ValidationException } from '../exceptions/app.exception';
+import {
+  allocateMinorUnits,
+  convertMinorUnits,
+  formatMoney,
+  getMinorUnits,
+  roundMinorUnits,
+  toMajorUnits,
+  toMinorUnits,
+} from './money';
+
+describe('money', () => {
+  describe('getMinorUnits', () => {
+    it('uses the currency minor unit', () => {
+      expect(getMinorUnits('USD')).toBe(2);
+      expect(getMinorUnits('JPY')).toBe(0);
+      expect(getMinorUnits('KWD')).toBe(3);
+    });
+  });
+
+  describe('toMinorUnits', () => {
+    it('shifts decimal digits instead of multiplying', () => {
+      expect(toMinorUnits('12.34', 'USD')).toBe(1234);
+      expect(toMinorUnits(12.34, 'USD')).toBe(1234);
+      // 1.005 * 100 is 100.49999... in floating point
+      expect(toMinorUnits('1.005', 'USD')).toBe(101);
+    });
+
+    it('pads and rounds to the currency minor unit', () => {
+      expect(toMinorUnits('5', 'USD')).toBe(500);
+      expect(toMinorUnits('.5', 'USD')).toBe(50);
+      expect(toMinorUnits('1234', 'JPY')).toBe(1234);
+      expect(toMinorUnits('1234.5', 'JPY')).toBe(1235);
+      expect(toMinorUnits('1.2345', 'KWD')).toBe(1235);
+    });
+
+    it('keeps the sign and rounds half away from zero', () => {
+      expect(toMinorUnits('-12.34', 'USD')).toBe(-1234);
+      expect(toMinorUnits('-0.125', 'USD')).toBe(-13);
+      expect(toMinorUnits('+3', 'USD')).toBe(300);
+    });
+
+    it('rejects values that are not decimal amounts', () => {
+      expect(() => toMinorUnits('', 'USD')).toThrow(ValidationException);
+      expect(() => toMinorUnits('1,5', 'USD')).toThrow(ValidationException);
+      expect(() => toMinorUnits('abc', 'USD')).toThrow(ValidationException);
+      expect(() => toMinorUnits('.', 'USD')).toThrow(ValidationException);
+    });
+
+    it('rejects amounts beyond safe integers', () => {
+      expect(() => toMinorUnits('900719925474099.99', 'USD')).toThrow(
+        'Amount is too large',
+      );
+    });
+  });
+
+  describe('toMajorUnits', () => {
+    it('divides by the currency minor unit', () => {
+      expect(toMajorUnits(1234, 'USD')).toBe(12.34);
+      expect(toMajorUnits(1234, 'JPY')).toBe(1234);
+      expect(toMajorUnits(1234, 'KWD')).toBe(1.234);
+    });
+  });
+
+  describe('roundMinorUnits', () => {
+    it('rounds half away from zero', () => {
+      expect(roundMinorUnits(2.5)).toBe(3);
+      expect(roundMinorUnits(-2.5)).toBe(-3);
+      expect(roundMinorUnits(2.4)).toBe(2);
+    });
+
+    it('never returns negative zero', () => {
+      expect(Object.is(roundMinorUnits(-0.4), 0)).toBe(true);
+    });
+  });
+
+  describe('convertMinorUnits', () => {
+    it('applies the rate between currencies with the same minor unit', () => {
+      expect(convertMinorUnits(1000, 'EUR', 'USD', 1.1)).toBe(1100);
+    });
+
+    it('accounts for differing minor units', () => {
+      // 10.00 USD at 150 JPY per USD
+      expect(convertMinorUnits(1000, 'USD', 'JPY', 150)).toBe(1500);
+      // 1500 JPY at 1/150 USD per JPY
+      expect(convertMinorUnits(1500, 'JPY', 'USD', 1 / 150)).toBe(1000);
+      // 1.000 KWD at 3.25 USD per KWD
+      expect(convertMinorUnits(1000, 'KWD', 'USD', 3.25)).toBe(325);
+    });
+
+    it('rounds the result once', () => {
+      expect(convertMinorUnits(1, 'USD', 'EUR', 0.5)).toBe(1);
+      expect(convertMinorUnits(-1, 'USD', 'EUR', 0.5)).toBe(-1);
+    });
+  });
+
+  describe('allocateMinorUnits', () => {
+    it('splits in proportion to the weights', () => {
+      expect(allocateMinorUnits(1000, [1, 3])).toEqual([250, 750]);
+    });
+
+    it('hands rounding leftovers to the largest remainders', () => {
+      expect(allocateMinorUnits(100, [1, 1, 1])).toEqual([34, 33, 33]);
+      expect(allocateMinorUnits(101, [1, 1])).toEqual([51, 50]);
+    });
+
+    it('always adds up to the total', () => {
+      const parts = allocateMinorUnits(9999, [333, 333, 334, 1]);
+      expect(parts.reduce((sum, part) => sum + part, 0)).toBe(9999);
+    });
+
+    it('handles negative totals', () => {
+      const parts = allocateMinorUnits(-100, [1, 1, 1]);
+      expect(parts).toEqual([-34, -33, -33]);
+    });
+
+    it('gives nothing when every weight is zero', () => {
+      expect(allocateMinorUnits(100, [0, 0])).toEqual([0, 0]);
+    });
+  });
+
+  describe('formatMoney', () => {
+    it('uses the currency number of decimals', () => {
+      expect(formatMoney(123456, 'USD')).toBe('$1,234.56');
+      expect(formatMoney(1234, 'JPY')).toBe('¥1,234');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { ValidationException } from '../exceptions/app.exception';
+import { findCurrency, isCurrencyCode } from './currencies';
+
+/**
+ * Money helpers. Every amount is stored and exchanged as an integer number of
+ * the currency's minor units (cents, paise, ...), so sums never drift; only
+ * formatting converts back to a decimal value.
+ */
+
+const DECIMAL_REGEX = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Number of decimal places in the currency's minor unit (JPY 0, USD 2, KWD 3)
+ */
+export const getMinorUnits = (currency: string): number =>
+  findCurrency(currency)?.minorUnits ?? 2;
+
+/**
+ * Round a derived value (e.g. a converted amount) to a whole number of minor
+ * units, half away from zero
+ */
+export const roundMinorUnits = (value: number): number =>
+  Math.sign(value) * Math.round(Math.abs(value)) || 0;
+
+/**
+ * Convert a decimal amount in major units ("12.34", 12.34) to minor units
+ * (1234). The decimal string is shifted digit by digit rather than multiplied,
+ * so 1.005 USD becomes 101 and not 100; extra digits are rounded half away
+ * from zero.
+ */
+export const toMinorUnits = (value: number | string, currency: string): number => {
+  const text = typeof value === 'number' ? String(value) : value.trim();
+  const match = DECIMAL_REGEX.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new ValidationException(`Invalid amount: ${value}`);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const digits = getMinorUnits(currency);
+  const padded = fraction.padEnd(digits + 1, '0');
+
+  let minor = Number(`${whole || '0'}${padded.slice(0, digits)}`);
+  if (Number(padded[digits]) >= 5) {
+    minor += 1;
+  }
+  if (!Number.isSafeInteger(minor)) {
+    throw new ValidationException(`Amount is too large: ${value}`);
+  }
+  return sign === '-' ? -minor : minor;
+};
+
+/**
+ * Decimal value of an amount in minor units. For display and export only;
+ * never use the result for further arithmetic.
+ */
+export const toMajorUnits = (minor: number, currency: string): number =>
+  minor / 10 ** getMinorUnits(currency);
+
+/**
+ * Convert an amount between currencies, where `rate` is the number of units
+ * of `to` per unit of `from`. Accounts for differing minor units (USD cents
+ * to JPY yen) and rounds the result once.
+ */
+export const convertMinorUnits = (
+  amount: number,
+  from: string,
+  to: string,
+  rate: number,
+): number =>
+  roundMinorUnits(
+    amount * rate * 10 ** (getMinorUnits(to) - getMinorUnits(from)),
+  );
+
+/**
+ * Share `total` out in proportion to `weights`, in whole minor units. Units
+ * lost to rounding go to the largest remainders, so the parts always add up
+ * to exactly `total`.
+ */
+export const allocateMinorUnits = (total: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weightSum === 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map((weight) => (total * weight) / weightSum);
+  const parts = exact.map(Math.trunc);
+  let leftover = total - parts.reduce((sum, part) => sum + part, 0);
+  const step = Math.sign(leftover);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: Math.abs(value - parts[index]) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let i = 0; leftover !== 0; i = (i + 1) % parts.length) {
+    parts[byRemainder[i].index] += step;
+    leftover -= step;
+  }
+  return parts;
+};
+
+/**
+ * Locale-formatted amount with the currency's own number of decimals
+ */
+export const formatMoney = (
+  minor: number,
+  currency: string,
+  locale = 'en-US',
+): string => {
+  const digits = getMinorUnits(currency);
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(toMajorUnits(minor, currency));
+};
+
+/**
+ * Mongoose validator for amount fields stored in minor units
+ */
+export const minorUnitsValidator = {
+  validator: Number.isSafeInteger,
+  message: '{PATH} must be a whole number of minor units',
+};
+
+/**
+ * Mongoose validator for ISO 4217 currency codes
+ */
+export const currencyValidator = {
+  validator: isCurrencyCode,
+  message: '{VALUE} is not a supported ISO 4217 currency',
+};
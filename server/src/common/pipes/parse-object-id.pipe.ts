@@ -0,0 +1,16 @@
+import { Injectable, PipeTransform } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ValidationException } from '../exceptions/app.exception';
+
+/**
+ * Validates that a route parameter is a well-formed MongoDB ObjectId
+ */
+@Injectable()
+export class ParseObjectIdPipe implements PipeTransform<string, string> {
+  transform(value: string): string {
+    if (!value || !Types.ObjectId.isValid(value)) {
+      throw new ValidationException('Invalid id');
+    }
+    return value;
+  }
+}
@@ -15,6 +15,16 @@ interface TemplateOption {
   value: string;
 }
 
+// Subjects per template ID; placeholders are replaced like in the body
+const TEMPLATE_SUBJECTS: Record<string, string> = {
+  'verify-account': 'Verify Your Account - Income & Expense Manager',
+  'reset-password': 'Reset Your Password - Income & Expense Manager',
+  'budget-alert': '{{categoryName}} Budget Alert - Income & Expense Manager',
+  'session-revoked': 'Security Alert: Session Signed Out - Income & Expense Manager',
+  'account-locked': 'Security Alert: Account Temporarily Locked - Income & Expense Manager',
+  'recurring-paused': 'Recurring Transaction Paused - Income & Expense Manager',
+};
+
 @Injectable()
 export class EmailService {
   private transporter: nodemailer.Transporter;
@@ -121,34 +131,24 @@ export class EmailService {
     options: TemplateOption[],
   ): Promise<void> {
     try {
-      let html: string;
-      let text: string;
-
-      if (templateId === 'verify-account') {
-        html = this.loadTemplate('verify-account', 'html');
-        text = this.loadTemplate('verify-account', 'txt');
-      } else if (templateId === 'reset-password') {
-        html = this.loadTemplate('reset-password', 'html');
-        text = this.loadTemplate('reset-password', 'txt');
-      } else {
+      let subject = TEMPLATE_SUBJECTS[templateId];
+      if (!subject) {
         throw new EmailTemplateException(
           `Template with ID "${templateId}" not found`,
         );
       }
 
+      let html = this.loadTemplate(templateId, 'html');
+      let text = this.loadTemplate(templateId, 'txt');
+
       // Replace placeholders
       options.forEach((option) => {
         const regex = new RegExp(`{{${option.key}}}`, 'g');
         html = html.replace(regex, option.value);
         text = text.replace(regex, option.value);
+        subject = subject.replace(regex, option.value);
       });
 
-      // Get subject based on template
-      const subject =
-        templateId === 'verify-account'
-          ? 'Verify Your Account - Income & Expense Manager'
-          : 'Reset Your Password - Income & Expense Manager';
-
       await this.sendEmail(to, subject, html, text);
     } catch (error: unknown) {
       logError('Error sending templated email', error);
@@ -3,18 +3,14 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { Model } from 'mongoose';
 import { Token, TokenDocument } from '../../schemas/token.schema';
+import { Session, SessionDocument } from '../../schemas/session.schema';
 import { logInfo, logError } from '../../config/winston.config';
 
 @Injectable()
 export class TokenCleanupService {
   constructor(
     @InjectModel(Token.name) private tokenModel: Model<TokenDocument>,
-  ) {}
-
-@Injectable()
-export class TokenCleanupService {
-  constructor(
-    @InjectModel(Token.name) private tokenModel: Model<TokenDocument>,
+    @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
   ) {}
 
   @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT)
@@ -37,7 +33,10 @@ export class TokenCleanupService {
       const sevenDaysAgo = new Date();
       sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
+      // Used refresh tokens are kept until they expire: presenting one again
+      // is how a stolen token is detected
       const result = await this.tokenModel.deleteMany({
+        type: { $ne: 'refresh' },
         used: true,
         usedAt: { $lt: sevenDaysAgo },
       });
@@ -47,4 +46,28 @@ export class TokenCleanupService {
       logError('Error during used token cleanup', error);
     }
   }
+
+  @Cron(CronExpression.EVERY_DAY_AT_1AM)
+  async cleanupRevokedSessions() {
+    try {
+      // A revoked family is rejected whether or not its tokens are kept, so
+      // they are only held for a day in case the revocation needs looking into
+      const oneDayAgo = new Date();
+      oneDayAgo.setDate(oneDayAgo.getDate() - 1);
+
+      const [tokens, sessions] = await Promise.all([
+        this.tokenModel.deleteMany({
+          type: 'refresh',
+          revokedAt: { $lt: oneDayAgo },
+        }),
+        this.sessionModel.deleteMany({ revokedAt: { $lt: oneDayAgo } }),
+      ]);
+
+      logInfo(
+        `Revoked session cleanup completed: ${sessions.deletedCount} sessions and ${tokens.deletedCount} refresh tokens removed`,
+      );
+    } catch (error) {
+      logError('Error during revoked session cleanup', error);
+    }
+  }
 }
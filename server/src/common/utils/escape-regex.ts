@@ -0,0 +1,5 @@
+/**
+ * Escape user input for use as a literal inside a regular expression
+ */
+export const escapeRegex = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+/**
+ * Zod schema for autocomplete queries: what the user has typed so far and
+ * how many matches to return
+ */
+export const autocompleteQuerySchema = z.object({
+  q: z.string().trim().max(100, 'Query must be at most 100 characters').default(''),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(20, 'Limit must be at most 20')
+    .default(10),
+});
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { isCurrencyCode } from '../money/currencies';
+
+/**
+ * Zod schema for an ISO 4217 currency code, normalized to upper case
+ */
+export const currencyCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO 4217 code')
+  .refine(isCurrencyCode, 'Unsupported currency code');
+
+/**
+ * Exchange rate: units of the quote currency per unit of the base currency
+ */
+export const exchangeRateSchema = z
+  .number({ invalid_type_error: 'Exchange rate must be a number' })
+  .positive('Exchange rate must be greater than zero');
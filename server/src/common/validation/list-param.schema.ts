@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+/**
+ * Accept list filters either repeated (?tags=a&tags=b) or comma-separated
+ * (?tags=a,b)
+ */
+export const listParam = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(
+    (value) =>
+      (Array.isArray(value) ? value : [value])
+        .flatMap((entry) => String(entry).split(','))
+        .map((entry) => entry.trim())
+        .filter(Boolean),
+    z.array(item).max(100, 'At most 100 values per filter'),
+  );
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+/**
+ * Zod schema for an amount in integer minor units (e.g. 1234 for 12.34 USD,
+ * 1234 for 1234 JPY)
+ */
+export const minorUnitsSchema = (label = 'Amount') =>
+  z
+    .number({ invalid_type_error: `${label} must be a number` })
+    .int(`${label} must be a whole number of minor units (e.g. cents)`)
+    .safe(`${label} is too large`);
+
+/**
+ * Strictly positive amount in minor units
+ */
+export const positiveMinorUnitsSchema = (label = 'Amount') =>
+  minorUnitsSchema(label).positive(`${label} must be greater than zero`);
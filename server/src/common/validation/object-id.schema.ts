@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+/**
+ * Zod schema for a MongoDB ObjectId passed as a 24-character hex string
+ */
+export const objectIdSchema = z
+  .string()
+  .trim()
+  .regex(/^[0-9a-fA-F]{24}$/, 'Must be a valid id');
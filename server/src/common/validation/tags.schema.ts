@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+/**
+ * Zod schema for a tag name: trimmed and lowercased
+ */
+export const tagNameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, 'Tags cannot be empty')
+  .max(30, 'Tags must be at most 30 characters');
+
+/**
+ * Zod schema for a list of tag names, de-duplicated. Names without a tag yet
+ * are created when the list is saved.
+ */
+export const tagsSchema = z
+  .array(tagNameSchema)
+  .max(20, 'At most 20 tags are allowed')
+  .transform((tags) => [...new Set(tags)]);
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { DATE_STRING_REGEX, isValidTimeZone } from '../dates/time-zone';
+
+/**
+ * Zod schema for an IANA time zone name such as `Europe/Berlin`
+ */
+export const timeZoneSchema = z
+  .string()
+  .trim()
+  .min(1, 'Time zone is required')
+  .refine(isValidTimeZone, 'Unsupported time zone');
+
+// Rejects dates such as 2024-02-30, which Date would roll over
+const isCalendarDate = (value: string) =>
+  new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+
+/**
+ * Zod schema for a calendar date (`YYYY-MM-DD`), read in the user's time zone
+ */
+export const localDateSchema = z
+  .string()
+  .regex(DATE_STRING_REGEX, 'Dates must be in YYYY-MM-DD format')
+  .refine(isCalendarDate, 'Invalid date');
+
+/**
+ * Zod schema for a date filter bound: a calendar date (`YYYY-MM-DD`) stays a
+ * string and covers that whole day in the user's time zone (see
+ * toDateRangeFilter); anything else is parsed as an exact instant
+ */
+export const dateBoundSchema = z
+  .string()
+  .trim()
+  .transform((value, ctx): string | Date => {
+    if (DATE_STRING_REGEX.test(value)) {
+      if (isCalendarDate(value)) return value;
+    } else {
+      const date = new Date(value);
+      if (!Number.isNaN(date.getTime())) return date;
+    }
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Please provide a valid date',
+    });
+    return z.NEVER;
+  });
+
+/**
+ * Whether `from` is not after `to`. A calendar date and an instant are not
+ * compared, since the day's bounds depend on the time zone.
+ */
+export const isOrderedDateRange = (data: {
+  from?: string | Date;
+  to?: string | Date;
+}) =>
+  !data.from ||
+  !data.to ||
+  typeof data.from !== typeof data.to ||
+  data.from <= data.to;
@@ -28,9 +28,25 @@ export interface DatabaseConfig {
   uri: string;
 }
 
+export interface StorageConfig {
+  driver: 'local' | 's3';
+  // Directory uploads are written to by the local driver
+  localPath: string;
+  s3: {
+    // Leave empty for AWS; set for MinIO or another S3-compatible service
+    endpoint: string;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    forcePathStyle: boolean;
+  };
+}
+
 export interface AllConfig {
   app: AppConfig;
   jwt: JwtConfig;
   email: EmailConfig;
   database: DatabaseConfig;
+  storage: StorageConfig;
 }
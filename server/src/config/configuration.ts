@@ -30,5 +30,17 @@ export default registerAs('config', (): AllConfig => {
     database: {
       uri: process.env.MONGODB_URI || '',
     },
+    storage: {
+      driver: process.env.STORAGE_DRIVER === 's3' ? 's3' : 'local',
+      localPath: process.env.STORAGE_LOCAL_PATH || 'uploads',
+      s3: {
+        endpoint: process.env.S3_ENDPOINT || '',
+        region: process.env.S3_REGION || 'us-east-1',
+        bucket: process.env.S3_BUCKET || '',
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      },
+    },
   };
 });
@@ -22,6 +22,14 @@ const optionalEnvVars = [
   'FACEBOOK_LINK',
   'TWITTER_LINK',
   'INSTAGRAM_LINK',
+  'STORAGE_DRIVER',
+  'STORAGE_LOCAL_PATH',
+  'S3_ENDPOINT',
+  'S3_REGION',
+  'S3_BUCKET',
+  'S3_ACCESS_KEY_ID',
+  'S3_SECRET_ACCESS_KEY',
+  'S3_FORCE_PATH_STYLE',
 ] as const;
 
 /**
@@ -117,6 +125,17 @@ export const validateEnv = (): void => {
     }
   }
 
+  // Validate the storage driver and what the S3 driver needs
+  const storageDriver = process.env.STORAGE_DRIVER;
+  if (storageDriver && !['local', 's3'].includes(storageDriver)) {
+    throw new Error(
+      `STORAGE_DRIVER must be 'local' or 's3', got: ${storageDriver}`,
+    );
+  }
+  if (storageDriver === 's3' && !process.env.S3_BUCKET?.trim()) {
+    throw new Error('S3_BUCKET is required when STORAGE_DRIVER is s3');
+  }
+
   // Validate NODE_ENV if provided
   const nodeEnv = process.env.NODE_ENV;
   if (nodeEnv && !['development', 'production', 'test'].includes(nodeEnv)) {
@@ -16,5 +16,6 @@ export const throttleConfig = {
   resetPassword: { limit: 5, ttl: 60000 } as ThrottleConfig, // 5 requests per minute
   verifyAccount: { limit: 10, ttl: 60000 } as ThrottleConfig, // 10 requests per minute
   refreshToken: { limit: 20, ttl: 60000 } as ThrottleConfig, // 20 requests per minute
+  twoFactor: { limit: 10, ttl: 60000 } as ThrottleConfig, // 10 requests per minute
   verifyToken: { limit: 100, ttl: 60000 } as ThrottleConfig, // 100 requests per minute (protected endpoint)
 } as const;
@@ -0,0 +1,36 @@
+import { Controller, Get, Param, Query, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { CurrenciesService } from './currencies.service';
+import { ListCurrenciesDto } from './dto/list-currencies.dto';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+
+@ApiTags('Currencies')
+@Controller('currencies')
+export class CurrenciesController {
+  constructor(private readonly currenciesService: CurrenciesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List supported ISO 4217 currencies' })
+  @ApiResponse({
+    status: 200,
+    description: 'Currencies retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  findAll(@Query() query: ListCurrenciesDto) {
+    return this.currenciesService.findAll(query.search);
+  }
+
+  @Get(':code')
+  @ApiOperation({ summary: 'Get a currency by its ISO 4217 code' })
+  @ApiResponse({
+    status: 200,
+    description: 'Currency retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Currency not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  findOne(@Param('code') code: string) {
+    return this.currenciesService.findOne(code);
+  }
+}
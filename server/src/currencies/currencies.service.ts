@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { CURRENCIES, findCurrency } from '../common/money/currencies';
+import { NotFoundException } from '../common/exceptions/app.exception';
+
+@Injectable()
+export class CurrenciesService {
+  findAll(search?: string) {
+    const term = search?.toLowerCase();
+    const currencies = term
+      ? CURRENCIES.filter(
+          (currency) =>
+            currency.code.toLowerCase().includes(term) ||
+            currency.name.toLowerCase().includes(term),
+        )
+      : CURRENCIES;
+
+    return {
+      success: true,
+      message: 'Currencies retrieved successfully',
+      data: {
+        currencies,
+      },
+    };
+  }
+
+  findOne(code: string) {
+    const currency = findCurrency(code);
+    if (!currency) {
+      throw new NotFoundException('Currency not found');
+    }
+
+    return {
+      success: true,
+      message: 'Currency retrieved successfully',
+      data: {
+        currency,
+      },
+    };
+  }
+}
@@ -0,0 +1,9 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+
+export const listCurrenciesSchema = z.object({
+  // Matches code or name, case-insensitively
+  search: z.string().trim().max(50, 'Search must be at most 50 characters').optional(),
+});
+
+export class ListCurrenciesDto extends createZodDto(listCurrenciesSchema) {}
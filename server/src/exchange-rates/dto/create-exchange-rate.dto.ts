@@ -0,0 +1,20 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import {
+  currencyCodeSchema,
+  exchangeRateSchema,
+} from '../../common/validation/currency.schema';
+
+export const createExchangeRateSchema = z
+  .object({
+    from: currencyCodeSchema,
+    to: currencyCodeSchema,
+    rate: exchangeRateSchema,
+    date: z.coerce.date({ invalid_type_error: 'Please provide a valid date' }),
+  })
+  .refine((data) => data.from !== data.to, {
+    message: 'From and to currencies must differ',
+    path: ['to'],
+  });
+
+export class CreateExchangeRateDto extends createZodDto(createExchangeRateSchema) {}
@@ -0,0 +1,27 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { currencyCodeSchema } from '../../common/validation/currency.schema';
+
+export const listExchangeRatesSchema = z
+  .object({
+    page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1, 'Limit must be at least 1')
+      .max(100, 'Limit must be at most 100')
+      .default(50),
+    from: currencyCodeSchema.optional(),
+    to: currencyCodeSchema.optional(),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+  })
+  .refine(
+    (data) => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+    {
+      message: 'Start date must be before end date',
+      path: ['startDate'],
+    },
+  );
+
+export class ListExchangeRatesDto extends createZodDto(listExchangeRatesSchema) {}
@@ -0,0 +1,15 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { exchangeRateSchema } from '../../common/validation/currency.schema';
+
+export const updateExchangeRateSchema = z
+  .object({
+    rate: exchangeRateSchema,
+    date: z.coerce.date({ invalid_type_error: 'Please provide a valid date' }),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export class UpdateExchangeRateDto extends createZodDto(updateExchangeRateSchema) {}
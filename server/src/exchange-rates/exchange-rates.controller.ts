@@ -0,0 +1,136 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { CreateExchangeRateDto } from './dto/create-exchange-rate.dto';
+import { UpdateExchangeRateDto } from './dto/update-exchange-rate.dto';
+import { ListExchangeRatesDto } from './dto/list-exchange-rates.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ParseObjectIdPipe } from '../common/pipes/parse-object-id.pipe';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+
+// Rate files are a few lines per day; 1 MB covers years of history
+const MAX_IMPORT_SIZE = 1024 * 1024;
+
+@ApiTags('Exchange Rates')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('exchange-rates')
+export class ExchangeRatesController {
+  constructor(private readonly exchangeRatesService: ExchangeRatesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List stored exchange rates' })
+  @ApiResponse({
+    status: 200,
+    description: 'Exchange rates retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async findAll(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: ListExchangeRatesDto,
+  ) {
+    return this.exchangeRatesService.findAll(user.userId, query);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Enter an exchange rate for a currency pair and day' })
+  @ApiResponse({
+    status: 201,
+    description: 'Exchange rate created successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Rate already exists for this day', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() createExchangeRateDto: CreateExchangeRateDto,
+  ) {
+    return this.exchangeRatesService.create(user.userId, createExchangeRateDto);
+  }
+
+  @Post('import')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_SIZE } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiOperation({ summary: 'Import exchange rates from a date,from,to,rate CSV file' })
+  @ApiResponse({
+    status: 200,
+    description: 'Exchange rates imported successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid CSV file', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async importCsv(
+    @CurrentUser() user: { userId: string; email: string },
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.exchangeRatesService.importCsv(user.userId, file);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Correct an exchange rate (posted transactions keep their rate)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Exchange rate updated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Exchange rate not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async update(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() updateExchangeRateDto: UpdateExchangeRateDto,
+  ) {
+    return this.exchangeRatesService.update(user.userId, id, updateExchangeRateDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete an exchange rate' })
+  @ApiResponse({
+    status: 200,
+    description: 'Exchange rate deleted successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Exchange rate not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async remove(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.exchangeRatesService.remove(user.userId, id);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ExchangeRatesController } from './exchange-rates.controller';
+import { ExchangeRatesService } from './exchange-rates.service';
+import {
+  ExchangeRate,
+  ExchangeRateSchema,
+} from '../schemas/exchange-rate.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ExchangeRate.name, schema: ExchangeRateSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    AuthModule,
+  ],
+  controllers: [ExchangeRatesController],
+  providers: [ExchangeRatesService],
+  exports: [ExchangeRatesService],
+})
+export class ExchangeRatesModule {}
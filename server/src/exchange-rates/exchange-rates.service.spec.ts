@@ -0,0 +1,191 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ExchangeRate } from '../schemas/exchange-rate.schema';
+import { User } from '../schemas/user.schema';
+import {
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+
+type StoredRate = { from: string; to: string; date: Date; rate: number };
+
+describe('ExchangeRatesService', () => {
+  const userId = new Types.ObjectId().toString();
+  let service: ExchangeRatesService;
+  let rates: StoredRate[];
+  // null when the user does not exist
+  let baseCurrency: string | null;
+
+  // Latest stored rate of a pair on or before the date, like the real query
+  const exchangeRateModel = {
+    findOne: jest.fn(
+      (filter: { from: string; to: string; date: { $lte: Date } }) => {
+        const match = rates
+          .filter(
+            (rate) =>
+              rate.from === filter.from &&
+              rate.to === filter.to &&
+              rate.date <= filter.date.$lte,
+          )
+          .sort((a, b) => b.date.getTime() - a.date.getTime())[0];
+        const query = {
+          sort: () => query,
+          select: () => query,
+          lean: async () => match ?? null,
+        };
+        return query;
+      },
+    ),
+  };
+  const userModel = {
+    findById: jest.fn(() => ({
+      select: () => ({
+        lean: async () => (baseCurrency ? { currency: baseCurrency } : null),
+      }),
+    })),
+  };
+
+  beforeEach(async () => {
+    rates = [];
+    baseCurrency = 'USD';
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ExchangeRatesService,
+        {
+          provide: getModelToken(ExchangeRate.name),
+          useValue: exchangeRateModel,
+        },
+        { provide: getModelToken(User.name), useValue: userModel },
+      ],
+    }).compile();
+    service = moduleRef.get(ExchangeRatesService);
+  });
+
+  describe('getBaseCurrency', () => {
+    it("is the user's currency", async () => {
+      await expect(service.getBaseCurrency(userId)).resolves.toBe('USD');
+    });
+
+    it('fails for a missing user instead of guessing a currency', async () => {
+      baseCurrency = null;
+      await expect(service.getBaseCurrency(userId)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('findRate', () => {
+    it('is 1 between a currency and itself', async () => {
+      await expect(
+        service.findRate(userId, 'EUR', 'EUR', new Date()),
+      ).resolves.toBe(1);
+    });
+
+    it('uses the latest rate on or before the date', async () => {
+      rates.push(
+        { from: 'EUR', to: 'USD', date: new Date('2024-01-01'), rate: 1.1 },
+        { from: 'EUR', to: 'USD', date: new Date('2024-02-01'), rate: 1.2 },
+        { from: 'EUR', to: 'USD', date: new Date('2024-03-01'), rate: 1.3 },
+      );
+      await expect(
+        service.findRate(userId, 'EUR', 'USD', new Date('2024-02-15')),
+      ).resolves.toBe(1.2);
+    });
+
+    it('falls back to the inverse of the reverse pair', async () => {
+      rates.push({
+        from: 'USD',
+        to: 'EUR',
+        date: new Date('2024-01-01'),
+        rate: 0.8,
+      });
+      await expect(
+        service.findRate(userId, 'EUR', 'USD', new Date('2024-02-01')),
+      ).resolves.toBe(1.25);
+    });
+
+    it('is null without a rate on or before the date', async () => {
+      rates.push({
+        from: 'EUR',
+        to: 'USD',
+        date: new Date('2024-03-01'),
+        rate: 1.3,
+      });
+      await expect(
+        service.findRate(userId, 'EUR', 'USD', new Date('2024-02-01')),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('toBase', () => {
+    it('keeps amounts already in the base currency', async () => {
+      await expect(
+        service.toBase(userId, 1234, 'USD', new Date('2024-02-01')),
+      ).resolves.toEqual({
+        baseAmount: 1234,
+        baseCurrency: 'USD',
+        exchangeRate: 1,
+      });
+    });
+
+    it('converts with the stored rate for the date', async () => {
+      rates.push({
+        from: 'EUR',
+        to: 'USD',
+        date: new Date('2024-01-01'),
+        rate: 1.1,
+      });
+      await expect(
+        service.toBase(userId, 1000, 'EUR', new Date('2024-02-01')),
+      ).resolves.toEqual({
+        baseAmount: 1100,
+        baseCurrency: 'USD',
+        exchangeRate: 1.1,
+      });
+    });
+
+    it('prefers an explicit rate over the rate table', async () => {
+      rates.push({
+        from: 'EUR',
+        to: 'USD',
+        date: new Date('2024-01-01'),
+        rate: 1.1,
+      });
+      await expect(
+        service.toBase(userId, 1000, 'EUR', new Date('2024-02-01'), 1.05),
+      ).resolves.toEqual({
+        baseAmount: 1050,
+        baseCurrency: 'USD',
+        exchangeRate: 1.05,
+      });
+    });
+
+    it('accounts for minor units of both currencies', async () => {
+      baseCurrency = 'JPY';
+      rates.push({
+        from: 'USD',
+        to: 'JPY',
+        date: new Date('2024-01-01'),
+        rate: 150,
+      });
+      await expect(
+        service.toBase(userId, 1099, 'USD', new Date('2024-02-01')),
+      ).resolves.toEqual({
+        baseAmount: 1649,
+        baseCurrency: 'JPY',
+        exchangeRate: 150,
+      });
+    });
+
+    it('refuses to post without a rate', async () => {
+      await expect(
+        service.toBase(userId, 1000, 'EUR', new Date('2024-02-01')),
+      ).rejects.toThrow(ValidationException);
+      await expect(
+        service.toBase(userId, 1000, 'EUR', new Date('2024-02-01')),
+      ).rejects.toThrow('No EUR/USD exchange rate on or before 2024-02-01');
+    });
+  });
+});
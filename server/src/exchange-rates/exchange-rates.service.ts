@@ -0,0 +1,365 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  ExchangeRate,
+  ExchangeRateDocument,
+} from '../schemas/exchange-rate.schema';
+import { User, UserDocument } from '../schemas/user.schema';
+import {
+  AppException,
+  ConflictException,
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { convertMinorUnits } from '../common/money/money';
+import {
+  CreateExchangeRateDto,
+  createExchangeRateSchema,
+} from './dto/create-exchange-rate.dto';
+import { UpdateExchangeRateDto } from './dto/update-exchange-rate.dto';
+import { ListExchangeRatesDto } from './dto/list-exchange-rates.dto';
+
+export interface BaseConversion {
+  baseAmount: number;
+  baseCurrency: string;
+  exchangeRate: number;
+}
+
+const CSV_COLUMNS = ['date', 'from', 'to', 'rate'] as const;
+
+/**
+ * Rates apply per calendar day, so they are stored at UTC midnight
+ */
+const toDay = (date: Date): Date =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+
+@Injectable()
+export class ExchangeRatesService {
+  constructor(
+    @InjectModel(ExchangeRate.name)
+    private exchangeRateModel: Model<ExchangeRateDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+  ) {}
+
+  private async findOwned(userId: string, id: string) {
+    const rate = await this.exchangeRateModel.findOne({
+      _id: new Types.ObjectId(id),
+      userId: new Types.ObjectId(userId),
+    });
+    if (!rate) {
+      throw new NotFoundException('Exchange rate not found');
+    }
+    return rate;
+  }
+
+  private async assertUniqueDay(
+    userId: string,
+    rate: Pick<ExchangeRate, 'from' | 'to' | 'date'>,
+    excludeId?: Types.ObjectId,
+  ) {
+    const filter: FilterQuery<ExchangeRateDocument> = {
+      userId: new Types.ObjectId(userId),
+      from: rate.from,
+      to: rate.to,
+      date: rate.date,
+    };
+    if (excludeId) filter._id = { $ne: excludeId };
+
+    const existing = await this.exchangeRateModel.exists(filter);
+    if (existing) {
+      throw new ConflictException(
+        `A ${rate.from}/${rate.to} rate already exists for this day`,
+      );
+    }
+  }
+
+  async getBaseCurrency(userId: string): Promise<string> {
+    const user = await this.userModel.findById(userId).select('currency').lean();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user.currency;
+  }
+
+  /**
+   * Most recent stored rate on or before `date`, falling back to the inverse
+   * of the reverse pair. Returns null when neither exists.
+   */
+  async findRate(
+    userId: string,
+    from: string,
+    to: string,
+    date: Date,
+  ): Promise<number | null> {
+    if (from === to) {
+      return 1;
+    }
+
+    const latest = (pairFrom: string, pairTo: string) =>
+      this.exchangeRateModel
+        .findOne({
+          userId: new Types.ObjectId(userId),
+          from: pairFrom,
+          to: pairTo,
+          date: { $lte: date },
+        })
+        .sort({ date: -1 })
+        .select('rate')
+        .lean();
+
+    const direct = await latest(from, to);
+    if (direct) {
+      return direct.rate;
+    }
+    const inverse = await latest(to, from);
+    return inverse ? 1 / inverse.rate : null;
+  }
+
+  /**
+   * Convert an amount into the user's base currency for posting. The caller
+   * stores the returned rate on the transaction, so later edits to the rate
+   * table never change historical figures.
+   */
+  async toBase(
+    userId: string,
+    amount: number,
+    currency: string,
+    date: Date,
+    exchangeRate?: number,
+  ): Promise<BaseConversion> {
+    const baseCurrency = await this.getBaseCurrency(userId);
+
+    let rate = currency === baseCurrency ? 1 : exchangeRate;
+    if (rate === undefined) {
+      rate = await this.findRate(userId, currency, baseCurrency, date);
+    }
+    if (rate === null) {
+      throw new ValidationException(
+        `No ${currency}/${baseCurrency} exchange rate on or before ${date.toISOString().slice(0, 10)}. Add one or provide an exchange rate.`,
+      );
+    }
+
+    return {
+      baseAmount: convertMinorUnits(amount, currency, baseCurrency, rate),
+      baseCurrency,
+      exchangeRate: rate,
+    };
+  }
+
+  async findAll(userId: string, query: ListExchangeRatesDto) {
+    try {
+      const { page, limit, from, to, startDate, endDate } = query;
+
+      const filter: FilterQuery<ExchangeRateDocument> = {
+        userId: new Types.ObjectId(userId),
+      };
+      if (from) filter.from = from;
+      if (to) filter.to = to;
+      if (startDate || endDate) {
+        filter.date = {};
+        if (startDate) filter.date.$gte = toDay(startDate);
+        if (endDate) filter.date.$lte = endDate;
+      }
+
+      const [rates, total] = await Promise.all([
+        this.exchangeRateModel
+          .find(filter)
+          .sort({ date: -1, from: 1, to: 1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean(),
+        this.exchangeRateModel.countDocuments(filter),
+      ]);
+
+      return {
+        success: true,
+        message: 'Exchange rates retrieved successfully',
+        data: {
+          rates,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve exchange rates');
+    }
+  }
+
+  async create(userId: string, createExchangeRateDto: CreateExchangeRateDto) {
+    try {
+      const { from, to, rate: value, date } = createExchangeRateDto;
+      const fields = { from, to, rate: value, date: toDay(date) };
+      await this.assertUniqueDay(userId, fields);
+
+      const rate = await this.exchangeRateModel.create({
+        ...fields,
+        userId: new Types.ObjectId(userId),
+        source: 'manual',
+      });
+
+      return {
+        success: true,
+        message: 'Exchange rate created successfully',
+        data: {
+          rate: rate.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to create exchange rate');
+    }
+  }
+
+  async update(
+    userId: string,
+    id: string,
+    updateExchangeRateDto: UpdateExchangeRateDto,
+  ) {
+    try {
+      const rate = await this.findOwned(userId, id);
+
+      if (updateExchangeRateDto.rate !== undefined) {
+        rate.rate = updateExchangeRateDto.rate;
+      }
+      if (updateExchangeRateDto.date !== undefined) {
+        rate.date = toDay(updateExchangeRateDto.date);
+        await this.assertUniqueDay(userId, rate, rate._id as Types.ObjectId);
+      }
+      await rate.save();
+
+      return {
+        success: true,
+        message: 'Exchange rate updated successfully',
+        data: {
+          rate: rate.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to update exchange rate');
+    }
+  }
+
+  async remove(userId: string, id: string) {
+    try {
+      const rate = await this.findOwned(userId, id);
+      await rate.deleteOne();
+
+      return {
+        success: true,
+        message: 'Exchange rate deleted successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to delete exchange rate');
+    }
+  }
+
+  /**
+   * Import rates from a CSV file with `date,from,to,rate` columns (header row
+   * optional, any column order when present). Existing rates for the same
+   * pair and day are overwritten. Nothing is written if any row is invalid.
+   */
+  async importCsv(userId: string, file?: Express.Multer.File) {
+    try {
+      if (!file) {
+        throw new ValidationException('A CSV file is required');
+      }
+
+      const lines = file.buffer
+        .toString('utf8')
+        .replace(/^\uFEFF/, '')
+        .split(/\r?\n/);
+
+      let columns: readonly string[] = CSV_COLUMNS;
+      const firstRow = lines.findIndex((line) => line.trim() !== '');
+      const header = firstRow >= 0 ? lines[firstRow].split(',') : [];
+      const hasHeader = header.some((cell) => cell.trim().toLowerCase() === 'date');
+      if (hasHeader) {
+        columns = header.map((cell) => cell.trim().toLowerCase());
+        const missing = CSV_COLUMNS.filter((column) => !columns.includes(column));
+        if (missing.length > 0) {
+          throw new ValidationException(
+            `CSV header is missing columns: ${missing.join(', ')}`,
+          );
+        }
+      }
+
+      const rows: CreateExchangeRateDto[] = [];
+      const errors: Array<{ field?: string; message: string }> = [];
+      lines.forEach((line, index) => {
+        if (line.trim() === '' || (hasHeader && index === firstRow)) {
+          return;
+        }
+        const cells = line.split(',');
+        const record = Object.fromEntries(
+          columns.map((column, position) => [column, cells[position]?.trim()]),
+        );
+
+        const result = createExchangeRateSchema.safeParse({
+          ...record,
+          rate: Number(record.rate),
+        });
+        if (result.success) {
+          rows.push(result.data);
+        } else {
+          errors.push({
+            field: `line ${index + 1}`,
+            message: result.error.issues[0].message,
+          });
+        }
+      });
+
+      if (errors.length > 0) {
+        throw new ValidationException('Some rows could not be imported', errors);
+      }
+      if (rows.length === 0) {
+        throw new ValidationException('The CSV file contains no rates');
+      }
+
+      const ownerId = new Types.ObjectId(userId);
+      const result = await this.exchangeRateModel.bulkWrite(
+        rows.map((row) => {
+          const date = toDay(row.date);
+          return {
+            updateOne: {
+              filter: { userId: ownerId, from: row.from, to: row.to, date },
+              update: { $set: { rate: row.rate, source: 'import' } },
+              upsert: true,
+            },
+          };
+        }),
+      );
+
+      return {
+        success: true,
+        message: 'Exchange rates imported successfully',
+        data: {
+          created: result.upsertedCount,
+          updated: result.modifiedCount,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to import exchange rates');
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+import { listParam } from '../../common/validation/list-param.schema';
+import {
+  dateBoundSchema,
+  isOrderedDateRange,
+} from '../../common/validation/time-zone.schema';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const exportTransactionsSchema = z
+  .object({
+    format: z
+      .enum(EXPORT_FORMATS, {
+        errorMap: () => ({ message: 'Format must be csv, xlsx or json' }),
+      })
+      .default('csv'),
+    // A date (YYYY-MM-DD) covers its whole day in the user's time zone
+    from: dateBoundSchema.optional(),
+    to: dateBoundSchema.optional(),
+    accounts: listParam(objectIdSchema).optional(),
+    categories: listParam(objectIdSchema).optional(),
+    tags: listParam(objectIdSchema).optional(),
+  })
+  .refine(isOrderedDateRange, {
+    message: 'From date must be before to date',
+    path: ['from'],
+  });
+
+export class ExportTransactionsDto extends createZodDto(exportTransactionsSchema) {}
@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { ExportsService } from './exports.service';
+import { ExportTransactionsDto } from './dto/export-transactions.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ApiErrorResponseDto } from '../common/dto/api-response.dto';
+import { logError } from '../config/winston.config';
+
+@ApiTags('Exports')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('exports')
+export class ExportsController {
+  constructor(private readonly exportsService: ExportsService) {}
+
+  @Get('transactions')
+  @ApiOperation({ summary: 'Download transactions as CSV, XLSX or JSON' })
+  @ApiProduces(
+    'text/csv',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/json',
+  )
+  @ApiResponse({ status: 200, description: 'Export file streamed as an attachment' })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  async exportTransactions(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: ExportTransactionsDto,
+    @Res() res: Response,
+  ) {
+    const file = await this.exportsService.exportTransactions(user.userId, query);
+
+    res.status(200);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    try {
+      await file.write(res);
+    } catch (error) {
+      // Headers are already sent, so the client can only see a cut-off file
+      logError('Transaction export failed mid-stream', error);
+      res.destroy();
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ExportsController } from './exports.controller';
+import { ExportsService } from './exports.service';
+import { Transaction, TransactionSchema } from '../schemas/transaction.schema';
+import { Category, CategorySchema } from '../schemas/category.schema';
+import { Account, AccountSchema } from '../schemas/account.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { Tag, TagSchema } from '../schemas/tag.schema';
+import { Payee, PayeeSchema } from '../schemas/payee.schema';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: Category.name, schema: CategorySchema },
+      { name: Account.name, schema: AccountSchema },
+      { name: User.name, schema: UserSchema },
+      { name: Tag.name, schema: TagSchema },
+      { name: Payee.name, schema: PayeeSchema },
+    ]),
+    AuthModule,
+  ],
+  controllers: [ExportsController],
+  providers: [ExportsService],
+  exports: [ExportsService],
+})
+export class ExportsModule {}
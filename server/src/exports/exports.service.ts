@@ -0,0 +1,401 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import { Writable } from 'stream';
+import * as ExcelJS from 'exceljs';
+import {
+  Transaction,
+  TransactionDocument,
+} from '../schemas/transaction.schema';
+import { Category, CategoryDocument } from '../schemas/category.schema';
+import { Account, AccountDocument } from '../schemas/account.schema';
+import { User, UserDocument } from '../schemas/user.schema';
+import { Tag, TagDocument } from '../schemas/tag.schema';
+import { Payee, PayeeDocument } from '../schemas/payee.schema';
+import {
+  AppException,
+  NotFoundException,
+} from '../common/exceptions/app.exception';
+import { getMinorUnits, toMajorUnits } from '../common/money/money';
+import {
+  toDateRangeFilter,
+  toLocalDateString,
+} from '../common/dates/time-zone';
+import { lineCategoryFilter } from '../transactions/split-lines';
+import {
+  ExportFormat,
+  ExportTransactionsDto,
+} from './dto/export-transactions.dto';
+
+export interface TransactionExport {
+  fileName: string;
+  contentType: string;
+  // Streams the file into `stream` and ends it
+  write: (stream: Writable) => Promise<void>;
+}
+
+type LeanTransaction = Transaction & { _id: Types.ObjectId };
+
+interface ExportLookups {
+  accounts: Map<string, string>;
+  categories: Map<string, string>;
+  tags: Map<string, string>;
+  payees: Map<string, string>;
+  // Ids of the filtered categories; split lines outside them are left out
+  categoryScope?: Set<string>;
+  // Dates are written as the user's local calendar day
+  timezone: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+const COLUMNS = [
+  'Date',
+  'Type',
+  'Amount',
+  'Currency',
+  'Base amount',
+  'Base currency',
+  'Category',
+  'Account',
+  'Payee',
+  'Tags',
+  'Note',
+  'Id',
+] as const;
+
+/**
+ * Write a chunk and wait for the client to catch up when the socket buffer is
+ * full. Resolves early if the client disconnects so the caller can stop.
+ */
+const writeChunk = async (stream: Writable, chunk: string) => {
+  if (stream.write(chunk)) return;
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      stream.off('drain', done);
+      stream.off('close', done);
+      resolve();
+    };
+    stream.on('drain', done);
+    stream.on('close', done);
+  });
+};
+
+/**
+ * Spreadsheet apps run cells starting with these characters as formulas
+ */
+const escapeFormula = (value: string): string =>
+  /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const toCsvCell = (value: string | number): string => {
+  const text = typeof value === 'number' ? String(value) : escapeFormula(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Income and incoming transfers are positive, expenses and outgoing transfers
+ * negative, so a column sum gives the net change
+ */
+const signedAmount = (transaction: LeanTransaction, amount: number): number =>
+  transaction.type === 'expense' ||
+  (transaction.type === 'transfer' && transaction.transferDirection === 'out')
+    ? -amount
+    : amount;
+
+@Injectable()
+export class ExportsService {
+  constructor(
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(Tag.name) private tagModel: Model<TagDocument>,
+    @InjectModel(Payee.name) private payeeModel: Model<PayeeDocument>,
+  ) {}
+
+  /**
+   * Validate the filters and load the lookups up front, so any error is
+   * reported before the response starts streaming
+   */
+  async exportTransactions(
+    userId: string,
+    query: ExportTransactionsDto,
+  ): Promise<TransactionExport> {
+    try {
+      const userObjectId = new Types.ObjectId(userId);
+      const [user, accounts, categories, tags, payees] = await Promise.all([
+        this.userModel.findById(userObjectId).select('currency timezone').lean(),
+        this.accountModel.find({ userId: userObjectId }).lean(),
+        this.categoryModel.find({ userId: userObjectId }).lean(),
+        this.tagModel.find({ userId: userObjectId }).lean(),
+        this.payeeModel.find({ userId: userObjectId }).lean(),
+      ]);
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      const scope = query.categories?.length
+        ? this.categoryScope(query.categories, categories)
+        : undefined;
+      const timezone = user.timezone || 'UTC';
+      const filter = this.buildFilter(userObjectId, query, timezone, scope);
+      const lookups: ExportLookups = {
+        accounts: new Map(accounts.map((account) => [account._id.toString(), account.name])),
+        categories: new Map(
+          categories.map((category) => [category._id.toString(), category.name]),
+        ),
+        tags: new Map(tags.map((tag) => [tag._id.toString(), tag.name])),
+        payees: new Map(payees.map((payee) => [payee._id.toString(), payee.name])),
+        categoryScope: scope && new Set(scope.map(String)),
+        timezone,
+      };
+      const format = query.format ?? 'csv';
+
+      const write = async (stream: Writable) => {
+        if (format === 'xlsx') {
+          return this.writeXlsx(stream, filter, lookups);
+        }
+        if (format === 'json') {
+          return this.writeJson(stream, filter, {
+            exportedAt: new Date(),
+            baseCurrency: user.currency,
+            filters: {
+              from: query.from ?? null,
+              to: query.to ?? null,
+              accounts: query.accounts ?? [],
+              categories: query.categories ?? [],
+              tags: query.tags ?? [],
+            },
+            accounts,
+            categories,
+            tags,
+            payees,
+          });
+        }
+        return this.writeCsv(stream, filter, lookups);
+      };
+
+      return {
+        fileName: `transactions-${toLocalDateString(new Date(), timezone)}.${format}`,
+        contentType: CONTENT_TYPES[format],
+        write,
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to export transactions');
+    }
+  }
+
+  /**
+   * Category filters include the subcategories of each selected category,
+   * matching how budgets count spending
+   */
+  private categoryScope(
+    categoryIds: string[],
+    categories: { _id: Types.ObjectId; parent?: Types.ObjectId | null }[],
+  ): Types.ObjectId[] {
+    const selected = new Set(categoryIds);
+    return categories
+      .filter(
+        (category) =>
+          selected.has(category._id.toString()) ||
+          (category.parent && selected.has(category.parent.toString())),
+      )
+      .map((category) => category._id);
+  }
+
+  private buildFilter(
+    userId: Types.ObjectId,
+    query: ExportTransactionsDto,
+    timezone: string,
+    categoryScope?: Types.ObjectId[],
+  ): FilterQuery<TransactionDocument> {
+    const { from, to, accounts, tags } = query;
+
+    const filter: FilterQuery<TransactionDocument> = { userId };
+    if (accounts?.length) {
+      filter.account = { $in: accounts.map((id) => new Types.ObjectId(id)) };
+    }
+    if (categoryScope) {
+      Object.assign(filter, lineCategoryFilter(categoryScope));
+    }
+    if (tags?.length) {
+      filter.tags = { $in: tags.map((id) => new Types.ObjectId(id)) };
+    }
+    if (from || to) {
+      filter.date = toDateRangeFilter(from, to, timezone);
+    }
+    return filter;
+  }
+
+  /**
+   * Transactions are read through a cursor, so memory use stays flat however
+   * many rows are exported
+   */
+  private transactions(filter: FilterQuery<TransactionDocument>) {
+    return this.transactionModel
+      .find(filter)
+      .sort({ date: -1, _id: -1 })
+      .lean<LeanTransaction[]>()
+      .cursor();
+  }
+
+  /**
+   * One row per line: a split transaction gives a row for each of its lines,
+   * all sharing the transaction's id, so category totals add up
+   */
+  private toRows(transaction: LeanTransaction, lookups: ExportLookups) {
+    const lines = transaction.splits?.length
+      ? transaction.splits.filter(
+          (split) =>
+            !lookups.categoryScope ||
+            lookups.categoryScope.has(split.category?.toString()),
+        )
+      : [transaction];
+
+    return lines.map((line) => ({
+      date: transaction.date,
+      type: transaction.type,
+      amount: toMajorUnits(
+        signedAmount(transaction, line.amount),
+        transaction.currency,
+      ),
+      currency: transaction.currency,
+      baseAmount: toMajorUnits(
+        signedAmount(transaction, line.baseAmount),
+        transaction.baseCurrency,
+      ),
+      baseCurrency: transaction.baseCurrency,
+      category: lookups.categories.get(line.category?.toString()) ?? '',
+      account: lookups.accounts.get(transaction.account?.toString()) ?? '',
+      payee: lookups.payees.get(transaction.payee?.toString()) ?? '',
+      tags: (transaction.tags ?? [])
+        .map((tag) => lookups.tags.get(tag.toString()))
+        .filter(Boolean)
+        .join(', '),
+      note: line.note || transaction.note || '',
+      id: transaction._id.toString(),
+    }));
+  }
+
+  private async writeCsv(
+    stream: Writable,
+    filter: FilterQuery<TransactionDocument>,
+    lookups: ExportLookups,
+  ) {
+    // BOM so Excel opens the file as UTF-8
+    await writeChunk(stream, `\uFEFF${COLUMNS.join(',')}\r\n`);
+
+    for await (const transaction of this.transactions(filter)) {
+      if (stream.destroyed) break;
+      for (const row of this.toRows(transaction, lookups)) {
+        const cells = [
+          toLocalDateString(row.date, lookups.timezone),
+          row.type,
+          row.amount.toFixed(getMinorUnits(row.currency)),
+          row.currency,
+          row.baseAmount.toFixed(getMinorUnits(row.baseCurrency)),
+          row.baseCurrency,
+          row.category,
+          row.account,
+          row.payee,
+          row.tags,
+          row.note,
+          row.id,
+        ];
+        await writeChunk(stream, `${cells.map(toCsvCell).join(',')}\r\n`);
+      }
+    }
+    stream.end();
+  }
+
+  private async writeXlsx(
+    stream: Writable,
+    filter: FilterQuery<TransactionDocument>,
+    lookups: ExportLookups,
+  ) {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream,
+      useStyles: true,
+      useSharedStrings: false,
+    });
+    const sheet = workbook.addWorksheet('Transactions', {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    });
+    sheet.columns = [
+      { header: 'Date', key: 'date', width: 12, style: { numFmt: 'yyyy-mm-dd' } },
+      { header: 'Type', key: 'type', width: 10 },
+      { header: 'Amount', key: 'amount', width: 14 },
+      { header: 'Currency', key: 'currency', width: 10 },
+      { header: 'Base amount', key: 'baseAmount', width: 14 },
+      { header: 'Base currency', key: 'baseCurrency', width: 14 },
+      { header: 'Category', key: 'category', width: 20 },
+      { header: 'Account', key: 'account', width: 20 },
+      { header: 'Payee', key: 'payee', width: 20 },
+      { header: 'Tags', key: 'tags', width: 20 },
+      { header: 'Note', key: 'note', width: 40 },
+      { header: 'Id', key: 'id', width: 26 },
+    ];
+    sheet.getRow(1).font = { bold: true };
+    sheet.getRow(1).commit();
+
+    const numberFormat = (currency: string) => {
+      const digits = getMinorUnits(currency);
+      return digits > 0 ? `#,##0.${'0'.repeat(digits)}` : '#,##0';
+    };
+
+    for await (const transaction of this.transactions(filter)) {
+      if (stream.destroyed) break;
+      for (const values of this.toRows(transaction, lookups)) {
+        const row = sheet.addRow({
+          ...values,
+          // Excel dates have no time zone; write the local day as UTC midnight
+          date: new Date(
+            `${toLocalDateString(values.date, lookups.timezone)}T00:00:00Z`,
+          ),
+          category: escapeFormula(values.category),
+          account: escapeFormula(values.account),
+          payee: escapeFormula(values.payee),
+          tags: escapeFormula(values.tags),
+          note: escapeFormula(values.note),
+        });
+        row.getCell('amount').numFmt = numberFormat(values.currency);
+        row.getCell('baseAmount').numFmt = numberFormat(values.baseCurrency);
+        row.commit();
+      }
+    }
+
+    sheet.commit();
+    await workbook.commit();
+  }
+
+  /**
+   * Full-fidelity export: raw documents with amounts in minor units and the
+   * referenced accounts, categories, tags and payees, so nothing is lost on
+   * a round trip
+   */
+  private async writeJson(
+    stream: Writable,
+    filter: FilterQuery<TransactionDocument>,
+    header: Record<string, unknown>,
+  ) {
+    const head = JSON.stringify(header);
+    await writeChunk(stream, `${head.slice(0, -1)},"transactions":[`);
+
+    let first = true;
+    for await (const transaction of this.transactions(filter)) {
+      if (stream.destroyed) break;
+      await writeChunk(stream, `${first ? '' : ','}\n${JSON.stringify(transaction)}`);
+      first = false;
+    }
+    await writeChunk(stream, '\n]}\n');
+    stream.end();
+  }
+}
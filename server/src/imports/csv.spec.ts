@@ -0,0 +1,154 @@
+import {
+  CsvFormat,
+  detectDelimiter,
+  detectFormat,
+  parseCsv,
+  readCsvEntries,
+  suggestMapping,
+} from './csv';
+
+describe('csv', () => {
+  describe('parseCsv', () => {
+    it('splits rows and trims cells, dropping blank lines', () => {
+      expect(parseCsv('a, b ,c\r\n\r\n1,2,3\n', ',')).toEqual([
+        ['a', 'b', 'c'],
+        ['1', '2', '3'],
+      ]);
+    });
+
+    it('keeps delimiters, escaped quotes and line breaks inside quotes', () => {
+      expect(parseCsv('"b,c","say ""hi""","two\nlines"', ',')).toEqual([
+        ['b,c', 'say "hi"', 'two\nlines'],
+      ]);
+    });
+  });
+
+  describe('detectDelimiter', () => {
+    it('picks the delimiter giving the same number of columns', () => {
+      expect(
+        detectDelimiter('Date;Amount;Description\n2024-01-15;12,50;Coffee\n'),
+      ).toBe(';');
+      expect(detectDelimiter('Date\tAmount\n2024-01-15\t12.50\n')).toBe('\t');
+    });
+
+    it('falls back to a comma', () => {
+      expect(detectDelimiter('just one column\n')).toBe(',');
+    });
+  });
+
+  describe('suggestMapping', () => {
+    it('maps columns from common header names', () => {
+      const rows = [['Date', 'Description', 'Debit', 'Credit', 'Balance']];
+      expect(suggestMapping(rows, true)).toEqual({
+        date: 0,
+        description: 1,
+        debit: 2,
+        credit: 3,
+        balance: 4,
+      });
+    });
+
+    it('guesses from content without a header', () => {
+      const rows = [
+        ['2024-01-15', 'Coffee', '-3.50', '96.50'],
+        ['2024-01-16', 'Salary', '2000.00', '2096.50'],
+      ];
+      expect(suggestMapping(rows, false)).toEqual({
+        date: 0,
+        description: 1,
+        amount: 2,
+        balance: 3,
+      });
+    });
+  });
+
+  describe('detectFormat', () => {
+    it('detects the header, date layout and decimal mark', () => {
+      const { format, mapping } = detectFormat(
+        'Date,Description,Amount\n15/01/2024,Coffee,"-3,50"\n16/01/2024,Salary,"2.000,00"\n',
+      );
+      expect(format).toEqual({
+        delimiter: ',',
+        dateFormat: 'DD/MM/YYYY',
+        decimalSeparator: ',',
+        hasHeader: true,
+      });
+      expect(mapping).toEqual({ date: 0, description: 1, amount: 2 });
+    });
+
+    it('reads a file without a header', () => {
+      const { format, mapping } = detectFormat(
+        '01/13/2024,Coffee,-3.50\n01/14/2024,Salary,2000.00\n',
+      );
+      expect(format.hasHeader).toBe(false);
+      expect(format.dateFormat).toBe('MM/DD/YYYY');
+      expect(mapping.date).toBe(0);
+      expect(mapping.amount).toBe(2);
+    });
+  });
+
+  describe('readCsvEntries', () => {
+    const format: CsvFormat = {
+      delimiter: ',',
+      dateFormat: 'YYYY-MM-DD',
+      decimalSeparator: '.',
+      hasHeader: true,
+    };
+
+    it('reads a signed amount column', () => {
+      const entries = readCsvEntries(
+        'Date,Description,Amount,Balance\n2024-01-15,Coffee,-3.50,96.50\n',
+        format,
+        { date: 0, description: 1, amount: 2, balance: 3 },
+      );
+      expect(entries).toEqual([
+        {
+          row: 2,
+          date: new Date(Date.UTC(2024, 0, 15)),
+          description: 'Coffee',
+          amount: '-3.50',
+          balance: '96.50',
+        },
+      ]);
+    });
+
+    it('takes debits as money out whatever their sign', () => {
+      const entries = readCsvEntries(
+        [
+          'Date,Description,Debit,Credit',
+          '2024-01-15,Coffee,3.50,',
+          '2024-01-16,Fee,-1.00,0.00',
+          '2024-01-17,Salary,,2000.00',
+        ].join('\n'),
+        format,
+        { date: 0, description: 1, debit: 2, credit: 3 },
+      );
+      expect(entries.map((entry) => entry.amount)).toEqual([
+        '-3.50',
+        '-1.00',
+        '2000.00',
+      ]);
+    });
+
+    it('marks rows it cannot read', () => {
+      const entries = readCsvEntries(
+        [
+          'Date,Description,Debit,Credit',
+          '2024-01-15,Odd,1.00,2.00',
+          '15/01/2024,Typo,1.00,',
+        ].join('\n'),
+        format,
+        { date: 0, description: 1, debit: 2, credit: 3 },
+      );
+      expect(entries[0]).toMatchObject({
+        amount: null,
+        error: 'Row has both a debit and a credit',
+      });
+      expect(entries[1]).toMatchObject({
+        row: 3,
+        date: null,
+        error: 'Date does not match YYYY-MM-DD',
+      });
+    });
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Pure helpers for reading bank statement CSV exports. Banks disagree on
+ * delimiters, date layouts and decimal marks, so each of these is detected
+ * from the file and can then be overridden by the user.
+ */
+
+import {
+  DateFormat,
+  DecimalSeparator,
+  SAMPLE_SIZE,
+  StatementEntry,
+  detectDateFormat,
+  detectDecimalSeparator,
+  normalizeAmount,
+  parseDate,
+} from './statement';
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+export const CSV_FIELDS = [
+  'date',
+  'description',
+  'debit',
+  'credit',
+  'amount',
+  'balance',
+] as const;
+
+export type CsvField = (typeof CSV_FIELDS)[number];
+
+// Zero-based column index per field; unmapped fields are absent
+export type ColumnMapping = Partial<Record<CsvField, number>>;
+
+export interface CsvFormat {
+  delimiter: CsvDelimiter;
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+  hasHeader: boolean;
+}
+
+// Header names banks commonly use for each field
+const HEADER_ALIASES: Record<CsvField, RegExp> = {
+  date: /^(transaction |posting |value |booking )?date$|^datum$|^fecha$/,
+  description: /description|narration|details|memo|payee|particulars|reference/,
+  debit: /debit|withdrawal|paid out|money out/,
+  credit: /credit|deposit|paid in|money in/,
+  amount: /^(transaction )?amount$|^value$|^betrag$/,
+  balance: /balance/,
+};
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with embedded
+ * delimiters, escaped quotes ("") and line breaks; blank lines are dropped.
+ */
+export const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row.map((value) => value.trim()));
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+};
+
+/**
+ * Pick the delimiter that splits the first lines into the same, largest
+ * number of columns
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const sample = text.split(/\r?\n/).filter((line) => line.trim()).slice(0, 20).join('\n');
+
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const widths = parseCsv(sample, delimiter).map((row) => row.length);
+    if (widths.length === 0) continue;
+    const columns = Math.min(...widths);
+    const consistent = widths.filter((width) => width === widths[0]).length / widths.length;
+    const score = columns > 1 ? columns * consistent : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Suggest a column mapping from header names; when there is no header, the
+ * date column is the first one whose cells all parse as dates
+ */
+export const suggestMapping = (
+  rows: string[][],
+  hasHeader: boolean,
+): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  if (hasHeader && rows.length > 0) {
+    const header = rows[0].map((cell) => cell.toLowerCase());
+    for (const field of CSV_FIELDS) {
+      const index = header.findIndex(
+        (name, position) =>
+          HEADER_ALIASES[field].test(name) &&
+          !Object.values(mapping).includes(position),
+      );
+      if (index >= 0) mapping[field] = index;
+    }
+    return mapping;
+  }
+
+  // Without names, guess from content: the first date column, numeric
+  // columns as amount then balance, and the first text column as description
+  const sample = rows.slice(0, SAMPLE_SIZE);
+  const numeric: number[] = [];
+  const width = sample[0]?.length ?? 0;
+  for (let column = 0; column < width; column++) {
+    const values = sample.map((row) => row[column] ?? '');
+    if (mapping.date === undefined && detectDateFormat(values)) {
+      mapping.date = column;
+    } else if (values.every((value) => normalizeAmount(value, '.') !== null)) {
+      numeric.push(column);
+    } else if (mapping.description === undefined) {
+      mapping.description = column;
+    }
+  }
+  if (numeric.length > 0) mapping.amount = numeric[0];
+  if (numeric.length > 1) mapping.balance = numeric[numeric.length - 1];
+  return mapping;
+};
+
+/**
+ * Detect the file's format: delimiter first, then whether the first row is a
+ * header (it has no parseable date where the data rows do), then the date
+ * layout and decimal mark of the data rows
+ */
+export const detectFormat = (
+  text: string,
+): { format: CsvFormat; rows: string[][]; mapping: ColumnMapping } => {
+  const delimiter = detectDelimiter(text);
+  const rows = parseCsv(text, delimiter);
+
+  const dataMapping = suggestMapping(rows.slice(1), false);
+  const dateColumn = dataMapping.date;
+  const hasHeader =
+    rows.length > 1 &&
+    (dateColumn === undefined ||
+      detectDateFormat([rows[0][dateColumn] ?? '']) === null);
+
+  const mapping = suggestMapping(rows, hasHeader);
+  if (mapping.date === undefined && dateColumn !== undefined) {
+    mapping.date = dateColumn;
+  }
+
+  const data = hasHeader ? rows.slice(1) : rows;
+  const dateFormat =
+    mapping.date !== undefined
+      ? detectDateFormat(data.map((row) => row[mapping.date] ?? ''))
+      : null;
+
+  const amountColumns = [mapping.amount, mapping.debit, mapping.credit].filter(
+    (column): column is number => column !== undefined,
+  );
+  const numericCells = data.flatMap((row) =>
+    amountColumns.map((column) => row[column] ?? ''),
+  );
+
+  return {
+    format: {
+      delimiter,
+      dateFormat: dateFormat ?? 'YYYY-MM-DD',
+      decimalSeparator: detectDecimalSeparator(numericCells),
+      hasHeader,
+    },
+    rows,
+    mapping,
+  };
+};
+
+/**
+ * Read the data rows of a CSV file as statement entries using a column
+ * mapping. A debit column is taken as money out whatever its sign.
+ */
+export const readCsvEntries = (
+  text: string,
+  format: CsvFormat,
+  mapping: ColumnMapping,
+): StatementEntry[] => {
+  const rows = parseCsv(text, format.delimiter);
+  const offset = format.hasHeader ? 1 : 0;
+
+  return rows.slice(offset).map((cells, index) => {
+    const cell = (column?: number) =>
+      column === undefined ? '' : (cells[column] ?? '');
+    const amount = (column?: number) =>
+      normalizeAmount(cell(column), format.decimalSeparator);
+
+    const entry: StatementEntry = {
+      row: index + offset + 1,
+      date: parseDate(cell(mapping.date), format.dateFormat),
+      description: cell(mapping.description),
+      amount: null,
+      balance: amount(mapping.balance),
+    };
+    if (!entry.date) {
+      entry.error = `Date does not match ${format.dateFormat}`;
+    }
+
+    if (mapping.amount !== undefined) {
+      entry.amount = amount(mapping.amount);
+      return entry;
+    }
+
+    const isZero = (value: string | null) => !value || !/[1-9]/.test(value);
+    const debit = amount(mapping.debit);
+    const credit = amount(mapping.credit);
+    if (!isZero(debit) && !isZero(credit)) {
+      entry.error = 'Row has both a debit and a credit';
+    } else if (!isZero(debit)) {
+      entry.amount = `-${debit.replace(/^-/, '')}`;
+    } else if (!isZero(credit)) {
+      entry.amount = credit.replace(/^-/, '');
+    }
+    return entry;
+  });
+};
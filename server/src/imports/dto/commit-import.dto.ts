@@ -0,0 +1,22 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+import { importOptionsShape } from './import-options.schema';
+
+const rowNumbersSchema = z
+  .array(z.number().int().min(1, 'Row numbers start at 1'))
+  .max(10000, 'Too many rows')
+  .default([]);
+
+export const commitImportSchema = z.object({
+  ...importOptionsShape,
+  // Rows flagged as probable duplicates that should be imported anyway
+  includeDuplicates: rowNumbersSchema,
+  // Rows the user unticked in the preview
+  excludeRows: rowNumbersSchema,
+  // Category chosen for each category name in the file that did not match
+  // one of ours (QIF); null imports those rows uncategorized
+  categoryMap: z.record(z.string(), objectIdSchema.nullable()).default({}),
+});
+
+export class CommitImportDto extends createZodDto(commitImportSchema) {}
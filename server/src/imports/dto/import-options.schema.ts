@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+import { CSV_DELIMITERS } from '../csv';
+import { DATE_FORMATS, DECIMAL_SEPARATORS } from '../statement';
+
+const columnSchema = z
+  .number()
+  .int('Column must be a whole number')
+  .min(0, 'Column must be at least 0');
+
+export const columnMappingSchema = z.object({
+  date: columnSchema.optional(),
+  description: columnSchema.optional(),
+  debit: columnSchema.optional(),
+  credit: columnSchema.optional(),
+  amount: columnSchema.optional(),
+  balance: columnSchema.optional(),
+});
+
+/**
+ * Overrides for the format detected at upload; anything omitted keeps the
+ * detected value. Delimiter, header and mapping apply to CSV files, date
+ * format and decimal separator to CSV and QIF.
+ */
+export const importOptionsShape = {
+  account: objectIdSchema,
+  delimiter: z
+    .enum(CSV_DELIMITERS, {
+      errorMap: () => ({ message: 'Delimiter must be a comma, semicolon, tab or pipe' }),
+    })
+    .optional(),
+  dateFormat: z
+    .enum(DATE_FORMATS, {
+      errorMap: () => ({
+        message: `Date format must be one of: ${DATE_FORMATS.join(', ')}`,
+      }),
+    })
+    .optional(),
+  decimalSeparator: z
+    .enum(DECIMAL_SEPARATORS, {
+      errorMap: () => ({ message: 'Decimal separator must be "." or ","' }),
+    })
+    .optional(),
+  hasHeader: z.boolean().optional(),
+  mapping: columnMappingSchema.optional(),
+};
@@ -0,0 +1,7 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { importOptionsShape } from './import-options.schema';
+
+export const previewImportSchema = z.object(importOptionsShape);
+
+export class PreviewImportDto extends createZodDto(previewImportSchema) {}
@@ -0,0 +1,189 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import { ImportsService } from './imports.service';
+import { PreviewImportDto } from './dto/preview-import.dto';
+import { CommitImportDto } from './dto/commit-import.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ParseObjectIdPipe } from '../common/pipes/parse-object-id.pipe';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+
+// Several years of a busy account stays well under 5 MB in any format
+const MAX_STATEMENT_SIZE = 5 * 1024 * 1024;
+
+@ApiTags('Imports')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('imports')
+export class ImportsController {
+  constructor(private readonly importsService: ImportsService) {}
+
+  @Post('csv')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_STATEMENT_SIZE } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiOperation({ summary: 'Upload a bank statement CSV and detect its format' })
+  @ApiResponse({
+    status: 201,
+    description: 'CSV file uploaded successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid CSV file', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async uploadCsv(
+    @CurrentUser() user: { userId: string; email: string },
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.importsService.upload(user.userId, 'csv', file);
+  }
+
+  @Post('ofx')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_STATEMENT_SIZE } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiOperation({ summary: 'Upload an OFX 1.x/2.x or QFX statement' })
+  @ApiResponse({
+    status: 201,
+    description: 'OFX file uploaded successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid OFX file', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async uploadOfx(
+    @CurrentUser() user: { userId: string; email: string },
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.importsService.upload(user.userId, 'ofx', file);
+  }
+
+  @Post('qif')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_STATEMENT_SIZE } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiOperation({ summary: 'Upload a QIF file and detect its date format' })
+  @ApiResponse({
+    status: 201,
+    description: 'QIF file uploaded successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid QIF file', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async uploadQif(
+    @CurrentUser() user: { userId: string; email: string },
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.importsService.upload(user.userId, 'qif', file);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an import with its detected format and sample rows' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Import not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async findOne(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.importsService.findOne(user.userId, id);
+  }
+
+  @Post(':id/preview')
+  @ApiOperation({ summary: 'Parse all rows, flag duplicates and match category names' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import previewed successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Import not found', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Import already committed', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async preview(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() previewImportDto: PreviewImportDto,
+  ) {
+    return this.importsService.preview(user.userId, id, previewImportDto);
+  }
+
+  @Post(':id/commit')
+  @ApiOperation({ summary: 'Create transactions from the previewed rows' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import committed successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Import not found', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Import already committed', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async commit(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() commitImportDto: CommitImportDto,
+  ) {
+    return this.importsService.commit(user.userId, id, commitImportDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Discard a pending import' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import discarded successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Import not found', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Import already committed', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async remove(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.importsService.remove(user.userId, id);
+  }
+}
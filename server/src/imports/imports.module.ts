@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ImportsController } from './imports.controller';
+import { ImportsService } from './imports.service';
+import {
+  ImportBatch,
+  ImportBatchSchema,
+} from '../schemas/import-batch.schema';
+import { Transaction, TransactionSchema } from '../schemas/transaction.schema';
+import { Category, CategorySchema } from '../schemas/category.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { AuthModule } from '../auth/auth.module';
+import { TransactionsModule } from '../transactions/transactions.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ImportBatch.name, schema: ImportBatchSchema },
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: Category.name, schema: CategorySchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    AuthModule,
+    TransactionsModule,
+  ],
+  controllers: [ImportsController],
+  providers: [ImportsService],
+  exports: [ImportsService],
+})
+export class ImportsModule {}
@@ -0,0 +1,209 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ImportsService } from './imports.service';
+import { ImportBatch } from '../schemas/import-batch.schema';
+import { Transaction } from '../schemas/transaction.schema';
+import { Category } from '../schemas/category.schema';
+import { User } from '../schemas/user.schema';
+import { TransactionsService } from '../transactions/transactions.service';
+
+jest.mock('../config/winston.config');
+
+describe('ImportsService', () => {
+  let service: ImportsService;
+  let batch: Record<string, any>;
+  let existing: Record<string, any>[];
+  let imported: Record<string, any>[];
+  let timezone: string;
+  const userId = new Types.ObjectId().toString();
+  const accountId = new Types.ObjectId().toString();
+
+  const importBatchModel = { findOne: jest.fn(async () => batch) };
+  // The bank-id lookup filters on externalId; the similarity lookup on date
+  const transactionModel = {
+    find: jest.fn((filter: Record<string, any>) => ({
+      select: () => ({
+        lean: async () => (filter.externalId ? imported : existing),
+      }),
+    })),
+  };
+  const categoryModel = {
+    find: jest.fn(() => ({ select: () => ({ lean: async () => [] }) })),
+  };
+  const userModel = {
+    findById: jest.fn(() => ({
+      select: () => ({ lean: async () => ({ timezone }) }),
+    })),
+  };
+  const transactionsService = {
+    assertAccount: jest.fn(async () => ({ currency: 'USD' })),
+  };
+
+  const csvBatch = (lines: string[]) => ({
+    _id: new Types.ObjectId(),
+    status: 'pending',
+    format: 'csv',
+    content: ['Date,Description,Amount', ...lines].join('\n'),
+    detected: {
+      delimiter: ',',
+      dateFormat: 'YYYY-MM-DD',
+      decimalSeparator: '.',
+      hasHeader: true,
+      mapping: { date: 0, description: 1, amount: 2 },
+    },
+    committedRows: [],
+  });
+
+  const preview = async () => {
+    const { data } = await service.preview(userId, batch._id.toString(), {
+      account: accountId,
+    });
+    return data;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    existing = [];
+    imported = [];
+    timezone = 'UTC';
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ImportsService,
+        {
+          provide: getModelToken(ImportBatch.name),
+          useValue: importBatchModel,
+        },
+        {
+          provide: getModelToken(Transaction.name),
+          useValue: transactionModel,
+        },
+        { provide: getModelToken(Category.name), useValue: categoryModel },
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: TransactionsService, useValue: transactionsService },
+      ],
+    }).compile();
+    service = moduleRef.get(ImportsService);
+  });
+
+  it('flags rows matching an existing transaction by day, amount and description', async () => {
+    const coffee = {
+      _id: new Types.ObjectId(),
+      date: new Date('2024-01-15T08:30:00Z'),
+      amount: 350,
+      type: 'expense',
+      note: 'COFFEE SHOP 12345678',
+    };
+    existing = [coffee];
+    batch = csvBatch([
+      '2024-01-15,Coffee shop,-3.50',
+      '2024-01-15,Coffee shop,3.50',
+      '2024-01-15,Bakery,-3.50',
+    ]);
+
+    const { rows, summary } = await preview();
+    expect(rows.map((row) => row.status)).toEqual(['duplicate', 'new', 'new']);
+    expect(rows[0].duplicateOf).toEqual(coffee._id);
+    expect(summary).toMatchObject({ total: 3, new: 2, duplicates: 1 });
+  });
+
+  it('compares days in the user time zone', async () => {
+    timezone = 'America/Los_Angeles';
+    const dinner = {
+      _id: new Types.ObjectId(),
+      // 20:00 on Jan 15 in Los Angeles
+      date: new Date('2024-01-16T04:00:00Z'),
+      amount: 4200,
+      type: 'expense',
+      note: 'Dinner',
+    };
+    existing = [dinner];
+    batch = csvBatch(['2024-01-15,Dinner,-42.00', '2024-01-16,Dinner,-42.00']);
+
+    const { rows } = await preview();
+    expect(rows.map((row) => row.status)).toEqual(['duplicate', 'new']);
+    // Rows are dated at the start of their local day
+    expect(rows[0].date).toEqual(new Date('2024-01-15T08:00:00Z'));
+    expect(transactionModel.find).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        date: {
+          $gte: new Date('2024-01-15T08:00:00Z'),
+          $lt: new Date('2024-01-17T08:00:00Z'),
+        },
+      }),
+    );
+  });
+
+  it('lets each existing transaction absorb one row only', async () => {
+    existing = [
+      {
+        _id: new Types.ObjectId(),
+        date: new Date('2024-01-15T00:00:00Z'),
+        amount: 350,
+        type: 'expense',
+        note: 'Coffee',
+      },
+    ];
+    batch = csvBatch(['2024-01-15,Coffee,-3.50', '2024-01-15,Coffee,-3.50']);
+
+    const { rows } = await preview();
+    expect(rows.map((row) => row.status)).toEqual(['duplicate', 'new']);
+  });
+
+  it('signs outgoing transfers when comparing amounts', async () => {
+    existing = [
+      {
+        _id: new Types.ObjectId(),
+        date: new Date('2024-01-20T00:00:00Z'),
+        amount: 10000,
+        type: 'transfer',
+        transferDirection: 'out',
+        note: 'To savings',
+      },
+    ];
+    batch = csvBatch(['2024-01-20,Transfer to savings,-100.00']);
+
+    const { rows } = await preview();
+    expect(rows[0].status).toBe('duplicate');
+  });
+
+  it('marks rows the batch already posted and skips its own transactions', async () => {
+    batch = {
+      ...csvBatch(['2024-01-15,Coffee,-3.50', '2024-01-16,Lunch,-9.00']),
+      committedRows: [2],
+    };
+
+    const { rows } = await preview();
+    expect(rows.map((row) => row.status)).toEqual(['imported', 'new']);
+    expect(transactionModel.find).toHaveBeenCalledWith(
+      expect.objectContaining({ importBatchId: { $ne: batch._id } }),
+    );
+  });
+
+  it('marks rows whose bank id is already on the account', async () => {
+    const transactionId = new Types.ObjectId();
+    imported = [{ _id: transactionId, externalId: 'A1' }];
+    batch = {
+      _id: new Types.ObjectId(),
+      status: 'pending',
+      format: 'ofx',
+      content: [
+        '<?OFX OFXHEADER="200"?><OFX><BANKTRANLIST>',
+        '<STMTTRN><DTPOSTED>20240115</DTPOSTED><TRNAMT>-3.50</TRNAMT><FITID>A1</FITID><NAME>Coffee</NAME></STMTTRN>',
+        '<STMTTRN><DTPOSTED>20240116</DTPOSTED><TRNAMT>-9.00</TRNAMT><FITID>A2</FITID><NAME>Lunch</NAME></STMTTRN>',
+        '</BANKTRANLIST></OFX>',
+      ].join('\n'),
+      detected: {},
+      committedRows: [],
+    };
+
+    const { rows, summary } = await preview();
+    expect(rows[0]).toMatchObject({
+      status: 'imported',
+      duplicateOf: transactionId,
+    });
+    expect(rows[1].status).toBe('new');
+    expect(summary).toMatchObject({ new: 1, imported: 1 });
+  });
+});
@@ -0,0 +1,760 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ImportBatch,
+  ImportBatchDocument,
+  ImportFormat,
+} from '../schemas/import-batch.schema';
+import {
+  Transaction,
+  TransactionDocument,
+} from '../schemas/transaction.schema';
+import { Category, CategoryDocument } from '../schemas/category.schema';
+import { User, UserDocument } from '../schemas/user.schema';
+import {
+  AppException,
+  ConflictException,
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { toMinorUnits } from '../common/money/money';
+import {
+  addDays,
+  startOfLocalDay,
+  toLocalDateString,
+} from '../common/dates/time-zone';
+import { TransactionsService } from '../transactions/transactions.service';
+import {
+  ColumnMapping,
+  CsvFormat,
+  detectFormat,
+  parseCsv,
+  readCsvEntries,
+} from './csv';
+import { isOfx, parseOfx } from './ofx';
+import { QifFormat, detectQifFormat, isQif, parseQif } from './qif';
+import { StatementEntry, isSimilarDescription } from './statement';
+import { PreviewImportDto } from './dto/preview-import.dto';
+import { CommitImportDto } from './dto/commit-import.dto';
+
+// "imported" rows carry a bank id (FITID) already on the account, or were
+// posted by an earlier commit of the batch that failed part-way, and are
+// never imported again; "duplicate" rows only look like an existing one
+export type ImportRowStatus = 'new' | 'duplicate' | 'imported' | 'invalid';
+
+export interface ImportRow {
+  row: number;
+  date: Date | null;
+  description: string;
+  type: 'income' | 'expense' | null;
+  amount: number | null;
+  balance: number | null;
+  externalId?: string;
+  category?: string;
+  status: ImportRowStatus;
+  error?: string;
+  duplicateOf?: Types.ObjectId;
+}
+
+// How a category name found in the file lines up with the user's categories
+export interface CategoryMatch {
+  name: string;
+  type: 'income' | 'expense';
+  rows: number;
+  category: Types.ObjectId | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Pending imports are kept for a day before Mongo removes them
+const PENDING_TTL_MS = DAY_MS;
+
+const SAMPLE_ROWS = 10;
+
+// Category paths are compared as "parent:child", ignoring case and spacing
+const toCategoryPath = (name: string): string =>
+  name
+    .split(':')
+    .map((part) => part.trim().toLowerCase())
+    .join(':');
+
+@Injectable()
+export class ImportsService {
+  constructor(
+    @InjectModel(ImportBatch.name)
+    private importBatchModel: Model<ImportBatchDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private transactionsService: TransactionsService,
+  ) {}
+
+  private async findOwned(userId: string, id: string) {
+    const batch = await this.importBatchModel.findOne({
+      _id: new Types.ObjectId(id),
+      userId: new Types.ObjectId(userId),
+    });
+    if (!batch) {
+      throw new NotFoundException('Import not found');
+    }
+    return batch;
+  }
+
+  private async findPending(userId: string, id: string) {
+    const batch = await this.findOwned(userId, id);
+    if (batch.status !== 'pending') {
+      throw new ConflictException('This import has already been committed');
+    }
+    return batch;
+  }
+
+  /**
+   * Summary of a batch for API responses; the raw file content stays on the
+   * server. Pending CSV batches include headers and sample rows for mapping.
+   */
+  private toSummary(batch: ImportBatchDocument) {
+    const { content, ...summary } = batch.toObject();
+    if (batch.status !== 'pending') {
+      return summary;
+    }
+
+    if (batch.format !== 'csv') {
+      const { entries } = this.readEntries(batch, {} as PreviewImportDto);
+      return { ...summary, rowCount: entries.length };
+    }
+
+    const { delimiter, hasHeader } = batch.detected as unknown as CsvFormat;
+    const rows = parseCsv(content, delimiter);
+    const offset = hasHeader ? 1 : 0;
+    return {
+      ...summary,
+      headers: hasHeader ? rows[0] : null,
+      sample: rows.slice(offset, offset + SAMPLE_ROWS),
+      rowCount: rows.length - offset,
+    };
+  }
+
+  /**
+   * Merge the user's overrides over the detected CSV format and check the
+   * mapping can produce a date and an amount for every row
+   */
+  private resolveCsvOptions(
+    batch: ImportBatchDocument,
+    options: PreviewImportDto,
+  ): { format: CsvFormat; mapping: ColumnMapping } {
+    const detected = batch.detected as unknown as CsvFormat & {
+      mapping: ColumnMapping;
+    };
+    const format: CsvFormat = {
+      delimiter: options.delimiter ?? detected.delimiter,
+      dateFormat: options.dateFormat ?? detected.dateFormat,
+      decimalSeparator: options.decimalSeparator ?? detected.decimalSeparator,
+      hasHeader: options.hasHeader ?? detected.hasHeader,
+    };
+    const mapping: ColumnMapping = options.mapping ?? detected.mapping;
+
+    if (mapping.date === undefined) {
+      throw new ValidationException('Map a column to the transaction date');
+    }
+    const hasAmount = mapping.amount !== undefined;
+    const hasDebitCredit =
+      mapping.debit !== undefined || mapping.credit !== undefined;
+    if (hasAmount === hasDebitCredit) {
+      throw new ValidationException(
+        'Map either an amount column or debit/credit columns',
+      );
+    }
+    const columns = Object.values(mapping);
+    if (new Set(columns).size !== columns.length) {
+      throw new ValidationException('Each column can only be mapped once');
+    }
+
+    return { format, mapping };
+  }
+
+  /**
+   * Read a batch's entries with its detected format and the user's
+   * overrides. Returns the settings used so the client can show them.
+   */
+  private readEntries(batch: ImportBatchDocument, options: PreviewImportDto) {
+    switch (batch.format) {
+      case 'ofx': {
+        const { currency, entries } = parseOfx(batch.content);
+        return { entries, settings: { currency }, currency };
+      }
+      case 'qif': {
+        const detected = batch.detected as unknown as QifFormat;
+        const format: QifFormat = {
+          dateFormat: options.dateFormat ?? detected.dateFormat,
+          decimalSeparator:
+            options.decimalSeparator ?? detected.decimalSeparator,
+        };
+        return { entries: parseQif(batch.content, format), settings: { format } };
+      }
+      default: {
+        const { format, mapping } = this.resolveCsvOptions(batch, options);
+        return {
+          entries: readCsvEntries(batch.content, format, mapping),
+          settings: { format, mapping },
+        };
+      }
+    }
+  }
+
+  /**
+   * Convert entries into candidate transactions in the account's currency,
+   * dated at the start of the statement day in the user's time zone;
+   * entries that cannot be read are kept and marked invalid
+   */
+  private toRows(
+    entries: StatementEntry[],
+    currency: string,
+    timezone: string,
+  ): ImportRow[] {
+    return entries.map((entry) => {
+      const row: ImportRow = {
+        row: entry.row,
+        // Statement dates are calendar days, parsed as UTC midnight
+        date: entry.date
+          ? startOfLocalDay(entry.date.toISOString().slice(0, 10), timezone)
+          : null,
+        description: entry.description.slice(0, 500),
+        type: null,
+        amount: null,
+        balance: null,
+        externalId: entry.externalId,
+        category: entry.category,
+        status: 'new',
+      };
+
+      try {
+        if (entry.balance) {
+          row.balance = toMinorUnits(entry.balance, currency);
+        }
+        if (entry.error) {
+          throw new ValidationException(entry.error);
+        }
+        const signed = entry.amount ? toMinorUnits(entry.amount, currency) : 0;
+        if (!signed) {
+          throw new ValidationException('Row has no amount');
+        }
+        row.type = signed < 0 ? 'expense' : 'income';
+        row.amount = Math.abs(signed);
+      } catch (error: unknown) {
+        row.status = 'invalid';
+        row.error =
+          error instanceof AppException ? error.message : 'Row could not be read';
+      }
+      return row;
+    });
+  }
+
+  /**
+   * Mark rows whose bank id is already on the account or that the batch has
+   * already posted, then flag rows matching an existing transaction: same
+   * day in the user's time zone, same signed amount and a similar description. Each existing
+   * transaction absorbs at most one row, so two identical coffees in the file
+   * against one in the account still import the second.
+   */
+  private async flagDuplicates(
+    userId: string,
+    accountId: Types.ObjectId,
+    batch: ImportBatchDocument,
+    rows: ImportRow[],
+    timezone: string,
+  ) {
+    const ownerId = new Types.ObjectId(userId);
+    const toDayKey = (date: Date) => toLocalDateString(date, timezone);
+
+    const committed = new Set(batch.committedRows);
+    for (const row of rows) {
+      if (row.status === 'new' && committed.has(row.row)) {
+        row.status = 'imported';
+      }
+    }
+
+    const externalIds = rows
+      .filter((row) => row.status === 'new' && row.externalId)
+      .map((row) => row.externalId);
+    if (externalIds.length > 0) {
+      const imported = await this.transactionModel
+        .find({ userId: ownerId, account: accountId, externalId: { $in: externalIds } })
+        .select('externalId')
+        .lean();
+      const byExternalId = new Map(
+        imported.map((transaction) => [transaction.externalId, transaction._id]),
+      );
+      for (const row of rows) {
+        if (row.status === 'new' && byExternalId.has(row.externalId)) {
+          row.status = 'imported';
+          row.duplicateOf = byExternalId.get(row.externalId);
+        }
+      }
+    }
+
+    const candidates = rows.filter((row) => row.status === 'new');
+    if (candidates.length === 0) {
+      return;
+    }
+
+    const times = candidates.map((row) => row.date.getTime());
+    const lastDay = toDayKey(new Date(Math.max(...times)));
+    const existing = await this.transactionModel
+      .find({
+        userId: ownerId,
+        account: accountId,
+        // Rows the batch posted itself are no evidence of a duplicate
+        importBatchId: { $ne: batch._id },
+        date: {
+          $gte: new Date(Math.min(...times)),
+          $lt: startOfLocalDay(addDays(lastDay, 1), timezone),
+        },
+      })
+      .select('date amount type transferDirection note')
+      .lean();
+
+    const byKey = new Map<string, typeof existing>();
+    for (const transaction of existing) {
+      const outgoing =
+        transaction.type === 'expense' || transaction.transferDirection === 'out';
+      const key = `${toDayKey(transaction.date)}|${outgoing ? -transaction.amount : transaction.amount}`;
+      byKey.set(key, [...(byKey.get(key) ?? []), transaction]);
+    }
+
+    for (const row of candidates) {
+      const signed = row.type === 'expense' ? -row.amount : row.amount;
+      const matches = byKey.get(`${toDayKey(row.date)}|${signed}`) ?? [];
+      const index = matches.findIndex((transaction) =>
+        isSimilarDescription(row.description, transaction.note),
+      );
+      if (index >= 0) {
+        row.status = 'duplicate';
+        row.duplicateOf = matches[index]._id;
+        matches.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Match the category names used in the file ("Parent:Child") against the
+   * user's active categories of the same type. Unmatched names must be
+   * reconciled by the user before committing.
+   */
+  private async matchCategories(
+    userId: string,
+    rows: ImportRow[],
+  ): Promise<CategoryMatch[]> {
+    const usage = new Map<string, { income: number; expense: number }>();
+    for (const row of rows) {
+      if (!row.category || !row.type) continue;
+      const counts = usage.get(row.category) ?? { income: 0, expense: 0 };
+      counts[row.type]++;
+      usage.set(row.category, counts);
+    }
+    if (usage.size === 0) {
+      return [];
+    }
+
+    const categories = await this.categoryModel
+      .find({ userId: new Types.ObjectId(userId), isArchived: false })
+      .select('name type parent')
+      .lean();
+    const names = new Map(
+      categories.map((category) => [category._id.toString(), category.name]),
+    );
+    const byPath = new Map(
+      categories.map((category) => {
+        const parent = category.parent
+          ? `${names.get(category.parent.toString())}:`
+          : '';
+        return [
+          `${category.type}|${toCategoryPath(parent + category.name)}`,
+          category._id,
+        ];
+      }),
+    );
+
+    return [...usage.entries()].map(([name, counts]) => {
+      const type = counts.expense >= counts.income ? 'expense' : 'income';
+      return {
+        name,
+        type,
+        rows: counts.income + counts.expense,
+        category: byPath.get(`${type}|${toCategoryPath(name)}`) ?? null,
+      };
+    });
+  }
+
+  private async buildPreview(
+    userId: string,
+    batch: ImportBatchDocument,
+    options: PreviewImportDto,
+  ) {
+    const accountId = new Types.ObjectId(options.account);
+    const account = await this.transactionsService.assertAccount(
+      userId,
+      accountId,
+    );
+
+    const { entries, settings, currency } = this.readEntries(batch, options);
+    if (currency && currency !== account.currency) {
+      throw new ValidationException(
+        `The statement is in ${currency} but the account is in ${account.currency}`,
+      );
+    }
+
+    const user = await this.userModel
+      .findById(userId)
+      .select('timezone')
+      .lean();
+    const timezone = user?.timezone || 'UTC';
+
+    const rows = this.toRows(entries, account.currency, timezone);
+    await this.flagDuplicates(userId, accountId, batch, rows, timezone);
+    const categories = await this.matchCategories(userId, rows);
+
+    const count = (status: ImportRowStatus) =>
+      rows.filter((row) => row.status === status).length;
+
+    return {
+      accountId,
+      ...settings,
+      currency: account.currency,
+      rows,
+      categories,
+      summary: {
+        total: rows.length,
+        new: count('new'),
+        duplicates: count('duplicate'),
+        imported: count('imported'),
+        invalid: count('invalid'),
+      },
+    };
+  }
+
+  /**
+   * Category to post each file category name under: the automatic match,
+   * otherwise the user's choice from the reconciliation step
+   */
+  private async resolveCategories(
+    userId: string,
+    categories: CategoryMatch[],
+    categoryMap: Record<string, string | null>,
+  ) {
+    const unresolved = categories.filter(
+      (match) => !match.category && !(match.name in categoryMap),
+    );
+    if (unresolved.length > 0) {
+      throw new ValidationException(
+        'Choose a category for each unrecognised category name',
+        unresolved.map((match) => ({
+          field: `categoryMap.${match.name}`,
+          message: `No ${match.type} category named "${match.name}"`,
+        })),
+      );
+    }
+
+    const chosenIds = Object.values(categoryMap).filter(Boolean);
+    const chosen = await this.categoryModel
+      .find({
+        _id: { $in: chosenIds.map((id) => new Types.ObjectId(id)) },
+        userId: new Types.ObjectId(userId),
+        isArchived: false,
+      })
+      .select('type')
+      .lean();
+    const types = new Map(
+      chosen.map((category) => [category._id.toString(), category.type]),
+    );
+    const missing = chosenIds.find((id) => !types.has(id));
+    if (missing) {
+      throw new ValidationException(`Category ${missing} not found`);
+    }
+
+    return new Map(
+      categories.map((match) => {
+        const id = match.category?.toString() ?? categoryMap[match.name];
+        return [
+          match.name,
+          id ? { id, type: types.get(id) ?? match.type } : null,
+        ];
+      }),
+    );
+  }
+
+  async findOne(userId: string, id: string) {
+    try {
+      const batch = await this.findOwned(userId, id);
+
+      return {
+        success: true,
+        message: 'Import retrieved successfully',
+        data: {
+          import: this.toSummary(batch),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve import');
+    }
+  }
+
+  /**
+   * Store an uploaded statement and detect its format. Nothing is imported
+   * until the batch is committed.
+   */
+  async upload(
+    userId: string,
+    format: ImportFormat,
+    file?: Express.Multer.File,
+  ) {
+    const label = format.toUpperCase();
+    try {
+      if (!file) {
+        throw new ValidationException(`A ${label} file is required`);
+      }
+
+      const content = file.buffer.toString('utf8').replace(/^\uFEFF/, '');
+      let detected: Record<string, unknown>;
+      let rowCount: number;
+      switch (format) {
+        case 'ofx': {
+          if (!isOfx(content)) {
+            throw new ValidationException('This is not an OFX or QFX file');
+          }
+          const statement = parseOfx(content);
+          detected = { currency: statement.currency };
+          rowCount = statement.entries.length;
+          break;
+        }
+        case 'qif': {
+          if (!isQif(content)) {
+            throw new ValidationException('This is not a QIF file');
+          }
+          const qifFormat = detectQifFormat(content);
+          detected = { ...qifFormat };
+          rowCount = parseQif(content, qifFormat).length;
+          break;
+        }
+        default: {
+          const { format: csvFormat, rows, mapping } = detectFormat(content);
+          if (rows.length > 0 && rows[0].length < 2) {
+            throw new ValidationException(
+              'Could not split the file into columns. Is it a CSV export?',
+            );
+          }
+          detected = { ...csvFormat, mapping };
+          rowCount = rows.length - (csvFormat.hasHeader ? 1 : 0);
+        }
+      }
+      if (rowCount < 1) {
+        throw new ValidationException(`The ${label} file contains no transactions`);
+      }
+
+      const batch = await this.importBatchModel.create({
+        userId: new Types.ObjectId(userId),
+        format,
+        fileName: file.originalname?.slice(0, 255) ?? '',
+        content,
+        detected,
+        expiresAt: new Date(Date.now() + PENDING_TTL_MS),
+      });
+
+      return {
+        success: true,
+        message: `${label} file uploaded successfully`,
+        data: {
+          import: this.toSummary(batch),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, `Failed to upload ${label} file`);
+    }
+  }
+
+  /**
+   * Parse every row, flag duplicates and match category names, without
+   * writing anything
+   */
+  async preview(userId: string, id: string, previewDto: PreviewImportDto) {
+    try {
+      const batch = await this.findPending(userId, id);
+      const { accountId, ...preview } = await this.buildPreview(
+        userId,
+        batch,
+        previewDto,
+      );
+
+      return {
+        success: true,
+        message: 'Import previewed successfully',
+        data: {
+          account: accountId,
+          ...preview,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to preview import');
+    }
+  }
+
+  /**
+   * Create transactions for the new rows (plus any duplicates the user chose
+   * to keep). Rows that fail to post, e.g. for lack of an exchange rate, are
+   * reported and skipped. A category that does not fit a row's type (an
+   * expense category on a refund) is left off that row. A commit that fails
+   * part-way hands the batch back, and committing again posts only the rest.
+   */
+  async commit(userId: string, id: string, commitDto: CommitImportDto) {
+    try {
+      const batch = await this.findPending(userId, id);
+      const { accountId, rows, categories } = await this.buildPreview(
+        userId,
+        batch,
+        commitDto,
+      );
+      if (
+        batch.committedRows.length > 0 &&
+        batch.account &&
+        !batch.account.equals(accountId)
+      ) {
+        throw new ValidationException(
+          'Part of this import is already in another account; commit the rest there',
+        );
+      }
+      const categoryIds = await this.resolveCategories(
+        userId,
+        categories,
+        commitDto.categoryMap,
+      );
+
+      const excluded = new Set(commitDto.excludeRows);
+      const keptDuplicates = new Set(commitDto.includeDuplicates);
+      const selected = rows.filter(
+        (row) =>
+          !excluded.has(row.row) &&
+          (row.status === 'new' ||
+            (row.status === 'duplicate' && keptDuplicates.has(row.row))),
+      );
+      if (selected.length === 0) {
+        throw new ValidationException('There are no rows to import');
+      }
+
+      // Claim the batch first so a double tap cannot import it twice
+      const claimed = await this.importBatchModel.updateOne(
+        { _id: batch._id, status: 'pending' },
+        {
+          $set: { status: 'committed', account: accountId, committedAt: new Date() },
+          $unset: { expiresAt: 1 },
+        },
+      );
+      if (claimed.modifiedCount === 0) {
+        throw new ConflictException('This import has already been committed');
+      }
+
+      const failed: Array<{ row: number; message: string }> = [];
+      let imported = 0;
+      for (const row of selected) {
+        // Rows without a statement category are left to the user's rules
+        const category = row.category ? categoryIds.get(row.category) : undefined;
+        try {
+          await this.transactionsService.record(userId, {
+            amount: row.amount,
+            type: row.type,
+            date: row.date,
+            note: row.description,
+            category:
+              category === undefined
+                ? undefined
+                : category?.type === row.type
+                  ? category.id
+                  : null,
+            account: accountId.toString(),
+            importBatchId: batch._id as Types.ObjectId,
+            externalId: row.externalId,
+          });
+          await this.importBatchModel.updateOne(
+            { _id: batch._id },
+            { $push: { committedRows: row.row } },
+          );
+          imported++;
+        } catch (error: unknown) {
+          // An overlapping statement imported at the same time posted it first
+          if ((error as { code?: number })?.code === 11000) {
+            continue;
+          }
+          if (!(error instanceof AppException)) {
+            // Hand the batch back so the rest can be committed again
+            await this.importBatchModel.updateOne(
+              { _id: batch._id },
+              {
+                $set: {
+                  status: 'pending',
+                  committedAt: null,
+                  expiresAt: new Date(Date.now() + PENDING_TTL_MS),
+                },
+              },
+            );
+            throw error;
+          }
+          failed.push({ row: row.row, message: error.message });
+        }
+      }
+
+      // Counting rows an earlier, interrupted commit posted
+      const importedCount = imported + batch.committedRows.length;
+      await this.importBatchModel.updateOne(
+        { _id: batch._id },
+        {
+          $set: {
+            content: '',
+            importedCount,
+            skippedCount: rows.length - importedCount,
+          },
+        },
+      );
+
+      return {
+        success: true,
+        message: 'Import committed successfully',
+        data: {
+          imported: importedCount,
+          skipped: rows.length - importedCount,
+          failed,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to commit import');
+    }
+  }
+
+  async remove(userId: string, id: string) {
+    try {
+      const batch = await this.findPending(userId, id);
+      await batch.deleteOne();
+
+      return {
+        success: true,
+        message: 'Import discarded successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to discard import');
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { isOfx, parseOfx } from './ofx';
+
+// OFX 1.x: SGML with unclosed leaf elements
+const SGML = [
+  'OFXHEADER:100',
+  'DATA:OFXSGML',
+  'VERSION:102',
+  '',
+  '<OFX>',
+  '<BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+  '<CURDEF>eur',
+  '<BANKTRANLIST>',
+  '<STMTTRN>',
+  '<TRNTYPE>DEBIT',
+  '<DTPOSTED>20240115120000[-5:EST]',
+  '<TRNAMT>-12.50',
+  '<FITID>20240115001',
+  '<NAME>Coffee &amp; Co',
+  '<MEMO>Card 1234',
+  '</STMTTRN>',
+  '<STMTTRN>',
+  '<TRNTYPE>CHECK',
+  '<DTPOSTED>20240116',
+  '<TRNAMT>-100,00',
+  '<FITID>20240116001',
+  '<CHECKNUM>1001',
+  '</STMTTRN>',
+  '</BANKTRANLIST>',
+  '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+  '</OFX>',
+].join('\n');
+
+// OFX 2.x: XML with every element closed
+const XML = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<?OFX OFXHEADER="200" VERSION="220"?>',
+  '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+  '<STMTTRN><TRNTYPE>CREDIT</TRNTYPE><DTPOSTED>20240201</DTPOSTED>',
+  '<TRNAMT>2000.00</TRNAMT><FITID>A1</FITID>',
+  '<NAME>Salary</NAME><MEMO>Salary</MEMO></STMTTRN>',
+  '<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><TRNAMT>-5.00</TRNAMT>',
+  '<FITID>A2</FITID><NAME>Fee</NAME></STMTTRN>',
+  '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+].join('\n');
+
+describe('ofx', () => {
+  describe('isOfx', () => {
+    it('recognises SGML and XML statements', () => {
+      expect(isOfx(SGML)).toBe(true);
+      expect(isOfx(XML)).toBe(true);
+      expect(isOfx('Date,Amount\n2024-01-15,12.50\n')).toBe(false);
+    });
+  });
+
+  describe('parseOfx', () => {
+    it('reads SGML transactions and the statement currency', () => {
+      const { currency, entries } = parseOfx(SGML);
+      expect(currency).toBe('EUR');
+      expect(entries).toEqual([
+        {
+          row: 1,
+          date: new Date(Date.UTC(2024, 0, 15)),
+          description: 'Coffee & Co - Card 1234',
+          amount: '-12.50',
+          externalId: '20240115001',
+        },
+        {
+          row: 2,
+          date: new Date(Date.UTC(2024, 0, 16)),
+          description: 'Check 1001',
+          amount: '-100.00',
+          externalId: '20240116001',
+        },
+      ]);
+    });
+
+    it('reads XML transactions, skipping a memo that repeats the name', () => {
+      const { currency, entries } = parseOfx(XML);
+      expect(currency).toBeNull();
+      expect(entries[0]).toEqual({
+        row: 1,
+        date: new Date(Date.UTC(2024, 1, 1)),
+        description: 'Salary',
+        amount: '2000.00',
+        externalId: 'A1',
+      });
+    });
+
+    it('marks transactions without a posting date', () => {
+      const { entries } = parseOfx(XML);
+      expect(entries[1]).toMatchObject({
+        date: null,
+        amount: '-5.00',
+        error: 'Transaction has no posting date',
+      });
+    });
+  });
+});
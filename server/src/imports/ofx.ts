@@ -0,0 +1,84 @@
+import { StatementEntry, normalizeAmount } from './statement';
+
+/**
+ * OFX/QFX statement parser. OFX 1.x is SGML where leaf elements are usually
+ * left unclosed (`<TRNAMT>-12.50`), while 2.x is XML (`<TRNAMT>-12.50</TRNAMT>`).
+ * Aggregates such as <STMTTRN> are closed in both, so each transaction is
+ * read from its aggregate and leaf values run to the next tag or line end.
+ */
+
+export interface OfxStatement {
+  // Statement currency (CURDEF), when present
+  currency: string | null;
+  entries: StatementEntry[];
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      return String.fromCharCode(Number(name.slice(1)));
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Value of the first leaf element `tag` in an SGML or XML fragment
+ */
+const leaf = (fragment: string, tag: string): string | undefined => {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(fragment);
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+};
+
+/**
+ * OFX datetimes are YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]; the posting day is
+ * taken as written, at UTC midnight
+ */
+const parseOfxDate = (value?: string): Date | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value ?? '');
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCDate() === day ? date : null;
+};
+
+export const isOfx = (text: string): boolean =>
+  /<OFX>/i.test(text) && /OFXHEADER|<\?OFX/i.test(text.slice(0, 2000));
+
+export const parseOfx = (text: string): OfxStatement => {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? [];
+
+  const entries = blocks.map((block, index) => {
+    // OFX 2.x may nest the payee name inside a <PAYEE> aggregate
+    const name = leaf(block, 'NAME') ?? leaf(block, 'PAYEEID');
+    const memo = leaf(block, 'MEMO');
+    const checkNumber = leaf(block, 'CHECKNUM');
+    const rawAmount = leaf(block, 'TRNAMT') ?? '';
+
+    const entry: StatementEntry = {
+      row: index + 1,
+      date: parseOfxDate(leaf(block, 'DTPOSTED')),
+      description: [name, memo && memo !== name ? memo : undefined]
+        .filter(Boolean)
+        .join(' - ') || (checkNumber ? `Check ${checkNumber}` : ''),
+      // The spec uses a dot, but some banks write a comma
+      amount: normalizeAmount(rawAmount, /,\d+$/.test(rawAmount) ? ',' : '.'),
+      externalId: leaf(block, 'FITID'),
+    };
+    if (!entry.date) {
+      entry.error = 'Transaction has no posting date';
+    }
+    return entry;
+  });
+
+  return { currency: leaf(text, 'CURDEF')?.toUpperCase() ?? null, entries };
+};
@@ -0,0 +1,96 @@
+import { detectQifFormat, isQif, parseQif } from './qif';
+
+const QIF = [
+  '!Type:Bank',
+  "D1/15'24",
+  'PCoffee Shop',
+  'MMorning',
+  'T-3.50',
+  'LFood:Coffee/Personal',
+  '^',
+  'D1/ 2/2024',
+  'PTransfer',
+  'T-100.00',
+  'L[Savings]',
+  '^',
+  'D2/3/24',
+  'PGroceries',
+  'T-45.00',
+  'LFood',
+  'SFood:Fruit',
+  '$-20.00',
+  'SFood:Bread',
+  '$-25.00',
+  '^',
+  '!Type:Cat',
+  'NFood',
+  '^',
+].join('\n');
+
+describe('qif', () => {
+  describe('isQif', () => {
+    it('recognises a QIF header', () => {
+      expect(isQif(QIF)).toBe(true);
+      expect(isQif('Date,Amount\n2024-01-15,12.50\n')).toBe(false);
+    });
+  });
+
+  describe('detectQifFormat', () => {
+    it('reads mixed Quicken dates as US month-first', () => {
+      expect(detectQifFormat(QIF)).toEqual({
+        dateFormat: 'MM/DD/YYYY',
+        decimalSeparator: '.',
+      });
+    });
+
+    it('detects European dates and decimal commas', () => {
+      const text =
+        '!Type:Bank\nD15.01.2024\nT-1.234,50\n^\nD16.01.2024\nT20,00\n^\n';
+      expect(detectQifFormat(text)).toEqual({
+        dateFormat: 'DD.MM.YYYY',
+        decimalSeparator: ',',
+      });
+    });
+  });
+
+  describe('parseQif', () => {
+    const format = { dateFormat: 'MM/DD/YYYY', decimalSeparator: '.' } as const;
+
+    it('reads transaction records and skips other sections', () => {
+      expect(parseQif(QIF, format)).toEqual([
+        {
+          row: 1,
+          date: new Date(Date.UTC(2024, 0, 15)),
+          description: 'Coffee Shop - Morning',
+          amount: '-3.50',
+          category: 'Food:Coffee',
+        },
+        {
+          row: 2,
+          date: new Date(Date.UTC(2024, 0, 2)),
+          description: 'Transfer',
+          amount: '-100.00',
+          category: undefined,
+        },
+        {
+          row: 3,
+          date: new Date(Date.UTC(2024, 1, 3)),
+          description: 'Groceries',
+          amount: '-45.00',
+          category: 'Food',
+        },
+      ]);
+    });
+
+    it('marks records whose date does not match the format', () => {
+      const [entry] = parseQif(
+        '!Type:Bank\nD2/30/2024\nPBad\nT1.00\n^\n',
+        format,
+      );
+      expect(entry).toMatchObject({
+        date: null,
+        error: 'Date does not match MM/DD/YYYY',
+      });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  DateFormat,
+  DecimalSeparator,
+  StatementEntry,
+  detectDateFormat,
+  detectDecimalSeparator,
+  normalizeAmount,
+  parseDate,
+} from './statement';
+
+/**
+ * QIF (Quicken Interchange Format) parser. Records are blocks of lines keyed
+ * by their first character and ended by `^`; only bank, cash and card
+ * sections hold transactions. Split lines (S/E/$) are ignored and the record
+ * is imported with its total.
+ */
+
+export interface QifFormat {
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+}
+
+interface QifRecord {
+  row: number;
+  fields: Record<string, string>;
+}
+
+// Section headers that contain transactions
+const TRANSACTION_SECTIONS = /^!type:(bank|cash|ccard|oth a|oth l)\s*$/i;
+
+// Quicken writes US dates; prefer month-first when a file is ambiguous.
+// Two-digit years are expanded first, so only four-digit layouts are needed.
+const QIF_DATE_FORMATS: readonly DateFormat[] = [
+  'MM/DD/YYYY',
+  'MM-DD-YYYY',
+  'DD/MM/YYYY',
+  'DD-MM-YYYY',
+  'DD.MM.YYYY',
+  'YYYY-MM-DD',
+  'YYYY/MM/DD',
+];
+
+/**
+ * Quicken dates look like 1/15/2024, 1/15'24 or 1/ 5/24, often mixed in one
+ * file; rewrite them all with a four-digit year
+ */
+const normalizeDate = (value = ''): string =>
+  value
+    .replace(/\s+/g, '')
+    .replace("'", '/')
+    .replace(
+      /^(\d{1,2})([/.-])(\d{1,2})[/.-](\d{2})$/,
+      (_, first: string, separator: string, second: string, year: string) =>
+        `${first}${separator}${second}${separator}${Number(year) < 70 ? '20' : '19'}${year}`,
+    );
+
+const readRecords = (text: string): QifRecord[] => {
+  const records: QifRecord[] = [];
+  let inSection = false;
+  let fields: Record<string, string> = {};
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('!')) {
+      if (/^!option:/i.test(line)) continue;
+      inSection = TRANSACTION_SECTIONS.test(line);
+      fields = {};
+      continue;
+    }
+    if (!inSection) continue;
+
+    if (line === '^') {
+      if (Object.keys(fields).length > 0) {
+        records.push({ row: records.length + 1, fields });
+      }
+      fields = {};
+      continue;
+    }
+
+    const code = line[0].toUpperCase();
+    // Keep the first value of each field; later S/E/$ lines belong to splits
+    if (!(code in fields)) {
+      fields[code] = line.slice(1).trim();
+    }
+  }
+  return records;
+};
+
+export const isQif = (text: string): boolean =>
+  /^\s*!(type|account|option):/im.test(text.slice(0, 2000));
+
+/**
+ * Detect the date layout and decimal mark used by the file's records
+ */
+export const detectQifFormat = (text: string): QifFormat => {
+  const records = readRecords(text);
+  return {
+    dateFormat:
+      detectDateFormat(
+        records.map((record) => normalizeDate(record.fields.D)),
+        QIF_DATE_FORMATS,
+      ) ?? 'MM/DD/YYYY',
+    decimalSeparator: detectDecimalSeparator(
+      records.map((record) => record.fields.T ?? record.fields.U ?? ''),
+    ),
+  };
+};
+
+export const parseQif = (text: string, format: QifFormat): StatementEntry[] =>
+  readRecords(text).map(({ row, fields }) => {
+    const memo = fields.M && fields.M !== fields.P ? fields.M : undefined;
+    // "[Account]" marks a transfer; "Category/Class" carries a class
+    const category = fields.L?.startsWith('[')
+      ? undefined
+      : fields.L?.split('/')[0].trim() || undefined;
+
+    const entry: StatementEntry = {
+      row,
+      date: parseDate(normalizeDate(fields.D), format.dateFormat),
+      description: [fields.P, memo].filter(Boolean).join(' - '),
+      amount: normalizeAmount(fields.T ?? fields.U ?? '', format.decimalSeparator),
+      category,
+    };
+    if (!entry.date) {
+      entry.error = `Date does not match ${format.dateFormat}`;
+    }
+    return entry;
+  });
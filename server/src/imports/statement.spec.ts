@@ -0,0 +1,106 @@
+import {
+  detectDateFormat,
+  detectDecimalSeparator,
+  isSimilarDescription,
+  normalizeAmount,
+  parseDate,
+} from './statement';
+
+describe('statement', () => {
+  describe('parseDate', () => {
+    it('reads the date as UTC midnight', () => {
+      expect(parseDate('2024-01-15', 'YYYY-MM-DD')).toEqual(
+        new Date(Date.UTC(2024, 0, 15)),
+      );
+      expect(parseDate('15.01.2024', 'DD.MM.YYYY')).toEqual(
+        new Date(Date.UTC(2024, 0, 15)),
+      );
+    });
+
+    it('expands two-digit years around 1970', () => {
+      expect(parseDate('15/01/24', 'DD/MM/YY')).toEqual(
+        new Date(Date.UTC(2024, 0, 15)),
+      );
+      expect(parseDate('15/01/99', 'DD/MM/YY')).toEqual(
+        new Date(Date.UTC(1999, 0, 15)),
+      );
+    });
+
+    it('rejects other layouts and days that do not exist', () => {
+      expect(parseDate('2024-01-15', 'DD/MM/YYYY')).toBeNull();
+      expect(parseDate('31/02/2024', 'DD/MM/YYYY')).toBeNull();
+      expect(parseDate('', 'YYYY-MM-DD')).toBeNull();
+    });
+  });
+
+  describe('detectDateFormat', () => {
+    it('picks the first format that reads every value', () => {
+      expect(detectDateFormat(['2024-01-15', '2024-02-01'])).toBe('YYYY-MM-DD');
+      expect(detectDateFormat(['01/13/2024', '02/01/2024'])).toBe('MM/DD/YYYY');
+    });
+
+    it('prefers day-first when the sample is ambiguous', () => {
+      expect(detectDateFormat(['03/04/2024'])).toBe('DD/MM/YYYY');
+    });
+
+    it('returns null without usable values', () => {
+      expect(detectDateFormat(['', '  '])).toBeNull();
+      expect(detectDateFormat(['yesterday'])).toBeNull();
+    });
+  });
+
+  describe('detectDecimalSeparator', () => {
+    it('reads the decimal mark from the end of the values', () => {
+      expect(detectDecimalSeparator(['1.234,56', '12,50'])).toBe(',');
+      expect(detectDecimalSeparator(['1,234.56', '12.50'])).toBe('.');
+    });
+
+    it('treats three trailing digits after a lone mark as a thousands group', () => {
+      expect(detectDecimalSeparator(['1,234'])).toBe('.');
+      expect(detectDecimalSeparator(['1,234', '5,00'])).toBe(',');
+    });
+  });
+
+  describe('normalizeAmount', () => {
+    it('strips grouping, currency symbols and spaces', () => {
+      expect(normalizeAmount('1 234,56', ',')).toBe('1234.56');
+      expect(normalizeAmount('1.234,56', ',')).toBe('1234.56');
+      expect(normalizeAmount('$1,200', '.')).toBe('1200');
+      expect(normalizeAmount('+12.00', '.')).toBe('12.00');
+    });
+
+    it('reads the ways banks write money out', () => {
+      expect(normalizeAmount('-12.00', '.')).toBe('-12.00');
+      expect(normalizeAmount('(12.00)', '.')).toBe('-12.00');
+      expect(normalizeAmount('12.00-', '.')).toBe('-12.00');
+      expect(normalizeAmount('15.00 DR', '.')).toBe('-15.00');
+      expect(normalizeAmount('15.00 CR', '.')).toBe('15.00');
+    });
+
+    it('returns null for empty or non-numeric cells', () => {
+      expect(normalizeAmount('', '.')).toBeNull();
+      expect(normalizeAmount('n/a', '.')).toBeNull();
+      expect(normalizeAmount('Coffee shop 12', '.')).toBeNull();
+    });
+  });
+
+  describe('isSimilarDescription', () => {
+    it('ignores case, punctuation and long reference numbers', () => {
+      expect(
+        isSimilarDescription('AMAZON MKTPLACE *123456789', 'Amazon Mktplace'),
+      ).toBe(true);
+      expect(isSimilarDescription('Card payment - Tesco', 'TESCO STORES')).toBe(
+        true,
+      );
+    });
+
+    it('tells different payees apart', () => {
+      expect(isSimilarDescription('Coffee shop', 'Grocery store')).toBe(false);
+    });
+
+    it('matches anything against an empty description', () => {
+      expect(isSimilarDescription('', 'Coffee shop')).toBe(true);
+      expect(isSimilarDescription('Coffee shop', '1234567')).toBe(true);
+    });
+  });
+});
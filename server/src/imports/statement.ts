@@ -0,0 +1,189 @@
+/**
+ * Helpers shared by the statement parsers (CSV, OFX, QIF): every format is
+ * reduced to a list of entries with a date, a signed decimal amount and a
+ * description before being converted into transactions.
+ */
+
+export interface StatementEntry {
+  // 1-based position in the file (CSV row, OFX or QIF record)
+  row: number;
+  date: Date | null;
+  description: string;
+  // Signed decimal string such as "-12.50"; null when the entry has none
+  amount: string | null;
+  balance?: string | null;
+  // Bank-assigned transaction id (OFX FITID), stable across downloads
+  externalId?: string;
+  // Category name as written in the file (QIF "Parent:Child")
+  category?: string;
+  // Set when the entry could not be read
+  error?: string;
+}
+
+export const DATE_FORMATS = [
+  'YYYY-MM-DD',
+  'YYYY/MM/DD',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+  'DD-MM-YYYY',
+  'MM-DD-YYYY',
+  'DD.MM.YYYY',
+  'DD/MM/YY',
+  'MM/DD/YY',
+] as const;
+
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+export const DECIMAL_SEPARATORS = ['.', ','] as const;
+
+export type DecimalSeparator = (typeof DECIMAL_SEPARATORS)[number];
+
+// Number of data rows inspected when guessing the format
+export const SAMPLE_SIZE = 50;
+
+const DATE_PATTERNS: Record<DateFormat, RegExp> = {
+  'YYYY-MM-DD': /^(?<year>\d{4})-(?<month>\d{1,2})-(?<day>\d{1,2})/,
+  'YYYY/MM/DD': /^(?<year>\d{4})\/(?<month>\d{1,2})\/(?<day>\d{1,2})/,
+  'DD/MM/YYYY': /^(?<day>\d{1,2})\/(?<month>\d{1,2})\/(?<year>\d{4})/,
+  'MM/DD/YYYY': /^(?<month>\d{1,2})\/(?<day>\d{1,2})\/(?<year>\d{4})/,
+  'DD-MM-YYYY': /^(?<day>\d{1,2})-(?<month>\d{1,2})-(?<year>\d{4})/,
+  'MM-DD-YYYY': /^(?<month>\d{1,2})-(?<day>\d{1,2})-(?<year>\d{4})/,
+  'DD.MM.YYYY': /^(?<day>\d{1,2})\.(?<month>\d{1,2})\.(?<year>\d{4})/,
+  'DD/MM/YY': /^(?<day>\d{1,2})\/(?<month>\d{1,2})\/(?<year>\d{2})(?!\d)/,
+  'MM/DD/YY': /^(?<month>\d{1,2})\/(?<day>\d{1,2})\/(?<year>\d{2})(?!\d)/,
+};
+
+/**
+ * Parse a statement date as UTC midnight. Returns null when the value does
+ * not match the format or is not a real calendar day.
+ */
+export const parseDate = (value: string, format: DateFormat): Date | null => {
+  const match = DATE_PATTERNS[format].exec(value.trim());
+  if (!match?.groups) return null;
+
+  let year = Number(match.groups.year);
+  if (year < 100) year += year < 70 ? 2000 : 1900;
+  const month = Number(match.groups.month);
+  const day = Number(match.groups.day);
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+};
+
+/**
+ * First format that parses every sample value. With the default order,
+ * day-first wins over month-first when the sample cannot tell them apart.
+ */
+export const detectDateFormat = (
+  values: string[],
+  formats: readonly DateFormat[] = DATE_FORMATS,
+): DateFormat | null => {
+  const sample = values.filter((value) => value.trim()).slice(0, SAMPLE_SIZE);
+  if (sample.length === 0) return null;
+  return (
+    formats.find((format) =>
+      sample.every((value) => parseDate(value, format) !== null),
+    ) ?? null
+  );
+};
+
+/**
+ * Guess the decimal mark from how numeric cells end: "1.234,56" and "12,50"
+ * use a comma, "1,234.56" and "12.50" a dot
+ */
+export const detectDecimalSeparator = (values: string[]): DecimalSeparator => {
+  let comma = 0;
+  let dot = 0;
+  for (const value of values.slice(0, SAMPLE_SIZE * 4)) {
+    const match = /[.,](\d+)\D*$/.exec(value.trim());
+    if (!match || !/\d/.test(value)) continue;
+    const mark = match[0][0];
+    // Three trailing digits after a lone mark is usually a thousands group
+    if (match[1].length === 3 && value.split(mark).length === 2) continue;
+    if (mark === ',') comma++;
+    else dot++;
+  }
+  return comma > dot ? ',' : '.';
+};
+
+/**
+ * Normalise a statement amount ("1 234,56", "(12.00)", "12.00-", "$1,200",
+ * "15.00 DR") to a plain decimal string such as "-12.00". Returns null when
+ * the cell is empty or not a number.
+ */
+export const normalizeAmount = (
+  value: string,
+  decimalSeparator: DecimalSeparator,
+): string | null => {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/\s*(dr|db)$/i.test(text)) {
+    negative = true;
+    text = text.replace(/\s*(dr|db)$/i, '');
+  }
+  text = text.replace(/\s*cr$/i, '');
+  if (/-$/.test(text)) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+  text = text.replace(/^\+/, '');
+  // Allow a currency symbol or code around the digits, but not words
+  if (!/^\D{0,4}[\d.,\s']+\D{0,4}$/.test(text)) {
+    return null;
+  }
+
+  const thousands = decimalSeparator === '.' ? ',' : '.';
+  text = text
+    .replace(/[^\d.,]/g, '')
+    .split(thousands)
+    .join('');
+  if (decimalSeparator === ',') {
+    text = text.replace(',', '.');
+  }
+  if (!/^\d*\.?\d*$/.test(text) || !/\d/.test(text)) {
+    return null;
+  }
+  return negative ? `-${text}` : text;
+};
+
+/**
+ * Loose comparison key for statement descriptions: case, punctuation and
+ * long reference numbers differ between exports of the same transaction
+ */
+const descriptionTokens = (value: string): Set<string> =>
+  new Set(
+    value
+      .toLowerCase()
+      .replace(/\d{4,}/g, ' ')
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length > 1),
+  );
+
+/**
+ * Whether two descriptions probably name the same transaction. Empty
+ * descriptions match anything, since date and amount already agree.
+ */
+export const isSimilarDescription = (a: string, b: string): boolean => {
+  const left = descriptionTokens(a);
+  const right = descriptionTokens(b);
+  if (left.size === 0 || right.size === 0) return true;
+
+  let shared = 0;
+  left.forEach((token) => {
+    if (right.has(token)) shared++;
+  });
+  return shared / Math.min(left.size, right.size) >= 0.5;
+};
@@ -0,0 +1,4 @@
+import { createZodDto } from 'nestjs-zod';
+import { autocompleteQuerySchema } from '../../common/validation/autocomplete.schema';
+
+export class AutocompletePayeesDto extends createZodDto(autocompleteQuerySchema) {}
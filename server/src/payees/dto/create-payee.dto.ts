@@ -0,0 +1,23 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+
+export const createPayeeSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be at most 100 characters'),
+  // Other spellings of the payee, e.g. as they appear on bank statements
+  aliases: z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, 'Aliases cannot be empty')
+        .max(100, 'Aliases must be at most 100 characters'),
+    )
+    .max(20, 'At most 20 aliases are allowed')
+    .optional(),
+});
+
+export class CreatePayeeDto extends createZodDto(createPayeeSchema) {}
@@ -0,0 +1,9 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+
+export const mergePayeeSchema = z.object({
+  targetId: objectIdSchema,
+});
+
+export class MergePayeeDto extends createZodDto(mergePayeeSchema) {}
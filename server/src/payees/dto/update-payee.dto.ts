@@ -0,0 +1,10 @@
+import { createZodDto } from 'nestjs-zod';
+import { createPayeeSchema } from './create-payee.dto';
+
+export const updatePayeeSchema = createPayeeSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export class UpdatePayeeDto extends createZodDto(updatePayeeSchema) {}
@@ -0,0 +1,35 @@
+/**
+ * Bank descriptions spell the same payee many ways ("AMZN Mktp US*2K3",
+ * "Amazon.com"). Names and aliases are compared as whole words after
+ * normalizing case, accents and punctuation.
+ */
+
+export const normalizePayeeText = (text = ''): string =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+/**
+ * The payee whose name or an alias appears in `text` as whole words. The
+ * longest match wins, so "amazon prime" beats "amazon".
+ */
+export const matchPayee = <T extends { name: string; aliases: string[] }>(
+  payees: T[],
+  text: string,
+): T | null => {
+  const haystack = ` ${normalizePayeeText(text)} `;
+  if (haystack.trim() === '') return null;
+
+  let best: { payee: T; length: number } | null = null;
+  for (const payee of payees) {
+    for (const term of [normalizePayeeText(payee.name), ...payee.aliases]) {
+      if (term && haystack.includes(` ${term} `) && term.length > (best?.length ?? 0)) {
+        best = { payee, length: term.length };
+      }
+    }
+  }
+  return best?.payee ?? null;
+};
@@ -0,0 +1,134 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { PayeesService } from './payees.service';
+import { CreatePayeeDto } from './dto/create-payee.dto';
+import { UpdatePayeeDto } from './dto/update-payee.dto';
+import { MergePayeeDto } from './dto/merge-payee.dto';
+import { AutocompletePayeesDto } from './dto/autocomplete-payees.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ParseObjectIdPipe } from '../common/pipes/parse-object-id.pipe';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+
+@ApiTags('Payees')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('payees')
+export class PayeesController {
+  constructor(private readonly payeesService: PayeesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List payees with how many transactions each has' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payees retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async findAll(@CurrentUser() user: { userId: string; email: string }) {
+    return this.payeesService.findAll(user.userId);
+  }
+
+  @Get('autocomplete')
+  @ApiOperation({ summary: 'Payees whose name or an alias starts with the typed text' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payees retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async autocomplete(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: AutocompletePayeesDto,
+  ) {
+    return this.payeesService.autocomplete(user.userId, query);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a payee' })
+  @ApiResponse({
+    status: 201,
+    description: 'Payee created successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Payee already exists', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() createPayeeDto: CreatePayeeDto,
+  ) {
+    return this.payeesService.create(user.userId, createPayeeDto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename a payee or change its aliases' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payee updated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Payee not found', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Payee already exists', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async update(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() updatePayeeDto: UpdatePayeeDto,
+  ) {
+    return this.payeesService.update(user.userId, id, updatePayeeDto);
+  }
+
+  @Post(':id/merge')
+  @ApiOperation({ summary: 'Merge a payee into another, moving its transactions and aliases' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payees merged successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Payee not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async merge(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() mergePayeeDto: MergePayeeDto,
+  ) {
+    return this.payeesService.merge(user.userId, id, mergePayeeDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a payee, leaving its transactions without one' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payee deleted successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Payee not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async remove(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.payeesService.remove(user.userId, id);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PayeesController } from './payees.controller';
+import { PayeesService } from './payees.service';
+import { Payee, PayeeSchema } from '../schemas/payee.schema';
+import { Transaction, TransactionSchema } from '../schemas/transaction.schema';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Payee.name, schema: PayeeSchema },
+      { name: Transaction.name, schema: TransactionSchema },
+    ]),
+    AuthModule,
+  ],
+  controllers: [PayeesController],
+  providers: [PayeesService],
+  exports: [PayeesService],
+})
+export class PayeesModule {}
@@ -0,0 +1,326 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import { Payee, PayeeDocument } from '../schemas/payee.schema';
+import {
+  Transaction,
+  TransactionDocument,
+} from '../schemas/transaction.schema';
+import {
+  AppException,
+  ConflictException,
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { escapeRegex } from '../common/utils/escape-regex';
+import { CreatePayeeDto } from './dto/create-payee.dto';
+import { UpdatePayeeDto } from './dto/update-payee.dto';
+import { MergePayeeDto } from './dto/merge-payee.dto';
+import { AutocompletePayeesDto } from './dto/autocomplete-payees.dto';
+import { matchPayee, normalizePayeeText } from './payee-matcher';
+
+// Payee names are unique regardless of case
+const NAME_COLLATION = { locale: 'en', strength: 2 };
+
+/**
+ * Normalized, de-duplicated aliases. An alias equal to the name adds nothing,
+ * since the name is matched too.
+ */
+const toAliases = (name: string, aliases: string[]) => {
+  const normalizedName = normalizePayeeText(name);
+  return [...new Set(aliases.map((alias) => normalizePayeeText(alias)))].filter(
+    (alias) => alias && alias !== normalizedName,
+  );
+};
+
+@Injectable()
+export class PayeesService {
+  constructor(
+    @InjectModel(Payee.name) private payeeModel: Model<PayeeDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+  ) {}
+
+  private async findOwned(userId: string, id: string) {
+    const payee = await this.payeeModel.findOne({
+      _id: new Types.ObjectId(id),
+      userId: new Types.ObjectId(userId),
+    });
+    if (!payee) {
+      throw new NotFoundException('Payee not found');
+    }
+    return payee;
+  }
+
+  private async assertUniqueName(
+    userId: string,
+    name: string,
+    excludeId?: Types.ObjectId,
+  ) {
+    const filter: FilterQuery<PayeeDocument> = {
+      userId: new Types.ObjectId(userId),
+      name,
+    };
+    if (excludeId) filter._id = { $ne: excludeId };
+
+    const existing = await this.payeeModel
+      .findOne(filter)
+      .collation(NAME_COLLATION)
+      .select('_id')
+      .lean();
+    if (existing) {
+      throw new ConflictException(
+        'A payee with this name already exists. Merge the payees instead.',
+      );
+    }
+  }
+
+  /**
+   * Check that a payee chosen for a transaction belongs to the user
+   */
+  async assertPayee(userId: string, payeeId: string) {
+    const exists = await this.payeeModel.exists({
+      _id: new Types.ObjectId(payeeId),
+      userId: new Types.ObjectId(userId),
+    });
+    if (!exists) {
+      throw new NotFoundException('Payee not found');
+    }
+  }
+
+  /**
+   * The payee a transaction note or bank description refers to, if any
+   */
+  async match(userId: string, text: string): Promise<Types.ObjectId | null> {
+    if (!text?.trim()) return null;
+    const payees = await this.payeeModel
+      .find({ userId: new Types.ObjectId(userId) })
+      .select('name aliases')
+      .lean();
+    return (matchPayee(payees, text)?._id as Types.ObjectId) ?? null;
+  }
+
+  /**
+   * Ids of the payees whose name or one of whose aliases contains the text,
+   * for searching transactions by payee
+   */
+  async search(userId: string, text: string): Promise<Types.ObjectId[]> {
+    const alias = normalizePayeeText(text);
+    const payees = await this.payeeModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        $or: [
+          { name: { $regex: escapeRegex(text), $options: 'i' } },
+          ...(alias ? [{ aliases: { $regex: escapeRegex(alias) } }] : []),
+        ],
+      })
+      .select('_id')
+      .lean();
+    return payees.map((payee) => payee._id as Types.ObjectId);
+  }
+
+  /**
+   * All payees with the number of transactions each has
+   */
+  async findAll(userId: string) {
+    try {
+      const ownerId = new Types.ObjectId(userId);
+      const [payees, usage] = await Promise.all([
+        this.payeeModel
+          .find({ userId: ownerId })
+          .collation(NAME_COLLATION)
+          .sort({ name: 1 })
+          .lean(),
+        this.transactionModel.aggregate<{ _id: Types.ObjectId; count: number }>([
+          { $match: { userId: ownerId, payee: { $ne: null } } },
+          { $group: { _id: '$payee', count: { $sum: 1 } } },
+        ]),
+      ]);
+      const counts = new Map(
+        usage.map((entry) => [entry._id.toString(), entry.count]),
+      );
+
+      return {
+        success: true,
+        message: 'Payees retrieved successfully',
+        data: {
+          payees: payees.map((payee) => ({
+            ...payee,
+            transactionCount: counts.get(payee._id.toString()) ?? 0,
+          })),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve payees');
+    }
+  }
+
+  /**
+   * Payees whose name or one of whose aliases starts with what the user has
+   * typed so far
+   */
+  async autocomplete(userId: string, query: AutocompletePayeesDto) {
+    try {
+      const { q, limit } = query;
+      const filter: FilterQuery<PayeeDocument> = {
+        userId: new Types.ObjectId(userId),
+      };
+      if (q) {
+        const alias = normalizePayeeText(q);
+        filter.$or = [
+          { name: { $regex: `^${escapeRegex(q)}`, $options: 'i' } },
+          ...(alias ? [{ aliases: { $regex: `^${escapeRegex(alias)}` } }] : []),
+        ];
+      }
+
+      const payees = await this.payeeModel
+        .find(filter)
+        .collation(NAME_COLLATION)
+        .sort({ name: 1 })
+        .limit(limit)
+        .select('name aliases')
+        .lean();
+
+      return {
+        success: true,
+        message: 'Payees retrieved successfully',
+        data: {
+          payees,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve payees');
+    }
+  }
+
+  async create(userId: string, createPayeeDto: CreatePayeeDto) {
+    try {
+      const { name, aliases = [] } = createPayeeDto;
+      await this.assertUniqueName(userId, name);
+
+      const payee = await this.payeeModel.create({
+        userId: new Types.ObjectId(userId),
+        name,
+        aliases: toAliases(name, aliases),
+      });
+
+      return {
+        success: true,
+        message: 'Payee created successfully',
+        data: {
+          payee: payee.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to create payee');
+    }
+  }
+
+  /**
+   * Rename a payee or replace its aliases. Transactions refer to it by id,
+   * so they show the new name straight away.
+   */
+  async update(userId: string, id: string, updatePayeeDto: UpdatePayeeDto) {
+    try {
+      const payee = await this.findOwned(userId, id);
+      const { name, aliases } = updatePayeeDto;
+
+      if (name !== undefined && name !== payee.name) {
+        await this.assertUniqueName(userId, name, payee._id as Types.ObjectId);
+        payee.name = name;
+      }
+      payee.aliases = toAliases(payee.name, aliases ?? payee.aliases);
+      await payee.save();
+
+      return {
+        success: true,
+        message: 'Payee updated successfully',
+        data: {
+          payee: payee.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to update payee');
+    }
+  }
+
+  /**
+   * Merge the source payee into the target: its transactions move to the
+   * target, and its name and aliases become aliases of the target so future
+   * descriptions resolve there too
+   */
+  async merge(userId: string, id: string, mergePayeeDto: MergePayeeDto) {
+    try {
+      const { targetId } = mergePayeeDto;
+      if (targetId === id) {
+        throw new ValidationException('Cannot merge a payee into itself');
+      }
+
+      const source = await this.findOwned(userId, id);
+      const target = await this.findOwned(userId, targetId);
+
+      const result = await this.transactionModel.updateMany(
+        { userId: new Types.ObjectId(userId), payee: source._id },
+        { $set: { payee: target._id } },
+      );
+      target.aliases = toAliases(target.name, [
+        ...target.aliases,
+        source.name,
+        ...source.aliases,
+      ]);
+      await target.save();
+      await source.deleteOne();
+
+      return {
+        success: true,
+        message: 'Payees merged successfully',
+        data: {
+          payee: target.toObject(),
+          movedTransactions: result.modifiedCount,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to merge payees');
+    }
+  }
+
+  /**
+   * Delete a payee. Its transactions are kept, without a payee.
+   */
+  async remove(userId: string, id: string) {
+    try {
+      const payee = await this.findOwned(userId, id);
+
+      await this.transactionModel.updateMany(
+        { userId: new Types.ObjectId(userId), payee: payee._id },
+        { $set: { payee: null } },
+      );
+      await payee.deleteOne();
+
+      return {
+        success: true,
+        message: 'Payee deleted successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to delete payee');
+    }
+  }
+}
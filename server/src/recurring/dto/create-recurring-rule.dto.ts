@@ -0,0 +1,23 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+import { recurrenceScheduleShape, refineSchedule } from './recurrence-schedule.schema';
+import { positiveMinorUnitsSchema } from '../../common/validation/money.schema';
+import { currencyCodeSchema } from '../../common/validation/currency.schema';
+
+export const createRecurringRuleSchema = z
+  .object({
+    amount: positiveMinorUnitsSchema(),
+    // Defaults to the account's currency, or the user's base currency
+    currency: currencyCodeSchema.optional(),
+    type: z.enum(['income', 'expense'], {
+      errorMap: () => ({ message: 'Type must be either income or expense' }),
+    }),
+    note: z.string().trim().max(500, 'Note must be at most 500 characters').optional(),
+    category: objectIdSchema.nullable().optional(),
+    account: objectIdSchema.nullable().optional(),
+    ...recurrenceScheduleShape,
+  })
+  .superRefine(refineSchedule);
+
+export class CreateRecurringRuleDto extends createZodDto(createRecurringRuleSchema) {}
@@ -0,0 +1,25 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { recurrenceScheduleShape, refineSchedule } from './recurrence-schedule.schema';
+
+const countSchema = z.coerce
+  .number()
+  .int()
+  .min(1, 'Count must be at least 1')
+  .max(100, 'Count must be at most 100')
+  .default(12);
+
+export const occurrencesQuerySchema = z.object({
+  count: countSchema,
+});
+
+export class OccurrencesQueryDto extends createZodDto(occurrencesQuerySchema) {}
+
+export const previewScheduleSchema = z
+  .object({
+    ...recurrenceScheduleShape,
+    count: countSchema,
+  })
+  .superRefine(refineSchedule);
+
+export class PreviewScheduleDto extends createZodDto(previewScheduleSchema) {}
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { RECURRENCE_FREQUENCIES } from '../../schemas/recurring-rule.schema';
+
+export const recurrenceScheduleShape = {
+  frequency: z.enum(RECURRENCE_FREQUENCIES, {
+    errorMap: () => ({
+      message: `Frequency must be one of: ${RECURRENCE_FREQUENCIES.join(', ')}`,
+    }),
+  }),
+  interval: z
+    .number()
+    .int('Interval must be a whole number')
+    .min(1, 'Interval must be at least 1')
+    .max(366, 'Interval must be at most 366')
+    .default(1),
+  startDate: z.coerce.date({ invalid_type_error: 'Please provide a valid start date' }),
+  endDate: z.coerce.date({ invalid_type_error: 'Please provide a valid end date' }).nullable().optional(),
+  maxOccurrences: z
+    .number()
+    .int('Occurrence count must be a whole number')
+    .min(1, 'Occurrence count must be at least 1')
+    .nullable()
+    .optional(),
+  lastBusinessDay: z.boolean().default(false),
+};
+
+type ScheduleFields = {
+  frequency?: string;
+  startDate?: Date;
+  endDate?: Date | null;
+  lastBusinessDay?: boolean;
+};
+
+/**
+ * Cross-field checks shared by every schema that accepts a schedule
+ */
+export const refineSchedule = (data: ScheduleFields, ctx: z.RefinementCtx) => {
+  if (data.lastBusinessDay && data.frequency && data.frequency !== 'monthly') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Last business day is only supported for monthly rules',
+      path: ['lastBusinessDay'],
+    });
+  }
+  if (data.endDate && data.startDate && data.endDate < data.startDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'End date must be after the start date',
+      path: ['endDate'],
+    });
+  }
+};
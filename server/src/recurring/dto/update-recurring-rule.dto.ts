@@ -0,0 +1,26 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+import { recurrenceScheduleShape, refineSchedule } from './recurrence-schedule.schema';
+import { positiveMinorUnitsSchema } from '../../common/validation/money.schema';
+import { currencyCodeSchema } from '../../common/validation/currency.schema';
+
+export const updateRecurringRuleSchema = z
+  .object({
+    amount: positiveMinorUnitsSchema(),
+    currency: currencyCodeSchema,
+    note: z.string().trim().max(500, 'Note must be at most 500 characters'),
+    category: objectIdSchema.nullable(),
+    account: objectIdSchema.nullable(),
+    isActive: z.boolean(),
+    ...recurrenceScheduleShape,
+    interval: recurrenceScheduleShape.interval.removeDefault(),
+    lastBusinessDay: recurrenceScheduleShape.lastBusinessDay.removeDefault(),
+  })
+  .partial()
+  .superRefine(refineSchedule)
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export class UpdateRecurringRuleDto extends createZodDto(updateRecurringRuleSchema) {}
@@ -0,0 +1,158 @@
+import {
+  getBoundedOccurrenceDate,
+  getOccurrenceDate,
+  listOccurrences,
+  RecurrenceSchedule,
+} from './recurrence';
+
+const schedule = (
+  overrides: Partial<RecurrenceSchedule>,
+): RecurrenceSchedule => ({
+  frequency: 'monthly',
+  interval: 1,
+  startDate: new Date('2024-01-31T09:30:00Z'),
+  ...overrides,
+});
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('recurrence', () => {
+  describe('getOccurrenceDate', () => {
+    it('steps daily and weekly by the interval', () => {
+      const start = new Date('2024-03-01T08:00:00Z');
+      expect(
+        getOccurrenceDate(
+          schedule({ frequency: 'daily', interval: 3, startDate: start }),
+          2,
+          'UTC',
+        ),
+      ).toEqual(new Date('2024-03-07T08:00:00Z'));
+      expect(
+        getOccurrenceDate(
+          schedule({ frequency: 'weekly', interval: 2, startDate: start }),
+          1,
+          'UTC',
+        ),
+      ).toEqual(new Date('2024-03-15T08:00:00Z'));
+    });
+
+    it('clamps month ends without drifting', () => {
+      expect(iso(listOccurrences(schedule({}), 0, 4, 'UTC'))).toEqual([
+        '2024-01-31T09:30:00.000Z',
+        '2024-02-29T09:30:00.000Z',
+        '2024-03-31T09:30:00.000Z',
+        '2024-04-30T09:30:00.000Z',
+      ]);
+    });
+
+    it('moves across years by the interval', () => {
+      expect(
+        getOccurrenceDate(
+          schedule({
+            interval: 5,
+            startDate: new Date('2024-10-15T00:00:00Z'),
+          }),
+          1,
+          'UTC',
+        ),
+      ).toEqual(new Date('2025-03-15T00:00:00Z'));
+    });
+
+    it('keeps Feb 29 on Feb 28 in common years', () => {
+      const leapDay = schedule({
+        frequency: 'yearly',
+        startDate: new Date('2024-02-29T00:00:00Z'),
+      });
+      expect(iso(listOccurrences(leapDay, 0, 5, 'UTC'))).toEqual([
+        '2024-02-29T00:00:00.000Z',
+        '2025-02-28T00:00:00.000Z',
+        '2026-02-28T00:00:00.000Z',
+        '2027-02-28T00:00:00.000Z',
+        '2028-02-29T00:00:00.000Z',
+      ]);
+    });
+
+    it('posts on the last weekday of the month', () => {
+      const payday = schedule({
+        startDate: new Date('2024-01-01T12:00:00Z'),
+        lastBusinessDay: true,
+      });
+      // Jan 31 2024 is a Wednesday, Mar 31 a Sunday, Jun 30 a Sunday
+      expect(iso(listOccurrences(payday, 0, 6, 'UTC'))).toEqual([
+        '2024-01-31T12:00:00.000Z',
+        '2024-02-29T12:00:00.000Z',
+        '2024-03-29T12:00:00.000Z',
+        '2024-04-30T12:00:00.000Z',
+        '2024-05-31T12:00:00.000Z',
+        '2024-06-28T12:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('in the user time zone', () => {
+    it('keeps the local day and time of day across DST', () => {
+      // 09:00 in New York; clocks go forward on Mar 10
+      const rent = schedule({ startDate: new Date('2024-01-01T14:00:00Z') });
+      expect(iso(listOccurrences(rent, 0, 4, 'America/New_York'))).toEqual([
+        '2024-01-01T14:00:00.000Z',
+        '2024-02-01T14:00:00.000Z',
+        '2024-03-01T14:00:00.000Z',
+        '2024-04-01T13:00:00.000Z',
+      ]);
+    });
+
+    it('clamps to the local month end', () => {
+      // Jan 31 08:00 in Tokyo is still Jan 30 in UTC
+      const rule = schedule({ startDate: new Date('2024-01-30T23:00:00Z') });
+      expect(iso(listOccurrences(rule, 0, 4, 'Asia/Tokyo'))).toEqual([
+        '2024-01-30T23:00:00.000Z',
+        '2024-02-28T23:00:00.000Z',
+        '2024-03-30T23:00:00.000Z',
+        '2024-04-29T23:00:00.000Z',
+      ]);
+    });
+
+    it('finds the last weekday of the local month', () => {
+      // Mar 1 10:00 in Auckland is Feb 29 in UTC; Mar 31 is a Sunday there
+      const payday = schedule({
+        startDate: new Date('2024-02-29T21:00:00Z'),
+        lastBusinessDay: true,
+      });
+      expect(iso(listOccurrences(payday, 0, 2, 'Pacific/Auckland'))).toEqual([
+        '2024-03-28T21:00:00.000Z',
+        '2024-04-29T22:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('getBoundedOccurrenceDate', () => {
+    it('stops at the occurrence limit', () => {
+      const limited = schedule({ maxOccurrences: 2 });
+      expect(getBoundedOccurrenceDate(limited, 1, 'UTC')).not.toBeNull();
+      expect(getBoundedOccurrenceDate(limited, 2, 'UTC')).toBeNull();
+    });
+
+    it('stops after the end date', () => {
+      const ending = schedule({ endDate: new Date('2024-03-31T09:30:00Z') });
+      expect(getBoundedOccurrenceDate(ending, 2, 'UTC')).toEqual(
+        new Date('2024-03-31T09:30:00Z'),
+      );
+      expect(getBoundedOccurrenceDate(ending, 3, 'UTC')).toBeNull();
+    });
+  });
+
+  describe('listOccurrences', () => {
+    it('starts at the given index', () => {
+      expect(iso(listOccurrences(schedule({}), 2, 2, 'UTC'))).toEqual([
+        '2024-03-31T09:30:00.000Z',
+        '2024-04-30T09:30:00.000Z',
+      ]);
+    });
+
+    it('ends early with the schedule', () => {
+      expect(
+        listOccurrences(schedule({ maxOccurrences: 3 }), 1, 10, 'UTC'),
+      ).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { RecurrenceFrequency } from '../schemas/recurring-rule.schema';
+import {
+  addDays,
+  addMonths,
+  startOfLocalDay,
+  toLocalDateString,
+} from '../common/dates/time-zone';
+
+/**
+ * Pure schedule maths for recurring rules. Occurrences fall on calendar days
+ * in the user's time zone, at the start date's local time of day. They are
+ * computed from the start date by index rather than by stepping from the
+ * previous occurrence, so month-end clamping never drifts
+ * (Jan 31 -> Feb 28 -> Mar 31).
+ */
+
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: Date;
+  endDate?: Date | null;
+  maxOccurrences?: number | null;
+  lastBusinessDay?: boolean;
+}
+
+// Day of the week of a local date, 0 for Sunday
+const weekday = (date: string): number =>
+  new Date(`${date}T00:00:00Z`).getUTCDay();
+
+/**
+ * Last Monday-Friday of the month containing the local date
+ */
+const toLastBusinessDay = (date: string): string => {
+  let result = addDays(addMonths(`${date.slice(0, 7)}-01`, 1), -1);
+  while (weekday(result) === 0 || weekday(result) === 6) {
+    result = addDays(result, -1);
+  }
+  return result;
+};
+
+/**
+ * Date of the occurrence with the given zero-based index, ignoring bounds
+ */
+export const getOccurrenceDate = (
+  schedule: RecurrenceSchedule,
+  index: number,
+  timeZone: string,
+): Date => {
+  const { frequency, interval, startDate } = schedule;
+  const step = index * interval;
+  const startDay = toLocalDateString(startDate, timeZone);
+
+  let day: string;
+  switch (frequency) {
+    case 'daily':
+      day = addDays(startDay, step);
+      break;
+    case 'weekly':
+      day = addDays(startDay, step * 7);
+      break;
+    case 'monthly':
+      day = addMonths(startDay, step);
+      if (schedule.lastBusinessDay) day = toLastBusinessDay(day);
+      break;
+    case 'yearly':
+      day = addMonths(startDay, step * 12);
+      break;
+  }
+
+  const timeOfDay =
+    startDate.getTime() - startOfLocalDay(startDay, timeZone).getTime();
+  return new Date(startOfLocalDay(day, timeZone).getTime() + timeOfDay);
+};
+
+/**
+ * Date of the occurrence with the given index, or null once the schedule has
+ * reached its end date or occurrence limit
+ */
+export const getBoundedOccurrenceDate = (
+  schedule: RecurrenceSchedule,
+  index: number,
+  timeZone: string,
+): Date | null => {
+  if (schedule.maxOccurrences && index >= schedule.maxOccurrences) {
+    return null;
+  }
+  const date = getOccurrenceDate(schedule, index, timeZone);
+  if (schedule.endDate && date > schedule.endDate) {
+    return null;
+  }
+  return date;
+};
+
+/**
+ * Up to `count` upcoming occurrence dates starting at index `fromIndex`
+ */
+export const listOccurrences = (
+  schedule: RecurrenceSchedule,
+  fromIndex: number,
+  count: number,
+  timeZone: string,
+): Date[] => {
+  const dates: Date[] = [];
+  for (let index = fromIndex; dates.length < count; index++) {
+    const date = getBoundedOccurrenceDate(schedule, index, timeZone);
+    if (!date) break;
+    dates.push(date);
+  }
+  return dates;
+};
@@ -0,0 +1,220 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { MongoServerError } from 'mongodb';
+import {
+  MAX_FAILED_RUNS,
+  RecurringPostingService,
+} from './recurring-posting.service';
+import { RecurringRule } from '../schemas/recurring-rule.schema';
+import { User } from '../schemas/user.schema';
+import { TransactionsService } from '../transactions/transactions.service';
+import { EmailService } from '../common/services/email.service';
+import { ValidationException } from '../common/exceptions/app.exception';
+
+jest.mock('../config/winston.config');
+
+describe('RecurringPostingService', () => {
+  let service: RecurringPostingService;
+  let rule: Record<string, any>;
+  const now = new Date('2024-04-15T12:00:00Z');
+
+  // Applies the guarded advance the way Mongo would
+  const recurringRuleModel = {
+    find: jest.fn(async () => [rule]),
+    updateOne: jest.fn(
+      async (filter: Record<string, any>, update: Record<string, any>) => {
+        if (
+          filter.occurrenceCount !== undefined &&
+          filter.occurrenceCount !== rule.occurrenceCount
+        ) {
+          return { modifiedCount: 0 };
+        }
+        Object.assign(rule, update.$set);
+        return { modifiedCount: 1 };
+      },
+    ),
+  };
+  const userModel = {
+    findById: jest.fn(() => ({
+      select: () => ({
+        lean: async () => ({ name: 'Sam', email: 'sam@example.com' }),
+      }),
+    })),
+  };
+  const transactionsService = { record: jest.fn() };
+  const emailService = { sendTemplatedEmail: jest.fn() };
+  const configService = {
+    get: jest.fn((key: string) =>
+      key === 'config.app' ? { clientUrl: 'https://app.example.com' } : {},
+    ),
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now });
+    jest.clearAllMocks();
+    rule = {
+      _id: new Types.ObjectId(),
+      userId: new Types.ObjectId(),
+      amount: 120000,
+      currency: 'EUR',
+      type: 'expense',
+      note: 'Rent',
+      category: new Types.ObjectId(),
+      account: null,
+      frequency: 'monthly',
+      interval: 1,
+      startDate: new Date('2024-01-01T09:00:00Z'),
+      lastBusinessDay: false,
+      occurrenceCount: 1,
+      nextOccurrence: new Date('2024-02-01T09:00:00Z'),
+      isActive: true,
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        RecurringPostingService,
+        {
+          provide: getModelToken(RecurringRule.name),
+          useValue: recurringRuleModel,
+        },
+        { provide: getModelToken(User.name), useValue: userModel },
+        { provide: TransactionsService, useValue: transactionsService },
+        { provide: EmailService, useValue: emailService },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+    service = moduleRef.get(RecurringPostingService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('catches up on every missed occurrence and advances the rule', async () => {
+    await service.postDueTransactions();
+
+    const posted = transactionsService.record.mock.calls.map(
+      ([, input]) => input,
+    );
+    expect(posted.map((input) => input.date.toISOString())).toEqual([
+      '2024-02-01T09:00:00.000Z',
+      '2024-03-01T09:00:00.000Z',
+      '2024-04-01T09:00:00.000Z',
+    ]);
+    expect(posted.map((input) => input.recurringOccurrence)).toEqual([1, 2, 3]);
+    expect(rule.occurrenceCount).toBe(4);
+    expect(rule.nextOccurrence).toEqual(new Date('2024-05-01T09:00:00Z'));
+  });
+
+  it('posts in the currency of the rule', async () => {
+    rule.occurrenceCount = 3;
+    rule.nextOccurrence = new Date('2024-04-01T09:00:00Z');
+
+    await service.postDueTransactions();
+
+    expect(transactionsService.record).toHaveBeenCalledWith(
+      rule.userId.toString(),
+      expect.objectContaining({
+        amount: 120000,
+        currency: 'EUR',
+        type: 'expense',
+      }),
+    );
+  });
+
+  it('moves past occurrences an earlier run already posted', async () => {
+    transactionsService.record.mockRejectedValueOnce(
+      new MongoServerError({ code: 11000, message: 'duplicate key' }),
+    );
+
+    await service.postDueTransactions();
+
+    expect(transactionsService.record).toHaveBeenCalledTimes(3);
+    expect(rule.occurrenceCount).toBe(4);
+  });
+
+  it('ends the rule after its last occurrence', async () => {
+    rule.maxOccurrences = 2;
+
+    await service.postDueTransactions();
+
+    expect(transactionsService.record).toHaveBeenCalledTimes(1);
+    expect(rule.occurrenceCount).toBe(2);
+    expect(rule.nextOccurrence).toBeNull();
+  });
+
+  it('stops when another run advanced the rule first', async () => {
+    transactionsService.record.mockImplementationOnce(async () => {
+      rule.occurrenceCount = 2;
+    });
+
+    await service.postDueTransactions();
+
+    expect(transactionsService.record).toHaveBeenCalledTimes(1);
+  });
+
+  it('pauses a rule that no longer validates, records why and emails its owner', async () => {
+    transactionsService.record.mockRejectedValueOnce(
+      new ValidationException('Category is archived'),
+    );
+
+    await service.postDueTransactions();
+
+    expect(rule.isActive).toBe(false);
+    expect(rule.lastError).toBe('Category is archived');
+    expect(rule.lastErrorAt).toEqual(now);
+    expect(rule.occurrenceCount).toBe(1);
+    expect(emailService.sendTemplatedEmail).toHaveBeenCalledWith(
+      'recurring-paused',
+      'sam@example.com',
+      expect.arrayContaining([
+        { key: 'reason', value: 'Category is archived' },
+        { key: 'ruleName', value: 'Rent (€1,200.00)' },
+      ]),
+    );
+  });
+
+  it('leaves the rule due after an unexpected error, to retry on the next run', async () => {
+    transactionsService.record.mockRejectedValueOnce(
+      new Error('connection reset'),
+    );
+
+    await service.postDueTransactions();
+
+    expect(rule.isActive).toBe(true);
+    expect(rule.occurrenceCount).toBe(1);
+    expect(rule.failedRuns).toBe(1);
+    expect(emailService.sendTemplatedEmail).not.toHaveBeenCalled();
+  });
+
+  it('pauses the rule once unexpected errors keep failing the same occurrence', async () => {
+    rule.failedRuns = MAX_FAILED_RUNS - 1;
+    transactionsService.record.mockRejectedValueOnce(
+      new Error('connection reset'),
+    );
+
+    await service.postDueTransactions();
+
+    expect(rule).toMatchObject({
+      isActive: false,
+      occurrenceCount: 1,
+      lastError: `The transaction could not be posted after ${MAX_FAILED_RUNS} attempts`,
+      failedRuns: 0,
+    });
+    expect(emailService.sendTemplatedEmail).toHaveBeenCalledWith(
+      'recurring-paused',
+      'sam@example.com',
+      expect.any(Array),
+    );
+  });
+
+  it('forgets earlier failed runs once an occurrence posts', async () => {
+    rule.failedRuns = 2;
+
+    await service.postDueTransactions();
+
+    expect(rule.failedRuns).toBe(0);
+  });
+});
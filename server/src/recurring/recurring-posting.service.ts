@@ -0,0 +1,206 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+import { MongoServerError } from 'mongodb';
+import {
+  RecurringRule,
+  RecurringRuleDocument,
+} from '../schemas/recurring-rule.schema';
+import { User, UserDocument } from '../schemas/user.schema';
+import { AppException } from '../common/exceptions/app.exception';
+import { EmailService } from '../common/services/email.service';
+import { formatMoney } from '../common/money/money';
+import { logInfo, logError, logWarning } from '../config/winston.config';
+import { AppConfig, EmailConfig } from '../config/app.config';
+import { TransactionsService } from '../transactions/transactions.service';
+import { getBoundedOccurrenceDate } from './recurrence';
+
+// Hourly runs an unexpected error may fail in a row before the rule is
+// paused, so a lasting fault is reported instead of retried forever
+export const MAX_FAILED_RUNS = 5;
+
+@Injectable()
+export class RecurringPostingService {
+  private appConfig: AppConfig;
+  private emailConfig: EmailConfig;
+
+  constructor(
+    @InjectModel(RecurringRule.name)
+    private recurringRuleModel: Model<RecurringRuleDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private transactionsService: TransactionsService,
+    private emailService: EmailService,
+    private configService: ConfigService,
+  ) {
+    this.appConfig = this.configService.get<AppConfig>('config.app')!;
+    this.emailConfig = this.configService.get<EmailConfig>('config.email')!;
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async postDueTransactions() {
+    try {
+      const now = new Date();
+      const rules = await this.recurringRuleModel.find({
+        isActive: true,
+        nextOccurrence: { $ne: null, $lte: now },
+      });
+
+      // Occurrences fall on each owner's local calendar days
+      const timezones = new Map<string, string>();
+      let posted = 0;
+      for (const rule of rules) {
+        const ownerId = rule.userId.toString();
+        if (!timezones.has(ownerId)) {
+          const user = await this.userModel
+            .findById(ownerId)
+            .select('timezone')
+            .lean();
+          timezones.set(ownerId, user?.timezone || 'UTC');
+        }
+        posted += await this.postRule(rule, now, timezones.get(ownerId)!);
+      }
+
+      logInfo(`Recurring posting completed: ${posted} transactions posted from ${rules.length} rules`);
+    } catch (error) {
+      logError('Error during recurring transaction posting', error);
+    }
+  }
+
+  /**
+   * Materialize every missed occurrence of a rule up to `now`. Each
+   * transaction is keyed by (rule, occurrence index), so a run that overlaps
+   * with another or crashes half-way never posts the same occurrence twice.
+   */
+  private async postRule(
+    rule: RecurringRuleDocument,
+    now: Date,
+    timeZone: string,
+  ) {
+    let posted = 0;
+    let index = rule.occurrenceCount;
+    let date = rule.nextOccurrence;
+
+    while (date && date <= now) {
+      try {
+        await this.transactionsService.record(rule.userId.toString(), {
+          amount: rule.amount,
+          currency: rule.currency,
+          type: rule.type,
+          date,
+          note: rule.note,
+          category: rule.category?.toString() ?? null,
+          account: rule.account?.toString() ?? null,
+          recurringRuleId: rule._id as Types.ObjectId,
+          recurringOccurrence: index,
+        });
+        posted++;
+      } catch (error) {
+        if (error instanceof MongoServerError && error.code === 11000) {
+          // Already posted by an earlier run; just move the rule forward
+        } else if (error instanceof AppException) {
+          // The template no longer validates (e.g. archived category). Retrying
+          // can't help until the user fixes the rule, so pause it and say why.
+          await this.pauseRule(rule, error.message);
+          return posted;
+        } else {
+          // Possibly transient (e.g. a dropped connection): retry on the next
+          // run, but not forever
+          logError(`Error posting recurring rule ${String(rule._id)}`, error);
+          const failedRuns = (rule.failedRuns ?? 0) + 1;
+          if (failedRuns >= MAX_FAILED_RUNS) {
+            await this.pauseRule(
+              rule,
+              `The transaction could not be posted after ${failedRuns} attempts`,
+            );
+          } else {
+            await this.recurringRuleModel.updateOne(
+              { _id: rule._id },
+              { $set: { failedRuns } },
+            );
+          }
+          return posted;
+        }
+      }
+
+      const next = getBoundedOccurrenceDate(rule, index + 1, timeZone);
+      const result = await this.recurringRuleModel.updateOne(
+        { _id: rule._id, occurrenceCount: index },
+        {
+          $set: {
+            occurrenceCount: index + 1,
+            nextOccurrence: next,
+            failedRuns: 0,
+          },
+        },
+      );
+      if (result.modifiedCount === 0) {
+        // Another run advanced the rule concurrently
+        return posted;
+      }
+
+      index++;
+      date = next;
+    }
+
+    return posted;
+  }
+
+  /**
+   * Stop posting a rule until its owner resumes it, recording why
+   */
+  private async pauseRule(rule: RecurringRuleDocument, reason: string) {
+    await this.recurringRuleModel.updateOne(
+      { _id: rule._id },
+      {
+        $set: {
+          isActive: false,
+          lastError: reason,
+          lastErrorAt: new Date(),
+          failedRuns: 0,
+        },
+      },
+    );
+    logWarning(`Recurring rule ${String(rule._id)} paused: ${reason}`);
+    await this.sendPausedEmail(rule, reason);
+  }
+
+  private async sendPausedEmail(rule: RecurringRuleDocument, reason: string) {
+    try {
+      const user = await this.userModel
+        .findById(rule.userId)
+        .select('name email')
+        .lean();
+      if (!user) {
+        return;
+      }
+
+      const amount = formatMoney(rule.amount, rule.currency);
+      const clientUrl = this.appConfig.clientUrl;
+      await this.emailService.sendTemplatedEmail('recurring-paused', user.email, [
+        { key: 'name', value: user.name },
+        { key: 'ruleName', value: rule.note ? `${rule.note} (${amount})` : amount },
+        { key: 'reason', value: reason },
+        { key: 'recurringLink', value: `${clientUrl}/recurring` },
+        {
+          key: 'supportEmail',
+          value: this.emailConfig.supportEmail,
+        },
+        { key: 'facebookLink', value: this.emailConfig.facebookLink },
+        { key: 'twitterLink', value: this.emailConfig.twitterLink },
+        { key: 'instagramLink', value: this.emailConfig.instagramLink },
+        {
+          key: 'companyAddress',
+          value: this.emailConfig.companyAddress,
+        },
+        { key: 'privacyPolicyLink', value: `${clientUrl}/privacy-policy` },
+        { key: 'termsLink', value: `${clientUrl}/terms-of-service` },
+        { key: 'unsubscribeLink', value: `${clientUrl}/unsubscribe` },
+      ]);
+    } catch (error: unknown) {
+      logError('Error sending recurring rule paused email', error);
+      // The rule is paused either way; lastError still says why
+    }
+  }
+}
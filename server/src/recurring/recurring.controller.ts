@@ -0,0 +1,149 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { RecurringService } from './recurring.service';
+import { CreateRecurringRuleDto } from './dto/create-recurring-rule.dto';
+import { UpdateRecurringRuleDto } from './dto/update-recurring-rule.dto';
+import {
+  OccurrencesQueryDto,
+  PreviewScheduleDto,
+} from './dto/preview-occurrences.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ParseObjectIdPipe } from '../common/pipes/parse-object-id.pipe';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+
+@ApiTags('Recurring')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('recurring')
+export class RecurringController {
+  constructor(private readonly recurringService: RecurringService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List recurring transaction rules' })
+  @ApiResponse({
+    status: 200,
+    description: 'Recurring rules retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async findAll(@CurrentUser() user: { userId: string; email: string }) {
+    return this.recurringService.findAll(user.userId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a recurring transaction rule' })
+  @ApiResponse({
+    status: 201,
+    description: 'Recurring rule created successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() createRecurringRuleDto: CreateRecurringRuleDto,
+  ) {
+    return this.recurringService.create(user.userId, createRecurringRuleDto);
+  }
+
+  @Post('preview')
+  @ApiOperation({ summary: 'Preview the first occurrences of a schedule before saving it' })
+  @ApiResponse({
+    status: 200,
+    description: 'Occurrences previewed successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async preview(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() previewScheduleDto: PreviewScheduleDto,
+  ) {
+    return this.recurringService.preview(user.userId, previewScheduleDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a recurring rule by id' })
+  @ApiResponse({
+    status: 200,
+    description: 'Recurring rule retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Recurring rule not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async findOne(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.recurringService.findOne(user.userId, id);
+  }
+
+  @Get(':id/occurrences')
+  @ApiOperation({ summary: 'List the next N dates a rule will post on' })
+  @ApiResponse({
+    status: 200,
+    description: 'Upcoming occurrences retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Recurring rule not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async getOccurrences(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Query() query: OccurrencesQueryDto,
+  ) {
+    return this.recurringService.getOccurrences(user.userId, id, query.count);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update, pause or resume a recurring rule' })
+  @ApiResponse({
+    status: 200,
+    description: 'Recurring rule updated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Recurring rule not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async update(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() updateRecurringRuleDto: UpdateRecurringRuleDto,
+  ) {
+    return this.recurringService.update(user.userId, id, updateRecurringRuleDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a recurring rule (posted transactions are kept)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Recurring rule deleted successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Recurring rule not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async remove(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.recurringService.remove(user.userId, id);
+  }
+}
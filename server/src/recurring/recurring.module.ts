@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { RecurringController } from './recurring.controller';
+import { RecurringService } from './recurring.service';
+import { RecurringPostingService } from './recurring-posting.service';
+import {
+  RecurringRule,
+  RecurringRuleSchema,
+} from '../schemas/recurring-rule.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { EmailService } from '../common/services/email.service';
+import { AuthModule } from '../auth/auth.module';
+import { TransactionsModule } from '../transactions/transactions.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: RecurringRule.name, schema: RecurringRuleSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    AuthModule,
+    TransactionsModule,
+  ],
+  controllers: [RecurringController],
+  providers: [RecurringService, RecurringPostingService, EmailService],
+})
+export class RecurringModule {}
@@ -0,0 +1,329 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  RecurringRule,
+  RecurringRuleDocument,
+} from '../schemas/recurring-rule.schema';
+import { User, UserDocument } from '../schemas/user.schema';
+import {
+  AppException,
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { TransactionsService } from '../transactions/transactions.service';
+import {
+  getBoundedOccurrenceDate,
+  listOccurrences,
+  RecurrenceSchedule,
+} from './recurrence';
+import { CreateRecurringRuleDto } from './dto/create-recurring-rule.dto';
+import { UpdateRecurringRuleDto } from './dto/update-recurring-rule.dto';
+import { PreviewScheduleDto } from './dto/preview-occurrences.dto';
+
+// Fields that define which dates a rule posts on; frozen once it has posted
+const SCHEDULE_FIELDS = [
+  'frequency',
+  'interval',
+  'startDate',
+  'lastBusinessDay',
+] as const;
+
+@Injectable()
+export class RecurringService {
+  constructor(
+    @InjectModel(RecurringRule.name)
+    private recurringRuleModel: Model<RecurringRuleDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private transactionsService: TransactionsService,
+  ) {}
+
+  // Occurrences fall on the user's local calendar days
+  private async getTimezone(userId: string) {
+    const user = await this.userModel.findById(userId).select('timezone').lean();
+    return user?.timezone || 'UTC';
+  }
+
+  private async findOwned(userId: string, id: string) {
+    const rule = await this.recurringRuleModel.findOne({
+      _id: new Types.ObjectId(id),
+      userId: new Types.ObjectId(userId),
+    });
+    if (!rule) {
+      throw new NotFoundException('Recurring rule not found');
+    }
+    return rule;
+  }
+
+  /**
+   * Validate the transaction template against the user's categories and
+   * accounts, using the same checks as a manually entered transaction.
+   * Returns the account's currency, if the template has an account.
+   */
+  private async assertTemplate(
+    userId: string,
+    type: string,
+    category?: Types.ObjectId | null,
+    account?: Types.ObjectId | null,
+  ) {
+    if (category) {
+      await this.transactionsService.assertCategory(userId, category, type);
+    }
+    if (account) {
+      return (await this.transactionsService.assertAccount(userId, account))
+        .currency;
+    }
+    return undefined;
+  }
+
+  async findAll(userId: string) {
+    try {
+      const rules = await this.recurringRuleModel
+        .find({ userId: new Types.ObjectId(userId) })
+        .sort({ isActive: -1, nextOccurrence: 1, createdAt: -1 })
+        .populate('category', 'name icon color')
+        .populate('account', 'name type currency')
+        .lean();
+
+      return {
+        success: true,
+        message: 'Recurring rules retrieved successfully',
+        data: {
+          rules,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve recurring rules');
+    }
+  }
+
+  async findOne(userId: string, id: string) {
+    try {
+      const rule = await this.findOwned(userId, id);
+      await rule.populate([
+        { path: 'category', select: 'name icon color' },
+        { path: 'account', select: 'name type currency' },
+      ]);
+
+      return {
+        success: true,
+        message: 'Recurring rule retrieved successfully',
+        data: {
+          rule: rule.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve recurring rule');
+    }
+  }
+
+  async create(userId: string, createRecurringRuleDto: CreateRecurringRuleDto) {
+    try {
+      const { category, account, currency, ...fields } = createRecurringRuleDto;
+
+      const categoryId = category ? new Types.ObjectId(category) : null;
+      const accountId = account ? new Types.ObjectId(account) : null;
+      const accountCurrency = await this.assertTemplate(
+        userId,
+        fields.type,
+        categoryId,
+        accountId,
+      );
+
+      // Fixed now, so a later base currency change doesn't re-denominate it
+      const rule = new this.recurringRuleModel({
+        ...fields,
+        currency: await this.transactionsService.resolveCurrency(
+          userId,
+          currency,
+          accountCurrency,
+        ),
+        userId: new Types.ObjectId(userId),
+        category: categoryId,
+        account: accountId,
+      });
+      rule.nextOccurrence = getBoundedOccurrenceDate(
+        rule,
+        0,
+        await this.getTimezone(userId),
+      );
+      await rule.save();
+
+      return {
+        success: true,
+        message: 'Recurring rule created successfully',
+        data: {
+          rule: rule.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to create recurring rule');
+    }
+  }
+
+  async update(
+    userId: string,
+    id: string,
+    updateRecurringRuleDto: UpdateRecurringRuleDto,
+  ) {
+    try {
+      const rule = await this.findOwned(userId, id);
+      const { category, account, currency, ...fields } = updateRecurringRuleDto;
+
+      if (rule.occurrenceCount > 0) {
+        const changed = SCHEDULE_FIELDS.filter(
+          (field) =>
+            fields[field] !== undefined &&
+            String(fields[field]) !== String(rule[field]),
+        );
+        if (changed.length > 0) {
+          throw new ValidationException(
+            'The schedule of a rule that has already posted transactions cannot be changed; end it and create a new rule instead',
+          );
+        }
+      }
+
+      rule.set(fields);
+      if (category !== undefined) {
+        rule.category = category ? new Types.ObjectId(category) : null;
+      }
+      if (account !== undefined) {
+        rule.account = account ? new Types.ObjectId(account) : null;
+      }
+
+      if (rule.lastBusinessDay && rule.frequency !== 'monthly') {
+        throw new ValidationException(
+          'Last business day is only supported for monthly rules',
+        );
+      }
+      if (rule.endDate && rule.endDate < rule.startDate) {
+        throw new ValidationException('End date must be after the start date');
+      }
+      const accountCurrency = await this.assertTemplate(
+        userId,
+        rule.type,
+        rule.category,
+        rule.account,
+      );
+      // Moving off an account keeps the current currency unless one is given
+      rule.currency = await this.transactionsService.resolveCurrency(
+        userId,
+        currency ?? (accountCurrency ? undefined : rule.currency),
+        accountCurrency,
+      );
+
+      // A rule resumed after the posting job paused it starts over clean
+      if (rule.isActive) {
+        rule.lastError = null;
+        rule.lastErrorAt = null;
+        rule.failedRuns = 0;
+      }
+
+      rule.nextOccurrence = getBoundedOccurrenceDate(
+        rule,
+        rule.occurrenceCount,
+        await this.getTimezone(userId),
+      );
+      await rule.save();
+
+      return {
+        success: true,
+        message: 'Recurring rule updated successfully',
+        data: {
+          rule: rule.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to update recurring rule');
+    }
+  }
+
+  /**
+   * Delete a rule. Transactions it already posted are kept.
+   */
+  async remove(userId: string, id: string) {
+    try {
+      const rule = await this.findOwned(userId, id);
+      await rule.deleteOne();
+
+      return {
+        success: true,
+        message: 'Recurring rule deleted successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to delete recurring rule');
+    }
+  }
+
+  /**
+   * Next `count` dates an existing rule will post on
+   */
+  async getOccurrences(userId: string, id: string, count: number) {
+    try {
+      const rule = await this.findOwned(userId, id);
+      const occurrences = rule.isActive
+        ? listOccurrences(
+            rule,
+            rule.occurrenceCount,
+            count,
+            await this.getTimezone(userId),
+          )
+        : [];
+
+      return {
+        success: true,
+        message: 'Upcoming occurrences retrieved successfully',
+        data: {
+          occurrences,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve upcoming occurrences');
+    }
+  }
+
+  /**
+   * First `count` dates of a schedule that has not been saved yet
+   */
+  async preview(userId: string, previewScheduleDto: PreviewScheduleDto) {
+    try {
+      const { count, ...schedule } = previewScheduleDto;
+
+      return {
+        success: true,
+        message: 'Occurrences previewed successfully',
+        data: {
+          occurrences: listOccurrences(
+            schedule as RecurrenceSchedule,
+            0,
+            count,
+            await this.getTimezone(userId),
+          ),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to preview occurrences');
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { localDateSchema } from '../../common/validation/time-zone.schema';
+
+// Dates are calendar days in the user's time zone, both included. Each
+// report picks its own default period when they are left out.
+const periodShape = {
+  from: localDateSchema.optional(),
+  to: localDateSchema.optional(),
+};
+
+const isOrdered = (data: { from?: string; to?: string }) =>
+  !data.from || !data.to || data.from <= data.to;
+
+const orderMessage = { message: 'From date must be before to date', path: ['from'] };
+
+const typeSchema = z
+  .enum(['income', 'expense'], {
+    errorMap: () => ({ message: 'Type must be either income or expense' }),
+  })
+  .default('expense');
+
+export const reportPeriodSchema = z
+  .object(periodShape)
+  .refine(isOrdered, orderMessage);
+
+export const typedReportSchema = z
+  .object({ ...periodShape, type: typeSchema })
+  .refine(isOrdered, orderMessage);
+
+export const topPayeesReportSchema = z
+  .object({
+    ...periodShape,
+    type: typeSchema,
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1, 'Limit must be at least 1')
+      .max(50, 'Limit must be at most 50')
+      .default(10),
+  })
+  .refine(isOrdered, orderMessage);
+
+export class ReportPeriodDto extends createZodDto(reportPeriodSchema) {}
+
+export class TypedReportDto extends createZodDto(typedReportSchema) {}
+
+export class TopPayeesReportDto extends createZodDto(topPayeesReportSchema) {}
@@ -0,0 +1,107 @@
+import { ValidationException } from '../common/exceptions/app.exception';
+import {
+  addDays,
+  addMonths,
+  countDays,
+  startOfLocalDay,
+  toLocalDateString,
+} from '../common/dates/time-zone';
+
+/**
+ * A report period: local dates in the user's time zone and the instants
+ * they span, for matching on `date`
+ */
+export interface ReportPeriod {
+  from: string;
+  to: string;
+  // Inclusive start and exclusive end
+  start: Date;
+  end: Date;
+}
+
+// About ten years, which keeps daily and monthly series to a sensible size
+const MAX_REPORT_DAYS = 3660;
+
+const toPeriod = (from: string, to: string, timeZone: string): ReportPeriod => ({
+  from,
+  to,
+  start: startOfLocalDay(from, timeZone),
+  end: startOfLocalDay(addDays(to, 1), timeZone),
+});
+
+/**
+ * Fill in a requested period. Without dates it ends today and starts on the
+ * first of the month, `months` calendar months back counting this one.
+ */
+export const resolvePeriod = (
+  timeZone: string,
+  query: { from?: string; to?: string },
+  months = 1,
+): ReportPeriod => {
+  const to = query.to ?? toLocalDateString(new Date(), timeZone);
+  const from = query.from ?? addMonths(`${to.slice(0, 7)}-01`, 1 - months);
+  if (from > to) {
+    throw new ValidationException('From date must be before to date');
+  }
+  if (countDays(from, to) > MAX_REPORT_DAYS) {
+    throw new ValidationException('A report can cover at most 10 years');
+  }
+  return toPeriod(from, to, timeZone);
+};
+
+const isWholeMonths = (period: ReportPeriod) =>
+  period.from.endsWith('-01') && addDays(period.to, 1).endsWith('-01');
+
+/**
+ * The period just before, of the same length. Periods starting on the first
+ * of a month compare with the same stretch of the months before: all of
+ * February against all of January, and the 1st to 19th of this month
+ * against the 1st to 19th of last month. Anything else compares with the
+ * same number of days before.
+ */
+export const previousPeriod = (
+  period: ReportPeriod,
+  timeZone: string,
+): ReportPeriod => {
+  const dayBefore = addDays(period.from, -1);
+  if (period.from.endsWith('-01')) {
+    const months = monthsInPeriod(period).length;
+    const from = addMonths(period.from, -months);
+    if (isWholeMonths(period)) {
+      return toPeriod(from, dayBefore, timeZone);
+    }
+    const to = addMonths(period.to, -months);
+    return toPeriod(from, to < dayBefore ? to : dayBefore, timeZone);
+  }
+  return toPeriod(
+    addDays(period.from, -countDays(period.from, period.to)),
+    dayBefore,
+    timeZone,
+  );
+};
+
+/**
+ * Every month (`YYYY-MM`) the period touches, in order
+ */
+export const monthsInPeriod = (period: { from: string; to: string }): string[] => {
+  const months: string[] = [];
+  for (
+    let month = `${period.from.slice(0, 7)}-01`;
+    month <= period.to;
+    month = addMonths(month, 1)
+  ) {
+    months.push(month.slice(0, 7));
+  }
+  return months;
+};
+
+/**
+ * Every day (`YYYY-MM-DD`) of the period, in order
+ */
+export const daysInPeriod = (period: { from: string; to: string }): string[] => {
+  const days: string[] = [];
+  for (let day = period.from; day <= period.to; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
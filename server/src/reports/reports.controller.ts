@@ -0,0 +1,111 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ReportsService } from './reports.service';
+import {
+  ReportPeriodDto,
+  TopPayeesReportDto,
+  TypedReportDto,
+} from './dto/report-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+
+@ApiTags('Reports')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('reports')
+export class ReportsController {
+  constructor(private readonly reportsService: ReportsService) {}
+
+  @Get('categories')
+  @ApiOperation({ summary: 'Totals per category for a period, counting split lines' })
+  @ApiResponse({
+    status: 200,
+    description: 'Report generated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async byCategory(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: TypedReportDto,
+  ) {
+    return this.reportsService.byCategory(user.userId, query);
+  }
+
+  @Get('income-expense')
+  @ApiOperation({ summary: 'Monthly income, expense and net' })
+  @ApiResponse({
+    status: 200,
+    description: 'Report generated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async incomeVsExpense(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: ReportPeriodDto,
+  ) {
+    return this.reportsService.incomeVsExpense(user.userId, query);
+  }
+
+  @Get('top-payees')
+  @ApiOperation({ summary: 'Payees with the largest totals for a period' })
+  @ApiResponse({
+    status: 200,
+    description: 'Report generated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async topPayees(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: TopPayeesReportDto,
+  ) {
+    return this.reportsService.topPayees(user.userId, query);
+  }
+
+  @Get('daily-average')
+  @ApiOperation({ summary: 'Average per day for a period, with daily totals' })
+  @ApiResponse({
+    status: 200,
+    description: 'Report generated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async dailyAverage(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: TypedReportDto,
+  ) {
+    return this.reportsService.dailyAverage(user.userId, query);
+  }
+
+  @Get('comparison')
+  @ApiOperation({ summary: 'Compare a period with the one before it' })
+  @ApiResponse({
+    status: 200,
+    description: 'Report generated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async comparison(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: TypedReportDto,
+  ) {
+    return this.reportsService.comparison(user.userId, query);
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ReportsController } from './reports.controller';
+import { ReportsService } from './reports.service';
+import { Transaction, TransactionSchema } from '../schemas/transaction.schema';
+import { Category, CategorySchema } from '../schemas/category.schema';
+import { Payee, PayeeSchema } from '../schemas/payee.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: Category.name, schema: CategorySchema },
+      { name: Payee.name, schema: PayeeSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    AuthModule,
+  ],
+  controllers: [ReportsController],
+  providers: [ReportsService],
+  exports: [ReportsService],
+})
+export class ReportsModule {}
@@ -0,0 +1,425 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, PipelineStage, Types } from 'mongoose';
+import {
+  Transaction,
+  TransactionDocument,
+} from '../schemas/transaction.schema';
+import { Category, CategoryDocument } from '../schemas/category.schema';
+import { Payee, PayeeDocument } from '../schemas/payee.schema';
+import { User, UserDocument } from '../schemas/user.schema';
+import {
+  AppException,
+  NotFoundException,
+} from '../common/exceptions/app.exception';
+import { countDays, toLocalDateString } from '../common/dates/time-zone';
+import { splitLineStages } from '../transactions/split-lines';
+import {
+  ReportPeriodDto,
+  TopPayeesReportDto,
+  TypedReportDto,
+} from './dto/report-query.dto';
+import {
+  daysInPeriod,
+  monthsInPeriod,
+  previousPeriod,
+  ReportPeriod,
+  resolvePeriod,
+} from './report-period';
+
+type ReportType = 'income' | 'expense';
+
+interface CategoryTotal {
+  _id: Types.ObjectId | null;
+  total: number;
+  count: number;
+  category: {
+    _id: Types.ObjectId;
+    name: string;
+    icon: string;
+    color: string;
+    parent: Types.ObjectId | null;
+  } | null;
+}
+
+/**
+ * Change from `previous` to `current`; no percentage when there was nothing
+ * to compare with
+ */
+const toChange = (current: number, previous: number) => ({
+  amount: current - previous,
+  percent:
+    previous === 0
+      ? null
+      : Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10,
+});
+
+/**
+ * All amounts are baseAmount sums in minor units of the user's base currency,
+ * which existing transactions are rebased to when it changes. Days and months
+ * follow the user's time zone. Transfers move money between the user's own
+ * accounts, so they are never counted as income or expense.
+ */
+@Injectable()
+export class ReportsService {
+  constructor(
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(Payee.name) private payeeModel: Model<PayeeDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+  ) {}
+
+  private async findUser(userId: string) {
+    const user = await this.userModel
+      .findById(userId)
+      .select('currency timezone')
+      .lean();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return { currency: user.currency, timezone: user.timezone || 'UTC' };
+  }
+
+  private periodMatch(
+    userId: string,
+    period: ReportPeriod,
+    type: ReportType | ReportType[],
+  ): FilterQuery<TransactionDocument> {
+    return {
+      userId: new Types.ObjectId(userId),
+      type: Array.isArray(type) ? { $in: type } : type,
+      date: { $gte: period.start, $lt: period.end },
+    };
+  }
+
+  /**
+   * Totals per category over split lines, largest first. Uncategorized
+   * amounts are grouped under a null category.
+   */
+  private categoryTotals(
+    userId: string,
+    period: ReportPeriod,
+    type: ReportType,
+  ): Promise<CategoryTotal[]> {
+    const pipeline: PipelineStage[] = [
+      { $match: this.periodMatch(userId, period, type) },
+      ...splitLineStages(),
+      {
+        $group: {
+          _id: '$category',
+          total: { $sum: '$baseAmount' },
+          count: { $sum: 1 },
+        },
+      },
+      { $sort: { total: -1, _id: 1 } },
+      {
+        $lookup: {
+          from: this.categoryModel.collection.name,
+          localField: '_id',
+          foreignField: '_id',
+          pipeline: [{ $project: { name: 1, icon: 1, color: 1, parent: 1 } }],
+          as: 'category',
+        },
+      },
+      { $set: { category: { $ifNull: [{ $first: '$category' }, null] } } },
+    ];
+    return this.transactionModel.aggregate<CategoryTotal>(pipeline);
+  }
+
+  /**
+   * Income and expense totals of a period in one pass
+   */
+  private async typeTotals(userId: string, period: ReportPeriod) {
+    const rows = await this.transactionModel.aggregate<{
+      _id: ReportType;
+      total: number;
+    }>([
+      { $match: this.periodMatch(userId, period, ['income', 'expense']) },
+      { $group: { _id: '$type', total: { $sum: '$baseAmount' } } },
+    ]);
+    const income = rows.find((row) => row._id === 'income')?.total ?? 0;
+    const expense = rows.find((row) => row._id === 'expense')?.total ?? 0;
+    return { income, expense, net: income - expense };
+  }
+
+  /**
+   * Spending (or income) per category for a period, this month by default
+   */
+  async byCategory(userId: string, query: TypedReportDto) {
+    try {
+      const { currency, timezone } = await this.findUser(userId);
+      const period = resolvePeriod(timezone, query);
+      const rows = await this.categoryTotals(userId, period, query.type);
+      const total = rows.reduce((sum, row) => sum + row.total, 0);
+
+      return {
+        success: true,
+        message: 'Report generated successfully',
+        data: {
+          currency,
+          timezone,
+          type: query.type,
+          from: period.from,
+          to: period.to,
+          total,
+          categories: rows.map((row) => ({
+            category: row.category,
+            total: row.total,
+            count: row.count,
+            share: total === 0 ? 0 : Math.round((row.total / total) * 1000) / 1000,
+          })),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to generate report');
+    }
+  }
+
+  /**
+   * Income, expense and net per calendar month, the last 12 months by
+   * default. Months without transactions are included as zeros.
+   */
+  async incomeVsExpense(userId: string, query: ReportPeriodDto) {
+    try {
+      const { currency, timezone } = await this.findUser(userId);
+      const period = resolvePeriod(timezone, query, 12);
+
+      const rows = await this.transactionModel.aggregate<{
+        _id: { month: string; type: ReportType };
+        total: number;
+      }>([
+        { $match: this.periodMatch(userId, period, ['income', 'expense']) },
+        {
+          $group: {
+            _id: {
+              month: { $dateToString: { format: '%Y-%m', date: '$date', timezone } },
+              type: '$type',
+            },
+            total: { $sum: '$baseAmount' },
+          },
+        },
+      ]);
+      const totals = new Map(
+        rows.map((row) => [`${row._id.month}:${row._id.type}`, row.total]),
+      );
+
+      const months = monthsInPeriod(period).map((month) => {
+        const income = totals.get(`${month}:income`) ?? 0;
+        const expense = totals.get(`${month}:expense`) ?? 0;
+        return { month, income, expense, net: income - expense };
+      });
+
+      return {
+        success: true,
+        message: 'Report generated successfully',
+        data: {
+          currency,
+          timezone,
+          from: period.from,
+          to: period.to,
+          months,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to generate report');
+    }
+  }
+
+  /**
+   * Payees with the largest totals for a period, this month by default
+   */
+  async topPayees(userId: string, query: TopPayeesReportDto) {
+    try {
+      const { currency, timezone } = await this.findUser(userId);
+      const period = resolvePeriod(timezone, query);
+
+      const payees = await this.transactionModel.aggregate<{
+        payee: { _id: Types.ObjectId; name: string };
+        total: number;
+        count: number;
+      }>([
+        {
+          $match: {
+            ...this.periodMatch(userId, period, query.type),
+            payee: { $ne: null },
+          },
+        },
+        {
+          $group: {
+            _id: '$payee',
+            total: { $sum: '$baseAmount' },
+            count: { $sum: 1 },
+          },
+        },
+        { $sort: { total: -1, _id: 1 } },
+        { $limit: query.limit },
+        {
+          $lookup: {
+            from: this.payeeModel.collection.name,
+            localField: '_id',
+            foreignField: '_id',
+            pipeline: [{ $project: { name: 1 } }],
+            as: 'payee',
+          },
+        },
+        // A payee deleted mid-aggregation has nothing to show
+        { $unwind: '$payee' },
+        { $project: { _id: 0, payee: 1, total: 1, count: 1 } },
+      ]);
+
+      return {
+        success: true,
+        message: 'Report generated successfully',
+        data: {
+          currency,
+          timezone,
+          type: query.type,
+          from: period.from,
+          to: period.to,
+          payees,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to generate report');
+    }
+  }
+
+  /**
+   * Average per day over a period, this month by default, with the total of
+   * each day. Days after today are not counted, so the average of the
+   * current month is not diluted by days still to come.
+   */
+  async dailyAverage(userId: string, query: TypedReportDto) {
+    try {
+      const { currency, timezone } = await this.findUser(userId);
+      const period = resolvePeriod(timezone, query);
+
+      const rows = await this.transactionModel.aggregate<{
+        _id: string;
+        total: number;
+      }>([
+        { $match: this.periodMatch(userId, period, query.type) },
+        {
+          $group: {
+            _id: { $dateToString: { format: '%Y-%m-%d', date: '$date', timezone } },
+            total: { $sum: '$baseAmount' },
+          },
+        },
+      ]);
+      const totals = new Map(rows.map((row) => [row._id, row.total]));
+      const total = rows.reduce((sum, row) => sum + row.total, 0);
+
+      const today = toLocalDateString(new Date(), timezone);
+      const lastDay = period.to < today ? period.to : today;
+      const elapsedDays = lastDay < period.from ? 0 : countDays(period.from, lastDay);
+
+      return {
+        success: true,
+        message: 'Report generated successfully',
+        data: {
+          currency,
+          timezone,
+          type: query.type,
+          from: period.from,
+          to: period.to,
+          total,
+          days: elapsedDays,
+          average: elapsedDays === 0 ? 0 : Math.round(total / elapsedDays),
+          daily: daysInPeriod(period).map((date) => ({
+            date,
+            total: totals.get(date) ?? 0,
+          })),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to generate report');
+    }
+  }
+
+  /**
+   * A period against the one just before it (this month against last month
+   * by default): income, expense and net, and the change per category of
+   * the requested type
+   */
+  async comparison(userId: string, query: TypedReportDto) {
+    try {
+      const { currency, timezone } = await this.findUser(userId);
+      const current = resolvePeriod(timezone, query);
+      const previous = previousPeriod(current, timezone);
+
+      const [currentTotals, previousTotals, currentCategories, previousCategories] =
+        await Promise.all([
+          this.typeTotals(userId, current),
+          this.typeTotals(userId, previous),
+          this.categoryTotals(userId, current, query.type),
+          this.categoryTotals(userId, previous, query.type),
+        ]);
+
+      // Every category seen in either period, keyed by id ('' for none)
+      const categories = new Map<
+        string,
+        { category: CategoryTotal['category']; current: number; previous: number }
+      >();
+      for (const [rows, key] of [
+        [currentCategories, 'current'],
+        [previousCategories, 'previous'],
+      ] as const) {
+        for (const row of rows) {
+          const id = row._id?.toString() ?? '';
+          const entry = categories.get(id) ?? {
+            category: row.category,
+            current: 0,
+            previous: 0,
+          };
+          entry[key] = row.total;
+          categories.set(id, entry);
+        }
+      }
+
+      return {
+        success: true,
+        message: 'Report generated successfully',
+        data: {
+          currency,
+          timezone,
+          type: query.type,
+          current: { from: current.from, to: current.to, ...currentTotals },
+          previous: { from: previous.from, to: previous.to, ...previousTotals },
+          change: {
+            income: toChange(currentTotals.income, previousTotals.income),
+            expense: toChange(currentTotals.expense, previousTotals.expense),
+            net: toChange(currentTotals.net, previousTotals.net),
+          },
+          categories: [...categories.values()]
+            .map((entry) => ({
+              ...entry,
+              change: toChange(entry.current, entry.previous),
+            }))
+            .sort(
+              (a, b) =>
+                Math.abs(b.change.amount) - Math.abs(a.change.amount) ||
+                b.current - a.current,
+            ),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to generate report');
+    }
+  }
+}
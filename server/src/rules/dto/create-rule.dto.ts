@@ -0,0 +1,21 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+import { tagsSchema } from '../../common/validation/tags.schema';
+import { ruleMatchShape } from './rule-definition.schema';
+
+export const createRuleSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be at most 100 characters'),
+  ...ruleMatchShape,
+  category: objectIdSchema,
+  tags: tagsSchema.optional(),
+  // Defaults to running after every existing rule
+  priority: z.number().int('Priority must be a whole number').min(0).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export class CreateRuleDto extends createZodDto(createRuleSchema) {}
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+import { minorUnitsSchema } from '../../common/validation/money.schema';
+import {
+  AMOUNT_OPERATORS,
+  TEXT_OPERATORS,
+} from '../../schemas/categorization-rule.schema';
+
+export const ruleConditionSchema = z.discriminatedUnion('field', [
+  z.object({
+    field: z.literal('note'),
+    operator: z.enum(TEXT_OPERATORS, {
+      errorMap: () => ({
+        message: 'Note operator must be contains, equals, startsWith or endsWith',
+      }),
+    }),
+    value: z
+      .string()
+      .trim()
+      .min(1, 'Text to match cannot be empty')
+      .max(100, 'Text to match must be at most 100 characters'),
+  }),
+  z.object({
+    field: z.literal('amount'),
+    operator: z.enum(AMOUNT_OPERATORS, {
+      errorMap: () => ({ message: 'Amount operator must be lt, lte, gt, gte or eq' }),
+    }),
+    // Minor units of the user's base currency
+    value: minorUnitsSchema().nonnegative('Amount cannot be negative'),
+  }),
+  z.object({
+    field: z.literal('account'),
+    operator: z.literal('equals').default('equals'),
+    value: objectIdSchema,
+  }),
+]);
+
+/**
+ * What a rule matches; shared by saved rules and dry runs
+ */
+export const ruleMatchShape = {
+  type: z.enum(['income', 'expense'], {
+    errorMap: () => ({ message: 'Type must be either income or expense' }),
+  }),
+  conditions: z
+    .array(ruleConditionSchema)
+    .min(1, 'Add at least one condition')
+    .max(10, 'At most 10 conditions are allowed'),
+};
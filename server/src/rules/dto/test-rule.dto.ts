@@ -0,0 +1,45 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+import { ruleMatchShape } from './rule-definition.schema';
+
+const dateRangeShape = {
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+};
+
+const refineDateRange = <T extends { from?: Date; to?: Date }>(data: T) =>
+  !data.from || !data.to || data.from <= data.to;
+
+const dateRangeError = {
+  message: 'From date must be before to date',
+  path: ['from'],
+};
+
+/**
+ * Dry run of a (possibly unsaved) rule against existing transactions
+ */
+export const testRuleSchema = z
+  .object({
+    ...ruleMatchShape,
+    // When given, the result counts how many matches would change category
+    category: objectIdSchema.optional(),
+    ...dateRangeShape,
+    limit: z.number().int().min(1).max(100).default(20),
+  })
+  .refine(refineDateRange, dateRangeError);
+
+export class TestRuleDto extends createZodDto(testRuleSchema) {}
+
+/**
+ * Retroactively apply a saved rule to existing transactions
+ */
+export const applyRuleSchema = z
+  .object({
+    // Also re-categorize transactions that already have a category
+    overwrite: z.boolean().default(false),
+    ...dateRangeShape,
+  })
+  .refine(refineDateRange, dateRangeError);
+
+export class ApplyRuleDto extends createZodDto(applyRuleSchema) {}
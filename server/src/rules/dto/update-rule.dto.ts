@@ -0,0 +1,10 @@
+import { createZodDto } from 'nestjs-zod';
+import { createRuleSchema } from './create-rule.dto';
+
+export const updateRuleSchema = createRuleSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export class UpdateRuleDto extends createZodDto(updateRuleSchema) {}
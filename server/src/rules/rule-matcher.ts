@@ -0,0 +1,90 @@
+import { FilterQuery, Types } from 'mongoose';
+import {
+  AmountOperator,
+  RuleCondition,
+  TextOperator,
+} from '../schemas/categorization-rule.schema';
+import { TransactionDocument } from '../schemas/transaction.schema';
+import { escapeRegex } from '../common/utils/escape-regex';
+
+/**
+ * Rule conditions are evaluated in two places: in memory when a transaction
+ * is recorded, and as a MongoDB filter when a rule is tested or applied to
+ * existing transactions. Both must agree on what a rule matches.
+ */
+
+export interface RuleSubject {
+  type: string;
+  note: string;
+  account: Types.ObjectId | null;
+  baseAmount: number;
+}
+
+export interface RuleMatch {
+  type: string;
+  conditions: RuleCondition[];
+}
+
+const TEXT_PATTERNS: Record<TextOperator, (value: string) => string> = {
+  contains: (value) => escapeRegex(value),
+  equals: (value) => `^${escapeRegex(value)}$`,
+  startsWith: (value) => `^${escapeRegex(value)}`,
+  endsWith: (value) => `${escapeRegex(value)}$`,
+};
+
+const AMOUNT_COMPARATORS: Record<
+  AmountOperator,
+  (amount: number, value: number) => boolean
+> = {
+  lt: (amount, value) => amount < value,
+  lte: (amount, value) => amount <= value,
+  gt: (amount, value) => amount > value,
+  gte: (amount, value) => amount >= value,
+  eq: (amount, value) => amount === value,
+};
+
+const matchesCondition = (condition: RuleCondition, subject: RuleSubject): boolean => {
+  switch (condition.field) {
+    case 'note':
+      return new RegExp(TEXT_PATTERNS[condition.operator](condition.value), 'i').test(
+        subject.note,
+      );
+    case 'amount':
+      return AMOUNT_COMPARATORS[condition.operator](subject.baseAmount, condition.value);
+    case 'account':
+      return !!subject.account && subject.account.equals(condition.value);
+    default:
+      return false;
+  }
+};
+
+export const matchesRule = (rule: RuleMatch, subject: RuleSubject): boolean =>
+  rule.type === subject.type &&
+  rule.conditions.every((condition) => matchesCondition(condition, subject));
+
+/**
+ * MongoDB filter selecting the transactions a rule matches
+ */
+export const toRuleFilter = (rule: RuleMatch): FilterQuery<TransactionDocument> => ({
+  type: rule.type,
+  $and: rule.conditions.map((condition): FilterQuery<TransactionDocument> => {
+    switch (condition.field) {
+      case 'note':
+        return {
+          note: {
+            $regex: TEXT_PATTERNS[condition.operator](condition.value),
+            $options: 'i',
+          },
+        };
+      case 'amount':
+        return {
+          baseAmount:
+            condition.operator === 'eq'
+              ? condition.value
+              : { [`$${condition.operator}`]: condition.value },
+        };
+      case 'account':
+        return { account: new Types.ObjectId(condition.value) };
+    }
+  }),
+});
@@ -0,0 +1,146 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { RulesService } from './rules.service';
+import { CreateRuleDto } from './dto/create-rule.dto';
+import { UpdateRuleDto } from './dto/update-rule.dto';
+import { ApplyRuleDto, TestRuleDto } from './dto/test-rule.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ParseObjectIdPipe } from '../common/pipes/parse-object-id.pipe';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+
+@ApiTags('Rules')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('rules')
+export class RulesController {
+  constructor(private readonly rulesService: RulesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List categorization rules in priority order' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rules retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async findAll(@CurrentUser() user: { userId: string; email: string }) {
+    return this.rulesService.findAll(user.userId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a categorization rule' })
+  @ApiResponse({
+    status: 201,
+    description: 'Rule created successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() createRuleDto: CreateRuleDto,
+  ) {
+    return this.rulesService.create(user.userId, createRuleDto);
+  }
+
+  @Post('test')
+  @ApiOperation({ summary: 'Dry-run a rule against existing transactions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rule tested successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async test(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() testRuleDto: TestRuleDto,
+  ) {
+    return this.rulesService.test(user.userId, testRuleDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a categorization rule' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rule retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Rule not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async findOne(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.rulesService.findOne(user.userId, id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update, reorder or disable a rule' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rule updated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Rule not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async update(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() updateRuleDto: UpdateRuleDto,
+  ) {
+    return this.rulesService.update(user.userId, id, updateRuleDto);
+  }
+
+  @Post(':id/apply')
+  @ApiOperation({ summary: 'Apply a rule to existing transactions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rule applied successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Rule not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async apply(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() applyRuleDto: ApplyRuleDto,
+  ) {
+    return this.rulesService.apply(user.userId, id, applyRuleDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a rule' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rule deleted successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Rule not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async remove(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.rulesService.remove(user.userId, id);
+  }
+}
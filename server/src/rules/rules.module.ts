@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { RulesController } from './rules.controller';
+import { RulesService } from './rules.service';
+import {
+  CategorizationRule,
+  CategorizationRuleSchema,
+} from '../schemas/categorization-rule.schema';
+import { Transaction, TransactionSchema } from '../schemas/transaction.schema';
+import { Category, CategorySchema } from '../schemas/category.schema';
+import { Account, AccountSchema } from '../schemas/account.schema';
+import { AuthModule } from '../auth/auth.module';
+import { TagsModule } from '../tags/tags.module';
+
+// Does not import TransactionsModule: transactions depend on rules to
+// categorize new entries
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CategorizationRule.name, schema: CategorizationRuleSchema },
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: Category.name, schema: CategorySchema },
+      { name: Account.name, schema: AccountSchema },
+    ]),
+    AuthModule,
+    TagsModule,
+  ],
+  controllers: [RulesController],
+  providers: [RulesService],
+  exports: [RulesService],
+})
+export class RulesModule {}
@@ -0,0 +1,390 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  CategorizationRule,
+  CategorizationRuleDocument,
+  RuleCondition,
+} from '../schemas/categorization-rule.schema';
+import {
+  Transaction,
+  TransactionDocument,
+} from '../schemas/transaction.schema';
+import { Category, CategoryDocument } from '../schemas/category.schema';
+import { Account, AccountDocument } from '../schemas/account.schema';
+import {
+  AppException,
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { TagsService } from '../tags/tags.service';
+import { matchesRule, RuleSubject, toRuleFilter } from './rule-matcher';
+import { CreateRuleDto } from './dto/create-rule.dto';
+import { UpdateRuleDto } from './dto/update-rule.dto';
+import { ApplyRuleDto, TestRuleDto } from './dto/test-rule.dto';
+
+type ConditionInput = CreateRuleDto['conditions'][number];
+
+@Injectable()
+export class RulesService {
+  constructor(
+    @InjectModel(CategorizationRule.name)
+    private ruleModel: Model<CategorizationRuleDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    private tagsService: TagsService,
+  ) {}
+
+  private async findOwned(userId: string, id: string) {
+    const rule = await this.ruleModel.findOne({
+      _id: new Types.ObjectId(id),
+      userId: new Types.ObjectId(userId),
+    });
+    if (!rule) {
+      throw new NotFoundException('Rule not found');
+    }
+    return rule;
+  }
+
+  /**
+   * Store account ids in conditions as ObjectIds
+   */
+  private toConditions(conditions: ConditionInput[]): RuleCondition[] {
+    return conditions.map((condition) =>
+      condition.field === 'account'
+        ? {
+            field: 'account',
+            operator: 'equals',
+            value: new Types.ObjectId(condition.value),
+          }
+        : (condition as RuleCondition),
+    );
+  }
+
+  /**
+   * Ensure the category matches the rule type and is usable, and that every
+   * account named in a condition belongs to the user
+   */
+  private async assertRule(
+    userId: string,
+    type: string,
+    category: Types.ObjectId | undefined,
+    conditions: RuleCondition[],
+  ) {
+    const ownerId = new Types.ObjectId(userId);
+    if (category) {
+      const found = await this.categoryModel
+        .findOne({ _id: category, userId: ownerId })
+        .select('type isArchived')
+        .lean();
+      if (!found) {
+        throw new ValidationException('Category not found');
+      }
+      if (found.type !== type) {
+        throw new ValidationException(`Category must be an ${type} category`);
+      }
+      if (found.isArchived) {
+        throw new ValidationException('Category is archived');
+      }
+    }
+
+    const accountIds = conditions
+      .filter((condition) => condition.field === 'account')
+      .map((condition) => condition.value as Types.ObjectId);
+    if (accountIds.length > 0) {
+      const owned = await this.accountModel.countDocuments({
+        _id: { $in: accountIds },
+        userId: ownerId,
+      });
+      if (owned < new Set(accountIds.map(String)).size) {
+        throw new ValidationException('Account not found');
+      }
+    }
+  }
+
+  /**
+   * First active rule (in priority order) matching a new transaction, or
+   * null. Rules whose category has since been archived are skipped. Called
+   * when a transaction is recorded without a category.
+   */
+  async match(
+    userId: string,
+    subject: RuleSubject,
+  ): Promise<{ category: Types.ObjectId; tags: Types.ObjectId[] } | null> {
+    if (subject.type !== 'income' && subject.type !== 'expense') {
+      return null;
+    }
+
+    const rules = await this.ruleModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        type: subject.type,
+        isActive: true,
+      })
+      .sort({ priority: 1, createdAt: 1 })
+      .populate<{ category: { _id: Types.ObjectId; isArchived: boolean } | null }>(
+        'category',
+        'isArchived',
+      )
+      .lean();
+
+    const rule = rules.find(
+      (candidate) =>
+        candidate.category &&
+        !candidate.category.isArchived &&
+        matchesRule(candidate, subject),
+    );
+    return rule ? { category: rule.category._id, tags: rule.tags ?? [] } : null;
+  }
+
+  async findAll(userId: string) {
+    try {
+      const rules = await this.ruleModel
+        .find({ userId: new Types.ObjectId(userId) })
+        .sort({ priority: 1, createdAt: 1 })
+        .populate('category', 'name icon color')
+        .populate('tags', 'name color')
+        .lean();
+
+      return {
+        success: true,
+        message: 'Rules retrieved successfully',
+        data: {
+          rules,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve rules');
+    }
+  }
+
+  async findOne(userId: string, id: string) {
+    try {
+      const rule = await this.findOwned(userId, id);
+      await rule.populate([
+        { path: 'category', select: 'name icon color' },
+        { path: 'tags', select: 'name color' },
+      ]);
+
+      return {
+        success: true,
+        message: 'Rule retrieved successfully',
+        data: {
+          rule: rule.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve rule');
+    }
+  }
+
+  async create(userId: string, createRuleDto: CreateRuleDto) {
+    try {
+      const { category, conditions, priority, tags, ...fields } = createRuleDto;
+      const ownerId = new Types.ObjectId(userId);
+
+      const categoryId = new Types.ObjectId(category);
+      const ruleConditions = this.toConditions(conditions);
+      await this.assertRule(userId, fields.type, categoryId, ruleConditions);
+
+      // New rules run after existing ones unless placed explicitly
+      const last = await this.ruleModel
+        .findOne({ userId: ownerId })
+        .sort({ priority: -1 })
+        .select('priority')
+        .lean();
+
+      const rule = await this.ruleModel.create({
+        ...fields,
+        userId: ownerId,
+        category: categoryId,
+        conditions: ruleConditions,
+        tags: await this.tagsService.resolve(userId, tags ?? []),
+        priority: priority ?? (last ? last.priority + 1 : 0),
+      });
+
+      return {
+        success: true,
+        message: 'Rule created successfully',
+        data: {
+          rule: rule.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to create rule');
+    }
+  }
+
+  async update(userId: string, id: string, updateRuleDto: UpdateRuleDto) {
+    try {
+      const rule = await this.findOwned(userId, id);
+      const { category, conditions, tags, ...fields } = updateRuleDto;
+
+      rule.set(fields);
+      if (tags !== undefined) rule.tags = await this.tagsService.resolve(userId, tags);
+      if (category !== undefined) rule.category = new Types.ObjectId(category);
+      if (conditions !== undefined) rule.conditions = this.toConditions(conditions);
+
+      if (
+        category !== undefined ||
+        conditions !== undefined ||
+        fields.type !== undefined
+      ) {
+        await this.assertRule(userId, rule.type, rule.category, rule.conditions);
+      }
+      await rule.save();
+
+      return {
+        success: true,
+        message: 'Rule updated successfully',
+        data: {
+          rule: rule.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to update rule');
+    }
+  }
+
+  /**
+   * Delete a rule. Categories it already assigned are kept.
+   */
+  async remove(userId: string, id: string) {
+    try {
+      const rule = await this.findOwned(userId, id);
+      await rule.deleteOne();
+
+      return {
+        success: true,
+        message: 'Rule deleted successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to delete rule');
+    }
+  }
+
+  private historyFilter(
+    userId: string,
+    rule: { type: string; conditions: RuleCondition[] },
+    from?: Date,
+    to?: Date,
+  ): FilterQuery<TransactionDocument> {
+    const filter: FilterQuery<TransactionDocument> = {
+      userId: new Types.ObjectId(userId),
+      ...toRuleFilter(rule),
+      // Split transactions are categorized line by line, never by a rule
+      'splits.0': { $exists: false },
+    };
+    if (from || to) {
+      filter.date = {};
+      if (from) filter.date.$gte = from;
+      if (to) filter.date.$lte = to;
+    }
+    return filter;
+  }
+
+  /**
+   * Dry run: which existing transactions a rule would match, and how many of
+   * them it would categorize or re-categorize. Nothing is changed.
+   */
+  async test(userId: string, testRuleDto: TestRuleDto) {
+    try {
+      const { category, conditions, type, from, to, limit } = testRuleDto;
+
+      const categoryId = category ? new Types.ObjectId(category) : undefined;
+      const ruleConditions = this.toConditions(conditions);
+      await this.assertRule(userId, type, categoryId, ruleConditions);
+
+      const filter = this.historyFilter(
+        userId,
+        { type, conditions: ruleConditions },
+        from,
+        to,
+      );
+      const [transactions, matched, uncategorized, unchanged] = await Promise.all([
+        this.transactionModel
+          .find(filter)
+          .sort({ date: -1, _id: -1 })
+          .limit(limit)
+          .populate('category', 'name icon color')
+          .lean(),
+        this.transactionModel.countDocuments(filter),
+        this.transactionModel.countDocuments({ ...filter, category: null }),
+        categoryId
+          ? this.transactionModel.countDocuments({ ...filter, category: categoryId })
+          : Promise.resolve(0),
+      ]);
+
+      return {
+        success: true,
+        message: 'Rule tested successfully',
+        data: {
+          matched,
+          uncategorized,
+          // Already in another category; only changed when applied with overwrite
+          categorized: matched - uncategorized - unchanged,
+          transactions,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to test rule');
+    }
+  }
+
+  /**
+   * Retroactively set a rule's category and tags on existing transactions it
+   * matches. Only uncategorized transactions change unless `overwrite` is set.
+   */
+  async apply(userId: string, id: string, applyRuleDto: ApplyRuleDto) {
+    try {
+      const { overwrite, from, to } = applyRuleDto;
+      const rule = await this.findOwned(userId, id);
+      await this.assertRule(userId, rule.type, rule.category, []);
+
+      const filter = this.historyFilter(userId, rule, from, to);
+      const result = await this.transactionModel.updateMany(
+        {
+          ...filter,
+          category: overwrite ? { $ne: rule.category } : null,
+        },
+        {
+          $set: { category: rule.category },
+          $addToSet: { tags: { $each: rule.tags ?? [] } },
+        },
+      );
+
+      return {
+        success: true,
+        message: 'Rule applied successfully',
+        data: {
+          updated: result.modifiedCount,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to apply rule');
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import {
+  currencyValidator,
+  minorUnitsValidator,
+} from '../common/money/money';
+
+export type AccountDocument = Account & Document;
+
+export const ACCOUNT_TYPES = [
+  'cash',
+  'bank',
+  'credit-card',
+  'savings',
+  'investment',
+  'other',
+] as const;
+
+export type AccountType = (typeof ACCOUNT_TYPES)[number];
+
+@Schema({ timestamps: true })
+export class Account {
+  @Prop({ type: Types.ObjectId, required: true, ref: 'User', index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true, maxlength: 50 })
+  name: string;
+
+  @Prop({
+    type: String,
+    enum: ACCOUNT_TYPES,
+    required: true,
+  })
+  type: AccountType;
+
+  // ISO 4217 code; every transaction on the account uses it
+  @Prop({ required: true, uppercase: true, validate: currencyValidator })
+  currency: string;
+
+  // Balance before the first recorded transaction, in minor units; may be
+  // negative (credit cards)
+  @Prop({ default: 0, validate: minorUnitsValidator })
+  openingBalance: number;
+
+  @Prop({ default: false })
+  isArchived: boolean;
+
+  @Prop({ default: undefined })
+  archivedAt?: Date;
+}
+
+export const AccountSchema = SchemaFactory.createForClass(Account);
+
+// Database Indexes for Performance
+AccountSchema.index(
+  { userId: 1, name: 1 },
+  { unique: true, collation: { locale: 'en', strength: 2 } },
+);
+AccountSchema.index({ userId: 1, isArchived: 1 });
@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type AttachmentDocument = Attachment & Document;
+
+export const ATTACHMENT_PURPOSES = ['receipt', 'profile'] as const;
+export type AttachmentPurpose = (typeof ATTACHMENT_PURPOSES)[number];
+
+// An uploaded file: a receipt or invoice on a transaction, or the user's
+// profile photo. The bytes live in the storage driver under `key`.
+@Schema({ timestamps: true })
+export class Attachment {
+  @Prop({ type: Types.ObjectId, required: true, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @Prop({ type: String, enum: ATTACHMENT_PURPOSES, required: true })
+  purpose: AttachmentPurpose;
+
+  // Set for receipts
+  @Prop({ type: Types.ObjectId, ref: 'Transaction', default: null })
+  transaction: Types.ObjectId | null;
+
+  // Storage keys are internal and never returned to clients
+  @Prop({ required: true, select: false })
+  key: string;
+
+  // Only images have a thumbnail
+  @Prop({ type: String, default: null, select: false })
+  thumbnailKey: string | null;
+
+  // Detected from the file contents, not taken from the upload
+  @Prop({ required: true })
+  mimeType: string;
+
+  // Bytes
+  @Prop({ required: true })
+  size: number;
+
+  @Prop({ trim: true, default: '' })
+  originalName: string;
+}
+
+export const AttachmentSchema = SchemaFactory.createForClass(Attachment);
+
+AttachmentSchema.index({ userId: 1, transaction: 1, createdAt: 1 });
+AttachmentSchema.index({ userId: 1, purpose: 1 });
@@ -0,0 +1,53 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { minorUnitsValidator } from '../common/money/money';
+
+export type BudgetDocument = Budget & Document;
+
+export type BudgetAlertThreshold = 80 | 100;
+
+export interface BudgetAlert {
+  period: string;
+  threshold: BudgetAlertThreshold;
+  sentAt: Date;
+}
+
+@Schema({ timestamps: true })
+export class Budget {
+  @Prop({ type: Types.ObjectId, required: true, ref: 'User', index: true })
+  userId: Types.ObjectId;
+
+  // Expense category the limit applies to (subcategories included)
+  @Prop({ type: Types.ObjectId, required: true, ref: 'Category' })
+  category: Types.ObjectId;
+
+  // Monthly limit in minor units
+  @Prop({ required: true, min: 0, validate: minorUnitsValidator })
+  amount: number;
+
+  // Carry unspent (or overspent) amounts into the following month
+  @Prop({ default: false })
+  rollover: boolean;
+
+  // First month (YYYY-MM) the budget applies to; rollover accrues from here
+  @Prop({ required: true, match: /^\d{4}-(0[1-9]|1[0-2])$/ })
+  startPeriod: string;
+
+  // Overspend alerts already emailed, so each threshold fires once per month
+  @Prop({
+    type: [
+      {
+        period: { type: String, required: true },
+        threshold: { type: Number, enum: [80, 100], required: true },
+        sentAt: { type: Date, required: true, default: Date.now },
+      },
+    ],
+    default: [],
+  })
+  alerts: BudgetAlert[];
+}
+
+export const BudgetSchema = SchemaFactory.createForClass(Budget);
+
+// One budget per category
+BudgetSchema.index({ userId: 1, category: 1 }, { unique: true });
@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CategorizationRuleDocument = CategorizationRule & Document;
+
+export const TEXT_OPERATORS = ['contains', 'equals', 'startsWith', 'endsWith'] as const;
+
+export const AMOUNT_OPERATORS = ['lt', 'lte', 'gt', 'gte', 'eq'] as const;
+
+export type TextOperator = (typeof TEXT_OPERATORS)[number];
+
+export type AmountOperator = (typeof AMOUNT_OPERATORS)[number];
+
+// Note conditions compare case-insensitively; amount conditions compare the
+// transaction's base amount (minor units of the user's base currency)
+export type RuleCondition =
+  | { field: 'note'; operator: TextOperator; value: string }
+  | { field: 'amount'; operator: AmountOperator; value: number }
+  | { field: 'account'; operator: 'equals'; value: Types.ObjectId };
+
+// Sets the category (and adds tags) on new transactions that match every
+// condition. Rules run in ascending priority and the first match wins.
+@Schema({ timestamps: true })
+export class CategorizationRule {
+  @Prop({ type: Types.ObjectId, required: true, ref: 'User', index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true, maxlength: 100 })
+  name: string;
+
+  // Only transactions of this type are matched; the category must be of the
+  // same type
+  @Prop({ type: String, enum: ['income', 'expense'], required: true })
+  type: 'income' | 'expense';
+
+  @Prop({ type: [{ type: Object }], required: true })
+  conditions: RuleCondition[];
+
+  @Prop({ type: Types.ObjectId, ref: 'Category', required: true })
+  category: Types.ObjectId;
+
+  // Added to the transaction's own tags
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Tag' }], default: [] })
+  tags: Types.ObjectId[];
+
+  // Lower runs first
+  @Prop({ default: 0 })
+  priority: number;
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const CategorizationRuleSchema =
+  SchemaFactory.createForClass(CategorizationRule);
+
+CategorizationRuleSchema.index({ userId: 1, type: 1, priority: 1 });
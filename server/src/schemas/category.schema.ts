@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CategoryDocument = Category & Document;
+
+export type CategoryType = 'income' | 'expense';
+
+@Schema({ timestamps: true })
+export class Category {
+  @Prop({ type: Types.ObjectId, required: true, ref: 'User', index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true, maxlength: 50 })
+  name: string;
+
+  @Prop({
+    type: String,
+    enum: ['income', 'expense'],
+    required: true,
+  })
+  type: CategoryType;
+
+  @Prop({ type: Types.ObjectId, ref: 'Category', default: null })
+  parent?: Types.ObjectId | null;
+
+  @Prop({ default: 'tag.fill', trim: true })
+  icon: string;
+
+  @Prop({ default: '#6B7280', trim: true })
+  color: string;
+
+  @Prop({ default: false })
+  isArchived: boolean;
+
+  @Prop({ default: undefined })
+  archivedAt?: Date;
+}
+
+export const CategorySchema = SchemaFactory.createForClass(Category);
+
+// Sibling names must be unique within a user's income or expense tree
+CategorySchema.index(
+  { userId: 1, type: 1, parent: 1, name: 1 },
+  { unique: true, collation: { locale: 'en', strength: 2 } },
+);
+CategorySchema.index({ userId: 1, type: 1, isArchived: 1 });
+CategorySchema.index({ userId: 1, parent: 1 });
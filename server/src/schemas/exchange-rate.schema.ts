@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { currencyValidator } from '../common/money/money';
+
+export type ExchangeRateDocument = ExchangeRate & Document;
+
+export const EXCHANGE_RATE_SOURCES = ['manual', 'import'] as const;
+
+export type ExchangeRateSource = (typeof EXCHANGE_RATE_SOURCES)[number];
+
+// One unit of `from` is worth `rate` units of `to` from `date` onwards
+@Schema({ timestamps: true })
+export class ExchangeRate {
+  @Prop({ type: Types.ObjectId, required: true, ref: 'User', index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, uppercase: true, validate: currencyValidator })
+  from: string;
+
+  @Prop({ required: true, uppercase: true, validate: currencyValidator })
+  to: string;
+
+  @Prop({ required: true, min: 0 })
+  rate: number;
+
+  // Effective day, stored as UTC midnight
+  @Prop({ required: true })
+  date: Date;
+
+  @Prop({ type: String, enum: EXCHANGE_RATE_SOURCES, default: 'manual' })
+  source: ExchangeRateSource;
+}
+
+export const ExchangeRateSchema = SchemaFactory.createForClass(ExchangeRate);
+
+// One rate per currency pair per day; also serves the "latest rate on or
+// before a date" lookup
+ExchangeRateSchema.index({ userId: 1, from: 1, to: 1, date: -1 }, { unique: true });
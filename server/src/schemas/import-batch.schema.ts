@@ -0,0 +1,65 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ImportBatchDocument = ImportBatch & Document;
+
+export const IMPORT_FORMATS = ['csv', 'ofx', 'qif'] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export type ImportStatus = 'pending' | 'committed';
+
+// An uploaded statement waiting for the user to map columns and confirm.
+// Pending batches expire after a day; committed ones are kept as a record of
+// what was imported.
+@Schema({ timestamps: true })
+export class ImportBatch {
+  @Prop({ type: Types.ObjectId, required: true, ref: 'User', index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: String, enum: IMPORT_FORMATS, required: true })
+  format: ImportFormat;
+
+  @Prop({ default: '', trim: true, maxlength: 255 })
+  fileName: string;
+
+  // Raw file text, kept until commit so the user can re-map columns or
+  // change the detected format without uploading again
+  @Prop({ default: '' })
+  content: string;
+
+  // Format detected at upload: CSV delimiter, dateFormat, decimalSeparator,
+  // hasHeader and suggested column mapping; QIF dateFormat and
+  // decimalSeparator; OFX statement currency
+  @Prop({ type: Object, required: true })
+  detected: Record<string, unknown>;
+
+  @Prop({ type: String, enum: ['pending', 'committed'], default: 'pending' })
+  status: ImportStatus;
+
+  @Prop({ type: Types.ObjectId, ref: 'Account', default: null })
+  account?: Types.ObjectId | null;
+
+  @Prop({ default: 0 })
+  importedCount: number;
+
+  // Rows already posted, so a commit that failed part-way resumes where it
+  // stopped instead of posting them again
+  @Prop({ type: [Number], default: [] })
+  committedRows: number[];
+
+  @Prop({ default: 0 })
+  skippedCount: number;
+
+  @Prop({ default: null })
+  committedAt?: Date | null;
+
+  // Removed on commit; Mongo deletes pending batches once this passes
+  @Prop({ default: undefined })
+  expiresAt?: Date;
+}
+
+export const ImportBatchSchema = SchemaFactory.createForClass(ImportBatch);
+
+ImportBatchSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+ImportBatchSchema.index({ userId: 1, createdAt: -1 });
@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PayeeDocument = Payee & Document;
+
+// Who a transaction was paid to or received from. Aliases are the other
+// spellings banks use for the same payee ("AMZN Mktp" for Amazon), so
+// imported descriptions resolve to it.
+@Schema({ timestamps: true })
+export class Payee {
+  @Prop({ type: Types.ObjectId, required: true, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true, maxlength: 100 })
+  name: string;
+
+  // Normalized with normalizePayeeText
+  @Prop({ type: [String], default: [] })
+  aliases: string[];
+}
+
+export const PayeeSchema = SchemaFactory.createForClass(Payee);
+
+PayeeSchema.index(
+  { userId: 1, name: 1 },
+  { unique: true, collation: { locale: 'en', strength: 2 } },
+);
+PayeeSchema.index({ userId: 1, aliases: 1 });
@@ -0,0 +1,98 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import {
+  currencyValidator,
+  minorUnitsValidator,
+} from '../common/money/money';
+
+export type RecurringRuleDocument = RecurringRule & Document;
+
+export const RECURRENCE_FREQUENCIES = [
+  'daily',
+  'weekly',
+  'monthly',
+  'yearly',
+] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+@Schema({ timestamps: true })
+export class RecurringRule {
+  @Prop({ type: Types.ObjectId, required: true, ref: 'User', index: true })
+  userId: Types.ObjectId;
+
+  // Template for every materialized transaction
+  // Minor units of the currency (e.g. cents)
+  @Prop({ required: true, min: 0, validate: minorUnitsValidator })
+  amount: number;
+
+  // ISO 4217 code of `amount`, fixed when the rule is created: the account's
+  // currency, or the base currency at the time for a rule without an account
+  @Prop({ required: true, uppercase: true, validate: currencyValidator })
+  currency: string;
+
+  @Prop({
+    type: String,
+    enum: ['income', 'expense'],
+    required: true,
+  })
+  type: 'income' | 'expense';
+
+  @Prop({ default: '', trim: true, maxlength: 500 })
+  note: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Category', default: null })
+  category?: Types.ObjectId | null;
+
+  @Prop({ type: Types.ObjectId, ref: 'Account', default: null })
+  account?: Types.ObjectId | null;
+
+  // Schedule
+  @Prop({ type: String, enum: RECURRENCE_FREQUENCIES, required: true })
+  frequency: RecurrenceFrequency;
+
+  // Repeat every N days/weeks/months/years
+  @Prop({ default: 1, min: 1 })
+  interval: number;
+
+  @Prop({ required: true })
+  startDate: Date;
+
+  @Prop({ default: undefined })
+  endDate?: Date;
+
+  @Prop({ default: undefined, min: 1 })
+  maxOccurrences?: number;
+
+  // Monthly rules only: post on the last weekday of the month
+  @Prop({ default: false })
+  lastBusinessDay: boolean;
+
+  // Number of occurrences materialized so far; the next one has this index
+  @Prop({ default: 0 })
+  occurrenceCount: number;
+
+  // Date of the next occurrence to post, or null once the rule has ended
+  @Prop({ type: Date, default: null })
+  nextOccurrence: Date | null;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  // Why the posting job paused the rule; cleared once it is resumed
+  @Prop({ type: String, default: null })
+  lastError: string | null;
+
+  @Prop({ type: Date, default: null })
+  lastErrorAt: Date | null;
+
+  // Runs in a row that failed to post the next occurrence for an unexpected
+  // reason; the rule is paused once it reaches MAX_FAILED_RUNS
+  @Prop({ default: 0 })
+  failedRuns: number;
+}
+
+export const RecurringRuleSchema = SchemaFactory.createForClass(RecurringRule);
+
+// Due-rule lookup for the posting job
+RecurringRuleSchema.index({ isActive: 1, nextOccurrence: 1 });
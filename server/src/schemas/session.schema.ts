@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SessionDocument = Session & Document;
+
+export type SessionPlatform = 'ios' | 'android' | 'web' | 'other';
+
+// One sign-in on one device. Its id is the family of the refresh tokens
+// issued for it, so revoking the session revokes them all.
+@Schema({ timestamps: true })
+export class Session {
+  @Prop({ type: Types.ObjectId, required: true, ref: 'User' })
+  userId: Types.ObjectId;
+
+  // As the device reports it ("Jane's iPhone")
+  @Prop({ default: '', trim: true, maxlength: 100 })
+  deviceName: string;
+
+  @Prop({
+    type: String,
+    enum: ['ios', 'android', 'web', 'other'],
+    default: 'other',
+  })
+  platform: SessionPlatform;
+
+  // Where it signed in from, then where it last refreshed from
+  @Prop({ default: '' })
+  ip: string;
+
+  @Prop({ default: '', maxlength: 500 })
+  userAgent: string;
+
+  @Prop({ required: true })
+  lastUsedAt: Date;
+
+  @Prop({ default: undefined })
+  revokedAt?: Date;
+
+  // The latest refresh token's expiry; a session not refreshed by then is over
+  @Prop({ required: true, index: { expireAfterSeconds: 0 } })
+  expiresAt: Date;
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session);
+
+SessionSchema.index({ userId: 1, revokedAt: 1, lastUsedAt: -1 });
@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type SignInAttemptDocument = SignInAttempt & Document;
+
+// Failed sign-ins against one account or from one IP address, for slowing
+// down and then locking out password guessing
+@Schema({ timestamps: true })
+export class SignInAttempt {
+  // 'account:<email>' or 'ip:<address>'
+  @Prop({ required: true, unique: true })
+  key: string;
+
+  // Failures since the last lockout or successful sign-in
+  @Prop({ default: 0 })
+  failures: number;
+
+  @Prop({ required: true })
+  lastFailureAt: Date;
+
+  @Prop({ default: undefined })
+  lockedUntil?: Date;
+
+  // Lockouts so far; each lasts twice as long as the one before
+  @Prop({ default: 0 })
+  lockouts: number;
+
+  // A quiet day after the last failure, the record is forgotten
+  @Prop({ required: true, index: { expireAfterSeconds: 0 } })
+  expiresAt: Date;
+}
+
+export const SignInAttemptSchema = SchemaFactory.createForClass(SignInAttempt);
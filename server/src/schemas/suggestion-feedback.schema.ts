@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SuggestionFeedbackDocument = SuggestionFeedback & Document;
+
+// A category suggestion the user accepted or rejected. Accepted ones are
+// weighted above plain history; rejected ones push that category down for
+// similar notes.
+@Schema({ timestamps: true })
+export class SuggestionFeedback {
+  @Prop({ type: Types.ObjectId, required: true, ref: 'User' })
+  userId: Types.ObjectId;
+
+  @Prop({ type: String, enum: ['income', 'expense'], required: true })
+  type: 'income' | 'expense';
+
+  // Tokens of the note the suggestion was made for
+  @Prop({ type: [String], default: [] })
+  tokens: string[];
+
+  // Minor units of `currency`
+  @Prop({ default: undefined })
+  amount?: number;
+
+  @Prop({ uppercase: true, default: undefined })
+  currency?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Category', required: true })
+  category: Types.ObjectId;
+
+  @Prop({ required: true })
+  accepted: boolean;
+}
+
+export const SuggestionFeedbackSchema =
+  SchemaFactory.createForClass(SuggestionFeedback);
+
+SuggestionFeedbackSchema.index({ userId: 1, type: 1, createdAt: -1 });
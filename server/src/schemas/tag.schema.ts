@@ -0,0 +1,23 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type TagDocument = Tag & Document;
+
+// A label transactions and rules refer to by id, so renaming or merging a
+// tag never touches the transactions themselves
+@Schema({ timestamps: true })
+export class Tag {
+  @Prop({ type: Types.ObjectId, required: true, ref: 'User' })
+  userId: Types.ObjectId;
+
+  // Stored lowercase
+  @Prop({ required: true, trim: true, lowercase: true, maxlength: 30 })
+  name: string;
+
+  @Prop({ default: '#6B7280', trim: true })
+  color: string;
+}
+
+export const TagSchema = SchemaFactory.createForClass(Tag);
+
+TagSchema.index({ userId: 1, name: 1 }, { unique: true });
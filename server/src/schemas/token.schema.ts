@@ -3,18 +3,26 @@ import { Document, Types } from 'mongoose';
 
 export type TokenDocument = Token & Document;
 
+export type TokenType =
+  | 'password-reset'
+  | 'email-verification'
+  | 'refresh'
+  | 'two-factor';
+
 @Schema({ timestamps: true })
 export class Token {
+  // Refresh tokens and two-factor challenges are stored as a SHA-256 hash,
+  // never as issued
   @Prop({ required: true, index: true })
   token: string;
 
   @Prop({
     type: String,
-    enum: ['password-reset', 'email-verification'],
+    enum: ['password-reset', 'email-verification', 'refresh', 'two-factor'],
     required: true,
     index: true,
   })
-  type: 'password-reset' | 'email-verification';
+  type: TokenType;
 
   @Prop({ type: Types.ObjectId, required: true, ref: 'User', index: true })
   userId: Types.ObjectId;
@@ -27,6 +35,19 @@ export class Token {
 
   @Prop({ default: undefined })
   usedAt?: Date;
+
+  // Refresh tokens of one sign-in share a family. Refreshing uses up the
+  // token and issues the next one in the family.
+  @Prop({ default: undefined })
+  family?: string;
+
+  // Set on every token of a family when the session is revoked
+  @Prop({ default: undefined })
+  revokedAt?: Date;
+
+  // Codes tried against a two-factor challenge
+  @Prop({ default: undefined })
+  attempts?: number;
 }
 
 export const TokenSchema = SchemaFactory.createForClass(Token);
@@ -34,5 +55,7 @@ export const TokenSchema = SchemaFactory.createForClass(Token);
 // Compound indexes for efficient lookups
 TokenSchema.index({ token: 1, type: 1, used: 1 });
 TokenSchema.index({ userId: 1, type: 1, used: 1 });
+// Revoking a session finds its whole family
+TokenSchema.index({ family: 1, type: 1 }, { sparse: true });
 // Compound index for cleanup queries
 TokenSchema.index({ userId: 1, type: 1, used: 1, expiresAt: 1 });
@@ -0,0 +1,150 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import {
+  currencyValidator,
+  minorUnitsValidator,
+} from '../common/money/money';
+
+export type TransactionDocument = Transaction & Document;
+
+// Transfers are stored as a debit/credit pair sharing a transferId and are
+// never counted as income or expense
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+export type TransferDirection = 'in' | 'out';
+
+// One line of a split transaction. Lines add up to the parent's amount and
+// are what reports and budgets count, each under its own category.
+export interface TransactionSplit {
+  _id?: Types.ObjectId;
+  category: Types.ObjectId | null;
+  // Minor units of the parent's currency
+  amount: number;
+  // Share of the parent's baseAmount; lines add up to it exactly
+  baseAmount: number;
+  note: string;
+}
+
+@Schema({ timestamps: true })
+export class Transaction {
+  @Prop({ type: Types.ObjectId, required: true, ref: 'User', index: true })
+  userId: Types.ObjectId;
+
+  // Minor units of the currency (e.g. cents)
+  @Prop({ required: true, min: 0, validate: minorUnitsValidator })
+  amount: number;
+
+  // ISO 4217 code of `amount`; always the account's currency when an account
+  // is set
+  @Prop({ required: true, uppercase: true, validate: currencyValidator })
+  currency: string;
+
+  // `amount` converted into the user's base currency with the rate that
+  // applied when the transaction was posted; reports and budgets use this
+  @Prop({ required: true, validate: minorUnitsValidator })
+  baseAmount: number;
+
+  @Prop({ required: true, uppercase: true, validate: currencyValidator })
+  baseCurrency: string;
+
+  // Units of the base currency at posting time per unit of currency (1 when
+  // they match); kept as applied, even across base currency changes
+  @Prop({ required: true, min: 0, default: 1 })
+  exchangeRate: number;
+
+  // Product of the rates of every base currency change since posting: units
+  // of baseCurrency per unit of the posting-time base currency
+  @Prop({ min: 0, default: 1 })
+  rebaseRate: number;
+
+  @Prop({
+    type: String,
+    enum: ['income', 'expense', 'transfer'],
+    required: true,
+    index: true,
+  })
+  type: TransactionType;
+
+  @Prop({ required: true })
+  date: Date;
+
+  @Prop({ default: '', trim: true, maxlength: 500 })
+  note: string;
+
+  // Always null on a split transaction; each line has its own category
+  @Prop({ type: Types.ObjectId, ref: 'Category', default: null })
+  category?: Types.ObjectId | null;
+
+  // Empty unless the transaction is split
+  @Prop({
+    type: [
+      {
+        category: { type: Types.ObjectId, ref: 'Category', default: null },
+        amount: { type: Number, required: true, min: 1, validate: minorUnitsValidator },
+        baseAmount: { type: Number, required: true, validate: minorUnitsValidator },
+        note: { type: String, default: '', trim: true, maxlength: 500 },
+      },
+    ],
+    default: [],
+  })
+  splits: TransactionSplit[];
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Tag' }], default: [] })
+  tags: Types.ObjectId[];
+
+  @Prop({ type: Types.ObjectId, ref: 'Payee', default: null })
+  payee?: Types.ObjectId | null;
+
+  @Prop({ type: Types.ObjectId, ref: 'Account', default: null })
+  account?: Types.ObjectId | null;
+
+  @Prop({ type: Types.ObjectId, default: undefined, index: true })
+  transferId?: Types.ObjectId;
+
+  @Prop({ type: String, enum: ['in', 'out'], default: undefined })
+  transferDirection?: TransferDirection;
+
+  // Set when posted by a recurring rule; (rule, occurrence) is unique so an
+  // occurrence can never be posted twice
+  @Prop({ type: Types.ObjectId, ref: 'RecurringRule', default: undefined })
+  recurringRuleId?: Types.ObjectId;
+
+  @Prop({ default: undefined })
+  recurringOccurrence?: number;
+
+  // Set when created from an imported statement
+  @Prop({ type: Types.ObjectId, ref: 'ImportBatch', default: undefined, index: true })
+  importBatchId?: Types.ObjectId;
+
+  // Bank-assigned id of an imported transaction (OFX FITID); unique per
+  // account so downloading an overlapping statement never doubles it up
+  @Prop({ default: undefined })
+  externalId?: string;
+}
+
+export const TransactionSchema = SchemaFactory.createForClass(Transaction);
+
+// Database Indexes for Performance
+TransactionSchema.index({ userId: 1, date: -1 });
+// Reports: totals by type over a period, per day, month or payee, are read
+// from this index alone without fetching the transactions
+TransactionSchema.index({ userId: 1, type: 1, date: -1, baseAmount: 1, payee: 1 });
+TransactionSchema.index({ userId: 1, category: 1, date: -1 });
+TransactionSchema.index({ userId: 1, 'splits.category': 1, date: -1 });
+TransactionSchema.index({ userId: 1, account: 1, date: -1 });
+TransactionSchema.index({ userId: 1, tags: 1, date: -1 });
+TransactionSchema.index({ userId: 1, payee: 1, date: -1 });
+TransactionSchema.index(
+  { recurringRuleId: 1, recurringOccurrence: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { recurringRuleId: { $exists: true } },
+  },
+);
+TransactionSchema.index(
+  { userId: 1, account: 1, externalId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { externalId: { $exists: true } },
+  },
+);
@@ -1,5 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import { currencyValidator } from '../common/money/money';
+import { timeZoneValidator } from '../common/dates/time-zone';
 
 export type UserDocument = User & Document;
 
@@ -22,18 +24,26 @@ export class User {
   })
   email: string;
 
+  // API path of the uploaded profile photo (see PUT /users/me/profile-photo),
+  // empty when there is none. Only set by the server.
   @Prop({ default: '' })
   profilePath: string;
 
   @Prop({ required: true, minlength: 6, select: false })
   password: string;
 
+  // Base currency (ISO 4217) that reports and budgets are expressed in
   @Prop({
     type: String,
-    enum: ['INR', 'USD', 'EUR', 'GBP'],
+    uppercase: true,
+    validate: currencyValidator,
     default: 'INR',
   })
-  currency: 'INR' | 'USD' | 'EUR' | 'GBP';
+  currency: string;
+
+  // IANA time zone that reports group days and months in
+  @Prop({ type: String, validate: timeZoneValidator, default: 'UTC' })
+  timezone: string;
 
   @Prop({ default: undefined })
   createdBy?: string;
@@ -52,6 +62,30 @@ export class User {
     select: false,
   })
   passwordHistory?: PasswordHistory[];
+
+  // Sign-in asks for a code from an authenticator app as well as the password
+  @Prop({ default: false })
+  twoFactorEnabled: boolean;
+
+  // Base32 TOTP secret, set once enrollment is confirmed with a code
+  @Prop({ default: undefined, select: false })
+  twoFactorSecret?: string;
+
+  // Secret handed out by setup, waiting for the first code to confirm it
+  @Prop({ default: undefined, select: false })
+  twoFactorPendingSecret?: string;
+
+  // Time step of the last accepted code, so a code can't be replayed
+  @Prop({ default: undefined, select: false })
+  twoFactorLastStep?: number;
+
+  // SHA-256 hashes of the unused recovery codes
+  @Prop({ type: [String], default: undefined, select: false })
+  recoveryCodes?: string[];
+
+  // Set by the timestamps option
+  createdAt?: Date;
+  updatedAt?: Date;
 }
 
 export const UserSchema = SchemaFactory.createForClass(User);
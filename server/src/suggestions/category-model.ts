@@ -0,0 +1,168 @@
+/**
+ * Category suggestions learned from the user's own history: a naive Bayes
+ * classifier over note tokens, combined with how close the amount is to what
+ * the user usually spends in each category (a normal distribution over the
+ * log of past amounts). Scores are turned into confidences with a softmax.
+ */
+
+export interface TrainingExample {
+  category: string;
+  tokens: string[];
+  // Minor units in the query currency; omitted for other currencies
+  amount?: number;
+  weight: number;
+}
+
+export interface Rejection {
+  category: string;
+  tokens: string[];
+}
+
+export interface CategoryScore {
+  category: string;
+  confidence: number;
+}
+
+// Additive (Laplace) smoothing for token likelihoods
+const SMOOTHING = 1;
+
+// Weight of the amount likelihood relative to one note token
+const AMOUNT_WEIGHT = 0.5;
+
+// Floor for the spread of log amounts, so a category seen with one amount
+// does not reject everything slightly different
+const MIN_LOG_SPREAD = 0.35;
+
+// Score removed per rejection of a category for a similar note
+const REJECTION_PENALTY = 2;
+
+// Naive Bayes is overconfident because it treats words as independent;
+// flatten the softmax so confidences read closer to real hit rates
+const TEMPERATURE = 2;
+
+// Share of the note's tokens a rejection must have seen to count as similar
+const REJECTION_OVERLAP = 0.5;
+
+/**
+ * Lowercase words of a note without accents; single characters and pure
+ * numbers (card and reference numbers) carry no signal and are dropped
+ */
+export const tokenize = (text = ''): string[] => [
+  ...new Set(
+    text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((token) => token.length > 1 && !/^\d+$/.test(token)),
+  ),
+];
+
+interface CategoryStats {
+  weight: number;
+  tokenCounts: Map<string, number>;
+  tokenTotal: number;
+  logAmounts: { value: number; weight: number }[];
+}
+
+const buildStats = (examples: TrainingExample[]) => {
+  const stats = new Map<string, CategoryStats>();
+  const vocabulary = new Set<string>();
+
+  for (const example of examples) {
+    const entry = stats.get(example.category) ?? {
+      weight: 0,
+      tokenCounts: new Map<string, number>(),
+      tokenTotal: 0,
+      logAmounts: [],
+    };
+    entry.weight += example.weight;
+    for (const token of example.tokens) {
+      vocabulary.add(token);
+      entry.tokenCounts.set(token, (entry.tokenCounts.get(token) ?? 0) + example.weight);
+      entry.tokenTotal += example.weight;
+    }
+    if (example.amount) {
+      entry.logAmounts.push({ value: Math.log(example.amount), weight: example.weight });
+    }
+    stats.set(example.category, entry);
+  }
+  return { stats, vocabulary };
+};
+
+/**
+ * Log-density of `value` under the category's weighted log-amount
+ * distribution, or null when the category has no amounts to compare with
+ */
+const amountLogLikelihood = (stats: CategoryStats, value: number): number | null => {
+  const total = stats.logAmounts.reduce((sum, entry) => sum + entry.weight, 0);
+  if (total === 0) return null;
+
+  const mean = stats.logAmounts.reduce((sum, entry) => sum + entry.value * entry.weight, 0) / total;
+  const variance =
+    stats.logAmounts.reduce((sum, entry) => sum + (entry.value - mean) ** 2 * entry.weight, 0) /
+    total;
+  const spread = Math.max(Math.sqrt(variance), MIN_LOG_SPREAD);
+  return -0.5 * ((value - mean) / spread) ** 2 - Math.log(spread);
+};
+
+/**
+ * Rank categories for a note and amount, best first
+ */
+export const scoreCategories = (
+  examples: TrainingExample[],
+  rejections: Rejection[],
+  query: { tokens: string[]; amount?: number },
+): CategoryScore[] => {
+  const { stats, vocabulary } = buildStats(examples);
+  if (stats.size === 0) return [];
+
+  const totalWeight = [...stats.values()].reduce((sum, entry) => sum + entry.weight, 0);
+  // Tokens never seen before say nothing about any category
+  const known = query.tokens.filter((token) => vocabulary.has(token));
+  const logAmount = query.amount ? Math.log(query.amount) : null;
+
+  const scores = [...stats.entries()].map(([category, entry]) => {
+    let score = Math.log((entry.weight + 1) / (totalWeight + stats.size));
+    for (const token of known) {
+      score += Math.log(
+        ((entry.tokenCounts.get(token) ?? 0) + SMOOTHING) /
+          (entry.tokenTotal + SMOOTHING * vocabulary.size),
+      );
+    }
+    return {
+      category,
+      score,
+      amount: logAmount === null ? null : amountLogLikelihood(entry, logAmount),
+    };
+  });
+
+  // Categories without comparable amounts get the least likely known value,
+  // so having no data is never better than having some
+  const amounts = scores.map((entry) => entry.amount).filter((value) => value !== null);
+  const fallback = amounts.length > 0 ? Math.min(...amounts) : 0;
+
+  for (const entry of scores) {
+    entry.score += AMOUNT_WEIGHT * (entry.amount ?? fallback);
+    for (const rejection of rejections) {
+      if (rejection.category !== entry.category || query.tokens.length === 0) continue;
+      const overlap =
+        query.tokens.filter((token) => rejection.tokens.includes(token)).length /
+        query.tokens.length;
+      if (overlap >= REJECTION_OVERLAP) {
+        entry.score -= REJECTION_PENALTY * overlap;
+      }
+    }
+  }
+
+  const best = Math.max(...scores.map((entry) => entry.score));
+  const exponentials = scores.map((entry) => Math.exp((entry.score - best) / TEMPERATURE));
+  const sum = exponentials.reduce((total, value) => total + value, 0);
+
+  return scores
+    .map((entry, index) => ({
+      category: entry.category,
+      confidence: exponentials[index] / sum,
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+};
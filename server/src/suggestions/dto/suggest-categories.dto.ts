@@ -0,0 +1,20 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { positiveMinorUnitsSchema } from '../../common/validation/money.schema';
+import { currencyCodeSchema } from '../../common/validation/currency.schema';
+
+export const suggestCategoriesSchema = z.object({
+  type: z.enum(['income', 'expense'], {
+    errorMap: () => ({ message: 'Type must be either income or expense' }),
+  }),
+  note: z.string().trim().max(500, 'Note must be at most 500 characters').default(''),
+  amount: z.coerce
+    .number({ invalid_type_error: 'Amount must be a number' })
+    .pipe(positiveMinorUnitsSchema())
+    .optional(),
+  // Currency of `amount`; defaults to the user's base currency
+  currency: currencyCodeSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(10).default(3),
+});
+
+export class SuggestCategoriesDto extends createZodDto(suggestCategoriesSchema) {}
@@ -0,0 +1,19 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+import { positiveMinorUnitsSchema } from '../../common/validation/money.schema';
+import { currencyCodeSchema } from '../../common/validation/currency.schema';
+
+export const suggestionFeedbackSchema = z.object({
+  type: z.enum(['income', 'expense'], {
+    errorMap: () => ({ message: 'Type must be either income or expense' }),
+  }),
+  note: z.string().trim().max(500, 'Note must be at most 500 characters').default(''),
+  amount: positiveMinorUnitsSchema().optional(),
+  currency: currencyCodeSchema.optional(),
+  // The suggested category
+  category: objectIdSchema,
+  accepted: z.boolean({ required_error: 'Accepted is required' }),
+});
+
+export class SuggestionFeedbackDto extends createZodDto(suggestionFeedbackSchema) {}
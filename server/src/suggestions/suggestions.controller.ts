@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SuggestionsService } from './suggestions.service';
+import { SuggestCategoriesDto } from './dto/suggest-categories.dto';
+import { SuggestionFeedbackDto } from './dto/suggestion-feedback.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+
+@ApiTags('Suggestions')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('suggestions')
+export class SuggestionsController {
+  constructor(private readonly suggestionsService: SuggestionsService) {}
+
+  @Get('categories')
+  @ApiOperation({ summary: 'Suggest categories for a note and amount from past transactions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category suggestions retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async suggestCategories(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: SuggestCategoriesDto,
+  ) {
+    return this.suggestionsService.suggestCategories(user.userId, query);
+  }
+
+  @Post('categories/feedback')
+  @ApiOperation({ summary: 'Accept or reject a category suggestion' })
+  @ApiResponse({
+    status: 201,
+    description: 'Feedback recorded successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async recordFeedback(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() feedbackDto: SuggestionFeedbackDto,
+  ) {
+    return this.suggestionsService.recordFeedback(user.userId, feedbackDto);
+  }
+}
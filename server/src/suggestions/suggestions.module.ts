@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SuggestionsController } from './suggestions.controller';
+import { SuggestionsService } from './suggestions.service';
+import { Transaction, TransactionSchema } from '../schemas/transaction.schema';
+import { Category, CategorySchema } from '../schemas/category.schema';
+import {
+  SuggestionFeedback,
+  SuggestionFeedbackSchema,
+} from '../schemas/suggestion-feedback.schema';
+import { AuthModule } from '../auth/auth.module';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: Category.name, schema: CategorySchema },
+      { name: SuggestionFeedback.name, schema: SuggestionFeedbackSchema },
+    ]),
+    AuthModule,
+    ExchangeRatesModule,
+  ],
+  controllers: [SuggestionsController],
+  providers: [SuggestionsService],
+  exports: [SuggestionsService],
+})
+export class SuggestionsModule {}
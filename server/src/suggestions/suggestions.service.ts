@@ -0,0 +1,175 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Transaction,
+  TransactionDocument,
+} from '../schemas/transaction.schema';
+import { Category, CategoryDocument } from '../schemas/category.schema';
+import {
+  SuggestionFeedback,
+  SuggestionFeedbackDocument,
+} from '../schemas/suggestion-feedback.schema';
+import {
+  AppException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { scoreCategories, tokenize, TrainingExample } from './category-model';
+import { SuggestCategoriesDto } from './dto/suggest-categories.dto';
+import { SuggestionFeedbackDto } from './dto/suggestion-feedback.dto';
+
+// Most recent categorized transactions the model learns from; habits change,
+// so older history adds little
+const HISTORY_SIZE = 1000;
+
+const FEEDBACK_SIZE = 500;
+
+// An accepted suggestion counts as much as this many plain transactions
+const ACCEPTED_WEIGHT = 3;
+
+@Injectable()
+export class SuggestionsService {
+  constructor(
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(SuggestionFeedback.name)
+    private feedbackModel: Model<SuggestionFeedbackDocument>,
+    private exchangeRatesService: ExchangeRatesService,
+  ) {}
+
+  /**
+   * Suggest categories for a transaction being entered, ranked by
+   * confidence. The model is built from the user's own history on each
+   * request, so there is nothing to train or keep in sync.
+   */
+  async suggestCategories(userId: string, query: SuggestCategoriesDto) {
+    try {
+      const { type, note, amount, limit } = query;
+      const ownerId = new Types.ObjectId(userId);
+      const currency =
+        query.currency ?? (await this.exchangeRatesService.getBaseCurrency(userId));
+
+      const tokens = tokenize(note);
+      if (tokens.length === 0 && !amount) {
+        return {
+          success: true,
+          message: 'Category suggestions retrieved successfully',
+          data: {
+            suggestions: [],
+          },
+        };
+      }
+
+      const [history, feedback, categories] = await Promise.all([
+        this.transactionModel
+          .find({ userId: ownerId, type, category: { $ne: null } })
+          .sort({ date: -1 })
+          .limit(HISTORY_SIZE)
+          .select('note amount currency category')
+          .lean(),
+        this.feedbackModel
+          .find({ userId: ownerId, type })
+          .sort({ createdAt: -1 })
+          .limit(FEEDBACK_SIZE)
+          .lean(),
+        this.categoryModel
+          .find({ userId: ownerId, type, isArchived: false })
+          .select('name icon color parent')
+          .lean(),
+      ]);
+
+      const examples: TrainingExample[] = [
+        ...history.map((transaction) => ({
+          category: transaction.category.toString(),
+          tokens: tokenize(transaction.note),
+          amount: transaction.currency === currency ? transaction.amount : undefined,
+          weight: 1,
+        })),
+        ...feedback
+          .filter((entry) => entry.accepted)
+          .map((entry) => ({
+            category: entry.category.toString(),
+            tokens: entry.tokens,
+            amount: entry.currency === currency ? entry.amount : undefined,
+            weight: ACCEPTED_WEIGHT,
+          })),
+      ];
+      const rejections = feedback
+        .filter((entry) => !entry.accepted)
+        .map((entry) => ({ category: entry.category.toString(), tokens: entry.tokens }));
+
+      const byId = new Map(
+        categories.map((category) => [category._id.toString(), category]),
+      );
+      const suggestions = scoreCategories(examples, rejections, { tokens, amount })
+        // Archived or deleted categories can still appear in history
+        .filter((score) => byId.has(score.category))
+        .slice(0, limit)
+        .map((score) => ({
+          category: byId.get(score.category),
+          confidence: Math.round(score.confidence * 100) / 100,
+        }));
+
+      return {
+        success: true,
+        message: 'Category suggestions retrieved successfully',
+        data: {
+          suggestions,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to suggest categories');
+    }
+  }
+
+  /**
+   * Record that the user accepted or rejected a suggestion
+   */
+  async recordFeedback(userId: string, feedbackDto: SuggestionFeedbackDto) {
+    try {
+      const { type, note, amount, currency, category, accepted } = feedbackDto;
+      const ownerId = new Types.ObjectId(userId);
+      const categoryId = new Types.ObjectId(category);
+
+      const found = await this.categoryModel
+        .findOne({ _id: categoryId, userId: ownerId })
+        .select('type')
+        .lean();
+      if (!found) {
+        throw new ValidationException('Category not found');
+      }
+      if (found.type !== type) {
+        throw new ValidationException(`Category must be an ${type} category`);
+      }
+
+      const amountCurrency = amount
+        ? currency ?? (await this.exchangeRatesService.getBaseCurrency(userId))
+        : undefined;
+
+      await this.feedbackModel.create({
+        userId: ownerId,
+        type,
+        tokens: tokenize(note),
+        amount,
+        currency: amountCurrency,
+        category: categoryId,
+        accepted,
+      });
+
+      return {
+        success: true,
+        message: 'Feedback recorded successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to record feedback');
+    }
+  }
+}
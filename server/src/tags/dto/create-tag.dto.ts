@@ -0,0 +1,11 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { tagNameSchema } from '../../common/validation/tags.schema';
+import { categoryColorSchema } from '../../categories/dto/create-category.dto';
+
+export const createTagSchema = z.object({
+  name: tagNameSchema,
+  color: categoryColorSchema.optional(),
+});
+
+export class CreateTagDto extends createZodDto(createTagSchema) {}
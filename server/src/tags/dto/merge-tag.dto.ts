@@ -0,0 +1,9 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+
+export const mergeTagSchema = z.object({
+  targetId: objectIdSchema,
+});
+
+export class MergeTagDto extends createZodDto(mergeTagSchema) {}
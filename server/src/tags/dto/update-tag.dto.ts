@@ -0,0 +1,10 @@
+import { createZodDto } from 'nestjs-zod';
+import { createTagSchema } from './create-tag.dto';
+
+export const updateTagSchema = createTagSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export class UpdateTagDto extends createZodDto(updateTagSchema) {}
@@ -0,0 +1,134 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { TagsService } from './tags.service';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import { MergeTagDto } from './dto/merge-tag.dto';
+import { AutocompleteTagsDto } from './dto/autocomplete-tags.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ParseObjectIdPipe } from '../common/pipes/parse-object-id.pipe';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+
+@ApiTags('Tags')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('tags')
+export class TagsController {
+  constructor(private readonly tagsService: TagsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List tags with how many transactions carry each' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tags retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async findAll(@CurrentUser() user: { userId: string; email: string }) {
+    return this.tagsService.findAll(user.userId);
+  }
+
+  @Get('autocomplete')
+  @ApiOperation({ summary: 'Tags starting with the typed text' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tags retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async autocomplete(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: AutocompleteTagsDto,
+  ) {
+    return this.tagsService.autocomplete(user.userId, query);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a tag' })
+  @ApiResponse({
+    status: 201,
+    description: 'Tag created successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Tag already exists', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() createTagDto: CreateTagDto,
+  ) {
+    return this.tagsService.create(user.userId, createTagDto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename or recolor a tag' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tag updated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Tag not found', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Tag already exists', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async update(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() updateTagDto: UpdateTagDto,
+  ) {
+    return this.tagsService.update(user.userId, id, updateTagDto);
+  }
+
+  @Post(':id/merge')
+  @ApiOperation({ summary: 'Merge a tag into another, retagging its transactions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tags merged successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Tag not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async merge(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body() mergeTagDto: MergeTagDto,
+  ) {
+    return this.tagsService.merge(user.userId, id, mergeTagDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a tag and remove it from its transactions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tag deleted successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Tag not found', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async remove(
+    @CurrentUser() user: { userId: string; email: string },
+    @Param('id', ParseObjectIdPipe) id: string,
+  ) {
+    return this.tagsService.remove(user.userId, id);
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { TagsController } from './tags.controller';
+import { TagsService } from './tags.service';
+import { Tag, TagSchema } from '../schemas/tag.schema';
+import { Transaction, TransactionSchema } from '../schemas/transaction.schema';
+import {
+  CategorizationRule,
+  CategorizationRuleSchema,
+} from '../schemas/categorization-rule.schema';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Tag.name, schema: TagSchema },
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: CategorizationRule.name, schema: CategorizationRuleSchema },
+    ]),
+    AuthModule,
+  ],
+  controllers: [TagsController],
+  providers: [TagsService],
+  exports: [TagsService],
+})
+export class TagsModule {}
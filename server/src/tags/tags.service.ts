@@ -0,0 +1,300 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import { Tag, TagDocument } from '../schemas/tag.schema';
+import {
+  Transaction,
+  TransactionDocument,
+} from '../schemas/transaction.schema';
+import {
+  CategorizationRule,
+  CategorizationRuleDocument,
+} from '../schemas/categorization-rule.schema';
+import {
+  AppException,
+  ConflictException,
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { escapeRegex } from '../common/utils/escape-regex';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import { MergeTagDto } from './dto/merge-tag.dto';
+import { AutocompleteTagsDto } from './dto/autocomplete-tags.dto';
+
+const DUPLICATE_KEY = 11000;
+
+@Injectable()
+export class TagsService {
+  constructor(
+    @InjectModel(Tag.name) private tagModel: Model<TagDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(CategorizationRule.name)
+    private ruleModel: Model<CategorizationRuleDocument>,
+  ) {}
+
+  private async findOwned(userId: string, id: string) {
+    const tag = await this.tagModel.findOne({
+      _id: new Types.ObjectId(id),
+      userId: new Types.ObjectId(userId),
+    });
+    if (!tag) {
+      throw new NotFoundException('Tag not found');
+    }
+    return tag;
+  }
+
+  private async assertUniqueName(
+    userId: string,
+    name: string,
+    excludeId?: Types.ObjectId,
+  ) {
+    const filter: FilterQuery<TagDocument> = {
+      userId: new Types.ObjectId(userId),
+      name,
+    };
+    if (excludeId) filter._id = { $ne: excludeId };
+
+    if (await this.tagModel.exists(filter)) {
+      throw new ConflictException(
+        'A tag with this name already exists. Merge the tags instead.',
+      );
+    }
+  }
+
+  /**
+   * Ids of the named tags, in the same order, creating any the user does not
+   * have yet. Used wherever tags are given by name (transactions, rules).
+   */
+  async resolve(userId: string, names: string[]): Promise<Types.ObjectId[]> {
+    const ownerId = new Types.ObjectId(userId);
+    const upsert = (name: string) =>
+      this.tagModel
+        .findOneAndUpdate(
+          { userId: ownerId, name },
+          { $setOnInsert: { userId: ownerId, name } },
+          { upsert: true, new: true },
+        )
+        .select('_id')
+        .lean();
+
+    return Promise.all(
+      names.map(async (name) => {
+        try {
+          return (await upsert(name))._id;
+        } catch (error: unknown) {
+          // Another request created the same tag first
+          if ((error as { code?: number }).code !== DUPLICATE_KEY) throw error;
+          return (await upsert(name))._id;
+        }
+      }),
+    );
+  }
+
+  /**
+   * All tags with the number of transactions carrying each
+   */
+  async findAll(userId: string) {
+    try {
+      const ownerId = new Types.ObjectId(userId);
+      const [tags, usage] = await Promise.all([
+        this.tagModel.find({ userId: ownerId }).sort({ name: 1 }).lean(),
+        this.transactionModel.aggregate<{ _id: Types.ObjectId; count: number }>([
+          { $match: { userId: ownerId, 'tags.0': { $exists: true } } },
+          { $unwind: '$tags' },
+          { $group: { _id: '$tags', count: { $sum: 1 } } },
+        ]),
+      ]);
+      const counts = new Map(
+        usage.map((entry) => [entry._id.toString(), entry.count]),
+      );
+
+      return {
+        success: true,
+        message: 'Tags retrieved successfully',
+        data: {
+          tags: tags.map((tag) => ({
+            ...tag,
+            transactionCount: counts.get(tag._id.toString()) ?? 0,
+          })),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve tags');
+    }
+  }
+
+  /**
+   * Tags starting with what the user has typed so far
+   */
+  async autocomplete(userId: string, query: AutocompleteTagsDto) {
+    try {
+      const { q, limit } = query;
+      const filter: FilterQuery<TagDocument> = {
+        userId: new Types.ObjectId(userId),
+      };
+      if (q) filter.name = { $regex: `^${escapeRegex(q.toLowerCase())}` };
+
+      const tags = await this.tagModel
+        .find(filter)
+        .sort({ name: 1 })
+        .limit(limit)
+        .select('name color')
+        .lean();
+
+      return {
+        success: true,
+        message: 'Tags retrieved successfully',
+        data: {
+          tags,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve tags');
+    }
+  }
+
+  async create(userId: string, createTagDto: CreateTagDto) {
+    try {
+      const { name, color } = createTagDto;
+      await this.assertUniqueName(userId, name);
+
+      const tag = await this.tagModel.create({
+        userId: new Types.ObjectId(userId),
+        name,
+        ...(color && { color }),
+      });
+
+      return {
+        success: true,
+        message: 'Tag created successfully',
+        data: {
+          tag: tag.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to create tag');
+    }
+  }
+
+  /**
+   * Rename or recolor a tag. Transactions refer to it by id, so they show
+   * the new name straight away.
+   */
+  async update(userId: string, id: string, updateTagDto: UpdateTagDto) {
+    try {
+      const tag = await this.findOwned(userId, id);
+      const { name, color } = updateTagDto;
+
+      if (name !== undefined && name !== tag.name) {
+        await this.assertUniqueName(userId, name, tag._id as Types.ObjectId);
+        tag.name = name;
+      }
+      if (color !== undefined) tag.color = color;
+      await tag.save();
+
+      return {
+        success: true,
+        message: 'Tag updated successfully',
+        data: {
+          tag: tag.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to update tag');
+    }
+  }
+
+  /**
+   * Merge the source tag into the target: transactions and rules carrying
+   * the source carry the target instead, and the source is deleted
+   */
+  async merge(userId: string, id: string, mergeTagDto: MergeTagDto) {
+    try {
+      const { targetId } = mergeTagDto;
+      if (targetId === id) {
+        throw new ValidationException('Cannot merge a tag into itself');
+      }
+
+      const source = await this.findOwned(userId, id);
+      const target = await this.findOwned(userId, targetId);
+      const ownerId = new Types.ObjectId(userId);
+
+      // Add before pulling, so nothing ends up with neither tag
+      await this.transactionModel.updateMany(
+        { userId: ownerId, tags: source._id },
+        { $addToSet: { tags: target._id } },
+      );
+      await this.ruleModel.updateMany(
+        { userId: ownerId, tags: source._id },
+        { $addToSet: { tags: target._id } },
+      );
+      const result = await this.transactionModel.updateMany(
+        { userId: ownerId, tags: source._id },
+        { $pull: { tags: source._id } },
+      );
+      await this.ruleModel.updateMany(
+        { userId: ownerId, tags: source._id },
+        { $pull: { tags: source._id } },
+      );
+      await this.tagModel.deleteOne({ _id: source._id });
+
+      return {
+        success: true,
+        message: 'Tags merged successfully',
+        data: {
+          tag: target.toObject(),
+          movedTransactions: result.modifiedCount,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to merge tags');
+    }
+  }
+
+  /**
+   * Delete a tag and remove it from every transaction and rule
+   */
+  async remove(userId: string, id: string) {
+    try {
+      const tag = await this.findOwned(userId, id);
+      const ownerId = new Types.ObjectId(userId);
+
+      await this.transactionModel.updateMany(
+        { userId: ownerId, tags: tag._id },
+        { $pull: { tags: tag._id } },
+      );
+      await this.ruleModel.updateMany(
+        { userId: ownerId, tags: tag._id },
+        { $pull: { tags: tag._id } },
+      );
+      await tag.deleteOne();
+
+      return {
+        success: true,
+        message: 'Tag deleted successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to delete tag');
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+import { positiveMinorUnitsSchema } from '../../common/validation/money.schema';
+import { tagsSchema } from '../../common/validation/tags.schema';
+import {
+  currencyCodeSchema,
+  exchangeRateSchema,
+} from '../../common/validation/currency.schema';
+
+export const MAX_SPLIT_LINES = 20;
+
+export const transactionSplitSchema = z.object({
+  category: objectIdSchema.nullable().optional(),
+  amount: positiveMinorUnitsSchema('Split amount'),
+  note: z.string().trim().max(500, 'Note must be at most 500 characters').optional(),
+});
+
+// Lines must add up to the transaction amount; checked by the service, which
+// also knows the stored amount on updates
+export const splitsSchema = z
+  .array(transactionSplitSchema)
+  .min(2, 'A split needs at least two lines')
+  .max(MAX_SPLIT_LINES, `A split can have at most ${MAX_SPLIT_LINES} lines`);
+
+export const createTransactionSchema = z.object({
+  amount: positiveMinorUnitsSchema(),
+  type: z.enum(['income', 'expense'], {
+    errorMap: () => ({ message: 'Type must be either income or expense' }),
+  }),
+  date: z.coerce.date({ invalid_type_error: 'Please provide a valid date' }),
+  note: z.string().trim().max(500, 'Note must be at most 500 characters').optional(),
+  category: objectIdSchema.nullable().optional(),
+  // Spread the amount over several categories instead of setting `category`
+  splits: splitsSchema.optional(),
+  // Tag names; tags the user does not have yet are created
+  tags: tagsSchema.optional(),
+  // Matched from the note when omitted; null records no payee
+  payee: objectIdSchema.nullable().optional(),
+  account: objectIdSchema.nullable().optional(),
+  // Defaults to the account's currency, or the user's base currency
+  currency: currencyCodeSchema.optional(),
+  // Overrides the stored rate table for this transaction
+  exchangeRate: exchangeRateSchema.optional(),
+});
+
+export class CreateTransactionDto extends createZodDto(createTransactionSchema) {}
@@ -0,0 +1,68 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { objectIdSchema } from '../../common/validation/object-id.schema';
+import { listParam } from '../../common/validation/list-param.schema';
+import {
+  dateBoundSchema,
+  isOrderedDateRange,
+} from '../../common/validation/time-zone.schema';
+import { decodeCursor } from '../transaction-cursor';
+
+// Amount filters compare baseAmount, in minor units of the base currency
+const amountBoundSchema = (label: string) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .int(`${label} must be a whole number of minor units (e.g. cents)`)
+    .min(0, `${label} cannot be negative`)
+    .safe(`${label} is too large`);
+
+export const listTransactionsSchema = z
+  .object({
+    // nextCursor of the previous page; the first page when left out
+    cursor: z
+      .string()
+      .trim()
+      .transform((value, ctx) => {
+        const cursor = decodeCursor(value);
+        if (!cursor) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+          return z.NEVER;
+        }
+        return cursor;
+      })
+      .optional(),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1, 'Limit must be at least 1')
+      .max(100, 'Limit must be at most 100')
+      .default(20),
+    type: z.enum(['income', 'expense', 'transfer']).optional(),
+    // A date (YYYY-MM-DD) covers its whole day in the user's time zone
+    from: dateBoundSchema.optional(),
+    to: dateBoundSchema.optional(),
+    category: listParam(objectIdSchema).optional(),
+    account: listParam(objectIdSchema).optional(),
+    tag: listParam(objectIdSchema).optional(),
+    payee: objectIdSchema.optional(),
+    minAmount: amountBoundSchema('Minimum amount').optional(),
+    maxAmount: amountBoundSchema('Maximum amount').optional(),
+    // Matched against notes, split line notes and payee names
+    q: z.string().trim().max(100, 'Search must be at most 100 characters').optional(),
+  })
+  .refine(isOrderedDateRange, {
+    message: 'From date must be before to date',
+    path: ['from'],
+  })
+  .refine(
+    (data) =>
+      data.minAmount === undefined ||
+      data.maxAmount === undefined ||
+      data.minAmount <= data.maxAmount,
+    {
+      message: 'Minimum amount must not exceed maximum amount',
+      path: ['minAmount'],
+    },
+  );
+
+export class ListTransactionsDto extends createZodDto(listTransactionsSchema) {}
@@ -0,0 +1,14 @@
+import { createZodDto } from 'nestjs-zod';
+import { createTransactionSchema, splitsSchema } from './create-transaction.dto';
+
+export const updateTransactionSchema = createTransactionSchema
+  .extend({
+    // null turns a split transaction back into a plain one
+    splits: splitsSchema.nullable(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export class UpdateTransactionDto extends createZodDto(updateTransactionSchema) {}
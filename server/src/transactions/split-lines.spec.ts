@@ -0,0 +1,96 @@
+import { PipelineStage, Types } from 'mongoose';
+import {
+  lineCategoryFilter,
+  splitLineStages,
+  withSplitBaseAmounts,
+} from './split-lines';
+
+describe('split lines', () => {
+  describe('withSplitBaseAmounts', () => {
+    it('shares the base amount in proportion to line amounts', () => {
+      const lines = withSplitBaseAmounts(
+        [
+          { amount: 3000, note: 'groceries' },
+          { amount: 1000, note: 'household' },
+        ],
+        3600,
+      );
+      expect(lines).toEqual([
+        { amount: 3000, note: 'groceries', baseAmount: 2700 },
+        { amount: 1000, note: 'household', baseAmount: 900 },
+      ]);
+    });
+
+    it('keeps line base amounts adding up to the base amount exactly', () => {
+      const lines = withSplitBaseAmounts(
+        [{ amount: 1 }, { amount: 1 }, { amount: 1 }],
+        1000,
+      );
+      expect(lines.map((line) => line.baseAmount)).toEqual([334, 333, 333]);
+      expect(lines.reduce((sum, line) => sum + line.baseAmount, 0)).toBe(1000);
+    });
+
+    it('converts between currencies with different minor units', () => {
+      // 1500 JPY split 1000/500, posted as 10.00 USD
+      const lines = withSplitBaseAmounts(
+        [{ amount: 1000 }, { amount: 500 }],
+        1000,
+      );
+      expect(lines.map((line) => line.baseAmount)).toEqual([667, 333]);
+    });
+  });
+
+  describe('lineCategoryFilter', () => {
+    it('matches the category of a transaction or of any split line', () => {
+      const categories = [new Types.ObjectId(), new Types.ObjectId()];
+      expect(lineCategoryFilter(categories)).toEqual({
+        $or: [
+          { category: { $in: categories } },
+          { 'splits.category': { $in: categories } },
+        ],
+      });
+    });
+  });
+
+  describe('splitLineStages', () => {
+    it('unwinds split lines, or the transaction itself when not split', () => {
+      expect(splitLineStages().slice(0, 2)).toEqual<PipelineStage[]>([
+        {
+          $set: {
+            lines: {
+              $cond: [
+                { $gt: [{ $size: { $ifNull: ['$splits', []] } }, 0] },
+                '$splits',
+                [
+                  {
+                    category: '$category',
+                    amount: '$amount',
+                    baseAmount: '$baseAmount',
+                    note: '',
+                  },
+                ],
+              ],
+            },
+          },
+        },
+        { $unwind: '$lines' },
+      ]);
+    });
+
+    it('takes category and amounts from the line, falling back to the transaction note', () => {
+      expect(splitLineStages().slice(2)).toEqual<PipelineStage[]>([
+        {
+          $set: {
+            category: '$lines.category',
+            amount: '$lines.amount',
+            baseAmount: '$lines.baseAmount',
+            note: {
+              $cond: [{ $eq: ['$lines.note', ''] }, '$note', '$lines.note'],
+            },
+          },
+        },
+        { $unset: ['lines', 'splits'] },
+      ]);
+    });
+  });
+});
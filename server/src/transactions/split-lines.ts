@@ -0,0 +1,81 @@
+import { FilterQuery, PipelineStage, Types } from 'mongoose';
+import { allocateMinorUnits } from '../common/money/money';
+import {
+  TransactionDocument,
+  TransactionSplit,
+} from '../schemas/transaction.schema';
+
+/**
+ * Split transactions are counted line by line: anything that totals by
+ * category (budgets, reports, exports) works on "lines", which are the split
+ * lines of a split transaction or the transaction itself otherwise.
+ */
+
+/**
+ * Filter for transactions with at least one line in the given categories.
+ * Narrow the lines themselves with a second match after splitLineStages.
+ */
+export const lineCategoryFilter = (
+  categories: Types.ObjectId[],
+): FilterQuery<TransactionDocument> => ({
+  $or: [
+    { category: { $in: categories } },
+    { 'splits.category': { $in: categories } },
+  ],
+});
+
+/**
+ * Aggregation stages that turn each transaction into its lines. A line keeps
+ * every field of its transaction, with category, amount, baseAmount and note
+ * taken from the split line (the note falls back to the transaction's).
+ */
+export const splitLineStages = (): PipelineStage[] => [
+  {
+    $set: {
+      lines: {
+        $cond: [
+          { $gt: [{ $size: { $ifNull: ['$splits', []] } }, 0] },
+          '$splits',
+          [
+            {
+              category: '$category',
+              amount: '$amount',
+              baseAmount: '$baseAmount',
+              note: '',
+            },
+          ],
+        ],
+      },
+    },
+  },
+  { $unwind: '$lines' },
+  {
+    $set: {
+      category: '$lines.category',
+      amount: '$lines.amount',
+      baseAmount: '$lines.baseAmount',
+      note: {
+        $cond: [{ $eq: ['$lines.note', ''] }, '$note', '$lines.note'],
+      },
+    },
+  },
+  { $unset: ['lines', 'splits'] },
+];
+
+/**
+ * Share the transaction's baseAmount across its split lines in proportion
+ * to their amounts
+ */
+export const withSplitBaseAmounts = <T extends Pick<TransactionSplit, 'amount'>>(
+  splits: T[],
+  baseAmount: number,
+): (T & { baseAmount: number })[] => {
+  const baseAmounts = allocateMinorUnits(
+    baseAmount,
+    splits.map((split) => split.amount),
+  );
+  return splits.map((split, index) => ({
+    ...split,
+    baseAmount: baseAmounts[index],
+  }));
+};
@@ -0,0 +1,37 @@
+import { Types } from 'mongoose';
+
+/**
+ * Position in the transaction list, which is sorted newest first by date and
+ * then by id. The next page starts right after the last transaction of the
+ * previous one, so transactions added meanwhile do not shift the pages the
+ * way an offset would.
+ */
+export interface TransactionCursor {
+  date: Date;
+  id: Types.ObjectId;
+}
+
+/**
+ * Opaque cursor string for the client to send back
+ */
+export const encodeCursor = (date: Date, id: Types.ObjectId): string =>
+  Buffer.from(`${date.getTime()}:${id.toString()}`).toString('base64url');
+
+/**
+ * The position a cursor string points at, or null when it is not one
+ */
+export const decodeCursor = (cursor: string): TransactionCursor | null => {
+  const [time, id] = Buffer.from(cursor, 'base64url').toString().split(':');
+  const date = new Date(Number(time));
+  if (!time || Number.isNaN(date.getTime()) || !/^[0-9a-f]{24}$/i.test(id ?? '')) {
+    return null;
+  }
+  return { date, id: new Types.ObjectId(id) };
+};
+
+/**
+ * Filter for the transactions after a cursor in list order
+ */
+export const afterCursor = ({ date, id }: TransactionCursor) => ({
+  $or: [{ date: { $lt: date } }, { date, _id: { $lt: id } }],
+});
@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { TransactionsController } from './transactions.controller';
+import { TransactionsService } from './transactions.service';
+import { Transaction, TransactionSchema } from '../schemas/transaction.schema';
+import { Category, CategorySchema } from '../schemas/category.schema';
+import { Account, AccountSchema } from '../schemas/account.schema';
+import { User, UserSchema } from '../schemas/user.schema';
+import { AuthModule } from '../auth/auth.module';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
+import { BudgetsModule } from '../budgets/budgets.module';
+import { RulesModule } from '../rules/rules.module';
+import { AttachmentsModule } from '../attachments/attachments.module';
+import { TagsModule } from '../tags/tags.module';
+import { PayeesModule } from '../payees/payees.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: Category.name, schema: CategorySchema },
+      { name: Account.name, schema: AccountSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    AuthModule,
+    ExchangeRatesModule,
+    BudgetsModule,
+    RulesModule,
+    AttachmentsModule,
+    TagsModule,
+    PayeesModule,
+  ],
+  controllers: [TransactionsController],
+  providers: [TransactionsService],
+  exports: [TransactionsService],
+})
+export class TransactionsModule {}
@@ -0,0 +1,709 @@
+import { Injectable } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, FilterQuery, Model, Types } from 'mongoose';
+import {
+  Transaction,
+  TransactionDocument,
+  TransactionSplit,
+} from '../schemas/transaction.schema';
+import { Category, CategoryDocument } from '../schemas/category.schema';
+import { Account, AccountDocument } from '../schemas/account.schema';
+import { User, UserDocument } from '../schemas/user.schema';
+import {
+  AppException,
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { convertMinorUnits } from '../common/money/money';
+import { escapeRegex } from '../common/utils/escape-regex';
+import {
+  addDays,
+  startOfLocalDay,
+  toDateRangeFilter,
+  toLocalDateString,
+} from '../common/dates/time-zone';
+import { BudgetsService } from '../budgets/budgets.service';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { RulesService } from '../rules/rules.service';
+import { AttachmentsService } from '../attachments/attachments.service';
+import { TagsService } from '../tags/tags.service';
+import { PayeesService } from '../payees/payees.service';
+import { CreateTransactionDto } from './dto/create-transaction.dto';
+import { UpdateTransactionDto } from './dto/update-transaction.dto';
+import { ListTransactionsDto } from './dto/list-transactions.dto';
+import {
+  lineCategoryFilter,
+  splitLineStages,
+  withSplitBaseAmounts,
+} from './split-lines';
+import { afterCursor, encodeCursor } from './transaction-cursor';
+
+type SplitInput = NonNullable<CreateTransactionDto['splits']>[number];
+
+export interface RecordTransactionInput extends CreateTransactionDto {
+  recurringRuleId?: Types.ObjectId;
+  recurringOccurrence?: number;
+  importBatchId?: Types.ObjectId;
+  externalId?: string;
+}
+
+@Injectable()
+export class TransactionsService {
+  constructor(
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(Account.name) private accountModel: Model<AccountDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectConnection() private connection: Connection,
+    private budgetsService: BudgetsService,
+    private exchangeRatesService: ExchangeRatesService,
+    private rulesService: RulesService,
+    private attachmentsService: AttachmentsService,
+    private tagsService: TagsService,
+    private payeesService: PayeesService,
+  ) {}
+
+  /**
+   * Convert optional id strings from DTOs into ObjectIds (null clears the reference)
+   */
+  private toObjectId(id?: string | null): Types.ObjectId | null | undefined {
+    if (id === undefined) return undefined;
+    return id === null ? null : new Types.ObjectId(id);
+  }
+
+  /**
+   * Ensure a category belongs to the user, matches the transaction type and
+   * is not archived
+   */
+  async assertCategory(
+    userId: string,
+    categoryId: Types.ObjectId,
+    type: string,
+  ) {
+    const category = await this.categoryModel
+      .findOne({ _id: categoryId, userId: new Types.ObjectId(userId) })
+      .select('type isArchived')
+      .lean();
+    if (!category) {
+      throw new ValidationException('Category not found');
+    }
+    if (category.type !== type) {
+      throw new ValidationException(`Category must be an ${type} category`);
+    }
+    if (category.isArchived) {
+      throw new ValidationException('Category is archived');
+    }
+  }
+
+  /**
+   * Ensure an account belongs to the user and is not archived
+   */
+  async assertAccount(userId: string, accountId: Types.ObjectId) {
+    const account = await this.accountModel
+      .findOne({ _id: accountId, userId: new Types.ObjectId(userId) })
+      .select('currency isArchived')
+      .lean();
+    if (!account) {
+      throw new ValidationException('Account not found');
+    }
+    if (account.isArchived) {
+      throw new ValidationException('Account is archived');
+    }
+    return account;
+  }
+
+  /**
+   * Validate split lines for a transaction of the given type and amount:
+   * they must add up to the amount exactly and each category must suit the
+   * type. Base amounts are filled in later, once the conversion is known.
+   */
+  private async toSplits(
+    userId: string,
+    splits: SplitInput[],
+    type: string,
+    amount: number,
+  ): Promise<Omit<TransactionSplit, 'baseAmount'>[]> {
+    const total = splits.reduce((sum, split) => sum + split.amount, 0);
+    if (total !== amount) {
+      throw new ValidationException(
+        `Split lines must add up to the transaction amount (${amount}), got ${total}`,
+      );
+    }
+
+    const categoryIds = [
+      ...new Set(splits.map((split) => split.category).filter(Boolean)),
+    ];
+    for (const categoryId of categoryIds) {
+      await this.assertCategory(userId, new Types.ObjectId(categoryId), type);
+    }
+
+    return splits.map((split) => ({
+      category: this.toObjectId(split.category) ?? null,
+      amount: split.amount,
+      note: split.note || '',
+    }));
+  }
+
+  /**
+   * Budget alerts for every category an expense counts towards: its own, or
+   * those of its split lines
+   */
+  private async checkBudgetAlerts(
+    userId: string,
+    transaction: Pick<Transaction, 'type' | 'category' | 'splits' | 'date'>,
+  ) {
+    if (transaction.type !== 'expense') return;
+
+    const categories = transaction.splits?.length
+      ? transaction.splits.map((split) => split.category)
+      : [transaction.category];
+    const distinct = new Map(
+      categories.filter(Boolean).map((category) => [category.toString(), category]),
+    );
+    for (const category of distinct.values()) {
+      await this.budgetsService.checkAlerts(userId, category, transaction.date);
+    }
+  }
+
+  /**
+   * A transaction on an account is always in the account's currency;
+   * otherwise it defaults to the user's base currency
+   */
+  async resolveCurrency(
+    userId: string,
+    requested?: string,
+    accountCurrency?: string,
+  ) {
+    if (accountCurrency) {
+      if (requested && requested !== accountCurrency) {
+        throw new ValidationException(
+          `Currency must match the account currency (${accountCurrency})`,
+        );
+      }
+      return accountCurrency;
+    }
+    return requested || this.exchangeRatesService.getBaseCurrency(userId);
+  }
+
+  /**
+   * Validate and insert a transaction, then run the post-create hooks.
+   * Shared by the API and server-side producers such as recurring rules;
+   * errors are not wrapped so callers can react to them. When `category` is
+   * omitted (not null) and the transaction is not split, the first matching
+   * categorization rule fills it in; likewise an omitted `payee` is looked
+   * up from the note.
+   */
+  async record(
+    userId: string,
+    input: RecordTransactionInput,
+  ): Promise<TransactionDocument> {
+    const {
+      amount,
+      type,
+      date,
+      note,
+      category,
+      splits,
+      account,
+      tags,
+      payee,
+      currency,
+      exchangeRate,
+      ...origin
+    } = input;
+
+    if (splits && category) {
+      throw new ValidationException(
+        'A split transaction has no category of its own; set one on each line',
+      );
+    }
+    let categoryId = this.toObjectId(category) ?? null;
+    if (categoryId) {
+      await this.assertCategory(userId, categoryId, type);
+    }
+    const splitLines = splits
+      ? await this.toSplits(userId, splits, type, amount)
+      : [];
+    const accountId = this.toObjectId(account) ?? null;
+    const accountCurrency = accountId
+      ? (await this.assertAccount(userId, accountId)).currency
+      : undefined;
+
+    const transactionCurrency = await this.resolveCurrency(
+      userId,
+      currency,
+      accountCurrency,
+    );
+    const conversion = await this.exchangeRatesService.toBase(
+      userId,
+      amount,
+      transactionCurrency,
+      date,
+      exchangeRate,
+    );
+
+    let payeeId = this.toObjectId(payee);
+    if (payeeId) {
+      await this.payeesService.assertPayee(userId, payeeId.toString());
+    } else if (payeeId === undefined) {
+      payeeId = await this.payeesService.match(userId, note);
+    }
+
+    let transactionTags = await this.tagsService.resolve(userId, tags ?? []);
+    if (category === undefined && splitLines.length === 0) {
+      const matched = await this.rulesService.match(userId, {
+        type,
+        note: note || '',
+        account: accountId,
+        baseAmount: conversion.baseAmount,
+      });
+      if (matched) {
+        categoryId = matched.category;
+        const known = new Set(transactionTags.map((tag) => tag.toString()));
+        transactionTags = [
+          ...transactionTags,
+          ...matched.tags.filter((tag) => !known.has(tag.toString())),
+        ];
+      }
+    }
+
+    const transaction = await this.transactionModel.create({
+      userId: new Types.ObjectId(userId),
+      amount,
+      currency: transactionCurrency,
+      ...conversion,
+      type,
+      date,
+      note: note || '',
+      category: categoryId,
+      splits: withSplitBaseAmounts(splitLines, conversion.baseAmount),
+      account: accountId,
+      tags: transactionTags,
+      payee: payeeId,
+      ...origin,
+    });
+
+    await this.checkBudgetAlerts(userId, transaction);
+
+    return transaction;
+  }
+
+  async create(userId: string, createTransactionDto: CreateTransactionDto) {
+    try {
+      const transaction = await this.record(userId, createTransactionDto);
+
+      return {
+        success: true,
+        message: 'Transaction created successfully',
+        data: {
+          transaction: transaction.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to create transaction');
+    }
+  }
+
+  /**
+   * Newest first, a page at a time: pass the nextCursor of a page to get the
+   * one after it. Each page comes with the income and expense totals of the
+   * days it covers (in the user's time zone), counting every matching
+   * transaction of those days, including ones on the next page.
+   */
+  async findAll(userId: string, query: ListTransactionsDto) {
+    try {
+      const {
+        cursor,
+        limit,
+        type,
+        from,
+        to,
+        category,
+        account,
+        tag,
+        payee,
+        minAmount,
+        maxAmount,
+        q,
+      } = query;
+
+      const user = await this.userModel.findById(userId).select('timezone').lean();
+      const timezone = user?.timezone || 'UTC';
+
+      const filter: FilterQuery<TransactionDocument> = {
+        userId: new Types.ObjectId(userId),
+      };
+      // Every condition that is itself an $or
+      const conditions: FilterQuery<TransactionDocument>[] = [];
+      const toObjectIds = (ids: string[]) => ids.map((id) => new Types.ObjectId(id));
+
+      const categoryIds = category?.length ? toObjectIds(category) : undefined;
+
+      if (type) filter.type = type;
+      if (categoryIds) conditions.push(lineCategoryFilter(categoryIds));
+      if (account?.length) filter.account = { $in: toObjectIds(account) };
+      if (tag?.length) filter.tags = { $in: toObjectIds(tag) };
+      if (payee) filter.payee = new Types.ObjectId(payee);
+      if (from || to) filter.date = toDateRangeFilter(from, to, timezone);
+      if (minAmount !== undefined || maxAmount !== undefined) {
+        filter.baseAmount = {};
+        if (minAmount !== undefined) filter.baseAmount.$gte = minAmount;
+        if (maxAmount !== undefined) filter.baseAmount.$lte = maxAmount;
+      }
+      if (q) {
+        const text = { $regex: escapeRegex(q), $options: 'i' };
+        const payees = await this.payeesService.search(userId, q);
+        conditions.push({
+          $or: [
+            { note: text },
+            { 'splits.note': text },
+            ...(payees.length ? [{ payee: { $in: payees } }] : []),
+          ],
+        });
+      }
+      if (conditions.length) filter.$and = conditions;
+
+      const pageFilter: FilterQuery<TransactionDocument> = cursor
+        ? { ...filter, $and: [...conditions, afterCursor(cursor)] }
+        : filter;
+
+      // One extra tells whether there is a next page
+      const rows = await this.transactionModel
+        .find(pageFilter)
+        .sort({ date: -1, _id: -1 })
+        .limit(limit + 1)
+        .lean();
+      const transactions = rows.slice(0, limit);
+      const last = transactions[transactions.length - 1];
+      const nextCursor =
+        rows.length > limit ? encodeCursor(last.date, last._id as Types.ObjectId) : null;
+
+      return {
+        success: true,
+        message: 'Transactions retrieved successfully',
+        data: {
+          transactions,
+          days: await this.dailyTotals(
+            filter,
+            conditions,
+            transactions,
+            timezone,
+            categoryIds,
+          ),
+          pagination: {
+            limit,
+            nextCursor,
+          },
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve transactions');
+    }
+  }
+
+  /**
+   * Income and expense totals of the local days a page of transactions
+   * falls on, over every transaction matching the list filter. Filtered by
+   * category, only the split lines in those categories count.
+   */
+  private async dailyTotals(
+    filter: FilterQuery<TransactionDocument>,
+    conditions: FilterQuery<TransactionDocument>[],
+    transactions: { date: Date }[],
+    timezone: string,
+    categories?: Types.ObjectId[],
+  ) {
+    if (transactions.length === 0) return [];
+
+    // Newest first, so the page spans from the last day to the first
+    const firstDay = toLocalDateString(transactions[transactions.length - 1].date, timezone);
+    const lastDay = toLocalDateString(transactions[0].date, timezone);
+
+    const rows = await this.transactionModel.aggregate<{
+      _id: { date: string; type: string };
+      total: number;
+      ids: Types.ObjectId[];
+    }>([
+      {
+        $match: {
+          ...filter,
+          $and: [
+            ...conditions,
+            {
+              date: {
+                $gte: startOfLocalDay(firstDay, timezone),
+                $lt: startOfLocalDay(addDays(lastDay, 1), timezone),
+              },
+            },
+          ],
+        },
+      },
+      ...(categories
+        ? [...splitLineStages(), { $match: { category: { $in: categories } } }]
+        : []),
+      {
+        $group: {
+          _id: {
+            date: { $dateToString: { format: '%Y-%m-%d', date: '$date', timezone } },
+            type: '$type',
+          },
+          total: { $sum: '$baseAmount' },
+          // Transactions, not lines
+          ids: { $addToSet: '$_id' },
+        },
+      },
+    ]);
+
+    const days = new Map<
+      string,
+      { date: string; income: number; expense: number; count: number }
+    >();
+    for (const row of rows) {
+      const day = days.get(row._id.date) ?? {
+        date: row._id.date,
+        income: 0,
+        expense: 0,
+        count: 0,
+      };
+      // Transfers are counted but move no money in or out
+      if (row._id.type === 'income') day.income += row.total;
+      if (row._id.type === 'expense') day.expense += row.total;
+      day.count += row.ids.length;
+      days.set(row._id.date, day);
+    }
+    return [...days.values()]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .map((day) => ({ ...day, net: day.income - day.expense }));
+  }
+
+  async findOne(userId: string, id: string) {
+    try {
+      const transaction = await this.transactionModel
+        .findOne({
+          _id: new Types.ObjectId(id),
+          userId: new Types.ObjectId(userId),
+        })
+        .lean();
+      if (!transaction) {
+        throw new NotFoundException('Transaction not found');
+      }
+
+      return {
+        success: true,
+        message: 'Transaction retrieved successfully',
+        data: {
+          transaction,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve transaction');
+    }
+  }
+
+  async update(
+    userId: string,
+    id: string,
+    updateTransactionDto: UpdateTransactionDto,
+  ) {
+    try {
+      const {
+        category,
+        splits,
+        account,
+        tags,
+        payee,
+        currency,
+        exchangeRate,
+        ...fields
+      } = updateTransactionDto;
+
+      const transaction = await this.transactionModel.findOne({
+        _id: new Types.ObjectId(id),
+        userId: new Types.ObjectId(userId),
+      });
+      if (!transaction) {
+        throw new NotFoundException('Transaction not found');
+      }
+      if (transaction.type === 'transfer') {
+        throw new ValidationException(
+          'Transfers cannot be edited. Delete the transfer and record it again.',
+        );
+      }
+
+      transaction.set(fields);
+      if (category !== undefined) transaction.category = this.toObjectId(category);
+      if (account !== undefined) transaction.account = this.toObjectId(account);
+      if (tags !== undefined) {
+        transaction.tags = await this.tagsService.resolve(userId, tags);
+      }
+      if (payee !== undefined) {
+        if (payee) await this.payeesService.assertPayee(userId, payee);
+        transaction.payee = this.toObjectId(payee);
+      }
+
+      if (splits !== undefined) {
+        transaction.splits = splits
+          ? withSplitBaseAmounts(
+              await this.toSplits(userId, splits, transaction.type, transaction.amount),
+              transaction.baseAmount,
+            )
+          : [];
+        // Splitting moves the category onto the lines
+        if (splits && category === undefined) transaction.category = null;
+      } else if (transaction.splits.length > 0) {
+        if (fields.amount !== undefined || fields.type !== undefined) {
+          await this.toSplits(
+            userId,
+            transaction.splits.map((split) => ({
+              category: split.category?.toString() ?? null,
+              amount: split.amount,
+            })),
+            transaction.type,
+            transaction.amount,
+          );
+        }
+      }
+      if (transaction.splits.length > 0 && transaction.category) {
+        throw new ValidationException(
+          'A split transaction has no category of its own; set one on each line',
+        );
+      }
+
+      // Re-check the category when either it or the transaction type changes
+      if (
+        transaction.category &&
+        (category !== undefined || fields.type !== undefined)
+      ) {
+        await this.assertCategory(
+          userId,
+          transaction.category,
+          transaction.type,
+        );
+      }
+
+      if (account !== undefined || currency !== undefined) {
+        const accountCurrency = transaction.account
+          ? (await this.assertAccount(userId, transaction.account)).currency
+          : undefined;
+        // Moving off an account keeps the current currency unless one is given
+        transaction.currency = await this.resolveCurrency(
+          userId,
+          currency ?? (accountCurrency ? undefined : transaction.currency),
+          accountCurrency,
+        );
+      }
+
+      // The rate applied at posting time is kept for amount and date edits;
+      // only a currency change or an explicit rate re-prices the transaction
+      if (exchangeRate !== undefined || transaction.isModified('currency')) {
+        transaction.set({
+          ...(await this.exchangeRatesService.toBase(
+            userId,
+            transaction.amount,
+            transaction.currency,
+            transaction.date,
+            exchangeRate,
+          )),
+          rebaseRate: 1,
+        });
+      } else if (transaction.isModified('amount')) {
+        transaction.baseAmount = convertMinorUnits(
+          transaction.amount,
+          transaction.currency,
+          transaction.baseCurrency,
+          transaction.exchangeRate * transaction.rebaseRate,
+        );
+      }
+
+      // Line base amounts follow any change to the transaction's
+      if (transaction.splits.length > 0) {
+        transaction.splits = withSplitBaseAmounts(
+          transaction.splits.map((split) => ({
+            category: split.category,
+            amount: split.amount,
+            note: split.note,
+          })),
+          transaction.baseAmount,
+        );
+      }
+
+      await transaction.save();
+
+      await this.checkBudgetAlerts(userId, transaction);
+
+      return {
+        success: true,
+        message: 'Transaction updated successfully',
+        data: {
+          transaction: transaction.toObject(),
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to update transaction');
+    }
+  }
+
+  async remove(userId: string, id: string) {
+    try {
+      const transaction = await this.transactionModel
+        .findOne({
+          _id: new Types.ObjectId(id),
+          userId: new Types.ObjectId(userId),
+        })
+        .select('transferId')
+        .lean();
+      if (!transaction) {
+        throw new NotFoundException('Transaction not found');
+      }
+
+      let removed = [transaction._id];
+      if (transaction.transferId) {
+        removed = await this.transactionModel.distinct('_id', {
+          userId: new Types.ObjectId(userId),
+          transferId: transaction.transferId,
+        });
+        // Removing either leg of a transfer removes both, atomically
+        const session = await this.connection.startSession();
+        try {
+          await session.withTransaction(async () => {
+            await this.transactionModel.deleteMany(
+              {
+                userId: new Types.ObjectId(userId),
+                transferId: transaction.transferId,
+              },
+              { session },
+            );
+          });
+        } finally {
+          await session.endSession();
+        }
+      } else {
+        await this.transactionModel.deleteOne({ _id: transaction._id });
+      }
+      await this.attachmentsService.removeForTransactions(userId, removed);
+
+      return {
+        success: true,
+        message: 'Transaction deleted successfully',
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to delete transaction');
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { currencyCodeSchema } from '../../common/validation/currency.schema';
+
+export const changeBaseCurrencySchema = z.object({
+  currency: currencyCodeSchema,
+});
+
+export class ChangeBaseCurrencyDto extends createZodDto(changeBaseCurrencySchema) {}
+
+export class BaseCurrencyPreviewQueryDto extends createZodDto(changeBaseCurrencySchema) {}
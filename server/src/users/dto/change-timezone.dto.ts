@@ -0,0 +1,9 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { timeZoneSchema } from '../../common/validation/time-zone.schema';
+
+export const changeTimezoneSchema = z.object({
+  timezone: timeZoneSchema,
+});
+
+export class ChangeTimezoneDto extends createZodDto(changeTimezoneSchema) {}
@@ -0,0 +1,143 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Put,
+  Delete,
+  Body,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import { UsersService } from './users.service';
+import {
+  BaseCurrencyPreviewQueryDto,
+  ChangeBaseCurrencyDto,
+} from './dto/change-base-currency.dto';
+import { ChangeTimezoneDto } from './dto/change-timezone.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ApiResponseDto, ApiErrorResponseDto } from '../common/dto/api-response.dto';
+
+const MAX_PROFILE_PHOTO_SIZE = 5 * 1024 * 1024;
+
+@ApiTags('Users')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('users')
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @Get('me')
+  @ApiOperation({ summary: 'Get the signed-in user profile' })
+  @ApiResponse({
+    status: 200,
+    description: 'Profile retrieved successfully',
+    type: ApiResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async getProfile(@CurrentUser() user: { userId: string; email: string }) {
+    return this.usersService.getProfile(user.userId);
+  }
+
+  @Put('me/profile-photo')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_PROFILE_PHOTO_SIZE } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiOperation({ summary: 'Upload a profile photo, replacing the current one' })
+  @ApiResponse({
+    status: 200,
+    description: 'Profile photo updated successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Unsupported or invalid image', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async updateProfilePhoto(
+    @CurrentUser() user: { userId: string; email: string },
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.usersService.updateProfilePhoto(user.userId, file);
+  }
+
+  @Delete('me/profile-photo')
+  @ApiOperation({ summary: 'Remove the profile photo' })
+  @ApiResponse({
+    status: 200,
+    description: 'Profile photo removed successfully',
+    type: ApiResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async removeProfilePhoto(@CurrentUser() user: { userId: string; email: string }) {
+    return this.usersService.removeProfilePhoto(user.userId);
+  }
+
+  @Patch('me/timezone')
+  @ApiOperation({ summary: 'Change the time zone reports are grouped in' })
+  @ApiResponse({
+    status: 200,
+    description: 'Time zone changed successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async changeTimezone(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() changeTimezoneDto: ChangeTimezoneDto,
+  ) {
+    return this.usersService.changeTimezone(user.userId, changeTimezoneDto.timezone);
+  }
+
+  @Get('me/base-currency/preview')
+  @ApiOperation({ summary: 'Preview the conversion applied when changing base currency' })
+  @ApiResponse({
+    status: 200,
+    description: 'Base currency change previewed successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async previewBaseCurrencyChange(
+    @CurrentUser() user: { userId: string; email: string },
+    @Query() query: BaseCurrencyPreviewQueryDto,
+  ) {
+    return this.usersService.previewBaseCurrencyChange(user.userId, query.currency);
+  }
+
+  @Patch('me/base-currency')
+  @ApiOperation({ summary: 'Change base currency, converting existing data at the latest rate' })
+  @ApiResponse({
+    status: 200,
+    description: 'Base currency changed successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Validation error or missing exchange rate', type: ApiErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async changeBaseCurrency(
+    @CurrentUser() user: { userId: string; email: string },
+    @Body() changeBaseCurrencyDto: ChangeBaseCurrencyDto,
+  ) {
+    return this.usersService.changeBaseCurrency(
+      user.userId,
+      changeBaseCurrencyDto.currency,
+    );
+  }
+}
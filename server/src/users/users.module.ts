@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+import { User, UserSchema } from '../schemas/user.schema';
+import { Transaction, TransactionSchema } from '../schemas/transaction.schema';
+import { Budget, BudgetSchema } from '../schemas/budget.schema';
+import {
+  CategorizationRule,
+  CategorizationRuleSchema,
+} from '../schemas/categorization-rule.schema';
+import {
+  RecurringRule,
+  RecurringRuleSchema,
+} from '../schemas/recurring-rule.schema';
+import { AuthModule } from '../auth/auth.module';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
+import { AttachmentsModule } from '../attachments/attachments.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: Transaction.name, schema: TransactionSchema },
+      { name: Budget.name, schema: BudgetSchema },
+      { name: CategorizationRule.name, schema: CategorizationRuleSchema },
+      { name: RecurringRule.name, schema: RecurringRuleSchema },
+    ]),
+    AuthModule,
+    ExchangeRatesModule,
+    AttachmentsModule,
+  ],
+  controllers: [UsersController],
+  providers: [UsersService],
+})
+export class UsersModule {}
@@ -0,0 +1,352 @@
+import { Injectable } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { Connection, Model, Types } from 'mongoose';
+import { User, UserDocument } from '../schemas/user.schema';
+import {
+  Transaction,
+  TransactionDocument,
+} from '../schemas/transaction.schema';
+import { Budget, BudgetDocument } from '../schemas/budget.schema';
+import {
+  CategorizationRule,
+  CategorizationRuleDocument,
+} from '../schemas/categorization-rule.schema';
+import {
+  RecurringRule,
+  RecurringRuleDocument,
+} from '../schemas/recurring-rule.schema';
+import {
+  AppException,
+  NotFoundException,
+  ValidationException,
+} from '../common/exceptions/app.exception';
+import { convertMinorUnits } from '../common/money/money';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { AttachmentsService } from '../attachments/attachments.service';
+import { withSplitBaseAmounts } from '../transactions/split-lines';
+
+const PROFILE_FIELDS =
+  '_id email name profilePath currency timezone isVerified createdAt';
+
+@Injectable()
+export class UsersService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(Transaction.name)
+    private transactionModel: Model<TransactionDocument>,
+    @InjectModel(Budget.name) private budgetModel: Model<BudgetDocument>,
+    @InjectModel(CategorizationRule.name)
+    private ruleModel: Model<CategorizationRuleDocument>,
+    @InjectModel(RecurringRule.name)
+    private recurringRuleModel: Model<RecurringRuleDocument>,
+    @InjectConnection() private connection: Connection,
+    private exchangeRatesService: ExchangeRatesService,
+    private attachmentsService: AttachmentsService,
+  ) {}
+
+  private async findUser(userId: string) {
+    const user = await this.userModel
+      .findById(userId)
+      .select(PROFILE_FIELDS)
+      .lean();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  /**
+   * Work out what switching base currency involves: how many records would
+   * be converted and the single current rate used for all of them
+   */
+  private async planBaseCurrencyChange(userId: string, currency: string) {
+    const user = await this.findUser(userId);
+    if (user.currency === currency) {
+      throw new ValidationException(`${currency} is already your base currency`);
+    }
+
+    const ownerId = new Types.ObjectId(userId);
+    const [transactions, budgets] = await Promise.all([
+      this.transactionModel.countDocuments({ userId: ownerId }),
+      this.budgetModel.countDocuments({ userId: ownerId }),
+    ]);
+    const rate = await this.exchangeRatesService.findRate(
+      userId,
+      user.currency,
+      currency,
+      new Date(),
+    );
+
+    return { from: user.currency, to: currency, rate, transactions, budgets };
+  }
+
+  async getProfile(userId: string) {
+    try {
+      const user = await this.findUser(userId);
+
+      return {
+        success: true,
+        message: 'Profile retrieved successfully',
+        data: {
+          user,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to retrieve profile');
+    }
+  }
+
+  /**
+   * Upload a new profile photo through the attachments storage; the profile
+   * path then points at it
+   */
+  async updateProfilePhoto(userId: string, file?: Express.Multer.File) {
+    try {
+      await this.findUser(userId);
+      await this.attachmentsService.setProfilePhoto(userId, file);
+      const user = await this.findUser(userId);
+
+      return {
+        success: true,
+        message: 'Profile photo updated successfully',
+        data: {
+          user,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to update profile photo');
+    }
+  }
+
+  async removeProfilePhoto(userId: string) {
+    try {
+      await this.findUser(userId);
+      await this.attachmentsService.removeProfilePhoto(userId);
+      const user = await this.findUser(userId);
+
+      return {
+        success: true,
+        message: 'Profile photo removed successfully',
+        data: {
+          user,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to remove profile photo');
+    }
+  }
+
+  /**
+   * Reports group days and months in this time zone from now on; stored
+   * dates are instants and never change
+   */
+  async changeTimezone(userId: string, timezone: string) {
+    try {
+      await this.findUser(userId);
+      await this.userModel.updateOne(
+        { _id: new Types.ObjectId(userId) },
+        { $set: { timezone } },
+      );
+      const user = await this.findUser(userId);
+
+      return {
+        success: true,
+        message: 'Time zone changed successfully',
+        data: {
+          user,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to change time zone');
+    }
+  }
+
+  async previewBaseCurrencyChange(userId: string, currency: string) {
+    try {
+      const plan = await this.planBaseCurrencyChange(userId, currency);
+
+      return {
+        success: true,
+        message: 'Base currency change previewed successfully',
+        data: plan,
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to preview base currency change');
+    }
+  }
+
+  /**
+   * Switch the user's base currency. Existing base amounts, budget limits
+   * and rule amount conditions are converted at the latest stored rate (not
+   * each transaction's historical rate) so that reports stay in a single
+   * currency. Each transaction keeps the exchange rate applied when it was
+   * posted; the change's rate is compounded into its `rebaseRate`.
+   */
+  async changeBaseCurrency(userId: string, currency: string) {
+    try {
+      const { from, to, rate, transactions, budgets } =
+        await this.planBaseCurrencyChange(userId, currency);
+
+      if (transactions + budgets > 0 && rate === null) {
+        throw new ValidationException(
+          `Add a ${from}/${to} exchange rate before changing your base currency`,
+        );
+      }
+
+      const ownerId = new Types.ObjectId(userId);
+      const session = await this.connection.startSession();
+      try {
+        await session.withTransaction(async () => {
+          const postedTransactions = await this.transactionModel
+            .find({ userId: ownerId, baseCurrency: from })
+            .select('amount currency baseAmount exchangeRate rebaseRate splits')
+            .session(session)
+            .lean();
+          if (postedTransactions.length > 0) {
+            await this.transactionModel.bulkWrite(
+              postedTransactions.map((transaction) => {
+                // Amounts already in the new base currency need no rate
+                const rebased =
+                  transaction.currency === to
+                    ? {
+                        baseAmount: transaction.amount,
+                        rebaseRate: 1 / transaction.exchangeRate,
+                      }
+                    : {
+                        baseAmount: convertMinorUnits(
+                          transaction.baseAmount,
+                          from,
+                          to,
+                          rate,
+                        ),
+                        rebaseRate: (transaction.rebaseRate ?? 1) * rate,
+                      };
+                // Split lines keep adding up to the new base amount
+                const splits = transaction.splits?.length
+                  ? {
+                      splits: withSplitBaseAmounts(
+                        transaction.splits,
+                        rebased.baseAmount,
+                      ),
+                    }
+                  : {};
+                return {
+                  updateOne: {
+                    filter: { _id: transaction._id },
+                    update: { $set: { ...rebased, ...splits, baseCurrency: to } },
+                  },
+                };
+              }),
+              { session },
+            );
+          }
+
+          const userBudgets = await this.budgetModel
+            .find({ userId: ownerId })
+            .select('amount')
+            .session(session)
+            .lean();
+          if (userBudgets.length > 0) {
+            await this.budgetModel.bulkWrite(
+              userBudgets.map((budget) => ({
+                updateOne: {
+                  filter: { _id: budget._id },
+                  update: {
+                    $set: {
+                      amount: Math.max(
+                        1,
+                        convertMinorUnits(budget.amount, from, to, rate),
+                      ),
+                    },
+                  },
+                },
+              })),
+              { session },
+            );
+          }
+
+          // Rule amount conditions compare against base amounts. Without a
+          // rate (a user with no data yet) they are kept as entered.
+          const amountRules =
+            rate === null
+              ? []
+              : await this.ruleModel
+                  .find({ userId: ownerId, 'conditions.field': 'amount' })
+                  .select('conditions')
+                  .session(session)
+                  .lean();
+          if (amountRules.length > 0) {
+            await this.ruleModel.bulkWrite(
+              amountRules.map((rule) => ({
+                updateOne: {
+                  filter: { _id: rule._id },
+                  update: {
+                    $set: {
+                      conditions: rule.conditions.map((condition) =>
+                        condition.field === 'amount'
+                          ? {
+                              ...condition,
+                              value: convertMinorUnits(condition.value, from, to, rate),
+                            }
+                          : condition,
+                      ),
+                    },
+                  },
+                },
+              })),
+              { session },
+            );
+          }
+
+          // Recurring rules keep posting in their own currency; pin rules
+          // saved before they had one to the currency they were entered in
+          await this.recurringRuleModel.updateMany(
+            { userId: ownerId, currency: { $exists: false } },
+            { $set: { currency: from } },
+            { session },
+          );
+
+          await this.userModel.updateOne(
+            { _id: ownerId },
+            { $set: { currency: to } },
+            { session },
+          );
+        });
+      } finally {
+        await session.endSession();
+      }
+
+      const user = await this.findUser(userId);
+
+      return {
+        success: true,
+        message: 'Base currency changed successfully',
+        data: {
+          user,
+          rate,
+          converted: { transactions, budgets },
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof AppException) {
+        throw error;
+      }
+      throw new AppException(500, 'Failed to change base currency');
+    }
+  }
+}